@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioAnalyser } from './AudioAnalyser.js';
+import { FakeAudioContext } from './testing/index.js';
+
+const SAMPLE_RATE = 8000;
+
+let fake: FakeAudioContext;
+let context: BaseAudioContext;
+let source: AudioBufferSourceNode;
+
+// A 1kHz sine at 0.8 on the left and a constant 0.25 on the right, looping
+function createSource(): AudioBufferSourceNode {
+  const buffer = context.createBuffer(2, SAMPLE_RATE, SAMPLE_RATE);
+  const left = buffer.getChannelData(0);
+  for (let i = 0; i < left.length; i++) {
+    left[i] = 0.8 * Math.sin(2 * Math.PI * 1000 * i / SAMPLE_RATE);
+  }
+  buffer.getChannelData(1).fill(0.25);
+
+  const node = context.createBufferSource();
+  node.buffer = buffer;
+  node.loop = true;
+  node.start();
+  return node;
+}
+
+beforeEach(() => {
+  fake = new FakeAudioContext({ sampleRate: SAMPLE_RATE });
+  context = fake as unknown as BaseAudioContext;
+  source = createSource();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AudioAnalyser', () => {
+  it('reports peak and RMS per channel', async () => {
+    const analyser = new AudioAnalyser({ fftSize: 1024 });
+    analyser.attach(context, source);
+    await fake.advance(0.25);
+
+    const [left, right] = analyser.getLevels();
+    expect(left.peak).toBeCloseTo(0.8, 2);
+    expect(left.rms).toBeCloseTo(0.8 / Math.SQRT2, 2);
+    expect(right).toEqual({ peak: 0.25, rms: expect.closeTo(0.25, 5) });
+  });
+
+  it('reads the spectrum and waveform of the channel mix', async () => {
+    const analyser = new AudioAnalyser({ fftSize: 1024, smoothing: 0 });
+    analyser.attach(context, source);
+    await fake.advance(0.25);
+
+    const spectrum = analyser.getFrequencyData();
+    const loudest = spectrum.indexOf(Math.max(...spectrum.subarray(1)));
+    expect(spectrum).toHaveLength(analyser.frequencyBinCount);
+    expect(analyser.getBinFrequency(loudest)).toBe(1000);
+
+    const waveform = analyser.getWaveform();
+    expect(waveform).toHaveLength(1024);
+    expect(Math.max(...waveform)).toBeCloseTo((0.8 + 0.25) / 2, 2);
+    // The same arrays are filled on every call
+    expect(analyser.getWaveform()).toBe(waveform);
+  });
+
+  it('reads as silence while detached', async () => {
+    const analyser = new AudioAnalyser({ fftSize: 256, minDecibels: -90 });
+    analyser.attach(context, source);
+    await fake.advance(0.1);
+
+    analyser.detach();
+
+    expect(analyser.isAttached()).toBe(false);
+    expect(analyser.getLevels()).toEqual([{ peak: 0, rms: 0 }, { peak: 0, rms: 0 }]);
+    expect(analyser.getWaveform().every(sample => sample === 0)).toBe(true);
+    expect(analyser.getFrequencyData().every(db => db === -90)).toBe(true);
+  });
+
+  it('rejects invalid FFT sizes and use after dispose()', () => {
+    expect(() => new AudioAnalyser({ fftSize: 1000 })).toThrow('fftSize must be a power of two between 32 and 32768, got 1000');
+    expect(() => new AudioAnalyser({ fftSize: 16 })).toThrow();
+
+    const onDispose = vi.fn();
+    const analyser = new AudioAnalyser({}, onDispose);
+    analyser.dispose();
+    analyser.dispose();
+
+    expect(onDispose).toHaveBeenCalledOnce();
+    expect(() => analyser.attach(context, source)).toThrow('AudioAnalyser has been disposed');
+  });
+});
@@ -0,0 +1,195 @@
+// AudioAnalyser.ts
+// Real-time analysis tap (spectrum, waveform, per-channel levels) on the manager's audio graph
+// Reattached by WebAudioManager whenever its graph is rebuilt, so one analyser lasts across tracks and re-initialization
+
+export type AnalyserTap = 'worklet' | 'output';
+
+export interface AnalyserOptions {
+  fftSize?: number;      // Power of two, 32-32768 (default: 2048)
+  smoothing?: number;    // Spectrum smoothing 0-1 (default: 0.8)
+  minDecibels?: number;  // Spectrum floor in dB (default: -100)
+  maxDecibels?: number;  // Spectrum ceiling in dB (default: -30)
+  tap?: AnalyserTap;     // 'worklet' (default): before effects and volume; 'output': after effects and gain
+}
+
+export interface ChannelLevels {
+  peak: number; // Largest absolute sample in the last fftSize frames (linear, 0-1+)
+  rms: number;  // Root mean square over the same frames (linear)
+}
+
+const LEVEL_CHANNELS = 2; // Mono sources are upmixed so both channels are always reported
+
+/**
+ * Analyser tap
+ *
+ * Key features:
+ * - Frequency data in dB and time-domain waveform from one AnalyserNode
+ * - Peak and RMS per channel through a channel splitter
+ * - Spectrum and waveform arrays are reused between calls (no per-frame allocation)
+ * - Reads as silence while detached
+ */
+export class AudioAnalyser {
+  readonly fftSize: number;
+  readonly tap: AnalyserTap;
+
+  private options: Required<Omit<AnalyserOptions, 'tap' | 'fftSize'>>;
+  private audioContext: BaseAudioContext | null = null;
+  private source: AudioNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private splitter: ChannelSplitterNode | null = null;
+  private channelAnalysers: AnalyserNode[] = [];
+  private frequencyData: Float32Array;
+  private waveform: Float32Array;
+  private channelData: Float32Array;
+  private onDispose?: () => void;
+  private disposed = false;
+
+  constructor(options: AnalyserOptions = {}, onDispose?: () => void) {
+    const fftSize = options.fftSize ?? 2048;
+    if (!Number.isInteger(Math.log2(fftSize)) || fftSize < 32 || fftSize > 32768) {
+      throw new Error(`fftSize must be a power of two between 32 and 32768, got ${fftSize}`);
+    }
+
+    this.fftSize = fftSize;
+    this.tap = options.tap || 'worklet';
+    this.options = {
+      smoothing: Math.min(1, Math.max(0, options.smoothing ?? 0.8)),
+      minDecibels: options.minDecibels ?? -100,
+      maxDecibels: options.maxDecibels ?? -30
+    };
+    this.frequencyData = new Float32Array(fftSize / 2).fill(this.options.minDecibels);
+    this.waveform = new Float32Array(fftSize);
+    this.channelData = new Float32Array(fftSize);
+    this.onDispose = onDispose;
+  }
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+
+  /**
+   * Centre frequency in Hz of a getFrequencyData() bin
+   */
+  getBinFrequency(index: number): number {
+    const sampleRate = this.audioContext?.sampleRate ?? 44100;
+    return index * sampleRate / this.fftSize;
+  }
+
+  /**
+   * Connect to a node of the manager's graph (replaces any previous source)
+   */
+  attach(audioContext: BaseAudioContext, source: AudioNode): void {
+    if (this.disposed) {
+      throw new Error('AudioAnalyser has been disposed');
+    }
+    this.detach();
+
+    if (this.audioContext !== audioContext) {
+      this.createNodes(audioContext);
+    }
+
+    source.connect(this.analyser!);
+    source.connect(this.splitter!);
+    this.source = source;
+  }
+
+  /**
+   * Disconnect from the graph - data reads as silence until attached again
+   */
+  detach(): void {
+    if (!this.source) return;
+
+    try {
+      this.source.disconnect(this.analyser!);
+      this.source.disconnect(this.splitter!);
+    } catch {
+      // The source was already disconnected (e.g. by the manager's cleanup)
+    }
+    this.source = null;
+  }
+
+  isAttached(): boolean {
+    return this.source !== null;
+  }
+
+  /**
+   * Spectrum in dB, frequencyBinCount values
+   */
+  getFrequencyData(): Float32Array {
+    if (this.analyser && this.source) {
+      this.analyser.getFloatFrequencyData(this.frequencyData);
+    } else {
+      this.frequencyData.fill(this.options.minDecibels);
+    }
+    return this.frequencyData;
+  }
+
+  /**
+   * Time-domain samples (-1 to 1) of the channel mix, fftSize values
+   */
+  getWaveform(): Float32Array {
+    if (this.analyser && this.source) {
+      this.analyser.getFloatTimeDomainData(this.waveform);
+    } else {
+      this.waveform.fill(0);
+    }
+    return this.waveform;
+  }
+
+  /**
+   * Peak and RMS of each channel over the last fftSize frames
+   */
+  getLevels(): ChannelLevels[] {
+    return Array.from({ length: LEVEL_CHANNELS }, (_, channel) => {
+      const analyser = this.channelAnalysers[channel];
+      if (!analyser || !this.source) {
+        return { peak: 0, rms: 0 };
+      }
+
+      analyser.getFloatTimeDomainData(this.channelData);
+      let peak = 0;
+      let sumOfSquares = 0;
+      for (let i = 0; i < this.channelData.length; i++) {
+        const sample = this.channelData[i];
+        peak = Math.max(peak, Math.abs(sample));
+        sumOfSquares += sample * sample;
+      }
+      return { peak, rms: Math.sqrt(sumOfSquares / this.channelData.length) };
+    });
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+
+    this.detach();
+    this.splitter?.disconnect();
+    this.analyser = null;
+    this.splitter = null;
+    this.channelAnalysers = [];
+    this.audioContext = null;
+    this.disposed = true;
+    this.onDispose?.();
+  }
+
+  private createNodes(audioContext: BaseAudioContext): void {
+    this.splitter?.disconnect();
+
+    this.audioContext = audioContext;
+    this.analyser = this.createAnalyserNode(audioContext);
+    this.splitter = audioContext.createChannelSplitter(LEVEL_CHANNELS);
+    this.channelAnalysers = Array.from({ length: LEVEL_CHANNELS }, (_, channel) => {
+      const analyser = this.createAnalyserNode(audioContext);
+      this.splitter!.connect(analyser, channel);
+      return analyser;
+    });
+  }
+
+  private createAnalyserNode(audioContext: BaseAudioContext): AnalyserNode {
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = this.fftSize;
+    analyser.smoothingTimeConstant = this.options.smoothing;
+    analyser.minDecibels = this.options.minDecibels;
+    analyser.maxDecibels = this.options.maxDecibels;
+    return analyser;
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioBufferCache } from './AudioBufferCache.js';
+import { FakeAudioBuffer } from './testing/index.js';
+
+// Mono at 1kHz: each second is 1000 frames, 4000 bytes
+function seconds(duration: number): AudioBuffer {
+  return new FakeAudioBuffer({ length: duration * 1000, sampleRate: 1000 }) as unknown as AudioBuffer;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AudioBufferCache', () => {
+  it('sizes buffers as 32-bit float PCM', () => {
+    const stereo = new FakeAudioBuffer({ numberOfChannels: 2, length: 44100, sampleRate: 44100 }) as unknown as AudioBuffer;
+    expect(AudioBufferCache.getByteSize(stereo)).toBe(44100 * 2 * 4);
+  });
+
+  it('evicts the least recently stored track first', () => {
+    const onEvict = vi.fn();
+    const cache = new AudioBufferCache({ budget: { maxSeconds: 10 }, onEvict });
+    cache.set('a', seconds(4)).set('b', seconds(4));
+
+    cache.set('c', seconds(4));
+    expect([...cache.keys()]).toEqual(['b', 'c']);
+    expect(onEvict).toHaveBeenCalledWith('a', 16000);
+  });
+
+  it('counts touch() as use, but not get()', () => {
+    const cache = new AudioBufferCache({ budget: { maxSeconds: 10 } });
+    cache.set('a', seconds(4)).set('b', seconds(4));
+
+    cache.get('a');
+    cache.set('c', seconds(4));
+    expect(cache.has('a')).toBe(false);
+
+    cache.touch('b');
+    cache.set('d', seconds(4));
+    expect([...cache.keys()]).toEqual(['b', 'd']);
+  });
+
+  it('applies the byte and seconds budgets together', () => {
+    const cache = new AudioBufferCache({ budget: { maxBytes: 32000, maxSeconds: 100 } });
+    cache.set('a', seconds(4)).set('b', seconds(4)).set('c', seconds(4)); // 48000 bytes
+
+    expect([...cache.keys()]).toEqual(['b', 'c']);
+  });
+
+  it('skips pinned tracks and never evicts the track just stored', () => {
+    const pinned = new Set(['a']);
+    const cache = new AudioBufferCache({ budget: { maxSeconds: 5 }, isPinned: trackId => pinned.has(trackId) });
+    cache.set('a', seconds(4)).set('b', seconds(4));
+
+    expect([...cache.keys()]).toEqual(['a', 'b']);
+    expect(cache.getUsage()).toMatchObject({ seconds: 8, overBudget: true });
+    expect(console.warn).toHaveBeenCalledOnce();
+
+    // Unpinning doesn't evict by itself - the next enforceBudget() does
+    pinned.clear();
+    expect(cache.enforceBudget()).toEqual(['a']);
+    expect(cache.getUsage().overBudget).toBe(false);
+  });
+
+  it('evicts down to a lowered budget and reports what went', () => {
+    const cache = new AudioBufferCache();
+    cache.set('a', seconds(1)).set('b', seconds(2)).set('c', seconds(3));
+
+    expect(cache.setBudget({ maxSeconds: 4 })).toEqual(['a', 'b']);
+    expect(cache.getBudget()).toEqual({ maxSeconds: 4 });
+  });
+
+  it('keeps everything without a budget', () => {
+    const cache = new AudioBufferCache();
+    for (let i = 0; i < 20; i++) {
+      cache.set(`t${i}`, seconds(60));
+    }
+    expect(cache.size).toBe(20);
+  });
+
+  it('reports usage per track, least recently used first', () => {
+    const cache = new AudioBufferCache({ budget: { maxBytes: 1e6 }, isPinned: trackId => trackId === 'b' });
+    cache.set('a', seconds(1)).set('b', seconds(2));
+    cache.touch('a');
+
+    const usage = cache.getUsage();
+    expect(usage).toMatchObject({ bytes: 12000, seconds: 3, trackCount: 2, budget: { maxBytes: 1e6 }, overBudget: false });
+    expect(usage.tracks.map(({ trackId, bytes, pinned }) => ({ trackId, bytes, pinned }))).toEqual([
+      { trackId: 'b', bytes: 8000, pinned: true },
+      { trackId: 'a', bytes: 4000, pinned: false }
+    ]);
+  });
+});
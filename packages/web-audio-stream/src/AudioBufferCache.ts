@@ -0,0 +1,196 @@
+// AudioBufferCache.ts
+// Decoded AudioBuffer cache with a memory budget and least-recently-played eviction
+// Decoded PCM costs 4 bytes per sample per channel (~10MB per minute of 44.1kHz stereo)
+
+export interface MemoryBudget {
+  maxBytes?: number;    // Decoded PCM bytes to keep in memory
+  maxSeconds?: number;  // Seconds of decoded audio to keep in memory
+}
+
+export interface CachedTrackUsage {
+  trackId: string;
+  bytes: number;
+  seconds: number;
+  pinned: boolean;
+  lastUsed: number; // Date.now() of the last play (or load)
+}
+
+export interface MemoryUsage {
+  bytes: number;
+  seconds: number;
+  trackCount: number;
+  budget: MemoryBudget;
+  overBudget: boolean; // Pinned tracks alone exceed the budget
+  tracks: CachedTrackUsage[]; // Least recently used first
+}
+
+export interface AudioBufferCacheOptions {
+  budget?: MemoryBudget;
+  isPinned?: (trackId: string) => boolean; // Pinned tracks are never evicted
+  onEvict?: (trackId: string, bytes: number) => void;
+}
+
+interface CacheEntry {
+  buffer: AudioBuffer;
+  bytes: number;
+  lastUsed: number;
+}
+
+/**
+ * Decoded AudioBuffer cache keyed by track
+ *
+ * Key features:
+ * - Budget in bytes and/or seconds of decoded audio (both apply when set)
+ * - Least-recently-played eviction - get() alone doesn't count as use, touch() does
+ * - Pinned tracks (playing, queued, streaming) are skipped; the track just stored is never evicted by its own set()
+ * - Usage report per track
+ */
+export class AudioBufferCache {
+  private entries: Map<string, CacheEntry> = new Map(); // Insertion order is LRU order
+  private budget: MemoryBudget;
+  private isPinned: (trackId: string) => boolean;
+  private onEvict?: (trackId: string, bytes: number) => void;
+  private hasWarnedOverBudget = false;
+
+  constructor(options: AudioBufferCacheOptions = {}) {
+    this.budget = { ...options.budget };
+    this.isPinned = options.isPinned || (() => false);
+    this.onEvict = options.onEvict;
+  }
+
+  /**
+   * Bytes of decoded PCM held by a buffer
+   */
+  static getByteSize(buffer: AudioBuffer): number {
+    return buffer.length * buffer.numberOfChannels * 4;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(trackId: string): boolean {
+    return this.entries.has(trackId);
+  }
+
+  get(trackId: string): AudioBuffer | undefined {
+    return this.entries.get(trackId)?.buffer;
+  }
+
+  /**
+   * Store a buffer as the most recently used, then evict down to the budget
+   */
+  set(trackId: string, buffer: AudioBuffer): this {
+    this.entries.delete(trackId);
+    this.entries.set(trackId, { buffer, bytes: AudioBufferCache.getByteSize(buffer), lastUsed: Date.now() });
+    this.enforceBudget(trackId);
+    return this;
+  }
+
+  delete(trackId: string): boolean {
+    return this.entries.delete(trackId);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  keys(): IterableIterator<string> {
+    return this.entries.keys();
+  }
+
+  /**
+   * Mark a track as just played
+   */
+  touch(trackId: string): void {
+    const entry = this.entries.get(trackId);
+    if (!entry) return;
+
+    entry.lastUsed = Date.now();
+    this.entries.delete(trackId);
+    this.entries.set(trackId, entry);
+  }
+
+  getBudget(): MemoryBudget {
+    return { ...this.budget };
+  }
+
+  /**
+   * Replace the budget and evict down to it
+   * @returns Evicted track IDs
+   */
+  setBudget(budget: MemoryBudget): string[] {
+    this.budget = { ...budget };
+    this.hasWarnedOverBudget = false;
+    return this.enforceBudget();
+  }
+
+  /**
+   * Evict least-recently-used unpinned tracks until the cache fits the budget
+   * Call again when tracks become unpinned (e.g. after stop())
+   * @param protectedTrackId Track that must stay even if it isn't pinned
+   * @returns Evicted track IDs
+   */
+  enforceBudget(protectedTrackId?: string): string[] {
+    const evicted: string[] = [];
+    let { bytes, seconds } = this.getTotals();
+
+    for (const [trackId, entry] of this.entries) {
+      if (!this.isOverBudget(bytes, seconds)) break;
+      if (trackId === protectedTrackId || this.isPinned(trackId)) continue;
+
+      this.entries.delete(trackId);
+      bytes -= entry.bytes;
+      seconds -= entry.buffer.duration;
+      evicted.push(trackId);
+      console.log(`[AudioBufferCache] Evicted ${trackId} (${(entry.bytes / 1024 / 1024).toFixed(1)}MB)`);
+      this.onEvict?.(trackId, entry.bytes);
+    }
+
+    if (this.isOverBudget(bytes, seconds)) {
+      if (!this.hasWarnedOverBudget) {
+        console.warn(`[AudioBufferCache] Pinned tracks exceed the memory budget (${(bytes / 1024 / 1024).toFixed(1)}MB, ${seconds.toFixed(0)}s)`);
+        this.hasWarnedOverBudget = true;
+      }
+    } else {
+      this.hasWarnedOverBudget = false;
+    }
+
+    return evicted;
+  }
+
+  getUsage(): MemoryUsage {
+    const { bytes, seconds } = this.getTotals();
+    const tracks = Array.from(this.entries, ([trackId, entry]) => ({
+      trackId,
+      bytes: entry.bytes,
+      seconds: entry.buffer.duration,
+      pinned: this.isPinned(trackId),
+      lastUsed: entry.lastUsed
+    }));
+
+    return {
+      bytes,
+      seconds,
+      trackCount: this.entries.size,
+      budget: this.getBudget(),
+      overBudget: this.isOverBudget(bytes, seconds),
+      tracks
+    };
+  }
+
+  private getTotals(): { bytes: number; seconds: number } {
+    let bytes = 0;
+    let seconds = 0;
+    for (const entry of this.entries.values()) {
+      bytes += entry.bytes;
+      seconds += entry.buffer.duration;
+    }
+    return { bytes, seconds };
+  }
+
+  private isOverBudget(bytes: number, seconds: number): boolean {
+    return (this.budget.maxBytes !== undefined && bytes > this.budget.maxBytes) ||
+      (this.budget.maxSeconds !== undefined && seconds > this.budget.maxSeconds);
+  }
+}
@@ -2,6 +2,12 @@
 // TypeScript implementation of chunk-based audio storage for iOS Safari compatibility
 // Provides progressive loading, security, and offline capabilities with iOS-specific optimizations
 
+import { GaplessTrimmer } from './GaplessTrimmer.js';
+import { WaveformPeaks, type WaveformPeaksData, type WaveformPeaksOptions } from './WaveformPeaks.js';
+import { LoudnessAnalyzer, type LoudnessInfo, type ReplayGainInfo } from './LoudnessAnalyzer.js';
+import type { PcmSource } from './AudioExporter.js';
+import { StreamingAssembler, type AssemblyChunk } from './StreamingAssembler.js';
+
 export interface AudioMetadata {
   trackId: string;
   name: string;
@@ -12,6 +18,8 @@ export interface AudioMetadata {
   lastAccessed: number;
   fileSize: number;
   url: string;
+  peaks?: WaveformPeaksData; // Waveform for scrubbers, computed when the audio is stored
+  loudness?: LoudnessInfo; // BS.1770 measurement and embedded ReplayGain tags, for normalization
 }
 
 export interface AudioChunk {
@@ -36,6 +44,10 @@ export interface ProgressCallback {
   (loaded: number, total: number, canStartPlayback: boolean): void;
 }
 
+export interface StoreOptions {
+  signal?: AbortSignal; // Cancels the fetch and removes anything already stored for the track
+}
+
 export interface InstantChunkConfig {
   initialChunkSize: number;
   subsequentChunkSize: number;
@@ -51,6 +63,9 @@ export interface InstantChunkConfig {
  * - Progressive audio loading for instant playback
  * - Automatic cleanup and storage management
  * - Simple obfuscation for privacy
+ * - AbortSignal support on every network-backed store method
+ * - Waveform peaks stored with the metadata, so drawing a cached track needs no decode
+ * - Loudness measured while storing, so normalizing a cached track needs no analysis
  */
 export class AudioChunkStore {
   private db: IDBDatabase | null = null;
@@ -70,14 +85,18 @@ export class AudioChunkStore {
   // Simple obfuscation key (not for real security, just to deter casual inspection)
   private readonly obfuscationKey: string;
   
+  // Waveform peaks computed while storing (null disables them)
+  private readonly peaksOptions: WaveformPeaksOptions | null;
+  
   // Storage limits
   private readonly maxStorageSize = 1024 * 1024 * 1024; // 1GB
   private readonly maxAge = 10 * 24 * 60 * 60 * 1000; // 10 days
   private readonly minChunksForPlayback = 1; // Start playback after 1 chunk (3MB loads quickly)
 
-  constructor(audioContext: AudioContext, instantConfig?: Partial<InstantChunkConfig>, obfuscationKey?: string) {
+  constructor(audioContext: AudioContext, instantConfig?: Partial<InstantChunkConfig>, obfuscationKey?: string, peaksOptions: WaveformPeaksOptions | false = {}) {
     this.audioContext = audioContext;
     this.obfuscationKey = obfuscationKey || 'WebAudioStream2024';
+    this.peaksOptions = peaksOptions === false ? null : peaksOptions;
     
     if (instantConfig) {
       this.instantChunkConfig = { ...this.instantChunkConfig, ...instantConfig };
@@ -246,7 +265,8 @@ export class AudioChunkStore {
     url: string, 
     trackId: string, 
     name: string,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    options: StoreOptions = {}
   ): Promise<AudioMetadata> {
     if (!this.initialized) await this.initialize();
 
@@ -261,13 +281,20 @@ export class AudioChunkStore {
     console.log(`[AudioChunkStore] Storing audio: ${name} (${trackId})`);
 
     // Fetch and decode audio
-    const response = await fetch(url);
+    const response = await fetch(url, { signal: options.signal });
     if (!response.ok) {
       throw new Error(`Failed to fetch audio: ${response.status}`);
     }
 
     const arrayBuffer = await response.arrayBuffer();
-    const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+    const fileSize = arrayBuffer.byteLength; // decodeAudioData detaches the buffer
+    // Store trimmed PCM so cached tracks join gaplessly
+    const gaplessInfo = GaplessTrimmer.parse(new Uint8Array(arrayBuffer));
+    const replayGain = LoudnessAnalyzer.parseReplayGain(new Uint8Array(arrayBuffer));
+    const audioBuffer = GaplessTrimmer.trim(this.audioContext, await this.audioContext.decodeAudioData(arrayBuffer), gaplessInfo);
+    options.signal?.throwIfAborted();
+    const loudness = await this.measureLoudness(audioBuffer, replayGain);
+    options.signal?.throwIfAborted();
 
     // Create metadata - calculate chunks based on size, not time
     const bytesPerSample = 4; // 32-bit float
@@ -282,8 +309,10 @@ export class AudioChunkStore {
       numberOfChannels: audioBuffer.numberOfChannels,
       totalChunks,
       lastAccessed: Date.now(),
-      fileSize: arrayBuffer.byteLength,
-      url
+      fileSize,
+      url,
+      peaks: this.computePeaks(audioBuffer),
+      loudness
     };
 
     // Store metadata first
@@ -292,16 +321,19 @@ export class AudioChunkStore {
     // Convert to chunks and store progressively
     const chunks = this.audioBufferToChunks(audioBuffer, trackId);
     
-    for (let i = 0; i < chunks.length; i++) {
-      await this.saveChunk(chunks[i]);
-      
-      // Report progress
-      if (progressCallback) {
-        const loaded = i + 1;
-        const canStartPlayback = loaded >= this.minChunksForPlayback;
-        progressCallback(loaded, totalChunks, canStartPlayback);
+    await this.saveChunksOrDiscard(trackId, options.signal, async () => {
+      for (let i = 0; i < chunks.length; i++) {
+        options.signal?.throwIfAborted();
+        await this.saveChunk(chunks[i]);
+        
+        // Report progress
+        if (progressCallback) {
+          const loaded = i + 1;
+          const canStartPlayback = loaded >= this.minChunksForPlayback;
+          progressCallback(loaded, totalChunks, canStartPlayback);
+        }
       }
-    }
+    });
 
     console.log(`[AudioChunkStore] Stored ${chunks.length} chunks for ${name}`);
     return metadata;
@@ -339,6 +371,56 @@ export class AudioChunkStore {
     return this.mergeChunks(chunks, metadata);
   }
 
+  // Stored PCM as an AudioExporter source - reads move forward one chunk at a time, so only one is decoded in memory
+  async createPcmSource(trackId: string): Promise<PcmSource | null> {
+    if (!this.initialized) await this.initialize();
+
+    const metadata = await this.getMetadata(trackId);
+    if (!metadata) return null;
+
+    let chunkIndex = 0;
+    let chunkStart = 0; // First sample of the loaded chunk
+    let chunk: AudioChunk | null = null;
+
+    return {
+      sampleRate: metadata.sampleRate,
+      numberOfChannels: metadata.numberOfChannels,
+      length: Math.round(metadata.duration * metadata.sampleRate),
+      read: async (startSample, length) => {
+        const channels = Array.from({ length: metadata.numberOfChannels }, () => new Float32Array(length));
+        const end = startSample + length;
+        let position = startSample;
+
+        while (position < end && chunkIndex < metadata.totalChunks) {
+          if (!chunk) {
+            chunk = await this.getChunk(trackId, chunkIndex);
+            if (!chunk) {
+              throw new Error(`Missing chunk ${chunkIndex} of ${trackId}`);
+            }
+          }
+
+          const chunkEnd = chunkStart + chunk.length;
+          if (position >= chunkEnd) {
+            chunkStart = chunkEnd;
+            chunkIndex++;
+            chunk = null;
+            continue;
+          }
+
+          const offset = Math.max(0, position - chunkStart);
+          const count = Math.min(chunkEnd, end) - position;
+          for (let c = 0; c < metadata.numberOfChannels; c++) {
+            channels[c].set(chunk.channels[c].subarray(offset, offset + count), position - startSample);
+          }
+          position += count;
+        }
+
+        await this.updateLastAccessed(trackId);
+        return channels;
+      }
+    };
+  }
+
   // Check if track is stored (any chunks)
   async isStored(trackId: string): Promise<boolean> {
     if (!this.initialized) await this.initialize();
@@ -485,6 +567,53 @@ export class AudioChunkStore {
     return this.withTimeout(operation, 5000);
   }
 
+  // Waveform peaks saved with a track, if any (tracks stored before peaks existed have none)
+  async getPeaks(trackId: string): Promise<WaveformPeaksData | null> {
+    if (!this.initialized) await this.initialize();
+
+    const metadata = await this.getMetadata(trackId);
+    return metadata?.peaks || null;
+  }
+
+  // Attach peaks to an already stored track (e.g. computed after loading one stored without them)
+  async savePeaks(trackId: string, peaks: WaveformPeaksData): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const metadata = await this.getMetadata(trackId);
+    if (metadata) {
+      metadata.peaks = peaks;
+      await this.saveMetadata(metadata);
+    }
+  }
+
+  // Loudness measured when the track was stored, if any
+  async getLoudness(trackId: string): Promise<LoudnessInfo | null> {
+    if (!this.initialized) await this.initialize();
+
+    const metadata = await this.getMetadata(trackId);
+    return metadata?.loudness || null;
+  }
+
+  // Attach a loudness measurement to an already stored track
+  async saveLoudness(trackId: string, loudness: LoudnessInfo): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const metadata = await this.getMetadata(trackId);
+    if (metadata) {
+      metadata.loudness = loudness;
+      await this.saveMetadata(metadata);
+    }
+  }
+
+  private async measureLoudness(audioBuffer: AudioBuffer, replayGain: ReplayGainInfo | null): Promise<LoudnessInfo> {
+    const loudness = await LoudnessAnalyzer.analyzeAsync(audioBuffer);
+    return replayGain ? { ...loudness, replayGain } : loudness;
+  }
+
+  private computePeaks(audioBuffer: AudioBuffer): WaveformPeaksData | undefined {
+    return this.peaksOptions ? WaveformPeaks.fromAudioBuffer(audioBuffer, this.peaksOptions).getData() : undefined;
+  }
+
   private async updateLastAccessed(trackId: string): Promise<void> {
     const metadata = await this.getMetadata(trackId);
     if (metadata) {
@@ -645,7 +774,8 @@ export class AudioChunkStore {
     url: string,
     trackId: string,
     name: string,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    options: StoreOptions = {}
   ): Promise<AudioMetadata> {
     if (!this.initialized) await this.initialize();
 
@@ -659,13 +789,18 @@ export class AudioChunkStore {
     console.log(`[AudioChunkStore] Storing audio for instant playback: ${name} (${trackId})`);
 
     // Fetch and decode audio
-    const response = await fetch(url);
+    const response = await fetch(url, { signal: options.signal });
     if (!response.ok) {
       throw new Error(`Failed to fetch audio: ${response.status}`);
     }
 
     const arrayBuffer = await response.arrayBuffer();
+    const fileSize = arrayBuffer.byteLength; // decodeAudioData detaches the buffer
+    const replayGain = LoudnessAnalyzer.parseReplayGain(new Uint8Array(arrayBuffer));
     const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+    options.signal?.throwIfAborted();
+    const loudness = await this.measureLoudness(audioBuffer, replayGain);
+    options.signal?.throwIfAborted();
 
     // Create chunks with variable sizes for instant playback
     const chunks = this.audioBufferToInstantChunks(audioBuffer, trackId);
@@ -678,24 +813,29 @@ export class AudioChunkStore {
       numberOfChannels: audioBuffer.numberOfChannels,
       totalChunks: chunks.length,
       lastAccessed: Date.now(),
-      fileSize: arrayBuffer.byteLength,
-      url
+      fileSize,
+      url,
+      peaks: this.computePeaks(audioBuffer),
+      loudness
     };
 
     // Store metadata first
     await this.saveMetadata(metadata);
 
     // Store chunks progressively - first chunk has priority
-    for (let i = 0; i < chunks.length; i++) {
-      await this.saveChunk(chunks[i]);
-      
-      // Report progress
-      if (progressCallback) {
-        const loaded = i + 1;
-        const canStartPlayback = loaded >= 1; // Can start after first chunk
-        progressCallback(loaded, chunks.length, canStartPlayback);
+    await this.saveChunksOrDiscard(trackId, options.signal, async () => {
+      for (let i = 0; i < chunks.length; i++) {
+        options.signal?.throwIfAborted();
+        await this.saveChunk(chunks[i]);
+        
+        // Report progress
+        if (progressCallback) {
+          const loaded = i + 1;
+          const canStartPlayback = loaded >= 1; // Can start after first chunk
+          progressCallback(loaded, chunks.length, canStartPlayback);
+        }
       }
-    }
+    });
 
     console.log(`[AudioChunkStore] Stored ${chunks.length} variable-size chunks for instant playback: ${name}`);
     return metadata;
@@ -838,6 +978,7 @@ export class AudioChunkStore {
       subsequentChunkSize?: number;
       useRangeRequests?: boolean;
       progressCallback?: ProgressCallback;
+      signal?: AbortSignal;
     } = {}
   ): Promise<AudioMetadata> {
     if (!this.initialized) await this.initialize();
@@ -857,23 +998,27 @@ export class AudioChunkStore {
     
     try {
       // Try streaming approach first
-      if (useRangeRequests && await this.checkRangeSupport(url)) {
-        return await this.storeAudioWithRangeRequests(url, trackId, name, initialChunkSize, subsequentChunkSize, options.progressCallback);
+      if (useRangeRequests && await this.checkRangeSupport(url, options.signal)) {
+        return await this.storeAudioWithRangeRequests(url, trackId, name, initialChunkSize, subsequentChunkSize, options.progressCallback, options.signal);
       } else {
         // Fallback to standard progressive loading
         console.log(`[AudioChunkStore] Range requests not supported, using progressive loading`);
-        return await this.storeAudioForInstantPlayback(url, trackId, name, options.progressCallback);
+        return await this.storeAudioForInstantPlayback(url, trackId, name, options.progressCallback, { signal: options.signal });
       }
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       console.warn(`[AudioChunkStore] Streaming storage failed, falling back to standard method: ${error}`);
-      return await this.storeAudio(url, trackId, name, options.progressCallback);
+      return await this.storeAudio(url, trackId, name, options.progressCallback, { signal: options.signal });
     }
   }
   
   // Check if server supports Range requests
-  private async checkRangeSupport(url: string): Promise<boolean> {
+  private async checkRangeSupport(url: string, signal?: AbortSignal): Promise<boolean> {
+    signal?.throwIfAborted();
     try {
-      const response = await fetch(url, { method: 'HEAD' });
+      const response = await fetch(url, { method: 'HEAD', signal });
       const acceptRanges = response.headers.get('accept-ranges');
       const contentLength = response.headers.get('content-length');
       
@@ -891,10 +1036,12 @@ export class AudioChunkStore {
     name: string,
     initialChunkSize: number,
     subsequentChunkSize: number,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<AudioMetadata> {
     // Get file size first
-    const fileSize = await this.getFileSize(url);
+    const fileSize = await this.getFileSize(url, signal);
+    signal?.throwIfAborted();
     if (!fileSize) {
       throw new Error('Could not determine file size');
     }
@@ -905,7 +1052,8 @@ export class AudioChunkStore {
     const initialResponse = await fetch(url, {
       headers: {
         'Range': `bytes=0-${initialChunkSize - 1}`
-      }
+      },
+      signal
     });
     
     if (!initialResponse.ok && initialResponse.status !== 206) {
@@ -914,6 +1062,7 @@ export class AudioChunkStore {
     
     const initialBuffer = await initialResponse.arrayBuffer();
     const initialAudioBuffer = await this.audioContext.decodeAudioData(initialBuffer);
+    signal?.throwIfAborted();
     
     // Create preliminary metadata
     const totalChunks = Math.ceil(fileSize / subsequentChunkSize);
@@ -934,21 +1083,21 @@ export class AudioChunkStore {
     
     // Store initial chunk
     const initialChunk = this.audioBufferToSingleChunk(initialAudioBuffer, trackId, 0);
-    await this.saveChunk(initialChunk);
+    await this.saveChunksOrDiscard(trackId, signal, () => this.saveChunk(initialChunk));
     
     // Report initial progress
     progressCallback?.(1, totalChunks, true); // Can start playback
     
     // Load remaining chunks in background
-    this.loadRemainingChunksInBackground(url, trackId, initialChunkSize, subsequentChunkSize, fileSize, progressCallback);
+    this.loadRemainingChunksInBackground(url, trackId, initialChunkSize, subsequentChunkSize, fileSize, progressCallback, signal);
     
     return metadata;
   }
   
   // Get file size using HEAD request
-  private async getFileSize(url: string): Promise<number> {
+  private async getFileSize(url: string, signal?: AbortSignal): Promise<number> {
     try {
-      const response = await fetch(url, { method: 'HEAD' });
+      const response = await fetch(url, { method: 'HEAD', signal });
       const contentLength = response.headers.get('content-length');
       return contentLength ? parseInt(contentLength, 10) : 0;
     } catch (error) {
@@ -981,14 +1130,15 @@ export class AudioChunkStore {
     initialChunkSize: number,
     subsequentChunkSize: number,
     fileSize: number,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<void> {
     let currentOffset = initialChunkSize;
     let chunkIndex = 1;
     const totalChunks = Math.ceil(fileSize / subsequentChunkSize);
     
     try {
-      while (currentOffset < fileSize) {
+      while (currentOffset < fileSize && !signal?.aborted) {
         const endOffset = Math.min(currentOffset + subsequentChunkSize - 1, fileSize - 1);
         
         console.log(`[AudioChunkStore] Loading background chunk ${chunkIndex} (${(currentOffset / 1024).toFixed(1)}KB - ${(endOffset / 1024).toFixed(1)}KB)`);
@@ -996,7 +1146,8 @@ export class AudioChunkStore {
         const response = await fetch(url, {
           headers: {
             'Range': `bytes=${currentOffset}-${endOffset}`
-          }
+          },
+          signal
         });
         
         if (!response.ok && response.status !== 206) {
@@ -1018,20 +1169,40 @@ export class AudioChunkStore {
         await new Promise(resolve => setTimeout(resolve, 50));
       }
       
-      console.log(`[AudioChunkStore] Completed background loading for ${trackId}`);
+      console.log(`[AudioChunkStore] ${signal?.aborted ? 'Cancelled' : 'Completed'} background loading for ${trackId}`);
       
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`[AudioChunkStore] Cancelled background loading for ${trackId}`);
+        return;
+      }
       console.warn(`[AudioChunkStore] Background loading failed: ${error}`);
     }
   }
 
+  // Run chunk writes for a track whose metadata is already saved
+  // Metadata alone marks a track as stored, so a cancelled or failed write removes the partial track
+  private async saveChunksOrDiscard(trackId: string, signal: AbortSignal | undefined, save: () => Promise<void>): Promise<void> {
+    try {
+      await save();
+    } catch (error) {
+      await this.removeTrack(trackId).catch(removeError => {
+        console.warn(`[AudioChunkStore] Failed to remove partially stored track ${trackId}:`, removeError);
+      });
+      if (signal?.aborted) {
+        console.log(`[AudioChunkStore] Storing cancelled: ${trackId}`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Store assembly chunks from streaming assembler
    */
   async storeAssemblyChunks(
     trackId: string,
     name: string,
-    assemblyChunks: import('./StreamingAssembler.js').AssemblyChunk[],
+    assemblyChunks: AssemblyChunk[],
     progressCallback?: ProgressCallback
   ): Promise<AudioMetadata> {
     if (!this.initialized) await this.initialize();
@@ -1067,11 +1238,23 @@ export class AudioChunkStore {
     
     // Convert assembly chunks to storage chunks
     let totalDuration = 0;
+    const peaks = this.peaksOptions
+      ? new WaveformPeaks(firstBuffer.sampleRate, firstBuffer.numberOfChannels, this.peaksOptions)
+      : null;
+    const loudnessAnalyzer = new LoudnessAnalyzer(firstBuffer.sampleRate, firstBuffer.numberOfChannels);
+    const replayGain = LoudnessAnalyzer.parseReplayGain(new Uint8Array(firstChunk.data));
     for (let i = 0; i < assemblyChunks.length; i++) {
       const assemblyChunk = assemblyChunks[i];
       
-      // Decode the chunk to get proper audio data
-      const audioBuffer = await this.audioContext.decodeAudioData(assemblyChunk.data.slice(0));
+      // Decode the chunk, keeping only its own samples (MP3/AAC chunks start with the previous chunk's last frames)
+      const decodedBuffer = await this.audioContext.decodeAudioData(assemblyChunk.data.slice(0));
+      const { start, length } = StreamingAssembler.getDecodedRange(assemblyChunk, decodedBuffer.length, decodedBuffer.sampleRate);
+      const audioBuffer = this.audioContext.createBuffer(decodedBuffer.numberOfChannels, Math.max(1, length), decodedBuffer.sampleRate);
+      for (let channel = 0; channel < decodedBuffer.numberOfChannels; channel++) {
+        audioBuffer.copyToChannel(decodedBuffer.getChannelData(channel).subarray(start, start + length), channel);
+      }
+      peaks?.appendBuffer(audioBuffer, peaks.getTotalSamples());
+      loudnessAnalyzer.process(Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c)));
       totalDuration += audioBuffer.duration;
       
       // Convert to storage chunk format
@@ -1087,6 +1270,9 @@ export class AudioChunkStore {
     
     // Update metadata with correct duration
     metadata.duration = totalDuration;
+    metadata.peaks = peaks?.getData();
+    const loudness = loudnessAnalyzer.getResult();
+    metadata.loudness = replayGain ? { ...loudness, replayGain } : loudness;
     await this.saveMetadata(metadata);
     
     console.log(`[AudioChunkStore] Stored ${assemblyChunks.length} assembly chunks for ${name} (total duration: ${totalDuration.toFixed(2)}s)`);
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioExporter, type ExportFormat, type PcmSource } from './AudioExporter.js';
+import { FakeAudioBuffer, decodeWav, installFakeBrowser, type FakeBrowser } from './testing/index.js';
+
+const SAMPLE_RATE = 8000;
+
+// Stereo ramp: left rises from -0.9 to 0.9, right is its negation
+function ramp(seconds: number): AudioBuffer {
+  const buffer = new FakeAudioBuffer({ numberOfChannels: 2, length: seconds * SAMPLE_RATE, sampleRate: SAMPLE_RATE });
+  const left = buffer.getChannelData(0);
+  const right = buffer.getChannelData(1);
+  for (let i = 0; i < buffer.length; i++) {
+    left[i] = -0.9 + 1.8 * i / buffer.length;
+    right[i] = -left[i];
+  }
+  return buffer as unknown as AudioBuffer;
+}
+
+async function decode(blob: Blob): Promise<AudioBuffer> {
+  return decodeWav(await blob.arrayBuffer()) as unknown as AudioBuffer;
+}
+
+let browser: FakeBrowser;
+
+beforeEach(() => {
+  browser = installFakeBrowser();
+});
+
+afterEach(() => {
+  browser.uninstall();
+});
+
+describe('AudioExporter', () => {
+  describe('encodeWavHeader', () => {
+    it.each<[ExportFormat, number, number, number]>([
+      ['wav16', 44, 1, 16],
+      ['wav24', 44, 1, 24],
+      ['float32', 58, 3, 32]
+    ])('writes a %s header', (format, headerSize, formatTag, bits) => {
+      const header = AudioExporter.encodeWavHeader(format, 48000, 2, 100);
+      const view = new DataView(header.buffer);
+      const dataSize = 100 * 2 * bits / 8;
+
+      expect(header.length).toBe(headerSize);
+      expect(view.getUint32(4, true)).toBe(headerSize - 8 + dataSize);
+      expect(view.getUint16(20, true)).toBe(formatTag);
+      expect(view.getUint32(24, true)).toBe(48000);
+      expect(view.getUint16(32, true)).toBe(2 * bits / 8); // Block align
+      expect(view.getUint16(34, true)).toBe(bits);
+      expect(view.getUint32(headerSize - 4, true)).toBe(dataSize);
+    });
+  });
+
+  describe('encodeFrames', () => {
+    it('interleaves channels and clamps integer formats', () => {
+      const bytes = AudioExporter.encodeFrames([Float32Array.of(1.5, 0), Float32Array.of(-1, 0.5)], 'wav16', 0, 2);
+
+      expect(Array.from(new Int16Array(bytes.buffer))).toEqual([32767, -32768, 0, 16384]);
+    });
+
+    it('packs 24-bit samples little-endian', () => {
+      const bytes = AudioExporter.encodeFrames([Float32Array.of(-1, 0.5)], 'wav24', 0, 2);
+
+      expect(Array.from(bytes)).toEqual([0x00, 0x00, 0x80, 0x00, 0x00, 0x40]);
+    });
+
+    it('keeps float samples as they are', () => {
+      const bytes = AudioExporter.encodeFrames([Float32Array.of(0, 1.5, -2)], 'float32', 1, 3);
+
+      expect(Array.from(new Float32Array(bytes.buffer))).toEqual([1.5, -2]);
+    });
+  });
+
+  describe('exportWav', () => {
+    it('writes the requested region across several blocks', async () => {
+      const buffer = ramp(2);
+      const blob = await AudioExporter.exportWav(AudioExporter.fromAudioBuffer(buffer), 1000, 13000, { blockSeconds: 0.3 });
+      const decoded = await decode(blob);
+
+      expect(blob.type).toBe('audio/wav');
+      expect(decoded.length).toBe(12000);
+      expect(decoded.numberOfChannels).toBe(2);
+      for (const i of [0, 2399, 2400, 11999]) {
+        expect(decoded.getChannelData(0)[i]).toBeCloseTo(buffer.getChannelData(0)[1000 + i], 4);
+        expect(decoded.getChannelData(1)[i]).toBeCloseTo(buffer.getChannelData(1)[1000 + i], 4);
+      }
+    });
+
+    it('is lossless in float32', async () => {
+      const buffer = ramp(1);
+      const decoded = await decode(await AudioExporter.exportWav(AudioExporter.fromAudioBuffer(buffer), 0, buffer.length, { format: 'float32' }));
+
+      expect(decoded.getChannelData(0)).toEqual(buffer.getChannelData(0));
+    });
+
+    it('zero-fills past the end of the source', async () => {
+      const buffer = ramp(1);
+      const decoded = await decode(await AudioExporter.exportWav(AudioExporter.fromAudioBuffer(buffer), 7000, 9000));
+
+      expect(decoded.length).toBe(2000);
+      expect(decoded.getChannelData(0)[1500]).toBe(0);
+    });
+
+    it('applies gain and the graph, pre-rolling each block from reads that never overlap', async () => {
+      const buffer = ramp(2);
+      const source = AudioExporter.fromAudioBuffer(buffer);
+      const reads: Array<[number, number]> = [];
+      const tracked: PcmSource = { ...source, read: (start, length) => { reads.push([start, length]); return source.read(start, length); } };
+      const dispose = vi.fn();
+
+      const blob = await AudioExporter.exportWav(tracked, 8000, 16000, {
+        format: 'float32',
+        gain: 0.5,
+        blockSeconds: 0.5,
+        preRollSeconds: 0.25,
+        createGraph: context => {
+          const halve = context.createGain();
+          halve.gain.value = 0.5;
+          return { input: halve, output: halve, dispose };
+        }
+      });
+      const decoded = await decode(blob);
+
+      expect(reads).toEqual([[6000, 6000], [12000, 4000]]);
+      expect(dispose).toHaveBeenCalledTimes(2);
+      expect(decoded.length).toBe(8000);
+      expect(decoded.getChannelData(0)[0]).toBeCloseTo(buffer.getChannelData(0)[8000] * 0.25, 5);
+      expect(decoded.getChannelData(1)[5000]).toBeCloseTo(buffer.getChannelData(1)[13000] * 0.25, 5);
+    });
+
+    it('reports progress after each block', async () => {
+      const onProgress = vi.fn();
+      await AudioExporter.exportWav(AudioExporter.fromAudioBuffer(ramp(1)), 0, 8000, { blockSeconds: 0.25, onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.25, 0.5, 0.75, 1]);
+    });
+
+    it('stops between blocks when aborted', async () => {
+      const controller = new AbortController();
+      const onProgress = vi.fn(() => controller.abort());
+      const exporting = AudioExporter.exportWav(AudioExporter.fromAudioBuffer(ramp(1)), 0, 8000, {
+        blockSeconds: 0.25,
+        signal: controller.signal,
+        onProgress
+      });
+
+      await expect(exporting).rejects.toMatchObject({ name: 'AbortError' });
+      expect(onProgress).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+// AudioExporter.ts
+// Offline rendering of audio regions to WAV files
+// Audio is rendered and encoded block by block, so exporting a long region never holds it all as float PCM
+
+export type ExportFormat = 'wav16' | 'wav24' | 'float32';
+
+// PCM on a track timeline - reads come in order without overlapping, so sources can stream from storage
+export interface PcmSource {
+  sampleRate: number;
+  numberOfChannels: number;
+  length: number; // Samples
+  read(startSample: number, length: number): Promise<Float32Array[]>; // Zero-filled past the end of the audio
+}
+
+// Processing inserted between the source and the output of each block render
+export interface ExportGraph {
+  input: AudioNode;
+  output: AudioNode;
+  dispose?(): void;
+}
+
+export interface AudioExporterOptions {
+  format?: ExportFormat;             // Sample format (default: 'wav16')
+  gain?: number;                     // Linear gain applied before the graph (default: 1)
+  createGraph?: (context: BaseAudioContext) => ExportGraph; // Built once per block (default: none)
+  blockSeconds?: number;             // Audio rendered per OfflineAudioContext (default: 20)
+  preRollSeconds?: number;           // Audio rendered before each block to settle filters and compressors, then dropped (default: 1)
+  signal?: AbortSignal;              // Stops between blocks - the call rejects with the signal's reason
+  onProgress?: (progress: number) => void; // 0 to 1, after each block
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+/**
+ * WAV exporter
+ *
+ * Key features:
+ * - Renders through any Web Audio graph (effects, gain) in OfflineAudioContext blocks
+ * - Pre-rolls every block so filter and compressor state carries across block boundaries
+ * - 16-bit and 24-bit PCM or 32-bit float WAV output as a Blob of per-block parts
+ * - Skips offline rendering entirely when there is nothing to process
+ */
+export class AudioExporter {
+  /**
+   * Render samples [startSample, endSample) of a source into a WAV file
+   */
+  static async exportWav(source: PcmSource, startSample: number, endSample: number, options: AudioExporterOptions = {}): Promise<Blob> {
+    const format = options.format ?? 'wav16';
+    const gain = options.gain ?? 1;
+    const start = Math.max(0, Math.floor(startSample));
+    const end = Math.max(start, Math.floor(endSample));
+    const frames = end - start;
+    const { sampleRate, numberOfChannels } = source;
+    const blockFrames = Math.max(1, Math.round((options.blockSeconds ?? 20) * sampleRate));
+    const preRollFrames = options.createGraph ? Math.round((options.preRollSeconds ?? 1) * sampleRate) : 0;
+    const isProcessed = gain !== 1 || options.createGraph !== undefined;
+
+    const parts: BlobPart[] = [AudioExporter.encodeWavHeader(format, sampleRate, numberOfChannels, frames)];
+    let history: Float32Array[] = Array.from({ length: numberOfChannels }, () => new Float32Array(0));
+    let position = Math.max(0, start - preRollFrames);
+
+    for (let blockStart = start; blockStart < end; blockStart += blockFrames) {
+      options.signal?.throwIfAborted();
+      const blockEnd = Math.min(end, blockStart + blockFrames);
+
+      // Each read continues where the previous one ended; the pre-roll comes from the tail of earlier reads
+      const read = await source.read(position, blockEnd - position);
+      const input = AudioExporter.concat(history, read);
+      position = blockEnd;
+      history = input.map(channel => channel.slice(Math.max(0, channel.length - preRollFrames)));
+
+      const skip = input[0].length - (blockEnd - blockStart);
+      const output = isProcessed ? await AudioExporter.renderBlock(input, sampleRate, gain, options.createGraph) : input;
+      parts.push(AudioExporter.encodeFrames(output, format, skip, output[0].length));
+
+      options.onProgress?.((blockEnd - start) / frames);
+    }
+
+    return new Blob(parts, { type: 'audio/wav' });
+  }
+
+  /**
+   * PCM source over a decoded buffer
+   */
+  static fromAudioBuffer(audioBuffer: AudioBuffer): PcmSource {
+    return {
+      sampleRate: audioBuffer.sampleRate,
+      numberOfChannels: audioBuffer.numberOfChannels,
+      length: audioBuffer.length,
+      read: async (startSample, length) => {
+        const channels: Float32Array[] = [];
+        for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+          const data = new Float32Array(length);
+          data.set(audioBuffer.getChannelData(channel).subarray(startSample, startSample + length));
+          channels.push(data);
+        }
+        return channels;
+      }
+    };
+  }
+
+  /**
+   * RIFF/WAVE header for a file of `frames` sample frames
+   * Float files get the extended fmt chunk and the fact chunk the format requires
+   */
+  static encodeWavHeader(format: ExportFormat, sampleRate: number, numberOfChannels: number, frames: number): Uint8Array {
+    const bytesPerSample = AudioExporter.getBytesPerSample(format);
+    const isFloat = format === 'float32';
+    const fmtSize = isFloat ? 18 : 16;
+    const factSize = isFloat ? 12 : 0;
+    const dataSize = frames * numberOfChannels * bytesPerSample;
+    const headerSize = 12 + 8 + fmtSize + factSize + 8;
+    const header = new Uint8Array(headerSize);
+    const view = new DataView(header.buffer);
+    let offset = 0;
+
+    const writeTag = (tag: string) => {
+      for (let i = 0; i < 4; i++) {
+        view.setUint8(offset++, tag.charCodeAt(i));
+      }
+    };
+
+    writeTag('RIFF');
+    view.setUint32(offset, headerSize - 8 + dataSize, true); offset += 4;
+    writeTag('WAVE');
+
+    writeTag('fmt ');
+    view.setUint32(offset, fmtSize, true); offset += 4;
+    view.setUint16(offset, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true); offset += 2;
+    view.setUint16(offset, numberOfChannels, true); offset += 2;
+    view.setUint32(offset, sampleRate, true); offset += 4;
+    view.setUint32(offset, sampleRate * numberOfChannels * bytesPerSample, true); offset += 4; // Byte rate
+    view.setUint16(offset, numberOfChannels * bytesPerSample, true); offset += 2;              // Block align
+    view.setUint16(offset, bytesPerSample * 8, true); offset += 2;
+    if (isFloat) {
+      view.setUint16(offset, 0, true); offset += 2; // No extension
+      writeTag('fact');
+      view.setUint32(offset, 4, true); offset += 4;
+      view.setUint32(offset, frames, true); offset += 4;
+    }
+
+    writeTag('data');
+    view.setUint32(offset, dataSize, true);
+    return header;
+  }
+
+  /**
+   * Interleave and encode frames [from, to) of planar float PCM
+   */
+  static encodeFrames(channels: Float32Array[], format: ExportFormat, from: number, to: number): Uint8Array {
+    const bytesPerSample = AudioExporter.getBytesPerSample(format);
+    const numberOfChannels = channels.length;
+    const bytes = new Uint8Array(Math.max(0, to - from) * numberOfChannels * bytesPerSample);
+    const view = new DataView(bytes.buffer);
+    let offset = 0;
+
+    for (let frame = from; frame < to; frame++) {
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        const sample = channels[channel][frame];
+        if (format === 'float32') {
+          view.setFloat32(offset, sample, true);
+        } else {
+          const clamped = Math.max(-1, Math.min(1, sample));
+          if (format === 'wav16') {
+            view.setInt16(offset, Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff), true);
+          } else {
+            const value = Math.round(clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff);
+            view.setUint8(offset, value & 0xff);
+            view.setUint8(offset + 1, (value >> 8) & 0xff);
+            view.setUint8(offset + 2, (value >> 16) & 0xff);
+          }
+        }
+        offset += bytesPerSample;
+      }
+    }
+
+    return bytes;
+  }
+
+  private static getBytesPerSample(format: ExportFormat): number {
+    switch (format) {
+      case 'wav16':
+        return 2;
+      case 'wav24':
+        return 3;
+      case 'float32':
+        return 4;
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  private static async renderBlock(input: Float32Array[], sampleRate: number, gain: number, createGraph?: (context: BaseAudioContext) => ExportGraph): Promise<Float32Array[]> {
+    const length = input[0].length;
+    const context = new OfflineAudioContext(input.length, length, sampleRate);
+    const buffer = context.createBuffer(input.length, length, sampleRate);
+    input.forEach((channel, index) => buffer.copyToChannel(channel, index));
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const gainNode = context.createGain();
+    gainNode.gain.value = gain;
+    source.connect(gainNode);
+
+    const graph = createGraph?.(context);
+    if (graph) {
+      gainNode.connect(graph.input);
+      graph.output.connect(context.destination);
+    } else {
+      gainNode.connect(context.destination);
+    }
+
+    source.start();
+    const rendered = await context.startRendering();
+    graph?.dispose?.();
+
+    const output: Float32Array[] = [];
+    for (let channel = 0; channel < rendered.numberOfChannels; channel++) {
+      output.push(rendered.getChannelData(channel));
+    }
+    return output;
+  }
+
+  private static concat(first: Float32Array[], second: Float32Array[]): Float32Array[] {
+    return second.map((channel, index) => {
+      const head = first[index];
+      if (!head || head.length === 0) return channel;
+
+      const joined = new Float32Array(head.length + channel.length);
+      joined.set(head);
+      joined.set(channel, head.length);
+      return joined;
+    });
+  }
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioFrameParser } from './AudioFrameParser.js';
+import { createToneWav } from './testing/index.js';
+
+// MPEG1 Layer III, 128kbps, 44.1kHz, stereo: 417-byte frames of 1152 samples
+const MP3_FRAME_LENGTH = 417;
+
+function mp3Frames(count: number): Uint8Array {
+  const data = new Uint8Array(count * MP3_FRAME_LENGTH);
+  for (let frame = 0; frame < count; frame++) {
+    data.set([0xFF, 0xFB, 0x90, 0x00], frame * MP3_FRAME_LENGTH);
+  }
+  return data;
+}
+
+// AAC LC ADTS, 44.1kHz, stereo: 200-byte frames of 1024 samples
+function adtsFrames(count: number, frameLength = 200): Uint8Array {
+  const data = new Uint8Array(count * frameLength);
+  for (let frame = 0; frame < count; frame++) {
+    data.set([0xFF, 0xF1, 0x50, 0x80 | ((frameLength >> 11) & 0x03), (frameLength >> 3) & 0xFF, ((frameLength & 0x07) << 5) | 0x1F, 0xFC], frame * frameLength);
+  }
+  return data;
+}
+
+function withId3(data: Uint8Array, tagSize: number): Uint8Array {
+  const file = new Uint8Array(10 + tagSize + data.length);
+  file.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, (tagSize >> 7) & 0x7F, tagSize & 0x7F]);
+  file.set(data, 10 + tagSize);
+  return file;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AudioFrameParser', () => {
+  describe('probe', () => {
+    it('detects MP3 behind an ID3v2 tag', () => {
+      const info = new AudioFrameParser().probe(withId3(mp3Frames(3), 300));
+
+      expect(info).toMatchObject({ format: 'mp3', sampleRate: 44100, channels: 2, dataOffset: 310, samplesPerFrame: 1152, bitrate: 128000 });
+    });
+
+    it('detects AAC/ADTS', () => {
+      expect(new AudioFrameParser().probe(adtsFrames(3))).toMatchObject({ format: 'aac', sampleRate: 44100, channels: 2, samplesPerFrame: 1024 });
+    });
+
+    it('detects WAV and its data chunk', () => {
+      const info = new AudioFrameParser().probe(createToneWav({ duration: 0.1, sampleRate: 48000, channels: 1 }));
+
+      expect(info).toMatchObject({ format: 'wav', sampleRate: 48000, channels: 1, dataOffset: 44, blockAlign: 2, dataSize: 9600 });
+    });
+
+    it('waits for more bytes, then gives up on unknown data once final', () => {
+      const parser = new AudioFrameParser();
+      const noise = new Uint8Array(64).fill(0x11);
+
+      expect(parser.probe(noise)).toBeNull();
+      expect(parser.probe(noise, true)?.format).toBe('unknown');
+    });
+  });
+
+  describe('cutChunk', () => {
+    it('cuts MP3 on frame boundaries and counts samples', () => {
+      const parser = new AudioFrameParser();
+      const cut = parser.cutChunk(mp3Frames(10), { isFirst: true, isFinal: false, targetSize: 4 * MP3_FRAME_LENGTH + 100 });
+
+      expect(cut).toMatchObject({ bytesConsumed: 4 * MP3_FRAME_LENGTH, sampleCount: 4 * 1152, overlapSamples: 0 });
+      expect(cut!.data.byteLength).toBe(4 * MP3_FRAME_LENGTH);
+    });
+
+    it('repeats the previous cut\'s last two frames ahead of the next MP3 cut', () => {
+      const parser = new AudioFrameParser();
+      let data = mp3Frames(12);
+      const first = parser.cutChunk(data, { isFirst: true, isFinal: false, targetSize: 6 * MP3_FRAME_LENGTH })!;
+      data = data.subarray(first.bytesConsumed);
+      const second = parser.cutChunk(data, { isFirst: false, isFinal: true, targetSize: 6 * MP3_FRAME_LENGTH })!;
+
+      expect(second).toMatchObject({ bytesConsumed: 6 * MP3_FRAME_LENGTH, sampleCount: 6 * 1152, overlapSamples: 2 * 1152 });
+      expect(second.data.byteLength).toBe(8 * MP3_FRAME_LENGTH);
+    });
+
+    it('repeats ADTS frames the same way', () => {
+      const parser = new AudioFrameParser();
+      let data = adtsFrames(10);
+      const first = parser.cutChunk(data, { isFirst: true, isFinal: false, targetSize: 1000 })!;
+      data = data.subarray(first.bytesConsumed);
+      const second = parser.cutChunk(data, { isFirst: false, isFinal: true, targetSize: 1000 })!;
+
+      expect(first).toMatchObject({ bytesConsumed: 1000, sampleCount: 5 * 1024, overlapSamples: 0 });
+      expect(second).toMatchObject({ bytesConsumed: 1000, sampleCount: 5 * 1024, overlapSamples: 2 * 1024 });
+      expect(second.data.byteLength).toBe(1400);
+    });
+
+    it('drops the overlap after resetPosition', () => {
+      const parser = new AudioFrameParser();
+      const data = mp3Frames(12);
+      parser.cutChunk(data, { isFirst: true, isFinal: false, targetSize: 6 * MP3_FRAME_LENGTH });
+      parser.resetPosition(9 * MP3_FRAME_LENGTH);
+      const cut = parser.cutChunk(data.subarray(9 * MP3_FRAME_LENGTH), { isFirst: false, isFinal: true, targetSize: 6 * MP3_FRAME_LENGTH })!;
+
+      expect(cut.overlapSamples).toBe(0);
+      expect(cut.data.byteLength).toBe(3 * MP3_FRAME_LENGTH);
+    });
+
+    it('returns null until a whole frame is available', () => {
+      const parser = new AudioFrameParser();
+      const data = mp3Frames(3);
+      parser.probe(data);
+
+      expect(parser.cutChunk(data.subarray(0, 200), { isFirst: true, isFinal: false, targetSize: 1000 })).toBeNull();
+    });
+
+    it('prepends the WAV header to every chunk and cuts on whole sample frames', () => {
+      const parser = new AudioFrameParser();
+      let data = createToneWav({ duration: 0.1, sampleRate: 48000, channels: 2 }); // 4800 frames of 4 bytes
+      const first = parser.cutChunk(data, { isFirst: true, isFinal: false, targetSize: 1003 })!;
+      data = data.subarray(first.bytesConsumed);
+      const second = parser.cutChunk(data, { isFirst: false, isFinal: false, targetSize: 1003 })!;
+
+      expect(first.sampleCount).toBe(239); // (1003 - 44) / 4, rounded down
+      expect(second.sampleCount).toBe(250);
+      const header = new TextDecoder().decode(new Uint8Array(second.data, 0, 4));
+      expect(header).toBe('RIFF');
+      expect(new DataView(second.data).getUint32(40, true)).toBe(1000); // data chunk size rewritten
+    });
+  });
+
+  describe('getSeekPoint', () => {
+    it('maps time through the bitrate for CBR MP3, at a frame start', () => {
+      const parser = new AudioFrameParser();
+      parser.probe(mp3Frames(3));
+      const point = parser.getSeekPoint(1, 100 * MP3_FRAME_LENGTH)!;
+
+      expect(point.sampleOffset).toBe(38 * 1152);
+      expect(point.byteOffset).toBe(Math.round((38 * 1152 / 44100) * 16000));
+    });
+
+    it('maps time to whole sample frames for WAV', () => {
+      const parser = new AudioFrameParser();
+      const wav = createToneWav({ duration: 1, sampleRate: 8000, channels: 2 });
+      parser.probe(wav);
+
+      expect(parser.getSeekPoint(0.5, wav.length)).toEqual({ byteOffset: 44 + 4000 * 4, sampleOffset: 4000 });
+    });
+
+    it('clamps WAV seeks past the end to the last whole frame', () => {
+      const parser = new AudioFrameParser();
+      const wav = createToneWav({ duration: 1, sampleRate: 8000, channels: 2 });
+      parser.probe(wav);
+
+      // 16-bit stereo: 4 bytes per frame, 8000 frames
+      expect(parser.getSeekPoint(1, wav.length)).toEqual({ byteOffset: 44 + 7999 * 4, sampleOffset: 7999 });
+      expect(parser.getSeekPoint(5, wav.length)).toEqual({ byteOffset: 44 + 7999 * 4, sampleOffset: 7999 });
+      // A truncated file ends mid-frame - the partial frame is skipped
+      expect(parser.getSeekPoint(1, wav.length - 1)).toEqual({ byteOffset: 44 + 7998 * 4, sampleOffset: 7998 });
+    });
+
+    it('has nothing to map from for unknown formats', () => {
+      const parser = new AudioFrameParser();
+      parser.probe(new Uint8Array(64), true);
+
+      expect(parser.getSeekPoint(1, 1000)).toBeNull();
+    });
+  });
+
+  describe('findFrameBoundary', () => {
+    it('resyncs on the next confirmed frame header', () => {
+      const parser = new AudioFrameParser();
+      const data = mp3Frames(4);
+      parser.probe(data);
+
+      expect(parser.findFrameBoundary(data.subarray(100))).toBe(MP3_FRAME_LENGTH - 100);
+    });
+
+    it('asks for more bytes when the following frame is cut off', () => {
+      const parser = new AudioFrameParser();
+      const data = mp3Frames(2);
+      parser.probe(data);
+
+      expect(parser.findFrameBoundary(data.subarray(0, MP3_FRAME_LENGTH + 2))).toBeNull();
+      expect(parser.findFrameBoundary(data.subarray(0, MP3_FRAME_LENGTH + 2), true)).toBe(0);
+    });
+  });
+
+  it('measures ID3v2 tags including the footer', () => {
+    expect(AudioFrameParser.skipID3v2(new Uint8Array(8))).toBeNull();
+    expect(AudioFrameParser.skipID3v2(mp3Frames(1))).toBe(0);
+    expect(AudioFrameParser.skipID3v2(Uint8Array.of(0x49, 0x44, 0x33, 4, 0, 0x10, 0, 0, 1, 0))).toBe(10 + 128 + 10);
+  });
+});
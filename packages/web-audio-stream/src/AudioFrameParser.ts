@@ -0,0 +1,762 @@
+// AudioFrameParser.ts
+// Container/codec-aware frame scanning for MP3, AAC/ADTS, Ogg and WAV
+// Finds cut points so every assembled chunk can be decoded on its own: WAV and Ogg chunks carry their headers,
+// MP3/AAC chunks repeat the previous chunk's last frames so the bit reservoir and MDCT overlap are primed
+
+export type AudioContainerFormat = 'mp3' | 'aac' | 'ogg' | 'wav' | 'unknown';
+
+export interface XingHeader {
+  frames: number | null;          // Total audio frames (excluding the Xing frame itself)
+  bytes: number | null;           // Total audio bytes
+  toc: number[] | null;           // 100-entry seek table (0-255 fractions of `bytes`)
+  encoderDelay: number | null;    // LAME encoder delay in samples
+  encoderPadding: number | null;  // LAME end padding in samples
+}
+
+export interface VbriHeader {
+  frames: number;                 // Total audio frames
+  bytes: number;                  // Total audio bytes
+  framesPerEntry: number;         // Frames covered by each seek table entry
+  toc: number[];                  // Byte size of each entry's stretch of frames
+}
+
+export interface AudioStreamInfo {
+  format: AudioContainerFormat;
+  sampleRate: number;             // Source sample rate (granule rate for Ogg Opus)
+  channels: number;
+  dataOffset: number;             // Byte offset of the first audio frame, page or PCM sample
+  samplesPerFrame: number | null; // Fixed frame size for MP3/ADTS
+  bitrate: number | null;         // Bits per second of the first audio frame
+  xing: XingHeader | null;        // MP3 Xing/Info + LAME header
+  vbri: VbriHeader | null;        // MP3 Fraunhofer VBRI header
+  blockAlign: number | null;      // WAV bytes per sample frame
+  dataSize: number | null;        // WAV data chunk size
+  preSkip: number;                // Opus pre-skip in granule samples
+}
+
+export interface SeekPoint {
+  byteOffset: number;             // Estimated file offset of the audio at the requested time
+  sampleOffset: number;           // Source sample the offset corresponds to
+}
+
+export interface FrameAlignedCut {
+  bytesConsumed: number;          // Source bytes taken from the front of the scanned buffer
+  data: ArrayBuffer;              // Independently decodable chunk (headers re-attached where needed)
+  sampleCount: number | null;     // Source samples in this chunk (null when the format is unknown)
+  overlapSamples: number;         // Source samples at the front of data repeated from the previous cut - decode, then drop
+}
+
+// Where scan() stopped; tail is the run of frames to repeat ahead of the next MP3/AAC cut
+interface ScanResult {
+  end: number;
+  samples: number;
+  granule: number | null;
+  tail?: { start: number; samples: number } | null;
+}
+
+// MP3/AAC frames repeated at the front of the next chunk - one refills the bit reservoir, the second settles the MDCT overlap
+const DECODER_OVERLAP_FRAMES = 2;
+
+interface MpegFrameHeader {
+  frameLength: number;
+  samplesPerFrame: number;
+  sampleRate: number;
+  channels: number;
+  bitrate: number;
+  isMpeg1: boolean;
+}
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG1
+  2: [22050, 24000, 16000], // MPEG2
+  0: [11025, 12000, 8000]   // MPEG2.5
+};
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// Give up on detection if this many bytes arrive without a recognisable header
+const MAX_PROBE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Frame-aware cut-point finder for streaming assembly
+ *
+ * Key features:
+ * - Detects MP3, AAC/ADTS, Ogg (Vorbis/Opus) and WAV from the first bytes
+ * - Skips ID3v2 tags and parses Xing/Info + LAME headers (frame count, seek table, encoder delay/padding)
+ * - Maps a time to a byte offset through the Xing TOC, VBRI table or bitrate, and resyncs on frame headers from there
+ * - Cuts only on frame/page/block boundaries, never mid-frame
+ * - Re-attaches Ogg header pages and WAV headers so later chunks decode without the start of the file
+ * - Counts source samples per chunk so chunk start offsets are known before decoding
+ */
+export class AudioFrameParser {
+  private info: AudioStreamInfo | null = null;
+  private chunkHeader: Uint8Array | null = null; // Ogg header pages or WAV header prepended to chunks
+  private lastGranule: number = 0;
+  private pcmBytesConsumed: number = 0;
+  private tagFrameLength: number = 0; // Size of the MP3 Xing/VBRI frame at dataOffset
+  private overlap: { data: Uint8Array; samples: number } | null = null; // Last MP3/AAC frames of the previous cut
+
+  /**
+   * Get detected stream information (null until probe succeeds)
+   */
+  getStreamInfo(): AudioStreamInfo | null {
+    return this.info;
+  }
+
+  /**
+   * Detect the container from the beginning of the file
+   * Returns null when more bytes are needed (e.g. a large ID3 tag)
+   */
+  probe(data: Uint8Array, isFinal: boolean = false): AudioStreamInfo | null {
+    if (this.info) return this.info;
+
+    const start = AudioFrameParser.skipID3v2(data);
+    if (start === null || data.length < start + 12) {
+      return isFinal ? this.setUnknown() : null;
+    }
+
+    if (this.matchesAscii(data, start, 'RIFF') && this.matchesAscii(data, start + 8, 'WAVE')) {
+      return this.probeWav(data, start) || (isFinal ? this.setUnknown() : null);
+    }
+
+    if (this.matchesAscii(data, start, 'OggS')) {
+      return this.probeOgg(data, start) || (isFinal ? this.setUnknown() : null);
+    }
+
+    // MPEG audio and ADTS both start with a 12-bit sync word - find the first frame confirmed by its successor
+    for (let i = start; i + 8 < data.length; i++) {
+      if (data[i] !== 0xFF || (data[i + 1] & 0xE0) !== 0xE0) continue;
+
+      const adts = this.parseAdtsHeader(data, i);
+      if (adts && this.confirmNextFrame(data, i + adts.frameLength, 'aac')) {
+        this.info = {
+          format: 'aac',
+          sampleRate: adts.sampleRate,
+          channels: adts.channels,
+          dataOffset: i,
+          samplesPerFrame: adts.samplesPerFrame,
+          bitrate: Math.round((adts.frameLength * 8 * adts.sampleRate) / adts.samplesPerFrame),
+          xing: null,
+          vbri: null,
+          blockAlign: null,
+          dataSize: null,
+          preSkip: 0
+        };
+        console.log(`[AudioFrameParser] Detected AAC/ADTS: ${adts.sampleRate}Hz, ${adts.channels}ch`);
+        return this.info;
+      }
+
+      const mpeg = this.parseMpegHeader(data, i);
+      if (mpeg && this.confirmNextFrame(data, i + mpeg.frameLength, 'mp3')) {
+        this.info = {
+          format: 'mp3',
+          sampleRate: mpeg.sampleRate,
+          channels: mpeg.channels,
+          dataOffset: i,
+          samplesPerFrame: mpeg.samplesPerFrame,
+          bitrate: mpeg.bitrate,
+          xing: this.parseXingHeader(data, i, mpeg),
+          vbri: this.parseVbriHeader(data, i),
+          blockAlign: null,
+          dataSize: null,
+          preSkip: 0
+        };
+        // The Xing/VBRI frame carries no audio - seek offsets are measured from the frame after it
+        this.tagFrameLength = this.info.xing || this.info.vbri ? mpeg.frameLength : 0;
+        console.log(`[AudioFrameParser] Detected MP3: ${mpeg.sampleRate}Hz, ${mpeg.channels}ch, ${mpeg.bitrate / 1000}kbps${this.info.xing ? ' (Xing/Info header)' : this.info.vbri ? ' (VBRI header)' : ''}`);
+        return this.info;
+      }
+    }
+
+    return isFinal || data.length >= MAX_PROBE_BYTES ? this.setUnknown() : null;
+  }
+
+  /**
+   * Cut a decodable chunk from the front of `data`
+   *
+   * `data` must begin at the start of the file (isFirst) or at a boundary returned by a previous cut.
+   * The cut lands on the last complete frame at or below `targetSize`, or on the last complete frame
+   * in `data` if none fits. Returns null when more bytes are needed, unless isFinal is set, in which
+   * case everything left is taken.
+   */
+  cutChunk(data: Uint8Array, options: { isFirst: boolean; isFinal: boolean; targetSize: number }): FrameAlignedCut | null {
+    const { isFirst, isFinal, targetSize } = options;
+
+    if (!this.info && !this.probe(data, isFinal)) {
+      return null;
+    }
+    const info = this.info!;
+    const start = isFirst ? info.dataOffset : 0;
+
+    if (isFinal && data.length <= targetSize) {
+      return this.buildCut(data, data.length, this.scan(data, start, data.length, isFirst, true), isFirst);
+    }
+
+    let scan = this.scan(data, start, Math.min(targetSize, data.length), isFirst, false);
+    if (scan.end <= start) {
+      // Nothing fits below the target - take the largest complete run available
+      scan = this.scan(data, start, data.length, isFirst, false);
+    }
+
+    if (scan.end <= start) {
+      if (!isFinal) return null;
+      return this.buildCut(data, data.length, this.scan(data, start, data.length, isFirst, true), isFirst);
+    }
+
+    return this.buildCut(data, scan.end, scan, isFirst);
+  }
+
+  /**
+   * Estimate where the audio for `time` seconds (source time, encoder delay included) starts in the file
+   *
+   * Uses the Xing TOC or VBRI table when present, otherwise the bitrate. The offset can land mid-frame -
+   * findFrameBoundary() locates the next frame from there. Returns null for Ogg and unknown formats,
+   * which carry no bitrate or seek table to map from.
+   */
+  getSeekPoint(time: number, fileSize: number): SeekPoint | null {
+    const info = this.info;
+    if (!info || time < 0) return null;
+
+    if (info.format === 'wav') {
+      const blockAlign = info.blockAlign || 1;
+      const sample = Math.floor(time * info.sampleRate);
+      return this.clampSeekPoint({ byteOffset: info.dataOffset + sample * blockAlign, sampleOffset: sample }, fileSize);
+    }
+
+    if ((info.format !== 'mp3' && info.format !== 'aac') || !info.samplesPerFrame) {
+      return null;
+    }
+
+    // Seek to the start of the frame holding the target sample
+    const frameIndex = Math.floor((time * info.sampleRate) / info.samplesPerFrame);
+    const sampleOffset = frameIndex * info.samplesPerFrame;
+    const audioStart = info.dataOffset + this.tagFrameLength;
+    const xing = info.xing;
+    const vbri = info.vbri;
+
+    if (xing && xing.toc && xing.frames) {
+      // TOC entry i is the byte position (in 1/256ths of the file) at i% of the duration
+      const percent = Math.min(99.999, (frameIndex / xing.frames) * 100);
+      const entry = Math.floor(percent);
+      const from = xing.toc[entry];
+      const to = entry < 99 ? xing.toc[entry + 1] : 256;
+      const fraction = (from + (to - from) * (percent - entry)) / 256;
+      const totalBytes = xing.bytes || fileSize - info.dataOffset;
+      return this.clampSeekPoint({ byteOffset: info.dataOffset + Math.round(fraction * totalBytes), sampleOffset }, fileSize);
+    }
+
+    if (vbri && vbri.framesPerEntry > 0) {
+      let byteOffset = audioStart;
+      let frames = frameIndex;
+      for (const entryBytes of vbri.toc) {
+        if (frames < vbri.framesPerEntry) {
+          byteOffset += Math.round(entryBytes * (frames / vbri.framesPerEntry));
+          break;
+        }
+        byteOffset += entryBytes;
+        frames -= vbri.framesPerEntry;
+      }
+      return this.clampSeekPoint({ byteOffset, sampleOffset }, fileSize);
+    }
+
+    // Constant (or average, for Xing headers without a TOC) bitrate
+    const duration = xing && xing.frames ? (xing.frames * info.samplesPerFrame) / info.sampleRate : 0;
+    const bytesPerSecond = xing && xing.bytes && duration > 0 ? xing.bytes / duration : (info.bitrate || 0) / 8;
+    if (!bytesPerSecond) return null;
+
+    const byteOffset = audioStart + Math.round((sampleOffset / info.sampleRate) * bytesPerSecond);
+    return this.clampSeekPoint({ byteOffset, sampleOffset }, fileSize);
+  }
+
+  /**
+   * Find the first frame header at or after `start`, confirmed by the frame that follows it
+   * Returns null when more bytes are needed; formats without sync words are already aligned (0)
+   */
+  findFrameBoundary(data: Uint8Array, isFinal: boolean = false): number | null {
+    const info = this.info;
+    if (!info || (info.format !== 'mp3' && info.format !== 'aac')) return 0;
+
+    for (let i = 0; i + 8 < data.length; i++) {
+      const frame = info.format === 'aac' ? this.parseAdtsHeader(data, i) : this.parseMpegHeader(data, i);
+      if (!frame || frame.sampleRate !== info.sampleRate) continue;
+
+      const next = i + frame.frameLength;
+      if (next + 4 > data.length) {
+        // Can't confirm against the next frame yet
+        return isFinal ? i : null;
+      }
+      if (this.confirmNextFrame(data, next, info.format)) {
+        return i;
+      }
+    }
+
+    return isFinal ? data.length : null;
+  }
+
+  /**
+   * Continue cutting from another source byte offset (after a seek)
+   */
+  resetPosition(byteOffset: number): void {
+    // Frames before the new position weren't just decoded - nothing to overlap with
+    this.overlap = null;
+    if (this.info?.format === 'wav') {
+      this.pcmBytesConsumed = Math.max(0, byteOffset - this.info.dataOffset);
+    }
+  }
+
+  /**
+   * Return the size of a leading ID3v2 tag, 0 if absent, or null if the header is incomplete
+   */
+  static skipID3v2(data: Uint8Array): number | null {
+    if (data.length < 10) return null;
+    if (data[0] !== 0x49 || data[1] !== 0x44 || data[2] !== 0x33) return 0; // "ID3"
+
+    const size = ((data[6] & 0x7F) << 21) | ((data[7] & 0x7F) << 14) | ((data[8] & 0x7F) << 7) | (data[9] & 0x7F);
+    const hasFooter = (data[5] & 0x10) !== 0;
+    return 10 + size + (hasFooter ? 10 : 0);
+  }
+
+  private setUnknown(): AudioStreamInfo {
+    console.warn('[AudioFrameParser] Unrecognised container, falling back to raw byte cuts');
+    this.info = {
+      format: 'unknown',
+      sampleRate: 0,
+      channels: 0,
+      dataOffset: 0,
+      samplesPerFrame: null,
+      bitrate: null,
+      xing: null,
+      vbri: null,
+      blockAlign: null,
+      dataSize: null,
+      preSkip: 0
+    };
+    return this.info;
+  }
+
+  private buildCut(
+    data: Uint8Array,
+    consumed: number,
+    scan: ScanResult,
+    isFirst: boolean
+  ): FrameAlignedCut {
+    const info = this.info!;
+    const granule = scan.granule;
+    let samples = scan.samples;
+    let payload = data.subarray(0, consumed);
+    let overlapSamples = 0;
+
+    if (info.format === 'ogg' && granule !== null) {
+      // Opus granules include the pre-skip that decoders drop from the first packet
+      const previous = this.lastGranule;
+      this.lastGranule = granule;
+      samples = Math.max(0, granule - Math.max(previous, info.preSkip));
+    }
+
+    let chunk: Uint8Array;
+    if (info.format === 'wav' && this.chunkHeader) {
+      // Only whole sample frames inside the data chunk - trailing LIST/id3 chunks are dropped
+      payload = data.subarray(isFirst ? info.dataOffset : 0, scan.end);
+      this.pcmBytesConsumed += payload.length;
+      chunk = this.withWavHeader(payload);
+    } else if (info.format === 'ogg' && this.chunkHeader && !isFirst) {
+      chunk = new Uint8Array(this.chunkHeader.length + payload.length);
+      chunk.set(this.chunkHeader, 0);
+      chunk.set(payload, this.chunkHeader.length);
+    } else if (info.format === 'mp3' || info.format === 'aac') {
+      // Frames lean on the ones before them (bit reservoir, MDCT overlap) - decode the previous cut's tail again first
+      const overlap = isFirst ? null : this.overlap;
+      overlapSamples = overlap?.samples ?? 0;
+      chunk = new Uint8Array((overlap?.data.length ?? 0) + payload.length);
+      if (overlap) chunk.set(overlap.data, 0);
+      chunk.set(payload, overlap?.data.length ?? 0);
+      this.overlap = scan.tail && scan.tail.start < scan.end
+        ? { data: data.slice(scan.tail.start, scan.end), samples: scan.tail.samples }
+        : null;
+    } else {
+      chunk = payload.slice();
+    }
+
+    return {
+      bytesConsumed: consumed,
+      data: chunk.buffer as ArrayBuffer,
+      sampleCount: info.format === 'unknown' ? null : samples,
+      overlapSamples
+    };
+  }
+
+  /**
+   * Walk complete frames in data[start, limit) and report where the last one ends
+   */
+  private scan(data: Uint8Array, start: number, limit: number, isFirst: boolean, isFinal: boolean): ScanResult {
+    const info = this.info!;
+
+    switch (info.format) {
+      case 'mp3':
+      case 'aac':
+        return { ...this.scanSyncFrames(data, start, limit, isFirst), granule: null };
+      case 'ogg':
+        return this.scanOggPages(data, start, limit, isFinal);
+      case 'wav': {
+        const blockAlign = info.blockAlign || 1;
+        // Streamed WAVs often carry a 0 or 0xFFFFFFFF data size - treat those as unbounded
+        const hasDataSize = !!info.dataSize && info.dataSize !== 0xFFFFFFFF;
+        const remaining = hasDataSize ? Math.max(0, info.dataSize! - this.pcmBytesConsumed) : Infinity;
+        const available = Math.min(Math.max(0, limit - start), remaining);
+        const pcmBytes = Math.floor(available / blockAlign) * blockAlign;
+        return { end: start + pcmBytes, samples: pcmBytes / blockAlign, granule: null };
+      }
+      default:
+        return { end: limit, samples: 0, granule: null };
+    }
+  }
+
+  private scanSyncFrames(data: Uint8Array, start: number, limit: number, isFirst: boolean): { end: number; samples: number; tail: ScanResult['tail'] } {
+    const info = this.info!;
+    const xingFrameOffset = isFirst && (info.xing || info.vbri) ? info.dataOffset : -1;
+    let position = start;
+    let end = start;
+    let samples = 0;
+    const recentFrames: Array<{ position: number; samples: number }> = []; // Last DECODER_OVERLAP_FRAMES audio frames
+
+    while (position + 8 <= limit) {
+      const frame = info.format === 'aac' ? this.parseAdtsHeader(data, position) : this.parseMpegHeader(data, position);
+
+      if (!frame || frame.sampleRate !== info.sampleRate) {
+        // Junk between frames (ID3v1, APE tags, corruption) - resync on the next header
+        position++;
+        continue;
+      }
+
+      if (position + frame.frameLength > limit) break;
+
+      // The Xing/Info frame carries no audio
+      if (position !== xingFrameOffset) {
+        samples += frame.samplesPerFrame;
+        recentFrames.push({ position, samples: frame.samplesPerFrame });
+        if (recentFrames.length > DECODER_OVERLAP_FRAMES) recentFrames.shift();
+      }
+      position += frame.frameLength;
+      end = position;
+    }
+
+    const tail = recentFrames.length > 0
+      ? { start: recentFrames[0].position, samples: recentFrames.reduce((sum, recent) => sum + recent.samples, 0) }
+      : null;
+    return { end, samples, tail };
+  }
+
+  private scanOggPages(data: Uint8Array, start: number, limit: number, isFinal: boolean): { end: number; samples: number; granule: number | null } {
+    let position = start;
+    let end = start;
+    let granule: number | null = null;
+
+    while (position + 27 <= limit && this.matchesAscii(data, position, 'OggS')) {
+      const pageSize = this.getOggPageSize(data, position, limit);
+      if (pageSize === null || position + pageSize > limit) break;
+
+      const pageGranule = this.readGranule(data, position);
+      const next = position + pageSize;
+      position = next;
+
+      // Only cut after a page that completes a packet and is not continued by the next page
+      if (pageGranule === null) continue;
+      const atEnd = isFinal && next === data.length;
+      const nextStartsPacket = next + 6 <= data.length && (data[next + 5] & 0x01) === 0;
+      if (!atEnd && !nextStartsPacket) continue;
+
+      end = next;
+      granule = pageGranule;
+    }
+
+    return { end, samples: 0, granule };
+  }
+
+  private probeWav(data: Uint8Array, start: number): AudioStreamInfo | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let position = start + 12;
+    let channels = 0;
+    let sampleRate = 0;
+    let blockAlign = 0;
+    let bitsPerSample = 0;
+
+    while (position + 8 <= data.length) {
+      const chunkSize = view.getUint32(position + 4, true);
+
+      if (this.matchesAscii(data, position, 'fmt ')) {
+        if (position + 24 > data.length) return null;
+        channels = view.getUint16(position + 10, true);
+        sampleRate = view.getUint32(position + 12, true);
+        blockAlign = view.getUint16(position + 20, true);
+        bitsPerSample = view.getUint16(position + 22, true);
+      } else if (this.matchesAscii(data, position, 'data')) {
+        if (!blockAlign) return null;
+        const dataOffset = position + 8;
+        this.chunkHeader = data.slice(start, dataOffset);
+        this.info = {
+          format: 'wav',
+          sampleRate,
+          channels,
+          dataOffset,
+          samplesPerFrame: null,
+          bitrate: sampleRate * blockAlign * 8,
+          xing: null,
+          vbri: null,
+          blockAlign,
+          dataSize: chunkSize,
+          preSkip: 0
+        };
+        console.log(`[AudioFrameParser] Detected WAV: ${sampleRate}Hz, ${channels}ch, ${bitsPerSample}-bit`);
+        return this.info;
+      }
+
+      position += 8 + chunkSize + (chunkSize & 1);
+    }
+
+    return null;
+  }
+
+  private probeOgg(data: Uint8Array, start: number): AudioStreamInfo | null {
+    // Header pages (identification, comments, setup) all carry granule position 0
+    let position = start;
+    let sampleRate = 0;
+    let channels = 0;
+    let preSkip = 0;
+
+    while (position + 27 <= data.length && this.matchesAscii(data, position, 'OggS')) {
+      const pageSize = this.getOggPageSize(data, position, data.length);
+      if (pageSize === null || position + pageSize > data.length) return null;
+
+      if (position === start) {
+        const packetStart = position + 27 + data[position + 26];
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        if (data[packetStart] === 0x01 && this.matchesAscii(data, packetStart + 1, 'vorbis')) {
+          channels = data[packetStart + 11];
+          sampleRate = view.getUint32(packetStart + 12, true);
+        } else if (this.matchesAscii(data, packetStart, 'OpusHead')) {
+          channels = data[packetStart + 9];
+          preSkip = view.getUint16(packetStart + 10, true);
+          sampleRate = 48000; // Opus granule positions always count 48kHz samples
+        }
+      }
+
+      if (this.readGranule(data, position) !== 0) {
+        if (!sampleRate) return null;
+        this.chunkHeader = data.slice(start, position);
+        this.info = {
+          format: 'ogg',
+          sampleRate,
+          channels,
+          dataOffset: start,
+          samplesPerFrame: null,
+          bitrate: null,
+          xing: null,
+          vbri: null,
+          blockAlign: null,
+          dataSize: null,
+          preSkip
+        };
+        console.log(`[AudioFrameParser] Detected Ogg: ${sampleRate}Hz, ${channels}ch, ${this.chunkHeader.length} header bytes`);
+        return this.info;
+      }
+
+      position += pageSize;
+    }
+
+    return null;
+  }
+
+  private parseMpegHeader(data: Uint8Array, i: number): MpegFrameHeader | null {
+    if (i + 4 > data.length || data[i] !== 0xFF || (data[i + 1] & 0xE0) !== 0xE0) return null;
+
+    const versionBits = (data[i + 1] >> 3) & 0x03;
+    const layerBits = (data[i + 1] >> 1) & 0x03;
+    const bitrateIndex = data[i + 2] >> 4;
+    const sampleRateIndex = (data[i + 2] >> 2) & 0x03;
+    const padding = (data[i + 2] >> 1) & 0x01;
+    const channelMode = data[i + 3] >> 6;
+
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      return null;
+    }
+
+    const isMpeg1 = versionBits === 3;
+    const layer = 4 - layerBits; // 1, 2 or 3
+    const bitrate = MPEG_BITRATES[`${isMpeg1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+    const sampleRate = MPEG_SAMPLE_RATES[versionBits][sampleRateIndex];
+
+    let frameLength: number;
+    let samplesPerFrame: number;
+    if (layer === 1) {
+      frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+      samplesPerFrame = 384;
+    } else if (layer === 2 || isMpeg1) {
+      frameLength = Math.floor((144 * bitrate) / sampleRate) + padding;
+      samplesPerFrame = 1152;
+    } else {
+      frameLength = Math.floor((72 * bitrate) / sampleRate) + padding;
+      samplesPerFrame = 576;
+    }
+
+    return {
+      frameLength,
+      samplesPerFrame,
+      sampleRate,
+      channels: channelMode === 3 ? 1 : 2,
+      bitrate,
+      isMpeg1
+    };
+  }
+
+  private parseAdtsHeader(data: Uint8Array, i: number): { frameLength: number; samplesPerFrame: number; sampleRate: number; channels: number } | null {
+    if (i + 7 > data.length || data[i] !== 0xFF || (data[i + 1] & 0xF6) !== 0xF0) return null;
+
+    const sampleRateIndex = (data[i + 2] >> 2) & 0x0F;
+    const channels = ((data[i + 2] & 0x01) << 2) | (data[i + 3] >> 6);
+    const frameLength = ((data[i + 3] & 0x03) << 11) | (data[i + 4] << 3) | (data[i + 5] >> 5);
+    const rawBlocks = (data[i + 6] & 0x03) + 1;
+
+    if (sampleRateIndex >= ADTS_SAMPLE_RATES.length || frameLength < 7) return null;
+
+    return {
+      frameLength,
+      samplesPerFrame: rawBlocks * 1024,
+      sampleRate: ADTS_SAMPLE_RATES[sampleRateIndex],
+      channels: channels || 2
+    };
+  }
+
+  private confirmNextFrame(data: Uint8Array, next: number, format: 'mp3' | 'aac'): boolean {
+    // At the end of a short buffer there is nothing to confirm against - accept the single frame
+    if (next + 4 > data.length) return next <= data.length;
+    return format === 'aac' ? this.parseAdtsHeader(data, next) !== null : this.parseMpegHeader(data, next) !== null;
+  }
+
+  private parseXingHeader(data: Uint8Array, frameStart: number, frame: MpegFrameHeader): XingHeader | null {
+    const sideInfoSize = frame.isMpeg1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+    const tagOffset = frameStart + 4 + sideInfoSize;
+    if (tagOffset + 8 > data.length) return null;
+    if (!this.matchesAscii(data, tagOffset, 'Xing') && !this.matchesAscii(data, tagOffset, 'Info')) return null;
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const flags = view.getUint32(tagOffset + 4);
+    let position = tagOffset + 8;
+    const header: XingHeader = { frames: null, bytes: null, toc: null, encoderDelay: null, encoderPadding: null };
+
+    if (flags & 0x01) {
+      header.frames = view.getUint32(position);
+      position += 4;
+    }
+    if (flags & 0x02) {
+      header.bytes = view.getUint32(position);
+      position += 4;
+    }
+    if (flags & 0x04) {
+      header.toc = Array.from(data.subarray(position, position + 100));
+      position += 100;
+    }
+    if (flags & 0x08) {
+      position += 4; // Quality indicator
+    }
+
+    // LAME extension: 9-byte encoder string, then delay/padding packed into 24 bits at offset 21
+    if (position + 24 <= data.length &&
+        (this.matchesAscii(data, position, 'LAME') || this.matchesAscii(data, position, 'Lavc') || this.matchesAscii(data, position, 'Lavf'))) {
+      header.encoderDelay = (data[position + 21] << 4) | (data[position + 22] >> 4);
+      header.encoderPadding = ((data[position + 22] & 0x0F) << 8) | data[position + 23];
+    }
+
+    return header;
+  }
+
+  private parseVbriHeader(data: Uint8Array, frameStart: number): VbriHeader | null {
+    // Always 32 bytes after the 4-byte frame header, whatever the channel mode
+    const tagOffset = frameStart + 36;
+    if (tagOffset + 26 > data.length || !this.matchesAscii(data, tagOffset, 'VBRI')) return null;
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entries = view.getUint16(tagOffset + 18);
+    const scale = view.getUint16(tagOffset + 20);
+    const entrySize = view.getUint16(tagOffset + 22);
+    const tableStart = tagOffset + 26;
+    if (entrySize < 1 || entrySize > 4 || tableStart + entries * entrySize > data.length) return null;
+
+    const toc: number[] = [];
+    for (let e = 0; e < entries; e++) {
+      let value = 0;
+      for (let b = 0; b < entrySize; b++) {
+        value = value * 256 + data[tableStart + e * entrySize + b];
+      }
+      toc.push(value * scale);
+    }
+
+    return {
+      bytes: view.getUint32(tagOffset + 10),
+      frames: view.getUint32(tagOffset + 14),
+      framesPerEntry: view.getUint16(tagOffset + 24),
+      toc
+    };
+  }
+
+  private clampSeekPoint(point: SeekPoint, fileSize: number): SeekPoint {
+    const info = this.info;
+    if (info?.format === 'wav') {
+      // PCM has to stay on a sample frame boundary - past the end, step back to the last whole frame
+      const blockAlign = info.blockAlign || 1;
+      const hasDataSize = !!info.dataSize && info.dataSize !== 0xFFFFFFFF;
+      const dataEnd = hasDataSize ? Math.min(fileSize, info.dataOffset + info.dataSize!) : fileSize;
+      const lastSample = Math.max(0, Math.floor((dataEnd - info.dataOffset) / blockAlign) - 1);
+      const sampleOffset = Math.min(point.sampleOffset, lastSample);
+      return { byteOffset: info.dataOffset + sampleOffset * blockAlign, sampleOffset };
+    }
+    return { ...point, byteOffset: Math.max(0, Math.min(point.byteOffset, fileSize - 1)) };
+  }
+
+  private getOggPageSize(data: Uint8Array, position: number, limit: number): number | null {
+    const segmentCount = data[position + 26];
+    if (position + 27 + segmentCount > limit) return null;
+
+    let bodySize = 0;
+    for (let s = 0; s < segmentCount; s++) {
+      bodySize += data[position + 27 + s];
+    }
+    return 27 + segmentCount + bodySize;
+  }
+
+  private readGranule(data: Uint8Array, position: number): number | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const low = view.getUint32(position + 6, true);
+    const high = view.getUint32(position + 10, true);
+    if (low === 0xFFFFFFFF && high === 0xFFFFFFFF) return null; // No packet finishes on this page
+    return high * 0x100000000 + low;
+  }
+
+  private withWavHeader(pcm: Uint8Array): Uint8Array {
+    const header = this.chunkHeader!;
+    const chunk = new Uint8Array(header.length + pcm.length);
+    chunk.set(header, 0);
+    chunk.set(pcm, header.length);
+
+    const view = new DataView(chunk.buffer);
+    view.setUint32(4, chunk.length - 8, true);               // RIFF size
+    view.setUint32(header.length - 4, pcm.length, true);      // data size
+    return chunk;
+  }
+
+  private matchesAscii(data: Uint8Array, offset: number, text: string): boolean {
+    if (offset + text.length > data.length) return false;
+    for (let i = 0; i < text.length; i++) {
+      if (data[offset + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,97 @@
+// CompressorEffect.ts
+// Compressor/limiter effect unit built on DynamicsCompressorNode with makeup gain
+
+import type { EffectUnit } from './EffectsChain.js';
+
+export interface CompressorParams {
+  threshold: number;  // dB
+  knee: number;       // dB
+  ratio: number;
+  attack: number;     // Seconds
+  release: number;    // Seconds
+  makeupGain: number; // dB applied after compression
+}
+
+export const COMPRESSOR_DEFAULTS: CompressorParams = {
+  threshold: -24,
+  knee: 30,
+  ratio: 4,
+  attack: 0.003,
+  release: 0.25,
+  makeupGain: 0
+};
+
+// Brick-wall-style settings - the native compressor's maximum ratio with a hard knee and fast attack
+export const LIMITER_DEFAULTS: CompressorParams = {
+  threshold: -1,
+  knee: 0,
+  ratio: 20,
+  attack: 0.001,
+  release: 0.1,
+  makeupGain: 0
+};
+
+const PARAM_SMOOTHING = 0.01;
+
+/**
+ * Dynamic range compressor (also registered as 'limiter' with LIMITER_DEFAULTS)
+ *
+ * Key features:
+ * - All DynamicsCompressorNode parameters plus makeup gain
+ * - getReduction() for gain reduction meters
+ */
+export class CompressorEffect implements EffectUnit<CompressorParams> {
+  readonly type: string;
+  readonly input: DynamicsCompressorNode;
+  readonly output: GainNode;
+
+  private audioContext: BaseAudioContext;
+  private params: CompressorParams;
+
+  constructor(audioContext: BaseAudioContext, params: Partial<CompressorParams> = {}, type: string = 'compressor') {
+    this.type = type;
+    this.audioContext = audioContext;
+    this.input = audioContext.createDynamicsCompressor();
+    this.output = audioContext.createGain();
+    this.input.connect(this.output);
+
+    this.params = { ...COMPRESSOR_DEFAULTS, ...params };
+    this.input.threshold.value = this.params.threshold;
+    this.input.knee.value = this.params.knee;
+    this.input.ratio.value = this.params.ratio;
+    this.input.attack.value = this.params.attack;
+    this.input.release.value = this.params.release;
+    this.output.gain.value = this.dbToGain(this.params.makeupGain);
+  }
+
+  getParams(): CompressorParams {
+    return { ...this.params };
+  }
+
+  setParams(params: Partial<CompressorParams>): void {
+    this.params = { ...this.params, ...params };
+
+    const now = this.audioContext.currentTime;
+    this.input.threshold.setTargetAtTime(this.params.threshold, now, PARAM_SMOOTHING);
+    this.input.knee.setTargetAtTime(this.params.knee, now, PARAM_SMOOTHING);
+    this.input.ratio.setTargetAtTime(this.params.ratio, now, PARAM_SMOOTHING);
+    this.input.attack.setTargetAtTime(this.params.attack, now, PARAM_SMOOTHING);
+    this.input.release.setTargetAtTime(this.params.release, now, PARAM_SMOOTHING);
+    this.output.gain.setTargetAtTime(this.dbToGain(this.params.makeupGain), now, PARAM_SMOOTHING);
+  }
+
+  /**
+   * Current gain reduction in dB (0 or negative)
+   */
+  getReduction(): number {
+    return this.input.reduction;
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+  }
+
+  private dbToGain(db: number): number {
+    return Math.pow(10, db / 20);
+  }
+}
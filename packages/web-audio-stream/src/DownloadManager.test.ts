@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DownloadManager, type DownloadChunk, type DownloadManagerOptions } from './DownloadManager.js';
+import { installFakeBrowser, type FakeBrowser } from './testing/index.js';
+
+const FILE = Uint8Array.from({ length: 40000 }, (_, index) => index % 251);
+
+let browser: FakeBrowser;
+
+// Small fixed ranges, so a 40KB file takes several requests
+function createDownloadManager(options: DownloadManagerOptions = {}): DownloadManager {
+  return new DownloadManager({
+    strategy: { initialChunkSize: 4096, standardChunkSize: 8192, maxConcurrentDownloads: 2, adaptiveChunkSizing: false },
+    ...options
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  browser = installFakeBrowser();
+  browser.fetch.route('/file.bin', { body: FILE });
+});
+
+afterEach(() => {
+  browser.uninstall();
+  vi.restoreAllMocks();
+});
+
+describe('DownloadManager', () => {
+  it('downloads the file in ranges, handing out each one as it completes', async () => {
+    const delivered: DownloadChunk[] = [];
+    const downloads = createDownloadManager({ onChunkComplete: chunk => delivered.push(chunk) });
+
+    const result = await downloads.downloadAudio('/file.bin', { priorityFirstChunk: true });
+
+    expect(result.totalSize).toBe(FILE.length);
+    expect(delivered[0]).toMatchObject({ index: 0, start: 0, end: 4095 });
+    expect(delivered).toHaveLength(result.chunks.length);
+    expect(new Uint8Array(DownloadManager.assembleChunks(result.chunks))).toEqual(FILE);
+  });
+
+  it('stops every request and drops downloaded chunks when aborted', async () => {
+    browser.fetch.route('/file.bin', { body: FILE, delayMs: 5 });
+    const controller = new AbortController();
+    const delivered = vi.fn(() => controller.abort());
+    const downloads = createDownloadManager({ onChunkComplete: delivered });
+
+    const download = downloads.downloadAudio('/file.bin', { signal: controller.signal });
+
+    await expect(download).rejects.toMatchObject({ name: 'AbortError' });
+    expect(delivered).toHaveBeenCalledOnce();
+    expect(downloads.getCompletedChunks()).toEqual([]);
+  });
+
+  it('rejects with the reason of an already aborted signal without fetching', async () => {
+    const reason = new Error('Track skipped');
+
+    await expect(createDownloadManager().downloadAudio('/file.bin', { signal: AbortSignal.abort(reason) })).rejects.toBe(reason);
+    expect(browser.fetch.requests).toEqual([]);
+  });
+});
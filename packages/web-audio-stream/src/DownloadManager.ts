@@ -27,10 +27,18 @@ export interface DownloadStrategy {
   adaptiveChunkSizing: boolean; // Adjust size based on connection speed
 }
 
+export interface DownloadResult {
+  chunks: DownloadChunk[];
+  totalSize: number;
+  downloadTime: number;
+  averageSpeed: number;
+}
+
 export interface DownloadManagerOptions {
   strategy?: Partial<DownloadStrategy>;
   onProgress?: (progress: DownloadProgress) => void;
-  onChunkComplete?: (chunk: DownloadChunk) => void;
+  onStart?: (totalSize: number, chunksTotal: number) => void; // Fired once the file size is known, before any chunk
+  onChunkComplete?: (chunk: DownloadChunk) => void; // Fired as soon as each range finishes, in completion order
   onComplete?: (totalTime: number, avgSpeed: number) => void;
   onError?: (error: Error) => void;
 }
@@ -45,20 +53,27 @@ export interface DownloadManagerOptions {
  * - Priority downloading for first chunk (instant playback)
  * - Range request optimization for HTTP/2 performance
  * - Connection speed detection and adaptation
+ * - Streams chunks to onChunkComplete while later ranges are still in flight
+ * - Reprioritises pending ranges around a byte offset (seeking ahead of the download)
+ * - AbortSignal cancellation that stops every request and drops downloaded data
  */
 export class DownloadManager {
   private strategy: DownloadStrategy;
   private onProgress?: (progress: DownloadProgress) => void;
+  private onStart?: (totalSize: number, chunksTotal: number) => void;
   private onChunkComplete?: (chunk: DownloadChunk) => void;
   private onComplete?: (totalTime: number, avgSpeed: number) => void;
   private onError?: (error: Error) => void;
   
   // Download state
   private activeDownloads = new Set<number>();
+  private pendingRanges: Array<{index: number, start: number, end: number}> = []; // Not started yet, in download order
   private completedChunks = new Map<number, DownloadChunk>();
+  private totalChunks: number = 0;
   private downloadStartTime: number = 0;
   private totalBytesDownloaded: number = 0;
   private connectionSpeed: number = 0; // bytes per second
+  private signal: AbortSignal | undefined; // Signal of the download in progress
   
   // Connection speed detection
   private speedSamples: number[] = [];
@@ -82,6 +97,7 @@ export class DownloadManager {
     };
     
     this.onProgress = options.onProgress;
+    this.onStart = options.onStart;
     this.onChunkComplete = options.onChunkComplete;
     this.onComplete = options.onComplete;
     this.onError = options.onError;
@@ -103,13 +119,14 @@ export class DownloadManager {
   /**
    * Check if server supports range requests
    */
-  async checkRangeRequestSupport(url: string): Promise<boolean> {
+  async checkRangeRequestSupport(url: string, signal?: AbortSignal): Promise<boolean> {
     try {
       const response = await fetch(url, {
         method: 'HEAD',
         headers: {
           'Range': 'bytes=0-1'
-        }
+        },
+        signal
       });
       
       const acceptsRanges = response.headers.get('Accept-Ranges');
@@ -136,8 +153,8 @@ export class DownloadManager {
   /**
    * Get optimal download strategy for a file
    */
-  async getOptimalStrategy(url: string, estimatedFileSize?: number): Promise<DownloadStrategy> {
-    const supportsRanges = await this.checkRangeRequestSupport(url);
+  async getOptimalStrategy(url: string, estimatedFileSize?: number, signal?: AbortSignal): Promise<DownloadStrategy> {
+    const supportsRanges = await this.checkRangeRequestSupport(url, signal);
     
     if (!supportsRanges) {
       // No range support - download entire file
@@ -176,31 +193,39 @@ export class DownloadManager {
 
   /**
    * Download audio file with optimized chunking strategy
+   * 
+   * Chunks are handed to onChunkComplete as each range finishes, so callers can
+   * consume them while later ranges are still downloading. The returned promise
+   * resolves once every range is done; if a range fails it rejects, but chunks
+   * already delivered stay available through getCompletedChunks().
+   * Aborting the signal cancels every request, drops the downloaded chunks and
+   * rejects with the signal's reason (an AbortError unless one was given).
    */
   async downloadAudio(url: string, options: {
     estimatedFileSize?: number;
     priorityFirstChunk?: boolean;
-  } = {}): Promise<{
-    chunks: DownloadChunk[];
-    totalSize: number;
-    downloadTime: number;
-    averageSpeed: number;
-  }> {
+    signal?: AbortSignal;
+  } = {}): Promise<DownloadResult> {
     console.log(`[DownloadManager] Starting optimized download: ${url}`);
     
     // Reset state
     this.activeDownloads.clear();
+    this.pendingRanges = [];
     this.completedChunks.clear();
+    this.totalChunks = 0;
     this.totalBytesDownloaded = 0;
     this.speedSamples = [];
     this.downloadStartTime = performance.now();
-    
-    // Get optimal strategy for this download
-    const strategy = await this.getOptimalStrategy(url, options.estimatedFileSize);
+    this.signal = options.signal;
     
     try {
+      this.signal?.throwIfAborted();
+      
+      // Get optimal strategy for this download
+      const strategy = await this.getOptimalStrategy(url, options.estimatedFileSize, this.signal);
+      
       // First, get file size via HEAD request
-      const headResponse = await fetch(url, { method: 'HEAD' });
+      const headResponse = await fetch(url, { method: 'HEAD', signal: this.signal });
       const contentLength = headResponse.headers.get('Content-Length');
       const totalSize = contentLength ? parseInt(contentLength, 10) : 0;
       
@@ -212,12 +237,15 @@ export class DownloadManager {
       
       // Calculate download chunks based on strategy
       const chunks = this.calculateDownloadChunks(totalSize, strategy);
+      this.totalChunks = chunks.length;
+      
+      this.onStart?.(totalSize, chunks.length);
       
       // Download with priority handling
       if (options.priorityFirstChunk && chunks.length > 0) {
-        await this.downloadPriorityFirst(url, chunks, totalSize);
+        await this.downloadPriorityFirst(url, chunks, totalSize, strategy);
       } else {
-        await this.downloadParallel(url, chunks, totalSize);
+        await this.downloadParallel(url, chunks, totalSize, strategy);
       }
       
       const totalTime = performance.now() - this.downloadStartTime;
@@ -225,21 +253,26 @@ export class DownloadManager {
       
       console.log(`[DownloadManager] Download complete: ${totalTime.toFixed(2)}ms, ${(averageSpeed / 1024 / 1024).toFixed(2)}MB/s`);
       
-      // Sort chunks by index for assembly
-      const sortedChunks = Array.from(this.completedChunks.values()).sort((a, b) => a.index - b.index);
-      
       this.onComplete?.(totalTime, averageSpeed);
       
       return {
-        chunks: sortedChunks,
+        chunks: this.getCompletedChunks(),
         totalSize,
         downloadTime: totalTime,
         averageSpeed
       };
       
     } catch (error) {
+      if (this.signal?.aborted) {
+        // Cancelled - release everything downloaded so far
+        this.pendingRanges = [];
+        this.completedChunks.clear();
+        console.log(`[DownloadManager] Download aborted: ${url}`);
+        throw this.signal.reason;
+      }
+      
       const downloadError = error as Error;
-      console.error(`[DownloadManager] Download failed: ${downloadError.message}`);
+      console.error(`[DownloadManager] Download failed after ${this.completedChunks.size}/${this.totalChunks} chunks: ${downloadError.message}`);
       this.onError?.(downloadError);
       throw downloadError;
     }
@@ -299,43 +332,77 @@ export class DownloadManager {
   private async downloadPriorityFirst(
     url: string, 
     chunks: Array<{index: number, start: number, end: number}>, 
-    totalSize: number
+    totalSize: number,
+    strategy: DownloadStrategy
   ): Promise<void> {
     if (chunks.length === 0) return;
     
     // Download first chunk immediately at high priority
     console.log(`[DownloadManager] Priority downloading first chunk (${((chunks[0].end - chunks[0].start + 1) / 1024).toFixed(0)}KB)`);
     await this.downloadChunk(url, chunks[0]);
+    this.reportProgress(totalSize);
     
     // Download remaining chunks in parallel
     if (chunks.length > 1) {
       const remainingChunks = chunks.slice(1);
-      await this.downloadParallel(url, remainingChunks, totalSize);
+      await this.downloadParallel(url, remainingChunks, totalSize, strategy);
     }
   }
 
   /**
    * Download chunks in parallel with concurrency control
+   * 
+   * Uses a worker pool rather than fixed batches so a slow range never holds back
+   * the next request, and chunks are reported the moment they land. On the first
+   * failure no new ranges are started; in-flight ranges are allowed to settle so
+   * their data is still delivered before the error is rethrown.
    */
   private async downloadParallel(
     url: string, 
     chunks: Array<{index: number, start: number, end: number}>, 
-    totalSize: number
+    totalSize: number,
+    strategy: DownloadStrategy
   ): Promise<void> {
-    const maxConcurrent = this.strategy.maxConcurrentDownloads;
-    const promises: Promise<void>[] = [];
+    const maxConcurrent = Math.max(1, strategy.maxConcurrentDownloads);
+    this.pendingRanges = [...chunks];
+    let firstError: Error | null = null;
     
-    // Process chunks in batches to control concurrency
-    for (let i = 0; i < chunks.length; i += maxConcurrent) {
-      const batch = chunks.slice(i, i + maxConcurrent);
-      const batchPromises = batch.map(chunk => this.downloadChunk(url, chunk));
-      
-      // Wait for current batch to complete before starting next
-      await Promise.all(batchPromises);
-      
-      // Update progress
-      this.reportProgress(totalSize);
+    const worker = async () => {
+      while (this.pendingRanges.length > 0 && !firstError && !this.signal?.aborted) {
+        const chunkInfo = this.pendingRanges.shift()!;
+        try {
+          await this.downloadChunk(url, chunkInfo);
+          this.reportProgress(totalSize);
+        } catch (error) {
+          firstError = firstError || (error as Error);
+        }
+      }
+    };
+    
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(maxConcurrent, chunks.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+    
+    if (firstError) {
+      throw firstError;
     }
+    this.signal?.throwIfAborted();
+  }
+
+  /**
+   * Download the ranges from a byte offset onwards next, then the ones before it
+   * Ranges already in flight or complete are unaffected
+   */
+  prioritize(byteOffset: number): void {
+    if (this.pendingRanges.length === 0) return;
+    
+    const ahead = this.pendingRanges.filter(range => range.end >= byteOffset);
+    const behind = this.pendingRanges.filter(range => range.end < byteOffset);
+    this.pendingRanges = [...ahead, ...behind];
+    
+    console.log(`[DownloadManager] Prioritised ${ahead.length} ranges from byte ${byteOffset}`);
   }
 
   /**
@@ -351,7 +418,8 @@ export class DownloadManager {
       const response = await fetch(url, {
         headers: {
           'Range': `bytes=${start}-${end}`
-        }
+        },
+        signal: this.signal
       });
       
       if (!response.ok && response.status !== 206) {
@@ -359,6 +427,7 @@ export class DownloadManager {
       }
       
       const arrayBuffer = await response.arrayBuffer();
+      this.signal?.throwIfAborted(); // Never deliver a range that landed just as the download was cancelled
       const downloadTime = performance.now() - chunkStartTime;
       
       // Update connection speed estimation
@@ -384,7 +453,9 @@ export class DownloadManager {
       
     } catch (error) {
       this.activeDownloads.delete(index);
-      console.error(`[DownloadManager] Failed to download chunk ${index}:`, error);
+      if (!this.signal?.aborted) {
+        console.error(`[DownloadManager] Failed to download chunk ${index}:`, error);
+      }
       throw error;
     }
   }
@@ -407,7 +478,7 @@ export class DownloadManager {
    */
   private reportProgress(totalSize: number): void {
     const chunksCompleted = this.completedChunks.size;
-    const chunksTotal = this.activeDownloads.size + chunksCompleted;
+    const chunksTotal = this.totalChunks;
     const elapsedTime = performance.now() - this.downloadStartTime;
     
     let estimatedTimeRemaining = 0;
@@ -452,6 +523,14 @@ export class DownloadManager {
     return combined;
   }
 
+  /**
+   * Get every chunk downloaded so far, sorted by index
+   * Remains valid after a failed download so partial data is not lost
+   */
+  getCompletedChunks(): DownloadChunk[] {
+    return Array.from(this.completedChunks.values()).sort((a, b) => a.index - b.index);
+  }
+
   /**
    * Get current download statistics
    */
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EffectsChain, type EffectUnit } from './EffectsChain.js';
+import { CompressorEffect, LIMITER_DEFAULTS } from './CompressorEffect.js';
+import { ParametricEqualizer } from './ParametricEqualizer.js';
+import { StereoWidthEffect } from './StereoWidthEffect.js';
+import { FakeAudioContext } from './testing/index.js';
+
+const SAMPLE_RATE = 8000;
+
+let fake: FakeAudioContext;
+let context: BaseAudioContext;
+let chain: EffectsChain;
+
+// A looping left-only signal (L = 1, R = 0) through the chain to a recording destination
+function createChain(): EffectsChain {
+  const effects = new EffectsChain(context);
+  const buffer = context.createBuffer(2, 128, SAMPLE_RATE);
+  buffer.getChannelData(0).fill(1);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  source.connect(effects.input);
+  effects.output.connect(context.destination);
+  source.start();
+  return effects;
+}
+
+// The last rendered frame, once every ramp and smoothed parameter has settled
+async function level(): Promise<[number, number]> {
+  await fake.advance(0.1);
+  const [left, right] = fake.getRecording();
+  return [left[left.length - 1], right[right.length - 1]];
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  fake = new FakeAudioContext({ sampleRate: SAMPLE_RATE, record: true });
+  context = fake as unknown as BaseAudioContext;
+  chain = createChain();
+});
+
+afterEach(() => {
+  chain.dispose();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('EffectsChain', () => {
+  it('passes the signal through unchanged when empty or bypassed', async () => {
+    expect(await level()).toEqual([1, 0]);
+
+    const id = chain.add({ type: 'stereo-width', params: { width: 0 }, bypassed: true });
+    expect(chain.isBypassed(id)).toBe(true);
+    expect(await level()).toEqual([1, 0]);
+  });
+
+  it('fades units in and out with bypass', async () => {
+    const id = chain.add({ type: 'stereo-width', params: { width: 0 } });
+    const [left, right] = await level();
+    expect(left).toBeCloseTo(0.5, 4);
+    expect(right).toBeCloseTo(0.5, 4);
+
+    chain.setBypass(id, true);
+    expect(await level()).toEqual([1, 0]);
+  });
+
+  it('keeps units in order, inserting at an index', () => {
+    const eq = chain.add({ type: 'eq' });
+    const limiter = chain.add({ type: 'limiter' });
+    const compressor = chain.add({ type: 'compressor' }, 1);
+
+    expect(chain.getEffects().map(effect => effect.id)).toEqual([eq, compressor, limiter]);
+    expect(chain.getEffect(limiter)!.getParams()).toEqual(LIMITER_DEFAULTS);
+    expect(() => chain.add({ type: 'eq', id: eq })).toThrow(`Effect id already in use: ${eq}`);
+    expect(() => chain.add({ type: 'reverb' })).toThrow('Unknown effect type: reverb');
+    expect(() => chain.setBypass('missing', true)).toThrow('No effect with id: missing');
+  });
+
+  it('only takes a removed unit out once it has faded out', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const id = chain.add({ type: 'stereo-width', params: { width: 0 } });
+    await level();
+
+    chain.remove(id);
+    expect(chain.getEffect(id)).toBeNull();
+    expect(await level()).toEqual([1, 0]);
+
+    // The id is free straight away, even while the old unit is still wired in
+    const replacement = chain.add({ type: 'stereo-width', id, params: { width: 2 } });
+    vi.advanceTimersByTime(100);
+    expect(chain.getEffects()).toEqual([{ id: replacement, type: 'stereo-width', bypassed: false }]);
+    const [left, right] = await level();
+    expect(left).toBeCloseTo(1.5, 4);
+    expect(right).toBeCloseTo(-0.5, 4);
+  });
+
+  it('saves and loads presets', async () => {
+    chain.add({ type: 'eq', params: { bands: [{ type: 'peaking', frequency: 500, gain: -3, q: 2 }] } });
+    chain.add({ type: 'stereo-width', id: 'width', params: { width: 0 }, bypassed: true });
+    const preset = chain.getPreset('Voice');
+
+    const other = createChain();
+    other.loadPreset(preset);
+    expect(other.getPreset('Voice')).toEqual(preset);
+    other.dispose();
+
+    expect(preset.effects.map(effect => effect.id)).toEqual(['eq-1', 'width']);
+    expect(preset.effects[1]).toEqual({ id: 'width', type: 'stereo-width', params: { width: 0 }, bypassed: true });
+  });
+
+  it('leaves the chain untouched when a preset cannot be loaded', () => {
+    const id = chain.add({ type: 'eq' });
+
+    expect(() => chain.loadPreset({ version: 1, effects: [{ id: 'a', type: 'reverb', params: {}, bypassed: false }] }))
+      .toThrow('Unknown effect type: reverb');
+    expect(() => chain.loadPreset({ version: 2 } as never)).toThrow('Unsupported effects preset version: 2');
+    expect(chain.getEffects()).toEqual([{ id, type: 'eq', bypassed: false }]);
+  });
+
+  it('creates registered custom units', async () => {
+    EffectsChain.registerEffect('half', audioContext => {
+      const gain = audioContext.createGain();
+      gain.gain.value = 0.5;
+      const unit: EffectUnit = { type: 'half', input: gain, output: gain, getParams: () => ({}), setParams: () => {}, dispose: () => {} };
+      return unit;
+    });
+
+    chain.add({ type: 'half' });
+    expect(await level()).toEqual([0.5, 0]);
+  });
+});
+
+describe('effect units', () => {
+  it('applies compressor makeup gain', async () => {
+    const compressor = new CompressorEffect(context, { makeupGain: 6 });
+    chain.add(compressor);
+    expect((await level())[0]).toBeCloseTo(Math.pow(10, 6 / 20), 3);
+
+    compressor.setParams({ makeupGain: 0 });
+    expect((await level())[0]).toBeCloseTo(1, 3);
+    expect(compressor.getReduction()).toBe(0);
+  });
+
+  it('clamps stereo width to 0-2', () => {
+    const width = new StereoWidthEffect(context, { width: 5 });
+    expect(width.getParams()).toEqual({ width: 2 });
+
+    width.setParams({ width: -1 });
+    expect(width.getParams()).toEqual({ width: 0 });
+  });
+
+  it('updates single EQ bands and rejects unknown ones', () => {
+    const eq = new ParametricEqualizer(context);
+    eq.setBand(1, { gain: 4 });
+    eq.setBand(2, { type: 'lowpass', frequency: 6000 });
+
+    expect(eq.getParams().bands.slice(1)).toEqual([
+      { type: 'peaking', frequency: 1000, gain: 4, q: 1 },
+      { type: 'lowpass', frequency: 6000, gain: 0, q: 0.707 }
+    ]);
+    expect(() => eq.setBand(3, { gain: 1 })).toThrow('EQ band out of range: 3');
+
+    // Params are copies, so editing them changes nothing
+    eq.getParams().bands[0].gain = 12;
+    expect(eq.getParams().bands[0].gain).toBe(0);
+  });
+});
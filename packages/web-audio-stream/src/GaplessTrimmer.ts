@@ -0,0 +1,163 @@
+// GaplessTrimmer.ts
+// Encoder delay/padding detection (LAME, iTunSMPB) and trimming of decoded audio
+// Removes the silence encoders add around the real audio so tracks join without a gap
+
+import { AudioFrameParser } from './AudioFrameParser.js';
+
+export interface GaplessInfo {
+  source: 'lame' | 'itunsmpb';
+  encoderDelay: number;           // Samples to drop from the start (source rate)
+  encoderPadding: number;         // Samples to drop from the end (source rate)
+  totalSamples: number | null;    // Real audio samples after trimming (source rate)
+  sampleRate: number | null;      // Source sample rate when known
+}
+
+export interface GaplessTrimRange {
+  start: number;                  // First decoded sample to keep
+  end: number;                    // One past the last decoded sample to keep
+}
+
+// MP3 decoders add 528 samples of delay on top of the encoder delay (+1 for the filterbank)
+const MP3_DECODER_DELAY = 529;
+
+// iTunSMPB lives in an ID3 COMM frame (MP3) or the MP4 ilst atom, usually near the start or end
+const ITUNSMPB_SCAN_BYTES = 512 * 1024;
+
+/**
+ * Gapless playback helper
+ *
+ * Key features:
+ * - Reads encoder delay/padding from LAME headers and iTunSMPB tags
+ * - Detects whether the browser decoder already trimmed them (Chrome and Firefox do for LAME, Safari varies)
+ * - Trims decoded AudioBuffers, scaling sample counts when the context resampled
+ */
+export class GaplessTrimmer {
+  /**
+   * Read gapless metadata from encoded bytes (whole file, or at least its beginning)
+   */
+  static parse(data: Uint8Array): GaplessInfo | null {
+    const iTunes = GaplessTrimmer.parseITunSMPB(data);
+    if (!iTunes) {
+      return GaplessTrimmer.parseLame(data);
+    }
+
+    // iTunSMPB doesn't carry the rate - take it from the first frame when the container is one we parse
+    const streamInfo = new AudioFrameParser().probe(data);
+    if (streamInfo && streamInfo.format !== 'unknown') {
+      iTunes.sampleRate = streamInfo.sampleRate;
+    }
+    return iTunes;
+  }
+
+  /**
+   * Work out which decoded samples hold real audio
+   * Returns the full range when the decoder already trimmed or the decoded length doesn't match either expectation
+   */
+  static getTrimRange(decodedLength: number, decodedSampleRate: number, info: GaplessInfo | null): GaplessTrimRange {
+    const untouched = { start: 0, end: decodedLength };
+    if (!info || info.totalSamples === null) return untouched;
+
+    const ratio = info.sampleRate ? decodedSampleRate / info.sampleRate : 1;
+    const expected = Math.round(info.totalSamples * ratio);
+    const delay = Math.round(info.encoderDelay * ratio);
+    const padding = Math.round(info.encoderPadding * ratio);
+    const tolerance = Math.round(decodedSampleRate * 0.01); // Decoders disagree by a few samples at most
+
+    if (decodedLength <= expected + tolerance) {
+      // Already trimmed by the decoder
+      return untouched;
+    }
+
+    if (decodedLength >= expected + delay + padding - tolerance) {
+      return { start: delay, end: Math.min(decodedLength, delay + expected) };
+    }
+
+    // Decoder removed the delay but kept the padding
+    return { start: 0, end: expected };
+  }
+
+  /**
+   * Trim a decoded buffer to its real audio, returning the same buffer when nothing needs removing
+   */
+  static trim(audioContext: BaseAudioContext, audioBuffer: AudioBuffer, info: GaplessInfo | null): AudioBuffer {
+    const { start, end } = GaplessTrimmer.getTrimRange(audioBuffer.length, audioBuffer.sampleRate, info);
+    if (start === 0 && end === audioBuffer.length) return audioBuffer;
+
+    const trimmed = audioContext.createBuffer(audioBuffer.numberOfChannels, end - start, audioBuffer.sampleRate);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      trimmed.copyToChannel(audioBuffer.getChannelData(channel).subarray(start, end), channel);
+    }
+
+    console.log(`[GaplessTrimmer] Trimmed ${start} leading and ${audioBuffer.length - end} trailing samples (${info!.source})`);
+    return trimmed;
+  }
+
+  private static parseLame(data: Uint8Array): GaplessInfo | null {
+    const info = new AudioFrameParser().probe(data);
+    const xing = info?.xing;
+    if (!info || info.format !== 'mp3' || !xing || xing.encoderDelay === null || xing.encoderPadding === null) {
+      return null;
+    }
+
+    const encoderDelay = xing.encoderDelay + MP3_DECODER_DELAY;
+    const encoderPadding = Math.max(0, xing.encoderPadding - MP3_DECODER_DELAY);
+    const totalSamples = xing.frames !== null && info.samplesPerFrame
+      ? xing.frames * info.samplesPerFrame - encoderDelay - encoderPadding
+      : null;
+
+    return {
+      source: 'lame',
+      encoderDelay,
+      encoderPadding,
+      totalSamples: totalSamples !== null && totalSamples > 0 ? totalSamples : null,
+      sampleRate: info.sampleRate
+    };
+  }
+
+  /**
+   * iTunSMPB value: " 00000000 DDDDDDDD PPPPPPPP TTTTTTTTTTTTTTTT ..." (delay, padding, sample count in hex)
+   */
+  private static parseITunSMPB(data: Uint8Array): GaplessInfo | null {
+    const position = GaplessTrimmer.findAscii(data, 'iTunSMPB', 0, ITUNSMPB_SCAN_BYTES) ??
+      GaplessTrimmer.findAscii(data, 'iTunSMPB', Math.max(0, data.length - ITUNSMPB_SCAN_BYTES), data.length);
+    if (position === null) return null;
+
+    // The value follows the key after a frame/atom header of a few bytes
+    let text = '';
+    const windowEnd = Math.min(data.length, position + 256);
+    for (let i = position + 8; i < windowEnd; i++) {
+      text += String.fromCharCode(data[i]);
+    }
+
+    const match = /([0-9A-Fa-f]{8}) ([0-9A-Fa-f]{8}) ([0-9A-Fa-f]{8}) ([0-9A-Fa-f]{16})/.exec(text);
+    if (!match) return null;
+
+    const totalSamples = parseInt(match[4], 16);
+    return {
+      source: 'itunsmpb',
+      encoderDelay: parseInt(match[2], 16),
+      encoderPadding: parseInt(match[3], 16),
+      totalSamples: totalSamples > 0 ? totalSamples : null,
+      sampleRate: null
+    };
+  }
+
+  private static findAscii(data: Uint8Array, text: string, from: number, to: number): number | null {
+    const first = text.charCodeAt(0);
+    const limit = Math.min(to, data.length) - text.length;
+
+    for (let i = from; i <= limit; i++) {
+      if (data[i] !== first) continue;
+      let matches = true;
+      for (let j = 1; j < text.length; j++) {
+        if (data[i + j] !== text.charCodeAt(j)) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches) return i;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { LoudnessAnalyzer, type LoudnessInfo, type NormalizationOptions } from './LoudnessAnalyzer.js';
+import { FakeAudioBuffer } from './testing/index.js';
+
+const SAMPLE_RATE = 48000;
+
+function sine(options: { frequency?: number; amplitude: number; seconds: number; channels?: number; phase?: number }): AudioBuffer {
+  const { frequency = 1000, amplitude, seconds, channels = 2, phase = 0 } = options;
+  const buffer = new FakeAudioBuffer({ numberOfChannels: channels, length: seconds * SAMPLE_RATE, sampleRate: SAMPLE_RATE });
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE + phase);
+    }
+  }
+  return buffer as unknown as AudioBuffer;
+}
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+const TRACK: Required<NormalizationOptions> = { mode: 'track', targetLufs: -18, preventClipping: true, useTags: true };
+
+function info(overrides: Partial<LoudnessInfo>): LoudnessInfo {
+  return { integratedLoudness: -23, truePeak: -20, gatedPower: 0, gatedBlocks: 0, ...overrides };
+}
+
+describe('LoudnessAnalyzer', () => {
+  describe('measurement', () => {
+    it('reads a stereo 1kHz sine at -23dBFS as -23 LUFS (EBU Tech 3341 case 1)', () => {
+      const result = LoudnessAnalyzer.analyze(sine({ amplitude: dbToGain(-23), seconds: 20 }));
+
+      expect(result.integratedLoudness).toBeCloseTo(-23, 1);
+      expect(result.gatedBlocks).toBeGreaterThan(190);
+    });
+
+    it('gates out silence around the programme', () => {
+      const tone = sine({ amplitude: dbToGain(-23), seconds: 10 });
+      const padded = new FakeAudioBuffer({ numberOfChannels: 2, length: 30 * SAMPLE_RATE, sampleRate: SAMPLE_RATE });
+      for (let channel = 0; channel < 2; channel++) {
+        padded.getChannelData(channel).set(tone.getChannelData(channel), 10 * SAMPLE_RATE);
+      }
+
+      // Blocks straddling the edges pass the gates too, pulling the result slightly below the tone alone
+      const result = LoudnessAnalyzer.analyze(padded as unknown as AudioBuffer);
+      expect(result.integratedLoudness!).toBeGreaterThan(-23.2);
+      expect(result.integratedLoudness!).toBeLessThan(-23);
+    });
+
+    it('reports silence as -Infinity with no gated blocks', () => {
+      const result = LoudnessAnalyzer.analyze(sine({ amplitude: 0, seconds: 2 }));
+
+      expect(result).toEqual({ integratedLoudness: -Infinity, truePeak: -Infinity, gatedPower: 0, gatedBlocks: 0 });
+    });
+
+    it('finds the inter-sample peak a sample peak misses', () => {
+      // fs/4 at 45 degrees: every sample lands at 0.707 of the waveform's peak
+      const result = LoudnessAnalyzer.analyze(sine({ frequency: SAMPLE_RATE / 4, phase: Math.PI / 4, amplitude: 0.5, seconds: 1 }));
+
+      expect(result.truePeak!).toBeGreaterThan(-6.5);
+      expect(result.truePeak!).toBeLessThan(-5.5);
+    });
+
+    it('gives the same result fed in chunks as for the whole buffer', async () => {
+      const buffer = sine({ frequency: 440, amplitude: 0.3, seconds: 5 });
+      const whole = LoudnessAnalyzer.analyze(buffer);
+
+      const analyzer = new LoudnessAnalyzer(SAMPLE_RATE, 2);
+      const channels = [buffer.getChannelData(0), buffer.getChannelData(1)];
+      for (let start = 0; start < buffer.length; start += 12345) {
+        analyzer.process(channels.map(data => data.subarray(start, start + 12345)));
+      }
+
+      expect(analyzer.getResult().integratedLoudness).toBeCloseTo(whole.integratedLoudness!, 6);
+      expect(analyzer.getResult().truePeak).toBeCloseTo(whole.truePeak!, 6);
+      expect((await LoudnessAnalyzer.analyzeAsync(buffer, 1)).integratedLoudness).toBeCloseTo(whole.integratedLoudness!, 6);
+    });
+
+    it('pools gated blocks for album loudness', () => {
+      const quiet = LoudnessAnalyzer.analyze(sine({ amplitude: dbToGain(-30), seconds: 10 }));
+      const loud = LoudnessAnalyzer.analyze(sine({ amplitude: dbToGain(-20), seconds: 10 }));
+
+      expect(LoudnessAnalyzer.getAlbumLoudness([quiet, quiet])).toBeCloseTo(quiet.integratedLoudness!, 6);
+      const album = LoudnessAnalyzer.getAlbumLoudness([quiet, loud]);
+      expect(album).toBeGreaterThan(quiet.integratedLoudness!);
+      expect(album).toBeLessThan(loud.integratedLoudness!);
+      expect(LoudnessAnalyzer.getAlbumLoudness([])).toBe(-Infinity);
+    });
+  });
+
+  describe('getNormalizationGain', () => {
+    it('brings the measured loudness to the target', () => {
+      expect(LoudnessAnalyzer.getNormalizationGain(info({}), TRACK)).toBeCloseTo(5);
+      expect(LoudnessAnalyzer.getNormalizationGain(info({}), { ...TRACK, mode: 'off' })).toBe(0);
+    });
+
+    it('limits the gain so the true peak stays under -1dBTP', () => {
+      expect(LoudnessAnalyzer.getNormalizationGain(info({ truePeak: -3 }), TRACK)).toBeCloseTo(2);
+      expect(LoudnessAnalyzer.getNormalizationGain(info({ truePeak: -3 }), { ...TRACK, preventClipping: false })).toBeCloseTo(5);
+    });
+
+    it('prefers tags, offset to the target, and falls back to the measurement when told to ignore them', () => {
+      const tagged = info({
+        replayGain: { source: 'replaygain', trackGain: -4, trackPeak: null, albumGain: -6, albumPeak: null }
+      });
+
+      expect(LoudnessAnalyzer.getNormalizationGain(tagged, TRACK)).toBeCloseTo(-4);
+      expect(LoudnessAnalyzer.getNormalizationGain(tagged, { ...TRACK, targetLufs: -14 })).toBeCloseTo(0);
+      expect(LoudnessAnalyzer.getNormalizationGain(tagged, { ...TRACK, mode: 'album' })).toBeCloseTo(-6);
+      expect(LoudnessAnalyzer.getNormalizationGain(tagged, { ...TRACK, useTags: false })).toBeCloseTo(5);
+    });
+
+    it('uses the measured album loudness in album mode without album tags', () => {
+      expect(LoudnessAnalyzer.getNormalizationGain(info({}), { ...TRACK, mode: 'album' }, -20)).toBeCloseTo(2);
+      expect(LoudnessAnalyzer.getNormalizationGain(info({}), { ...TRACK, mode: 'album' })).toBeCloseTo(5);
+    });
+
+    it('leaves unmeasured tracks alone', () => {
+      expect(LoudnessAnalyzer.getNormalizationGain(info({ integratedLoudness: null, truePeak: null }), TRACK)).toBe(0);
+      expect(LoudnessAnalyzer.getNormalizationGain(info({ integratedLoudness: -Infinity }), TRACK)).toBe(0);
+    });
+  });
+
+  describe('parseReplayGain', () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+
+    it('reads Vorbis-comment style tags in any case', () => {
+      const data = encode('\x00\x00replaygain_track_gain=-6.50 dB\x00REPLAYGAIN_TRACK_PEAK=0.988\x00ReplayGain_Album_Gain=+1.25 dB\x00');
+
+      expect(LoudnessAnalyzer.parseReplayGain(data)).toEqual({
+        source: 'replaygain', trackGain: -6.5, trackPeak: 0.988, albumGain: 1.25, albumPeak: null
+      });
+    });
+
+    it('reads ID3v2 TXXX frames with UTF-16 descriptions', () => {
+      const utf16 = (text: string) => [...text].flatMap(char => [char.charCodeAt(0), 0]);
+      const data = new Uint8Array([...encode('ID3'), 0xFF, 0xFE, ...utf16('REPLAYGAIN_TRACK_GAIN'), 0, 0, 0xFF, 0xFE, ...utf16('-3.2 dB')]);
+
+      expect(LoudnessAnalyzer.parseReplayGain(data)?.trackGain).toBeCloseTo(-3.2);
+    });
+
+    it('converts Opus R128 gains to the ReplayGain reference', () => {
+      // Q7.8 -512 is -2dB to reach -23 LUFS, so +3dB to reach -18
+      expect(LoudnessAnalyzer.parseReplayGain(encode('R128_TRACK_GAIN=-512\x00'))).toEqual({
+        source: 'r128', trackGain: 3, trackPeak: null, albumGain: null, albumPeak: null
+      });
+    });
+
+    it('returns null without tags', () => {
+      expect(LoudnessAnalyzer.parseReplayGain(encode('TITLE=Nothing to see'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,426 @@
+// LoudnessAnalyzer.ts
+// ITU-R BS.1770 / EBU R128 loudness measurement, true peak, and ReplayGain / R128 tag parsing
+// Produces the per-track data WebAudioManager uses to play tracks at a common loudness
+
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+export interface NormalizationOptions {
+  mode?: NormalizationMode;   // 'track' (default), 'album' (keeps level differences within an album) or 'off'
+  targetLufs?: number;        // Loudness to normalize to (default: -18, the ReplayGain 2.0 reference)
+  preventClipping?: boolean;  // Limit gain so true peaks stay below -1 dBTP (default: true)
+  useTags?: boolean;          // Prefer embedded ReplayGain / R128 tags over the measurement (default: true)
+}
+
+// Embedded gains, converted to the ReplayGain 2.0 reference (-18 LUFS)
+export interface ReplayGainInfo {
+  source: 'replaygain' | 'r128';
+  trackGain: number | null;   // dB
+  trackPeak: number | null;   // Linear sample peak
+  albumGain: number | null;   // dB
+  albumPeak: number | null;   // Linear sample peak
+}
+
+export interface LoudnessInfo {
+  integratedLoudness: number | null; // LUFS (-Infinity for silence, null until measured - e.g. tags read from a stream)
+  truePeak: number | null;           // dBTP (-Infinity for silence, null until measured)
+  gatedPower: number;         // Mean power of the blocks that passed both gates - pooled for album loudness
+  gatedBlocks: number;
+  replayGain?: ReplayGainInfo; // Embedded tags, when the file has them
+}
+
+const REPLAYGAIN_REFERENCE = -18; // LUFS
+const R128_REFERENCE = -23;       // LUFS - R128_*_GAIN tags (Opus) are relative to this
+const ABSOLUTE_GATE = -70;        // LUFS
+const RELATIVE_GATE = -10;        // LU below the absolute-gated loudness
+const TRUE_PEAK_CEILING = -1;     // dBTP
+const TAG_SCAN_BYTES = 512 * 1024; // Tags live near the start (ID3v2, Vorbis comments) or the end (MP4 ilst)
+const PEAK_BLOCK_SIZE = 65536;     // Samples interpolated per pass - bounds the working copy for long buffers
+
+// 4x oversampling interpolator for true peak: 12 taps per phase of a Hann-windowed sinc
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12;
+const INTERPOLATION_HALF = INTERPOLATION_TAPS / 2;
+const TRUE_PEAK_MARGIN = 0.7071; // -3dB
+const INTERPOLATION_PHASES = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+  const fraction = (p + 1) / OVERSAMPLING;
+  return Float32Array.from({ length: INTERPOLATION_TAPS }, (_, tap) => {
+    const t = tap - (INTERPOLATION_HALF - 1) - fraction; // Offset of the tap from the interpolated point
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 + 0.5 * Math.cos(Math.PI * t / INTERPOLATION_HALF);
+    return sinc * window;
+  });
+});
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/**
+ * Loudness analyzer
+ *
+ * Key features:
+ * - Integrated loudness per BS.1770-4: K-weighting, 400ms blocks with 75% overlap, absolute and relative gates
+ * - True peak through 4x oversampling (only around samples that could raise the current peak)
+ * - Incremental: process() decoded chunks in order, or analyze() a whole buffer
+ * - Reads REPLAYGAIN_* tags (ID3v2 TXXX, Vorbis comments, MP4 freeform atoms) and Opus R128_* tags
+ * - Track and album normalization gains with clipping protection
+ */
+export class LoudnessAnalyzer {
+  readonly sampleRate: number;
+  readonly numberOfChannels: number;
+
+  private shelf: Biquad;
+  private highPass: Biquad;
+  private filterState: Float64Array[]; // Per channel: x1, x2, y1, y2 of both stages
+  private channelWeights: number[];
+  private hopSize: number;             // 100ms - blocks are 4 hops long
+  private hopPosition = 0;
+  private hopPower: Float64Array;      // Per channel sum of squares in the current hop
+  private recentHops: number[] = [];   // Weighted mean power of the last 3 completed hops
+  private blockPowers: number[] = [];
+  private samplePeak = 0;
+  private truePeak = 0;
+  private history: Float32Array[];    // Last samples of the previous chunk, for interpolating across chunks
+
+  constructor(sampleRate: number, numberOfChannels: number) {
+    this.sampleRate = sampleRate;
+    this.numberOfChannels = Math.max(1, numberOfChannels);
+    [this.shelf, this.highPass] = LoudnessAnalyzer.getKWeighting(sampleRate);
+    this.filterState = Array.from({ length: this.numberOfChannels }, () => new Float64Array(8));
+    // 5.1 in WAV order (L R C LFE Ls Rs): LFE is ignored and surrounds count +1.5dB
+    this.channelWeights = this.numberOfChannels === 6
+      ? [1, 1, 1, 0, 1.41, 1.41]
+      : new Array(this.numberOfChannels).fill(1);
+    this.hopSize = Math.max(1, Math.round(sampleRate * 0.1));
+    this.hopPower = new Float64Array(this.numberOfChannels);
+    this.history = Array.from({ length: this.numberOfChannels }, () => new Float32Array(INTERPOLATION_TAPS - 1));
+  }
+
+  /**
+   * Measure a whole decoded buffer
+   */
+  static analyze(audioBuffer: AudioBuffer): LoudnessInfo {
+    const analyzer = new LoudnessAnalyzer(audioBuffer.sampleRate, audioBuffer.numberOfChannels);
+    const channelData: Float32Array[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      channelData.push(audioBuffer.getChannelData(channel));
+    }
+    analyzer.process(channelData);
+    return analyzer.getResult();
+  }
+
+  /**
+   * Measure a whole decoded buffer a few seconds at a time, yielding between slices
+   * so long tracks don't hold up rendering and input
+   */
+  static async analyzeAsync(audioBuffer: AudioBuffer, sliceSeconds: number = 5): Promise<LoudnessInfo> {
+    const analyzer = new LoudnessAnalyzer(audioBuffer.sampleRate, audioBuffer.numberOfChannels);
+    const channelData: Float32Array[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      channelData.push(audioBuffer.getChannelData(channel));
+    }
+
+    const sliceLength = Math.max(1, Math.round(sliceSeconds * audioBuffer.sampleRate));
+    for (let start = 0; start < audioBuffer.length; start += sliceLength) {
+      analyzer.process(channelData.map(data => data.subarray(start, start + sliceLength)));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return analyzer.getResult();
+  }
+
+  /**
+   * Feed the next decoded samples (chunks must arrive in timeline order)
+   */
+  process(channelData: Float32Array[]): void {
+    const length = channelData[0]?.length ?? 0;
+    if (length === 0) return;
+
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      const data = channelData[Math.min(channel, channelData.length - 1)];
+      for (let start = 0; start < length; start += PEAK_BLOCK_SIZE) {
+        this.measurePeaks(channel, data.subarray(start, start + PEAK_BLOCK_SIZE));
+      }
+    }
+
+    let offset = 0;
+    while (offset < length) {
+      const count = Math.min(length - offset, this.hopSize - this.hopPosition);
+      for (let channel = 0; channel < this.numberOfChannels; channel++) {
+        if (this.channelWeights[channel] === 0) continue;
+        const data = channelData[Math.min(channel, channelData.length - 1)];
+        this.hopPower[channel] += this.filterChannel(channel, data, offset, offset + count);
+      }
+      offset += count;
+      this.hopPosition += count;
+
+      if (this.hopPosition === this.hopSize) {
+        this.completeHop();
+      }
+    }
+  }
+
+  getResult(): LoudnessInfo {
+    const { power, blocks } = LoudnessAnalyzer.gate(this.blockPowers);
+    return {
+      integratedLoudness: LoudnessAnalyzer.powerToLufs(power),
+      truePeak: 20 * Math.log10(Math.max(this.truePeak, this.samplePeak)),
+      gatedPower: power,
+      gatedBlocks: blocks
+    };
+  }
+
+  /**
+   * Loudness of several tracks played as one programme (album gain)
+   */
+  static getAlbumLoudness(tracks: LoudnessInfo[]): number {
+    let weightedPower = 0;
+    let blocks = 0;
+    for (const track of tracks) {
+      weightedPower += track.gatedPower * track.gatedBlocks;
+      blocks += track.gatedBlocks;
+    }
+    return blocks > 0 ? LoudnessAnalyzer.powerToLufs(weightedPower / blocks) : -Infinity;
+  }
+
+  /**
+   * Gain in dB that brings a track to the target
+   * @param albumLoudness Measured loudness of the track's album, for album mode without album tags
+   */
+  static getNormalizationGain(info: LoudnessInfo, options: Required<NormalizationOptions>, albumLoudness?: number): number {
+    if (options.mode === 'off') return 0;
+
+    const tags = options.useTags ? info.replayGain : undefined;
+    const offset = options.targetLufs - REPLAYGAIN_REFERENCE;
+    let gain: number | null = null;
+    let peak = info.truePeak ?? -Infinity;
+
+    if (options.mode === 'album' && tags?.albumGain !== null && tags?.albumGain !== undefined) {
+      gain = tags.albumGain + offset;
+      peak = tags.albumPeak !== null ? 20 * Math.log10(tags.albumPeak) : peak;
+    } else if (options.mode === 'album' && albumLoudness !== undefined && isFinite(albumLoudness)) {
+      gain = options.targetLufs - albumLoudness;
+    } else if (tags?.trackGain !== null && tags?.trackGain !== undefined) {
+      gain = tags.trackGain + offset;
+      peak = tags.trackPeak !== null ? 20 * Math.log10(tags.trackPeak) : peak;
+    } else if (info.integratedLoudness !== null && isFinite(info.integratedLoudness)) {
+      gain = options.targetLufs - info.integratedLoudness;
+    }
+
+    if (gain === null) return 0;
+    if (options.preventClipping && isFinite(peak)) {
+      gain = Math.min(gain, TRUE_PEAK_CEILING - peak);
+    }
+    return gain;
+  }
+
+  /**
+   * Read ReplayGain (or Opus R128) tags from encoded bytes (whole file, or at least its beginning)
+   */
+  static parseReplayGain(data: Uint8Array): ReplayGainInfo | null {
+    const read = (key: string) => LoudnessAnalyzer.readTagNumber(data, key);
+
+    const trackGain = read('REPLAYGAIN_TRACK_GAIN');
+    const albumGain = read('REPLAYGAIN_ALBUM_GAIN');
+    if (trackGain !== null || albumGain !== null) {
+      return {
+        source: 'replaygain',
+        trackGain,
+        trackPeak: read('REPLAYGAIN_TRACK_PEAK'),
+        albumGain,
+        albumPeak: read('REPLAYGAIN_ALBUM_PEAK')
+      };
+    }
+
+    // Q7.8 fixed point dB to reach -23 LUFS
+    const toReplayGain = (value: number | null) => value === null ? null : value / 256 + REPLAYGAIN_REFERENCE - R128_REFERENCE;
+    const r128Track = read('R128_TRACK_GAIN');
+    const r128Album = read('R128_ALBUM_GAIN');
+    if (r128Track !== null || r128Album !== null) {
+      return {
+        source: 'r128',
+        trackGain: toReplayGain(r128Track),
+        trackPeak: null,
+        albumGain: toReplayGain(r128Album),
+        albumPeak: null
+      };
+    }
+
+    return null;
+  }
+
+  private static readTagNumber(data: Uint8Array, key: string): number | null {
+    const position = LoudnessAnalyzer.findKey(data, key, 0, TAG_SCAN_BYTES) ??
+      LoudnessAnalyzer.findKey(data, key, Math.max(0, data.length - TAG_SCAN_BYTES), data.length);
+    if (position === null) return null;
+
+    // The value follows after a separator ('=', a NUL terminator, a UTF-16 BOM or an MP4 data atom header)
+    let text = '';
+    const windowEnd = Math.min(data.length, position.end + 64);
+    for (let i = position.end; i < windowEnd; i++) {
+      if (data[i] !== 0) text += String.fromCharCode(data[i]);
+    }
+
+    const match = /^[^0-9+\-.]{0,16}([+-]?\d+(?:\.\d+)?)/.exec(text);
+    return match ? parseFloat(match[1]) : null;
+  }
+
+  /**
+   * Case-insensitive search for an ASCII key, stored as single bytes or as UTF-16LE
+   */
+  private static findKey(data: Uint8Array, key: string, from: number, to: number): { end: number } | null {
+    const upper = key.toUpperCase();
+    for (const stride of [1, 2]) {
+      const limit = Math.min(to, data.length) - upper.length * stride;
+      for (let i = from; i <= limit; i++) {
+        let matches = true;
+        for (let j = 0; j < upper.length; j++) {
+          const byte = data[i + j * stride];
+          // ASCII letters fold to upper case with & ~0x20; digits and '_' must match exactly
+          const folded = byte >= 0x61 && byte <= 0x7a ? byte & ~0x20 : byte;
+          if (folded !== upper.charCodeAt(j) || (stride === 2 && data[i + j * stride + 1] !== 0)) {
+            matches = false;
+            break;
+          }
+        }
+        if (matches) return { end: i + upper.length * stride };
+      }
+    }
+    return null;
+  }
+
+  private measurePeaks(channel: number, data: Float32Array): void {
+    const history = this.history[channel];
+    let samplePeak = this.samplePeak;
+    for (let i = 0; i < data.length; i++) {
+      const magnitude = Math.abs(data[i]);
+      if (magnitude > samplePeak) samplePeak = magnitude;
+    }
+    this.samplePeak = samplePeak;
+
+    // Interpolate between samples i and i+1 of history + data; inter-sample peaks rarely exceed their
+    // neighbours by more than 3dB, so quieter pairs can't raise the current peak and are skipped
+    const extended = new Float32Array(history.length + data.length);
+    extended.set(history);
+    extended.set(data, history.length);
+    const first = INTERPOLATION_HALF - 1;
+    const last = extended.length - INTERPOLATION_HALF;
+
+    for (let i = first; i < last; i++) {
+      const neighbour = Math.max(Math.abs(extended[i]), Math.abs(extended[i + 1]));
+      if (neighbour < this.truePeak * TRUE_PEAK_MARGIN) continue;
+
+      const start = i - first;
+      for (const coefficients of INTERPOLATION_PHASES) {
+        let value = 0;
+        for (let tap = 0; tap < INTERPOLATION_TAPS; tap++) {
+          value += extended[start + tap] * coefficients[tap];
+        }
+        const magnitude = Math.abs(value);
+        if (magnitude > this.truePeak) this.truePeak = magnitude;
+      }
+    }
+
+    this.history[channel] = extended.slice(extended.length - history.length);
+  }
+
+  // K-weight samples [from, to) and return their sum of squares
+  private filterChannel(channel: number, data: Float32Array, from: number, to: number): number {
+    const state = this.filterState[channel];
+    const s = this.shelf;
+    const h = this.highPass;
+    let [x1, x2, y1, y2, u1, u2, z1, z2] = state;
+    let sum = 0;
+
+    for (let i = from; i < to; i++) {
+      const x = data[i];
+      const y = s.b0 * x + s.b1 * x1 + s.b2 * x2 - s.a1 * y1 - s.a2 * y2;
+      x2 = x1; x1 = x; y2 = y1; y1 = y;
+      const z = h.b0 * y + h.b1 * u1 + h.b2 * u2 - h.a1 * z1 - h.a2 * z2;
+      u2 = u1; u1 = y; z2 = z1; z1 = z;
+      sum += z * z;
+    }
+
+    state.set([x1, x2, y1, y2, u1, u2, z1, z2]);
+    return sum;
+  }
+
+  private completeHop(): void {
+    let power = 0;
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      power += this.channelWeights[channel] * this.hopPower[channel] / this.hopSize;
+    }
+    this.hopPower.fill(0);
+    this.hopPosition = 0;
+
+    // A 400ms block ends at every hop once four hops have been seen
+    if (this.recentHops.length === 3) {
+      this.blockPowers.push((this.recentHops[0] + this.recentHops[1] + this.recentHops[2] + power) / 4);
+      this.recentHops.shift();
+    }
+    this.recentHops.push(power);
+  }
+
+  private static gate(blockPowers: number[]): { power: number; blocks: number } {
+    const absoluteThreshold = LoudnessAnalyzer.lufsToPower(ABSOLUTE_GATE);
+    const mean = (threshold: number) => {
+      let sum = 0;
+      let count = 0;
+      for (const power of blockPowers) {
+        if (power > threshold) {
+          sum += power;
+          count++;
+        }
+      }
+      return { power: count > 0 ? sum / count : 0, blocks: count };
+    };
+
+    const absolute = mean(absoluteThreshold);
+    if (absolute.blocks === 0) return absolute;
+
+    const relativeThreshold = absolute.power * Math.pow(10, RELATIVE_GATE / 10);
+    return mean(Math.max(absoluteThreshold, relativeThreshold));
+  }
+
+  private static powerToLufs(power: number): number {
+    return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+  }
+
+  private static lufsToPower(lufs: number): number {
+    return Math.pow(10, (lufs + 0.691) / 10);
+  }
+
+  /**
+   * BS.1770 pre-filter (high shelf) and RLB high-pass, recomputed for any sample rate
+   */
+  private static getKWeighting(sampleRate: number): [Biquad, Biquad] {
+    let f0 = 1681.974450955533;
+    let q = 0.7071752369554196;
+    const gain = 3.999843853973347;
+    let k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = Math.pow(10, gain / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q + k * k;
+    const shelf: Biquad = {
+      b0: (vh + vb * k / q + k * k) / a0,
+      b1: 2 * (k * k - vh) / a0,
+      b2: (vh - vb * k / q + k * k) / a0,
+      a1: 2 * (k * k - 1) / a0,
+      a2: (1 - k / q + k * k) / a0
+    };
+
+    f0 = 38.13547087602444;
+    q = 0.5003270373238773;
+    k = Math.tan(Math.PI * f0 / sampleRate);
+    a0 = 1 + k / q + k * k;
+    const highPass: Biquad = {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: 2 * (k * k - 1) / a0,
+      a2: (1 - k / q + k * k) / a0
+    };
+
+    return [shelf, highPass];
+  }
+}
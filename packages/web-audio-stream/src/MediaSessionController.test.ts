@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MediaSessionController, type MediaSessionOptions } from './MediaSessionController.js';
+import type { PlaybackQueue } from './PlaybackQueue.js';
+import type { WebAudioManager } from './WebAudioManager.js';
+
+// Just the manager surface the controller mirrors and drives
+function createManagerStub() {
+  const listeners = new Map<string, Array<(data: any) => void>>();
+  const stub = {
+    currentTime: 0,
+    status: 'idle',
+    names: new Map<string, string>(),
+    on: vi.fn((event: string, listener: (data: any) => void) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+      return () => listeners.set(event, (listeners.get(event) ?? []).filter(other => other !== listener));
+    }),
+    emit(event: string, data: unknown = {}) {
+      listeners.get(event)?.forEach(listener => listener(data));
+    },
+    listenerCount: () => [...listeners.values()].reduce((sum, list) => sum + list.length, 0),
+    getTrackName: vi.fn(async (trackId: string) => stub.names.get(trackId) ?? null),
+    getCurrentTime: vi.fn(() => stub.currentTime),
+    getPlaybackStatus: vi.fn(() => stub.status),
+    getPlaybackRate: vi.fn(() => 1),
+    resume: vi.fn(async () => {}),
+    pause: vi.fn(async () => {}),
+    seek: vi.fn(async () => {})
+  };
+  return stub;
+}
+
+// navigator.mediaSession as far as the controller uses it
+function createMediaSession() {
+  return {
+    metadata: null as Record<string, unknown> | null,
+    playbackState: 'none',
+    handlers: new Map<string, (details: Record<string, unknown>) => void>(),
+    positions: [] as MediaPositionState[],
+    setActionHandler(action: string, handler: ((details: Record<string, unknown>) => void) | null) {
+      if (handler) {
+        this.handlers.set(action, handler);
+      } else {
+        this.handlers.delete(action);
+      }
+    },
+    setPositionState(state: MediaPositionState) {
+      this.positions.push(state);
+    },
+    trigger(action: string, details: Record<string, unknown> = {}) {
+      this.handlers.get(action)!({ action, ...details });
+    }
+  };
+}
+
+let manager: ReturnType<typeof createManagerStub>;
+let session: ReturnType<typeof createMediaSession>;
+let now: number;
+
+function createController(options: MediaSessionOptions = {}): MediaSessionController {
+  return new MediaSessionController(manager as unknown as WebAudioManager, options);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  manager = createManagerStub();
+  session = createMediaSession();
+  now = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+  vi.stubGlobal('navigator', { mediaSession: session });
+  vi.stubGlobal('MediaMetadata', class {
+    constructor(init: Record<string, unknown>) {
+      Object.assign(this, init);
+    }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('MediaSessionController', () => {
+  it('shows the loaded track name with the default artist and album', async () => {
+    createController({ artist: 'Various', album: 'Demo' });
+
+    manager.emit('loadstart', { trackId: 't1', name: 'Intro' });
+    await vi.waitFor(() => expect(session.metadata).not.toBeNull());
+
+    expect(session.metadata).toEqual({ title: 'Intro', artist: 'Various', album: 'Demo', artwork: [] });
+  });
+
+  it('looks up the name of tracks it was not told about, and drops stale lookups', async () => {
+    manager.names.set('t2', 'Second');
+    let resolveFirst: (metadata: { title: string }) => void = () => {};
+    const resolveMetadata = vi.fn((trackId: string, name: string | null) =>
+      trackId === 't1' ? new Promise<{ title: string }>(resolve => { resolveFirst = resolve; }) : { title: `${name}!` }
+    );
+    createController({ resolveMetadata });
+
+    manager.emit('loadstart', { trackId: 't1', name: 'First' });
+    manager.emit('trackchange', { trackId: 't2' });
+    await vi.waitFor(() => expect(session.metadata).toMatchObject({ title: 'Second!' }));
+
+    resolveFirst({ title: 'First' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(session.metadata).toMatchObject({ title: 'Second!' });
+    expect(resolveMetadata).toHaveBeenCalledWith('t2', 'Second');
+  });
+
+  it('mirrors the playback state', () => {
+    createController();
+
+    for (const [status, state] of [['playing', 'playing'], ['buffering', 'playing'], ['paused', 'paused'], ['ended', 'none']]) {
+      manager.emit('statechange', { to: status, trackId: null });
+      expect(session.playbackState).toBe(state);
+    }
+  });
+
+  it('maps media keys to the manager, clamping seeks to the track', () => {
+    createController({ seekOffset: 5 });
+    manager.status = 'playing';
+    manager.emit('timeupdate', { currentTime: 3, duration: 60 });
+
+    session.trigger('play');
+    session.trigger('pause');
+    manager.currentTime = 3;
+    session.trigger('seekbackward');
+    session.trigger('seekforward', { seekOffset: 20 });
+    session.trigger('seekto', { seekTime: 90 });
+
+    expect(manager.resume).toHaveBeenCalledOnce();
+    expect(manager.pause).toHaveBeenCalledOnce();
+    expect(manager.seek.mock.calls).toEqual([[0], [23], [60]]);
+    expect(session.positions.at(-1)).toEqual({ duration: 60, playbackRate: 1, position: 60 });
+  });
+
+  it('logs actions the manager rejects', async () => {
+    manager.resume.mockRejectedValueOnce(new Error('Nothing loaded'));
+    createController();
+
+    session.trigger('play');
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalledWith('[MediaSessionController] play ignored:', 'Nothing loaded'));
+  });
+
+  it('sends previous and next to the queue, the callbacks, or nowhere', () => {
+    const queue = { previous: vi.fn(), next: vi.fn() };
+    const onNextTrack = vi.fn();
+    const controller = createController({ queue: queue as unknown as PlaybackQueue, onNextTrack });
+
+    session.trigger('previoustrack');
+    session.trigger('nexttrack');
+    expect(queue.previous).toHaveBeenCalledOnce();
+    expect(queue.next).not.toHaveBeenCalled();
+    expect(onNextTrack).toHaveBeenCalledOnce();
+
+    controller.setQueue(null);
+    expect(session.handlers.has('previoustrack')).toBe(false);
+    expect(session.handlers.has('nexttrack')).toBe(true);
+  });
+
+  it('only resyncs the position when the browser estimate drifts', () => {
+    createController();
+    manager.status = 'playing';
+
+    manager.emit('timeupdate', { currentTime: 1, duration: 60 });
+    now = 1000;
+    manager.emit('timeupdate', { currentTime: 2.1, duration: 60 });
+    expect(session.positions).toHaveLength(1);
+
+    now = 2000;
+    manager.emit('timeupdate', { currentTime: 10, duration: 60 });
+    expect(session.positions).toEqual([
+      { duration: 60, playbackRate: 1, position: 1 },
+      { duration: 60, playbackRate: 1, position: 10 }
+    ]);
+  });
+
+  it('clears the session and stops listening on destroy()', () => {
+    const controller = createController();
+    manager.emit('statechange', { to: 'playing', trackId: null });
+
+    controller.destroy();
+
+    expect(manager.listenerCount()).toBe(0);
+    expect(session.handlers.size).toBe(0);
+    expect(session.metadata).toBeNull();
+    expect(session.playbackState).toBe('none');
+  });
+
+  it('does nothing without the Media Session API', () => {
+    vi.stubGlobal('navigator', {});
+    const controller = createController();
+
+    expect(MediaSessionController.isSupported()).toBe(false);
+    expect(manager.on).not.toHaveBeenCalled();
+    expect(() => controller.setMetadata({ title: 'Ignored' })).not.toThrow();
+  });
+});
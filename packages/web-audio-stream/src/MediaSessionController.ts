@@ -0,0 +1,212 @@
+// MediaSessionController.ts
+// Media Session API integration - lock-screen/notification metadata and hardware media keys
+// Mirrors WebAudioManager state into navigator.mediaSession and maps its actions back to manager methods
+
+import type { WebAudioManager } from './WebAudioManager.js';
+import type { PlaybackQueue } from './PlaybackQueue.js';
+
+export interface MediaSessionTrackMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  artwork?: MediaImage[];
+}
+
+export interface MediaSessionOptions {
+  // Metadata for a track - by default the track name becomes the title
+  resolveMetadata?: (trackId: string, name: string | null) => MediaSessionTrackMetadata | null | Promise<MediaSessionTrackMetadata | null>;
+  artist?: string;                 // Defaults used when resolveMetadata doesn't provide them
+  album?: string;
+  artwork?: MediaImage[];
+  seekOffset?: number;             // Seconds for seekforward/seekbackward without an offset (default: 10)
+  queue?: PlaybackQueue;           // previoustrack/nexttrack go to the queue
+  onPreviousTrack?: () => void;    // Overrides the queue for previoustrack
+  onNextTrack?: () => void;        // Overrides the queue for nexttrack
+}
+
+// Drift between the browser's extrapolated position and the real one before resyncing
+const POSITION_RESYNC_THRESHOLD = 0.25;
+
+/**
+ * Media Session integration
+ *
+ * Key features:
+ * - Metadata from the name given to playInstantly/loadAndPlay or stored AudioMetadata
+ * - play, pause, seekto, seekforward, seekbackward, previoustrack and nexttrack handlers
+ * - setPositionState driven by worklet TIME_UPDATE messages, only resynced when the browser's estimate drifts
+ * - No-op where the Media Session API is unavailable
+ */
+export class MediaSessionController {
+  private manager: WebAudioManager;
+  private options: MediaSessionOptions;
+  private unsubscribers: Array<() => void> = [];
+  private currentTrackId: string | null = null;
+  private metadataRequest = 0;
+  private duration = 0;
+  private lastPosition: { position: number; duration: number; playbackRate: number; at: number; playing: boolean } | null = null;
+
+  /**
+   * Whether navigator.mediaSession exists in this environment
+   */
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+  }
+
+  constructor(manager: WebAudioManager, options: MediaSessionOptions = {}) {
+    this.manager = manager;
+    this.options = options;
+
+    if (!MediaSessionController.isSupported()) {
+      console.log('[MediaSessionController] Media Session API not available - integration disabled');
+      return;
+    }
+
+    this.unsubscribers.push(
+      manager.on('loadstart', ({ trackId, name }) => this.setTrack(trackId, name ?? null)),
+      manager.on('trackchange', ({ trackId }) => this.setTrack(trackId, null)),
+      manager.on('statechange', ({ to, trackId }) => {
+        if (trackId && trackId !== this.currentTrackId) {
+          this.setTrack(trackId, null);
+        }
+        this.updatePlaybackState(to);
+      }),
+      manager.on('timeupdate', ({ currentTime, duration }) => this.updatePosition(currentTime, duration, false)),
+      manager.on('ratechange', () => this.updatePosition(this.manager.getCurrentTime(), this.duration, true))
+    );
+
+    this.registerActionHandlers();
+  }
+
+  /**
+   * Send previoustrack/nexttrack to a queue (or stop handling them with null)
+   */
+  setQueue(queue: PlaybackQueue | null): void {
+    this.options = { ...this.options, queue: queue || undefined };
+    this.registerActionHandlers();
+  }
+
+  /**
+   * Replace the metadata shown for the current track
+   */
+  setMetadata(metadata: MediaSessionTrackMetadata): void {
+    if (!MediaSessionController.isSupported() || typeof MediaMetadata === 'undefined') return;
+
+    this.metadataRequest++; // Wins over any metadata still being resolved
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: metadata.title || '',
+      artist: metadata.artist ?? this.options.artist ?? '',
+      album: metadata.album ?? this.options.album ?? '',
+      artwork: metadata.artwork ?? this.options.artwork ?? []
+    });
+  }
+
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    if (!MediaSessionController.isSupported()) return;
+
+    for (const action of ['play', 'pause', 'seekto', 'seekforward', 'seekbackward', 'previoustrack', 'nexttrack'] as MediaSessionAction[]) {
+      this.setActionHandler(action, null);
+    }
+    navigator.mediaSession.metadata = null;
+    navigator.mediaSession.playbackState = 'none';
+  }
+
+  private async setTrack(trackId: string, name: string | null): Promise<void> {
+    if (trackId === this.currentTrackId && name === null) return;
+
+    this.currentTrackId = trackId;
+    this.lastPosition = null;
+    const request = ++this.metadataRequest;
+
+    try {
+      const trackName = name ?? await this.manager.getTrackName(trackId);
+      const metadata = this.options.resolveMetadata
+        ? await this.options.resolveMetadata(trackId, trackName)
+        : { title: trackName || trackId };
+
+      // A newer track (or an explicit setMetadata) arrived while resolving
+      if (request !== this.metadataRequest) return;
+      this.setMetadata(metadata || { title: trackName || trackId });
+    } catch (error) {
+      console.warn(`[MediaSessionController] Failed to resolve metadata for ${trackId}:`, error);
+    }
+  }
+
+  private updatePlaybackState(status: string): void {
+    navigator.mediaSession.playbackState = status === 'playing' || status === 'buffering' ? 'playing' : status === 'paused' ? 'paused' : 'none';
+    // Position extrapolation starts or stops with playback
+    this.updatePosition(this.manager.getCurrentTime(), this.duration, true);
+  }
+
+  private updatePosition(position: number, duration: number, force: boolean): void {
+    this.duration = duration;
+    if (!navigator.mediaSession.setPositionState || !(duration > 0)) return;
+
+    const playing = this.manager.getPlaybackStatus() === 'playing';
+    const playbackRate = this.manager.getPlaybackRate();
+    const now = performance.now();
+
+    if (!force && this.lastPosition && this.lastPosition.duration === duration && this.lastPosition.playing === playing) {
+      const elapsed = playing ? (now - this.lastPosition.at) / 1000 * this.lastPosition.playbackRate : 0;
+      if (Math.abs(this.lastPosition.position + elapsed - position) < POSITION_RESYNC_THRESHOLD) {
+        return;
+      }
+    }
+
+    const clampedPosition = Math.max(0, Math.min(duration, position));
+    try {
+      navigator.mediaSession.setPositionState({ duration, playbackRate, position: clampedPosition });
+      this.lastPosition = { position: clampedPosition, duration, playbackRate, at: now, playing };
+    } catch (error) {
+      console.warn('[MediaSessionController] setPositionState failed:', error);
+    }
+  }
+
+  private registerActionHandlers(): void {
+    if (!MediaSessionController.isSupported()) return;
+
+    const { queue, onPreviousTrack, onNextTrack } = this.options;
+
+    this.setActionHandler('play', () => this.runAction('play', () => this.manager.resume()));
+    this.setActionHandler('pause', () => this.runAction('pause', () => this.manager.pause()));
+    this.setActionHandler('seekto', details => {
+      if (details.seekTime !== undefined) {
+        this.seekTo(details.seekTime);
+      }
+    });
+    this.setActionHandler('seekforward', details => {
+      this.seekTo(this.manager.getCurrentTime() + (details.seekOffset ?? this.options.seekOffset ?? 10));
+    });
+    this.setActionHandler('seekbackward', details => {
+      this.seekTo(this.manager.getCurrentTime() - (details.seekOffset ?? this.options.seekOffset ?? 10));
+    });
+
+    const previous = onPreviousTrack || (queue ? () => { queue.previous(); } : null);
+    const next = onNextTrack || (queue ? () => { queue.next(); } : null);
+    // Without a handler the system hides the button
+    this.setActionHandler('previoustrack', previous);
+    this.setActionHandler('nexttrack', next);
+  }
+
+  private seekTo(time: number): void {
+    const target = Math.max(0, this.duration > 0 ? Math.min(this.duration, time) : time);
+    this.runAction('seek', () => this.manager.seek(target));
+    this.updatePosition(target, this.duration, true);
+  }
+
+  // The system can send actions the current playback state rejects (e.g. play before anything loaded)
+  private runAction(action: string, run: () => Promise<void>): void {
+    run().catch(error => console.warn(`[MediaSessionController] ${action} ignored:`, error.message));
+  }
+
+  // Browsers throw for actions they don't support
+  private setActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      console.log(`[MediaSessionController] Action "${action}" not supported`);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutputDeviceController, type OutputDeviceChange } from './OutputDeviceController.js';
+import { installFakeBrowser, type FakeAudioContext, type FakeBrowser } from './testing/index.js';
+
+const STORAGE_KEY = 'z-web-audio-stream:output-device';
+
+let browser: FakeBrowser;
+let changes: OutputDeviceChange[];
+const controllers: OutputDeviceController[] = [];
+
+function createController(options: { storageKey?: string | false } = {}): OutputDeviceController {
+  const controller = new OutputDeviceController({ ...options, onChange: change => changes.push(change) });
+  controllers.push(controller);
+  return controller;
+}
+
+function createContext(): FakeAudioContext {
+  new AudioContext();
+  return browser.audioContexts.at(-1)!;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  browser = installFakeBrowser();
+  browser.mediaDevices.addOutputDevice({ deviceId: 'headphones', label: 'USB Headphones' });
+  changes = [];
+});
+
+afterEach(() => {
+  controllers.splice(0).forEach(controller => controller.destroy());
+  browser.uninstall();
+  vi.restoreAllMocks();
+});
+
+describe('OutputDeviceController', () => {
+  it('routes the context to the chosen device and remembers it', async () => {
+    const controller = createController();
+    const context = createContext();
+    await controller.attach(context as unknown as AudioContext);
+
+    await controller.setDevice('headphones');
+
+    expect(context.sinkId).toBe('headphones');
+    expect(controller.getDeviceId()).toBe('headphones');
+    expect(JSON.parse(browser.localStorage.getItem(STORAGE_KEY)!)).toEqual({ deviceId: 'headphones', label: 'USB Headphones' });
+    expect(changes.at(-1)).toMatchObject({ deviceId: 'headphones', preferredDeviceId: 'headphones', unavailable: false });
+    expect((await controller.listDevices()).map(device => device.deviceId)).toEqual(['default', 'headphones']);
+  });
+
+  it('rejects unknown devices and keeps the current one', async () => {
+    const controller = createController();
+    await controller.attach(createContext() as unknown as AudioContext);
+    await controller.setDevice('headphones');
+
+    await expect(controller.setDevice('speakers')).rejects.toThrow('Audio output device not found: speakers');
+    expect(controller.getDeviceId()).toBe('headphones');
+  });
+
+  it('plays through the default while the device is unplugged, and returns to it', async () => {
+    const controller = createController();
+    const context = createContext();
+    await controller.attach(context as unknown as AudioContext);
+    await controller.setDevice('headphones');
+
+    browser.mediaDevices.removeOutputDevice('headphones');
+    await vi.waitFor(() => expect(context.sinkId).toBe(''));
+    expect(changes.at(-1)).toMatchObject({ deviceId: '', preferredDeviceId: 'headphones', unavailable: true });
+
+    browser.mediaDevices.addOutputDevice({ deviceId: 'headphones', label: 'USB Headphones' });
+    await vi.waitFor(() => expect(context.sinkId).toBe('headphones'));
+    expect(changes.at(-1)!.unavailable).toBe(false);
+  });
+
+  it('applies a stored choice in the next session, finding it by label under a new id', async () => {
+    await createController().setDevice('headphones');
+    browser.mediaDevices.removeOutputDevice('headphones');
+    browser.mediaDevices.addOutputDevice({ deviceId: 'headphones-2', label: 'USB Headphones' });
+
+    const controller = createController();
+    const context = createContext();
+    expect(controller.getPreferredDeviceId()).toBe('headphones');
+    await controller.attach(context as unknown as AudioContext);
+
+    expect(context.sinkId).toBe('headphones-2');
+    expect(JSON.parse(browser.localStorage.getItem(STORAGE_KEY)!).deviceId).toBe('headphones-2');
+  });
+
+  it('forgets the choice when set back to the default, and never stores it with storageKey: false', async () => {
+    const controller = createController();
+    await controller.setDevice('headphones');
+    await controller.setDevice('');
+    expect(browser.localStorage.getItem(STORAGE_KEY)).toBeNull();
+
+    await createController({ storageKey: false }).setDevice('headphones');
+    expect(browser.localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('stops following device changes once destroyed', async () => {
+    const controller = createController();
+    const context = createContext();
+    await controller.attach(context as unknown as AudioContext);
+    await controller.setDevice('headphones');
+    controller.destroy();
+
+    browser.mediaDevices.removeOutputDevice('headphones');
+    await context.flush();
+
+    expect(context.sinkId).toBe('headphones');
+  });
+});
@@ -0,0 +1,257 @@
+// OutputDeviceController.ts
+// Audio output device selection through AudioContext.setSinkId
+// Remembers the chosen device across sessions and plays through the system default while it is unplugged
+
+export interface AudioOutputDevice {
+  deviceId: string;
+  label: string;    // Empty until the page has media permission in some browsers
+  groupId: string;  // Shared by the input and output of the same hardware
+}
+
+export interface OutputDeviceOptions {
+  storageKey?: string | false; // localStorage key for the chosen device (default: 'z-web-audio-stream:output-device', false to not persist)
+}
+
+export interface OutputDeviceChange {
+  devices: AudioOutputDevice[];
+  deviceId: string;           // Device playing now ('' is the system default)
+  preferredDeviceId: string;  // Device chosen with setOutputDevice ('' for the system default)
+  unavailable: boolean;       // The preferred device is missing, so playback fell back to the system default
+}
+
+interface OutputDeviceControllerOptions extends OutputDeviceOptions {
+  onChange?: (change: OutputDeviceChange) => void;
+}
+
+// Stored so a device can be found again when the browser hands out a new id for it
+interface StoredOutputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// AudioContext.setSinkId isn't in the DOM typings yet
+type SinkAudioContext = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+  readonly sinkId?: string | object; // An AudioSinkInfo object when routed to no device
+};
+
+const DEFAULT_STORAGE_KEY = 'z-web-audio-stream:output-device';
+
+/**
+ * Output device routing
+ *
+ * Key features:
+ * - Lists audio outputs from navigator.mediaDevices and routes the AudioContext with setSinkId
+ * - Persists the choice in localStorage, matched by id and then by label on the next visit
+ * - Falls back to the system default when the chosen device disappears and returns to it when it is plugged back in
+ * - Selections made before an AudioContext exists are applied when one is attached
+ */
+export class OutputDeviceController {
+  private options: OutputDeviceControllerOptions;
+  private audioContext: SinkAudioContext | null = null;
+  private preferred: StoredOutputDevice | null;
+  private deviceId = ''; // Device the attached context is routed to
+  private devices: AudioOutputDevice[] = [];
+  private routing: Promise<unknown> = Promise.resolve(); // setSinkId calls run one at a time
+  private deviceChangeListener: (() => void) | null = null;
+
+  /**
+   * Whether output devices can be listed and selected in this environment
+   */
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' &&
+      typeof navigator.mediaDevices?.enumerateDevices === 'function' &&
+      typeof AudioContext !== 'undefined' &&
+      typeof (AudioContext.prototype as SinkAudioContext).setSinkId === 'function';
+  }
+
+  constructor(options: OutputDeviceControllerOptions = {}) {
+    this.options = options;
+    this.preferred = this.load();
+
+    if (!OutputDeviceController.isSupported()) {
+      console.log('[OutputDeviceController] setSinkId not available - output device selection disabled');
+      return;
+    }
+
+    this.deviceChangeListener = () => {
+      this.enqueue(() => this.refresh()).catch(error => {
+        console.warn('[OutputDeviceController] Failed to handle device change:', error);
+      });
+    };
+    navigator.mediaDevices.addEventListener('devicechange', this.deviceChangeListener);
+  }
+
+  /**
+   * Route a context to the preferred device (or the default while it is missing)
+   */
+  async attach(audioContext: AudioContext): Promise<void> {
+    this.audioContext = audioContext;
+    const { sinkId } = this.audioContext;
+    this.deviceId = typeof sinkId === 'string' ? sinkId : ''; // A shared context may already be routed
+    if (!this.deviceChangeListener) return;
+    await this.enqueue(() => this.refresh());
+  }
+
+  /**
+   * Forget the context - it keeps whatever device it was routed to
+   */
+  detach(): void {
+    this.audioContext = null;
+    this.deviceId = '';
+  }
+
+  /**
+   * Audio outputs currently available
+   */
+  async listDevices(): Promise<AudioOutputDevice[]> {
+    if (!OutputDeviceController.isSupported()) {
+      throw new Error('Output device selection is not supported in this browser');
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    this.devices = devices
+      .filter(device => device.kind === 'audiooutput')
+      .map(({ deviceId, label, groupId }) => ({ deviceId, label, groupId }));
+    return this.devices;
+  }
+
+  /**
+   * Choose the output device ('' for the system default) and remember it
+   */
+  async setDevice(deviceId: string): Promise<void> {
+    if (!OutputDeviceController.isSupported()) {
+      throw new Error('Output device selection is not supported in this browser');
+    }
+
+    await this.enqueue(async () => {
+      const devices = await this.listDevices();
+      const device = devices.find(candidate => candidate.deviceId === deviceId);
+      if (deviceId !== '' && !device) {
+        throw new Error(`Audio output device not found: ${deviceId}`);
+      }
+
+      // Route first, so a rejected device (e.g. NotAllowedError) isn't remembered
+      await this.route(deviceId);
+      this.preferred = device ? { deviceId, label: device.label } : null;
+      this.save();
+      this.notify();
+    });
+  }
+
+  /**
+   * Device the context is playing through now ('' is the system default)
+   */
+  getDeviceId(): string {
+    return this.deviceId;
+  }
+
+  /**
+   * Device chosen with setDevice, even while it is unplugged ('' is the system default)
+   */
+  getPreferredDeviceId(): string {
+    return this.preferred?.deviceId ?? '';
+  }
+
+  destroy(): void {
+    if (this.deviceChangeListener) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.deviceChangeListener);
+      this.deviceChangeListener = null;
+    }
+    this.options.onChange = undefined;
+    this.detach();
+  }
+
+  // Re-list devices and route to the preferred one when present, the default otherwise
+  private async refresh(): Promise<void> {
+    const devices = await this.listDevices();
+    const device = this.findPreferred(devices);
+
+    if (this.preferred && device && device.deviceId !== this.preferred.deviceId) {
+      console.log(`[OutputDeviceController] ${this.preferred.label || 'Output device'} has a new id - updating the stored choice`);
+      this.preferred = { deviceId: device.deviceId, label: device.label };
+      this.save();
+    }
+
+    const target = device?.deviceId ?? '';
+    if (this.audioContext && target !== this.deviceId) {
+      try {
+        await this.route(target);
+        if (this.preferred) {
+          console.log(target
+            ? `[OutputDeviceController] Playing through ${device?.label || target}`
+            : `[OutputDeviceController] ${this.preferred.label || this.preferred.deviceId} unavailable - using the default output`);
+        }
+      } catch (error) {
+        console.warn(`[OutputDeviceController] Failed to route to ${target || 'the default output'}:`, error);
+        if (target !== '') {
+          await this.route('').catch(() => {});
+        }
+      }
+    }
+    this.notify();
+  }
+
+  private findPreferred(devices: AudioOutputDevice[]): AudioOutputDevice | null {
+    const preferred = this.preferred;
+    if (!preferred) return null;
+    return devices.find(device => device.deviceId === preferred.deviceId) ??
+      (preferred.label ? devices.find(device => device.label === preferred.label) : undefined) ??
+      null;
+  }
+
+  private async route(deviceId: string): Promise<void> {
+    const context = this.audioContext;
+    if (!context?.setSinkId || context.state === 'closed') {
+      return;
+    }
+    await context.setSinkId(deviceId);
+    this.deviceId = deviceId;
+  }
+
+  private notify(): void {
+    const preferredDeviceId = this.getPreferredDeviceId();
+    this.options.onChange?.({
+      devices: this.devices,
+      deviceId: this.audioContext ? this.deviceId : preferredDeviceId,
+      preferredDeviceId,
+      unavailable: preferredDeviceId !== '' && !this.findPreferred(this.devices)
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.routing.then(task, task);
+    this.routing = run.catch(() => {});
+    return run;
+  }
+
+  private load(): StoredOutputDevice | null {
+    const key = this.getStorageKey();
+    if (!key) return null;
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) ?? 'null');
+      return stored && typeof stored.deviceId === 'string' ? { deviceId: stored.deviceId, label: String(stored.label ?? '') } : null;
+    } catch {
+      return null; // No localStorage (private mode, workers) or a corrupt entry
+    }
+  }
+
+  private save(): void {
+    const key = this.getStorageKey();
+    if (!key) return;
+    try {
+      if (this.preferred) {
+        localStorage.setItem(key, JSON.stringify(this.preferred));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn('[OutputDeviceController] Failed to persist output device:', error);
+    }
+  }
+
+  private getStorageKey(): string | null {
+    if (this.options.storageKey === false || typeof localStorage === 'undefined') return null;
+    return this.options.storageKey || DEFAULT_STORAGE_KEY;
+  }
+}
@@ -0,0 +1,116 @@
+// ParametricEqualizer.ts
+// Multi-band parametric EQ effect unit built from BiquadFilterNodes
+
+import type { EffectUnit } from './EffectsChain.js';
+
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch';
+
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number;      // dB (peaking and shelf bands)
+  q: number;
+}
+
+export interface ParametricEqualizerParams {
+  bands: EqBand[];
+}
+
+const DEFAULT_BANDS: EqBand[] = [
+  { type: 'lowshelf', frequency: 100, gain: 0, q: 0.707 },
+  { type: 'peaking', frequency: 1000, gain: 0, q: 1 },
+  { type: 'highshelf', frequency: 8000, gain: 0, q: 0.707 }
+];
+
+// Time constant for parameter changes - fast enough to feel immediate, slow enough not to click
+const PARAM_SMOOTHING = 0.01;
+
+/**
+ * Parametric equalizer
+ *
+ * Key features:
+ * - Any number of bands in series (defaults to low shelf, mid peak and high shelf)
+ * - Smoothed frequency/gain/Q changes while playing
+ */
+export class ParametricEqualizer implements EffectUnit<ParametricEqualizerParams> {
+  readonly type: string = 'eq';
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private audioContext: BaseAudioContext;
+  private bands: EqBand[];
+  private filters: BiquadFilterNode[] = [];
+
+  constructor(audioContext: BaseAudioContext, params: Partial<ParametricEqualizerParams> = {}) {
+    this.audioContext = audioContext;
+    this.input = audioContext.createGain();
+    this.output = audioContext.createGain();
+    this.bands = (params.bands || DEFAULT_BANDS).map(band => ({ ...band }));
+    this.buildFilters();
+  }
+
+  getParams(): ParametricEqualizerParams {
+    return { bands: this.bands.map(band => ({ ...band })) };
+  }
+
+  setParams(params: Partial<ParametricEqualizerParams>): void {
+    if (!params.bands) return;
+
+    const previousCount = this.bands.length;
+    this.bands = params.bands.map(band => ({ ...band }));
+
+    if (this.bands.length !== previousCount || this.bands.some((band, i) => band.type !== this.filters[i].type)) {
+      // Band layout changed - rebuild the filter chain
+      this.buildFilters();
+      return;
+    }
+
+    const now = this.audioContext.currentTime;
+    this.bands.forEach((band, i) => {
+      const filter = this.filters[i];
+      filter.frequency.setTargetAtTime(band.frequency, now, PARAM_SMOOTHING);
+      filter.gain.setTargetAtTime(band.gain, now, PARAM_SMOOTHING);
+      filter.Q.setTargetAtTime(band.q, now, PARAM_SMOOTHING);
+    });
+  }
+
+  /**
+   * Update a single band (type changes rebuild the chain)
+   */
+  setBand(index: number, band: Partial<EqBand>): void {
+    if (index < 0 || index >= this.bands.length) {
+      throw new Error(`EQ band out of range: ${index}`);
+    }
+
+    const bands = this.getParams().bands;
+    bands[index] = { ...bands[index], ...band };
+    this.setParams({ bands });
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.filters.forEach(filter => filter.disconnect());
+    this.filters = [];
+  }
+
+  private buildFilters(): void {
+    this.input.disconnect();
+    this.filters.forEach(filter => filter.disconnect());
+
+    this.filters = this.bands.map(band => {
+      const filter = this.audioContext.createBiquadFilter();
+      filter.type = band.type;
+      filter.frequency.value = band.frequency;
+      filter.gain.value = band.gain;
+      filter.Q.value = band.q;
+      return filter;
+    });
+
+    let previous: AudioNode = this.input;
+    for (const filter of this.filters) {
+      previous.connect(filter);
+      previous = filter;
+    }
+    previous.connect(this.output);
+  }
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackClock, type PositionSnapshot } from './PlaybackClock.js';
+
+// The AudioContext surface the clock reads
+function createContextStub() {
+  return {
+    currentTime: 10,
+    state: 'running' as AudioContextState,
+    outputTimestamp: { contextTime: 10, performanceTime: 0 } as AudioTimestamp,
+    getOutputTimestamp() {
+      return this.outputTimestamp;
+    }
+  };
+}
+
+function snapshot(overrides: Partial<PositionSnapshot> = {}): PositionSnapshot {
+  return { position: 2, duration: 60, contextTime: 10, rate: 1, playing: true, ...overrides };
+}
+
+let context: ReturnType<typeof createContextStub>;
+let now: number;
+
+function createClock(): PlaybackClock {
+  return new PlaybackClock(context as unknown as BaseAudioContext);
+}
+
+beforeEach(() => {
+  context = createContextStub();
+  now = 5000;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('PlaybackClock', () => {
+  describe('from messages', () => {
+    it('extrapolates the last position by its rate', () => {
+      const clock = createClock();
+      expect(clock.sharedBuffer).toBeNull();
+      expect(clock.read()).toBeNull();
+
+      clock.update(snapshot({ rate: 0.5 }));
+      context.currentTime = 11;
+
+      expect(clock.read()).toEqual({ currentTime: 2.5, duration: 60, playing: true, rate: 0.5, source: 'message' });
+    });
+
+    it('stays within the track and at most a second past the last position', () => {
+      const clock = createClock();
+
+      clock.update(snapshot());
+      context.currentTime = 20;
+      expect(clock.read()!.currentTime).toBe(3);
+
+      clock.update(snapshot({ position: 59.5 }));
+      expect(clock.read()!.currentTime).toBe(60);
+    });
+
+    it('follows the output timestamp while running and holds it while suspended', () => {
+      const clock = createClock();
+      clock.update(snapshot());
+      context.outputTimestamp = { contextTime: 10.2, performanceTime: 4900 };
+
+      expect(clock.read()!.currentTime).toBeCloseTo(2.3, 6);
+
+      context.state = 'suspended';
+      expect(clock.read()!.currentTime).toBeCloseTo(2.2, 6);
+    });
+  });
+
+  describe('from shared memory', () => {
+    let clock: PlaybackClock;
+    let sequence: Int32Array;
+    let values: Float64Array;
+
+    // What the worklet does every quantum: odd sequence while writing, even once done
+    function publish(position: number, playing = true, finish = true): void {
+      Atomics.add(sequence, 0, 1);
+      sequence[1] = playing ? 1 : 0;
+      values.set([position, 60, context.currentTime, playing ? 1 : 0]);
+      if (finish) Atomics.add(sequence, 0, 1);
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('crossOriginIsolated', true);
+      clock = createClock();
+      sequence = new Int32Array(clock.sharedBuffer!, 0, 2);
+      values = new Float64Array(clock.sharedBuffer!, 8, 4);
+    });
+
+    it('uses messages until the worklet first writes, then ignores them', () => {
+      clock.update(snapshot());
+      expect(clock.read()!.source).toBe('message');
+
+      publish(5);
+      clock.update(snapshot({ position: 30 }));
+
+      expect(clock.read()).toEqual({ currentTime: 5, duration: 60, playing: true, rate: 1, source: 'shared-memory' });
+    });
+
+    it('keeps the last consistent position while the worklet is mid-write', () => {
+      publish(5);
+      expect(clock.read()!.currentTime).toBe(5);
+
+      publish(7, false, false);
+      expect(clock.read()!.currentTime).toBe(5);
+
+      Atomics.add(sequence, 0, 1);
+      expect(clock.read()).toMatchObject({ currentTime: 7, playing: false, rate: 0 });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// PlaybackClock.ts
+// Main-thread view of the worklet's playback position between (or without) messages
+// The worklet publishes where playback is at the end of each render quantum and how fast it moves; reads extrapolate to now
+
+// Shared memory layout, mirrored in audio-worklet-processor.js:
+// Int32 [0] sequence (odd while the worklet is writing), [1] flags
+// Float64 from byte 8: [0] position (seconds), [1] duration, [2] context time of the position, [3] rate
+export const POSITION_BUFFER_BYTES = 8 + 4 * 8;
+const FLAG_PLAYING = 1;
+
+// Reads never run further ahead of the last publish than this - a stalled worklet shouldn't drift the clock
+const MAX_EXTRAPOLATION_SECONDS = 1;
+
+export interface PositionSnapshot {
+  position: number;     // Seconds into the track
+  duration: number;     // Seconds of track loaded
+  contextTime: number;  // AudioContext time at which playback is at `position`
+  rate: number;         // Track seconds per context second - 0 while paused, stopped or starved
+  playing: boolean;
+}
+
+export interface PlaybackPosition {
+  currentTime: number;  // Seconds into the track at what is audible right now
+  duration: number;
+  playing: boolean;
+  rate: number;         // Track seconds per second of output (0 while not moving)
+  source: 'shared-memory' | 'message'; // Where the last worklet position came from
+}
+
+/**
+ * Playback position clock
+ *
+ * Key features:
+ * - Lock-free reads from a SharedArrayBuffer the worklet writes every quantum (cross-origin isolated pages)
+ * - Falls back to timestamped worklet messages, extrapolated the same way
+ * - Uses AudioContext.getOutputTimestamp() so positions match what is audible, not what was last rendered
+ */
+export class PlaybackClock {
+  readonly sharedBuffer: SharedArrayBuffer | null;
+  private sequence: Int32Array | null = null;
+  private values: Float64Array | null = null;
+  private snapshot: PositionSnapshot | null = null; // Latest message, or latest consistent shared read
+
+  constructor(private audioContext: BaseAudioContext) {
+    this.sharedBuffer = PlaybackClock.isSharedMemoryAvailable() ? new SharedArrayBuffer(POSITION_BUFFER_BYTES) : null;
+    if (this.sharedBuffer) {
+      this.sequence = new Int32Array(this.sharedBuffer, 0, 2);
+      this.values = new Float64Array(this.sharedBuffer, 8, 4);
+    }
+  }
+
+  /**
+   * SharedArrayBuffer can only be posted to the worklet on cross-origin isolated pages (COOP + COEP headers)
+   */
+  static isSharedMemoryAvailable(): boolean {
+    return typeof SharedArrayBuffer !== 'undefined' &&
+      typeof Atomics !== 'undefined' &&
+      (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated === true;
+  }
+
+  /**
+   * Record a position message from the worklet (ignored once shared memory has been written)
+   */
+  update(snapshot: PositionSnapshot): void {
+    if (this.sequence && Atomics.load(this.sequence, 0) > 0) return;
+    this.snapshot = snapshot;
+  }
+
+  /**
+   * Position extrapolated to the audible output time, or null before the worklet has published anything
+   */
+  read(): PlaybackPosition | null {
+    const snapshot = this.readShared() ?? this.snapshot;
+    if (!snapshot) return null;
+
+    const elapsed = Math.min(MAX_EXTRAPOLATION_SECONDS, this.getOutputTime() - snapshot.contextTime);
+    const position = snapshot.position + elapsed * snapshot.rate;
+    return {
+      currentTime: Math.max(0, snapshot.duration > 0 ? Math.min(position, snapshot.duration) : position),
+      duration: snapshot.duration,
+      playing: snapshot.playing,
+      rate: snapshot.rate,
+      source: this.sequence && Atomics.load(this.sequence, 0) > 0 ? 'shared-memory' : 'message'
+    };
+  }
+
+  // Seqlock read: retry while the worklet is mid-write, keeping the last consistent snapshot if it never settles
+  private readShared(): PositionSnapshot | null {
+    if (!this.sequence || !this.values) return null;
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const before = Atomics.load(this.sequence, 0);
+      if (before === 0) return null;
+      if (before & 1) continue;
+
+      const flags = this.sequence[1];
+      const snapshot = {
+        position: this.values[0],
+        duration: this.values[1],
+        contextTime: this.values[2],
+        rate: this.values[3],
+        playing: (flags & FLAG_PLAYING) !== 0
+      };
+      if (Atomics.load(this.sequence, 0) === before) {
+        this.snapshot = snapshot;
+        return snapshot;
+      }
+    }
+    return this.snapshot;
+  }
+
+  // Context time of the sample leaving the speakers now
+  private getOutputTime(): number {
+    const context = this.audioContext as AudioContext;
+    if (typeof context.getOutputTimestamp !== 'function') {
+      return context.currentTime;
+    }
+
+    const { contextTime, performanceTime } = context.getOutputTimestamp();
+    if (contextTime === undefined || performanceTime === undefined || performanceTime <= 0) {
+      return context.currentTime;
+    }
+    // The timestamp stops moving while the context is suspended, and so does the output
+    return context.state === 'running' ? contextTime + (performance.now() - performanceTime) / 1000 : contextTime;
+  }
+}
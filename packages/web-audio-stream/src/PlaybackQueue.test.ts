@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackQueue, type QueueItem } from './PlaybackQueue.js';
+import type { WebAudioManager } from './WebAudioManager.js';
+
+// Just the manager surface the queue drives, recording what it was asked to play
+function createManagerStub() {
+  const listeners = new Map<string, Array<(data: unknown) => void>>();
+  const stub = {
+    played: [] as string[],
+    queued: [] as string[],
+    currentTime: 0,
+    on: vi.fn((event: string, listener: (data: unknown) => void) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+      return () => listeners.set(event, (listeners.get(event) ?? []).filter(other => other !== listener));
+    }),
+    emit(event: string, data: unknown = {}) {
+      listeners.get(event)?.forEach(listener => listener(data));
+    },
+    isAudioLoaded: vi.fn(async () => false),
+    playInstantly: vi.fn(async (_url: string, trackId: string) => { stub.played.push(trackId); }),
+    loadAndPlay: vi.fn(async (_url: string, trackId: string) => { stub.played.push(trackId); }),
+    preloadAudio: vi.fn(async () => {}),
+    setQueuedTracks: vi.fn((trackIds: string[]) => { stub.queued = trackIds; }),
+    setTrackAlbum: vi.fn(),
+    getCurrentTime: vi.fn(() => stub.currentTime),
+    seek: vi.fn(async () => {}),
+    enqueueNext: vi.fn(async () => {}),
+    clearNextTrack: vi.fn()
+  };
+  return stub;
+}
+
+function tracks(count: number): QueueItem[] {
+  return Array.from({ length: count }, (_, i) => ({ trackId: `t${i}`, url: `/t${i}.mp3` }));
+}
+
+let manager: ReturnType<typeof createManagerStub>;
+
+function createQueue(options: ConstructorParameters<typeof PlaybackQueue>[1] = {}): PlaybackQueue {
+  return new PlaybackQueue(manager as unknown as WebAudioManager, options);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  manager = createManagerStub();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('PlaybackQueue', () => {
+  it('plays in order and stops at the end with repeat off', async () => {
+    const onQueueEnded = vi.fn();
+    const queue = createQueue({ onQueueEnded });
+    queue.add(tracks(3));
+
+    await queue.play();
+    await queue.handleTrackEnded();
+    await queue.handleTrackEnded();
+    await queue.handleTrackEnded();
+
+    expect(manager.played).toEqual(['t0', 't1', 't2']);
+    expect(onQueueEnded).toHaveBeenCalledOnce();
+  });
+
+  it('wraps with repeat all and replays with repeat one', async () => {
+    const queue = createQueue({ repeatMode: 'all' });
+    queue.add(tracks(2));
+    await queue.playAt(1);
+
+    expect(await queue.next()).toBe(true);
+    queue.setRepeatMode('one');
+    await queue.handleTrackEnded();
+
+    expect(manager.played).toEqual(['t1', 't0', 't0']);
+  });
+
+  it('restarts the current track from previous() past the threshold', async () => {
+    const queue = createQueue();
+    queue.add(tracks(2));
+    await queue.playAt(1);
+
+    manager.currentTime = 5;
+    await queue.previous();
+    expect(manager.seek).toHaveBeenCalledWith(0);
+
+    manager.currentTime = 1;
+    await queue.previous();
+    expect(manager.played).toEqual(['t1', 't0']);
+  });
+
+  it('keeps the current item current across add, move and remove', async () => {
+    const onCurrentIndexChange = vi.fn();
+    const queue = createQueue({ onCurrentIndexChange });
+    queue.add(tracks(3));
+    await queue.playAt(1);
+
+    queue.add({ trackId: 'new', url: '/new.mp3' }, 0);
+    expect(queue.getCurrentItem()?.trackId).toBe('t1');
+    expect(queue.getCurrentIndex()).toBe(2);
+
+    queue.move(2, 0);
+    expect(queue.getCurrentIndex()).toBe(0);
+
+    queue.remove(0);
+    expect(queue.getCurrentIndex()).toBe(-1);
+    expect(onCurrentIndexChange).toHaveBeenLastCalledWith(-1, null);
+    expect(() => queue.remove(10)).toThrow('Queue index out of range: 10');
+  });
+
+  it('preloads the upcoming items once playback starts', async () => {
+    const queue = createQueue({ preloadCount: 2 });
+    queue.add(tracks(4));
+    expect(manager.preloadAudio).not.toHaveBeenCalled();
+
+    await queue.play();
+    expect(manager.queued).toEqual(['t1', 't2']);
+    expect(manager.preloadAudio).toHaveBeenCalledWith('/t2.mp3', 't2', undefined);
+  });
+
+  describe('shuffle', () => {
+    it('produces the same order for the same seed', () => {
+      const first = createQueue({ shuffle: true, shuffleSeed: 42 });
+      const second = createQueue({ shuffle: true, shuffleSeed: 42 });
+      first.add(tracks(10));
+      second.add(tracks(10));
+
+      expect(first.getPlayOrderIndices()).toEqual(second.getPlayOrderIndices());
+      expect([...first.getPlayOrderIndices()].sort((a, b) => a - b)).toEqual([...Array(10).keys()]);
+    });
+
+    it('starts the order at the current item and keeps it until reshuffled', async () => {
+      const queue = createQueue();
+      queue.add(tracks(8));
+      await queue.playAt(5);
+
+      queue.setShuffle(true, 7);
+      const order = queue.getPlayOrderIndices();
+      expect(order[0]).toBe(5);
+
+      await queue.next();
+      await queue.next();
+      expect(queue.getPlayOrderIndices()).toEqual(order);
+      expect(manager.played).toEqual(['t5', `t${order[1]}`, `t${order[2]}`]);
+    });
+
+    it('places added items after the current one, leaving the played part alone', async () => {
+      const queue = createQueue({ shuffleSeed: 3 });
+      queue.add(tracks(6));
+      queue.setShuffle(true);
+      await queue.play();
+      await queue.next();
+      const played = queue.getPlayOrderIndices().slice(0, 2);
+
+      queue.add(tracks(3).map(item => ({ ...item, trackId: `${item.trackId}-new` })));
+      const order = queue.getPlayOrderIndices();
+      expect(order.slice(0, 2)).toEqual(played);
+      expect(order).toHaveLength(9);
+      expect(order.slice(2)).toEqual(expect.arrayContaining([6, 7, 8]));
+    });
+
+    it('returns to queue order when turned off', () => {
+      const queue = createQueue({ shuffle: true, shuffleSeed: 1 });
+      queue.add(tracks(5));
+      queue.setShuffle(false);
+
+      expect(queue.getPlayOrderIndices()).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe('serialize/restore', () => {
+    it('round-trips items, current index, repeat mode and the shuffle order', async () => {
+      const queue = createQueue({ repeatMode: 'all', shuffleSeed: 9 });
+      queue.add([...tracks(5), { trackId: 'dup', url: '/dup.mp3', album: 'A' }]);
+      queue.setShuffle(true);
+      await queue.playAt(2);
+
+      const data = JSON.parse(JSON.stringify(queue.serialize()));
+      const restored = createQueue();
+      restored.restore(data);
+
+      expect(restored.getItems()).toEqual(queue.getItems());
+      expect(restored.getCurrentIndex()).toBe(2);
+      expect(restored.getRepeatMode()).toBe('all');
+      expect(restored.isShuffled()).toBe(true);
+      expect(restored.getPlayOrderIndices()).toEqual(queue.getPlayOrderIndices());
+      expect(manager.setTrackAlbum).toHaveBeenLastCalledWith('dup', 'A');
+    });
+
+    it('rebuilds the shuffle order when the saved one does not cover every item', () => {
+      const queue = createQueue({ shuffle: true, shuffleSeed: 5 });
+      queue.add(tracks(4));
+      const data = { ...queue.serialize(), shuffleOrder: [0, 0, 1] };
+
+      const restored = createQueue();
+      restored.restore(data);
+      expect([...restored.getPlayOrderIndices()].sort()).toEqual([0, 1, 2, 3]);
+    });
+
+    it('does not start playback', () => {
+      const queue = createQueue();
+      queue.add(tracks(2));
+      createQueue().restore(queue.serialize());
+
+      expect(manager.playInstantly).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown data', () => {
+      expect(() => createQueue().restore({ version: 2 } as never)).toThrow('Unsupported serialized queue data');
+    });
+  });
+
+  it('advances on the manager\'s ended event until destroyed', async () => {
+    const queue = createQueue();
+    queue.add(tracks(3));
+    await queue.play();
+
+    manager.emit('ended');
+    await vi.waitFor(() => expect(manager.played).toEqual(['t0', 't1']));
+
+    queue.destroy();
+    manager.emit('ended');
+    await Promise.resolve();
+    expect(manager.played).toEqual(['t0', 't1']);
+    expect(manager.queued).toEqual([]);
+  });
+});
@@ -0,0 +1,563 @@
+// PlaybackQueue.ts
+// Playlist/queue management on top of WebAudioManager
+// Handles ordering, repeat/shuffle, auto-advance and next-track preloading
+
+import type { WebAudioManager } from './WebAudioManager.js';
+
+export interface QueueItem {
+  trackId: string;
+  url: string;
+  name?: string;
+  album?: string; // Groups tracks for album-mode loudness normalization
+}
+
+export type RepeatMode = 'off' | 'one' | 'all';
+
+export interface PlaybackQueueOptions {
+  repeatMode?: RepeatMode;
+  shuffle?: boolean;
+  shuffleSeed?: number;            // Seed for a reproducible shuffle order
+  preloadCount?: number;           // Upcoming entries to preload through preloadAudio (default: 1)
+  autoAdvance?: boolean;           // Play the next entry when a track ends (default: true)
+  gapless?: boolean;               // Stage the next entry with enqueueNext for sample-exact transitions
+  restartThreshold?: number;       // previous() restarts the current track after this many seconds (default: 3)
+  onCurrentIndexChange?: (index: number, item: QueueItem | null) => void;
+  onQueueChange?: (items: QueueItem[]) => void;
+  onQueueEnded?: () => void;
+  onError?: (error: Error, item: QueueItem) => void;
+}
+
+export interface SerializedPlaybackQueue {
+  version: 1;
+  items: QueueItem[];
+  currentIndex: number;
+  repeatMode: RepeatMode;
+  shuffle: boolean;
+  shuffleSeed: number;
+  shuffleOrder: number[]; // Item indices in shuffled play order
+}
+
+interface QueueEntry {
+  key: number; // Stable identity so duplicate trackIds and reorders don't confuse the shuffle order
+  item: QueueItem;
+}
+
+/**
+ * Playback queue driving a WebAudioManager
+ *
+ * Key features:
+ * - add/remove/move entries while keeping the current entry stable
+ * - next/previous with repeat-one, repeat-all and a seeded, stable shuffle order
+ * - Auto-advance on track end and preloading of the next N entries
+ * - Optional gapless mode that stages the next entry in the worklet via enqueueNext
+ * - serialize()/restore() so the queue survives page reloads
+ */
+export class PlaybackQueue {
+  private manager: WebAudioManager;
+  private options: PlaybackQueueOptions;
+  private entries: QueueEntry[] = [];
+  private nextKey: number = 0;
+  private currentKey: number | null = null;
+  private repeatMode: RepeatMode;
+  private shuffle: boolean;
+  private shuffleSeed: number;
+  private shuffleOrder: number[] = []; // Entry keys in shuffled play order
+  private randomState: number;
+  private removeEndedListener: (() => void) | null = null;
+  private removeTrackChangeListener: (() => void) | null = null;
+
+  constructor(manager: WebAudioManager, options: PlaybackQueueOptions = {}) {
+    this.manager = manager;
+    this.options = options;
+    this.repeatMode = options.repeatMode || 'off';
+    this.shuffle = options.shuffle || false;
+    this.shuffleSeed = options.shuffleSeed ?? Math.floor(Math.random() * 0xffffffff);
+    this.randomState = this.shuffleSeed;
+
+    if (options.autoAdvance !== false) {
+      this.removeEndedListener = manager.on('ended', () => {
+        this.handleTrackEnded().catch(error => {
+          console.error(`[PlaybackQueue] Auto-advance failed: ${error}`);
+        });
+      });
+    }
+
+    if (options.gapless) {
+      this.removeTrackChangeListener = manager.on('trackchange', ({ trackId }) => this.handleGaplessTrackChange(trackId));
+    }
+  }
+
+  /**
+   * Add one or more items, appending by default
+   * @param index Position to insert at (defaults to the end of the queue)
+   */
+  add(items: QueueItem | QueueItem[], index: number = this.entries.length): void {
+    const newEntries = (Array.isArray(items) ? items : [items]).map(item => ({ key: this.nextKey++, item: { ...item } }));
+    if (newEntries.length === 0) return;
+    this.registerAlbums(newEntries);
+
+    const previousIndex = this.getCurrentIndex();
+    const insertAt = Math.max(0, Math.min(index, this.entries.length));
+    this.entries.splice(insertAt, 0, ...newEntries);
+
+    if (this.shuffle) {
+      // New entries land at random positions after the current entry - the already-played part of the order stays put
+      const currentPosition = this.currentKey !== null ? this.shuffleOrder.indexOf(this.currentKey) : -1;
+      for (const entry of newEntries) {
+        const span = this.shuffleOrder.length - currentPosition;
+        const position = currentPosition + 1 + Math.floor(this.nextRandom() * span);
+        this.shuffleOrder.splice(position, 0, entry.key);
+      }
+    }
+
+    if (this.getCurrentIndex() !== previousIndex) {
+      this.notifyCurrentIndexChange();
+    }
+
+    this.notifyQueueChange();
+    this.refreshUpcoming();
+  }
+
+  /**
+   * Remove the item at an index
+   * Removing the current item leaves nothing current; playback of it is not interrupted
+   */
+  remove(index: number): QueueItem {
+    const entry = this.entries[index];
+    if (!entry) {
+      throw new Error(`Queue index out of range: ${index}`);
+    }
+
+    const previousIndex = this.getCurrentIndex();
+    this.entries.splice(index, 1);
+    this.shuffleOrder = this.shuffleOrder.filter(key => key !== entry.key);
+
+    if (this.currentKey === entry.key) {
+      this.currentKey = null;
+    }
+
+    if (this.getCurrentIndex() !== previousIndex) {
+      this.notifyCurrentIndexChange();
+    }
+
+    this.notifyQueueChange();
+    return entry.item;
+  }
+
+  /**
+   * Move an item to a new index; the current item stays current
+   */
+  move(fromIndex: number, toIndex: number): void {
+    const entry = this.entries[fromIndex];
+    if (!entry) {
+      throw new Error(`Queue index out of range: ${fromIndex}`);
+    }
+
+    const previousIndex = this.getCurrentIndex();
+    const targetIndex = Math.max(0, Math.min(toIndex, this.entries.length - 1));
+    this.entries.splice(fromIndex, 1);
+    this.entries.splice(targetIndex, 0, entry);
+
+    if (this.getCurrentIndex() !== previousIndex) {
+      this.notifyCurrentIndexChange();
+    }
+
+    this.notifyQueueChange();
+    this.refreshUpcoming();
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    const hadCurrent = this.currentKey !== null;
+    this.entries = [];
+    this.shuffleOrder = [];
+    this.currentKey = null;
+
+    if (hadCurrent) {
+      this.notifyCurrentIndexChange();
+    }
+    this.notifyQueueChange();
+  }
+
+  /**
+   * Play the item at an index
+   */
+  async playAt(index: number): Promise<void> {
+    const entry = this.entries[index];
+    if (!entry) {
+      throw new Error(`Queue index out of range: ${index}`);
+    }
+
+    await this.playEntry(entry);
+  }
+
+  /**
+   * Play the current item, or the first one in play order if nothing is current
+   */
+  async play(): Promise<void> {
+    const entry = this.getCurrentEntry() || this.getPlayOrder()[0];
+    if (!entry) {
+      throw new Error('Queue is empty');
+    }
+
+    await this.playEntry(entry);
+  }
+
+  /**
+   * Advance to the next item in play order
+   * @returns False if the end of the queue was reached (repeat off)
+   */
+  async next(): Promise<boolean> {
+    const entry = this.getAdjacentEntry(1);
+    if (!entry) {
+      return false;
+    }
+
+    await this.playEntry(entry);
+    return true;
+  }
+
+  /**
+   * Go back to the previous item in play order
+   * Restarts the current item instead when playback is past restartThreshold
+   * @returns False if there is no previous item
+   */
+  async previous(): Promise<boolean> {
+    const current = this.getCurrentEntry();
+    const restartThreshold = this.options.restartThreshold ?? 3;
+
+    if (current && this.manager.getCurrentTime() > restartThreshold) {
+      await this.manager.seek(0);
+      return true;
+    }
+
+    const entry = this.getAdjacentEntry(-1);
+    if (!entry) {
+      return false;
+    }
+
+    await this.playEntry(entry);
+    return true;
+  }
+
+  setRepeatMode(mode: RepeatMode): void {
+    this.repeatMode = mode;
+    this.refreshUpcoming();
+  }
+
+  getRepeatMode(): RepeatMode {
+    return this.repeatMode;
+  }
+
+  /**
+   * Enable or disable shuffle
+   * Enabling builds a new order starting at the current item; the order is stable until shuffle is re-enabled
+   * @param seed Optional seed for a reproducible order
+   */
+  setShuffle(enabled: boolean, seed?: number): void {
+    if (seed !== undefined) {
+      this.shuffleSeed = seed;
+      this.randomState = seed;
+    }
+
+    this.shuffle = enabled;
+    this.shuffleOrder = enabled ? this.buildShuffleOrder() : [];
+    this.refreshUpcoming();
+  }
+
+  isShuffled(): boolean {
+    return this.shuffle;
+  }
+
+  getItems(): QueueItem[] {
+    return this.entries.map(entry => entry.item);
+  }
+
+  getLength(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Index of the current item in the queue, or -1 if nothing is current
+   */
+  getCurrentIndex(): number {
+    return this.currentKey === null ? -1 : this.entries.findIndex(entry => entry.key === this.currentKey);
+  }
+
+  getCurrentItem(): QueueItem | null {
+    return this.getCurrentEntry()?.item || null;
+  }
+
+  /**
+   * Queue indices in the order they will play (shuffled order when shuffle is on)
+   */
+  getPlayOrderIndices(): number[] {
+    return this.getPlayOrder().map(entry => this.entries.indexOf(entry));
+  }
+
+  /**
+   * Snapshot the queue as plain JSON-safe data
+   */
+  serialize(): SerializedPlaybackQueue {
+    return {
+      version: 1,
+      items: this.getItems().map(item => ({ ...item })),
+      currentIndex: this.getCurrentIndex(),
+      repeatMode: this.repeatMode,
+      shuffle: this.shuffle,
+      shuffleSeed: this.shuffleSeed,
+      shuffleOrder: this.shuffle ? this.getPlayOrderIndices() : []
+    };
+  }
+
+  /**
+   * Replace the queue contents with serialized data
+   * Does not start playback - call play() to resume the restored current item
+   */
+  restore(data: SerializedPlaybackQueue): void {
+    if (!data || data.version !== 1 || !Array.isArray(data.items)) {
+      throw new Error('Unsupported serialized queue data');
+    }
+
+    this.entries = data.items.map(item => ({ key: this.nextKey++, item: { ...item } }));
+    this.registerAlbums(this.entries);
+    this.currentKey = this.entries[data.currentIndex]?.key ?? null;
+    this.repeatMode = data.repeatMode || 'off';
+    this.shuffle = data.shuffle;
+    this.shuffleSeed = data.shuffleSeed;
+    this.randomState = data.shuffleSeed;
+
+    // Keep the saved order if it still covers every item exactly once
+    const savedOrder = data.shuffleOrder || [];
+    const isValidOrder = savedOrder.length === this.entries.length &&
+      new Set(savedOrder).size === savedOrder.length &&
+      savedOrder.every(index => index >= 0 && index < this.entries.length);
+
+    if (!this.shuffle) {
+      this.shuffleOrder = [];
+    } else if (isValidOrder) {
+      this.shuffleOrder = savedOrder.map(index => this.entries[index].key);
+    } else {
+      this.shuffleOrder = this.buildShuffleOrder();
+    }
+
+    this.notifyQueueChange();
+    this.notifyCurrentIndexChange();
+  }
+
+  /**
+   * Handle the end of the current track (called automatically unless autoAdvance is false)
+   */
+  async handleTrackEnded(): Promise<void> {
+    const current = this.getCurrentEntry();
+    if (!current) return;
+
+    if (this.repeatMode === 'one') {
+      await this.playEntry(current);
+      return;
+    }
+
+    const advanced = await this.next();
+    if (!advanced) {
+      console.log('[PlaybackQueue] Reached end of queue');
+      this.options.onQueueEnded?.();
+    }
+  }
+
+  /**
+   * Stop listening to the manager
+   */
+  destroy(): void {
+    this.manager.setQueuedTracks([]);
+    this.removeEndedListener?.();
+    this.removeEndedListener = null;
+    this.removeTrackChangeListener?.();
+    this.removeTrackChangeListener = null;
+  }
+
+  private async playEntry(entry: QueueEntry): Promise<void> {
+    const { item } = entry;
+    const changed = this.currentKey !== entry.key;
+    this.currentKey = entry.key;
+
+    if (changed) {
+      this.notifyCurrentIndexChange();
+    }
+
+    try {
+      // Already decoded or cached items skip the streaming path
+      if (await this.manager.isAudioLoaded(item.trackId)) {
+        await this.manager.loadAndPlay(item.url, item.trackId, item.name);
+      } else {
+        await this.manager.playInstantly(item.url, item.trackId, item.name || 'Unknown');
+      }
+    } catch (error) {
+      console.error(`[PlaybackQueue] Failed to play ${item.trackId}: ${error}`);
+      this.options.onError?.(error as Error, item);
+      throw error;
+    }
+
+    this.refreshUpcoming();
+  }
+
+  private registerAlbums(entries: QueueEntry[]): void {
+    for (const { item } of entries) {
+      if (item.album) {
+        this.manager.setTrackAlbum(item.trackId, item.album);
+      }
+    }
+  }
+
+  private getCurrentEntry(): QueueEntry | null {
+    if (this.currentKey === null) return null;
+    return this.entries.find(entry => entry.key === this.currentKey) || null;
+  }
+
+  private getPlayOrder(): QueueEntry[] {
+    if (!this.shuffle) {
+      return this.entries;
+    }
+
+    const byKey = new Map(this.entries.map(entry => [entry.key, entry]));
+    return this.shuffleOrder.map(key => byKey.get(key)!);
+  }
+
+  private getAdjacentEntry(step: 1 | -1): QueueEntry | null {
+    const order = this.getPlayOrder();
+    if (order.length === 0) return null;
+
+    const position = this.currentKey === null ? -1 : order.findIndex(entry => entry.key === this.currentKey);
+    if (position === -1) {
+      return step === 1 ? order[0] : null;
+    }
+
+    const target = position + step;
+    if (target >= 0 && target < order.length) {
+      return order[target];
+    }
+
+    return this.repeatMode === 'all' ? order[(target + order.length) % order.length] : null;
+  }
+
+  /**
+   * Upcoming entries in play order, wrapping around for repeat-all
+   */
+  private getUpcomingEntries(count: number): QueueEntry[] {
+    const order = this.getPlayOrder();
+    const position = this.currentKey === null ? -1 : order.findIndex(entry => entry.key === this.currentKey);
+    const upcoming: QueueEntry[] = [];
+
+    for (let offset = 1; offset <= count; offset++) {
+      const index = position + offset;
+      if (index < order.length) {
+        upcoming.push(order[index]);
+      } else if (this.repeatMode === 'all' && offset < order.length) {
+        upcoming.push(order[index % order.length]);
+      } else {
+        break;
+      }
+    }
+
+    return upcoming;
+  }
+
+  /**
+   * Keep preloads and the gapless-staged entry in line with the current play order
+   */
+  private refreshUpcoming(): void {
+    this.preloadUpcoming();
+    this.stageNext();
+  }
+
+  private preloadUpcoming(): void {
+    // Nothing is playing yet - don't spend bandwidth on a queue that may never start
+    if (this.currentKey === null) {
+      this.manager.setQueuedTracks([]);
+      return;
+    }
+
+    const count = this.options.preloadCount ?? 1;
+    const upcoming = this.getUpcomingEntries(count).filter(entry => entry.key !== this.currentKey);
+    // Preloaded tracks must survive the manager's memory budget until they play
+    this.manager.setQueuedTracks(upcoming.map(entry => entry.item.trackId));
+    for (const { item } of upcoming) {
+      this.manager.preloadAudio(item.url, item.trackId, item.name).catch(error => {
+        console.warn(`[PlaybackQueue] Failed to preload ${item.trackId}: ${error}`);
+      });
+    }
+  }
+
+  /**
+   * Stage the entry that follows the current one so the worklet can start it without a gap
+   */
+  private stageNext(): void {
+    if (!this.options.gapless || this.currentKey === null) return;
+
+    const next = this.repeatMode === 'one' ? this.getCurrentEntry() : this.getAdjacentEntry(1);
+    if (!next) {
+      this.manager.clearNextTrack();
+      return;
+    }
+
+    const { item } = next;
+    // Let an in-flight preload finish first so the track comes from the cache instead of a second download
+    this.manager.preloadAudio(item.url, item.trackId, item.name)
+      .then(() => this.manager.enqueueNext(item.trackId, item.url))
+      .catch(error => {
+        console.warn(`[PlaybackQueue] Failed to stage ${item.trackId} for gapless playback: ${error}`);
+      });
+  }
+
+  /**
+   * The manager moved to the staged track on its own - follow it without restarting playback
+   */
+  private handleGaplessTrackChange(trackId: string): void {
+    const expected = this.repeatMode === 'one' ? this.getCurrentEntry() : this.getAdjacentEntry(1);
+    const entry = expected && expected.item.trackId === trackId
+      ? expected
+      : this.entries.find(candidate => candidate.item.trackId === trackId);
+    if (!entry) return;
+
+    if (this.currentKey !== entry.key) {
+      this.currentKey = entry.key;
+      this.notifyCurrentIndexChange();
+    }
+
+    this.refreshUpcoming();
+  }
+
+  /**
+   * Fisher-Yates shuffle of all entries, with the current entry first
+   */
+  private buildShuffleOrder(): number[] {
+    const keys = this.entries.map(entry => entry.key).filter(key => key !== this.currentKey);
+
+    for (let i = keys.length - 1; i > 0; i--) {
+      const j = Math.floor(this.nextRandom() * (i + 1));
+      [keys[i], keys[j]] = [keys[j], keys[i]];
+    }
+
+    return this.currentKey !== null ? [this.currentKey, ...keys] : keys;
+  }
+
+  /**
+   * Seeded PRNG (mulberry32) so a seed always produces the same order
+   */
+  private nextRandom(): number {
+    this.randomState = (this.randomState + 0x6d2b79f5) | 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private notifyCurrentIndexChange(): void {
+    this.options.onCurrentIndexChange?.(this.getCurrentIndex(), this.getCurrentItem());
+  }
+
+  private notifyQueueChange(): void {
+    this.options.onQueueChange?.(this.getItems());
+  }
+}
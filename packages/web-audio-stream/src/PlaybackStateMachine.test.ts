@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PlaybackStateMachine, type PlaybackEvent, type PlaybackState } from './PlaybackStateMachine.js';
+
+const EVENTS: PlaybackEvent[] = [
+  'unlock', 'unlocked', 'load', 'abort', 'play', 'cue', 'pause', 'resume', 'seek', 'underrun', 'recover', 'end', 'fail', 'stop'
+];
+
+// The full table, spelled out - a change here should be a deliberate change to what callers may do
+const EXPECTED: Record<PlaybackState, Partial<Record<PlaybackEvent, PlaybackState>>> = {
+  idle: { unlock: 'unlocking', load: 'loading', play: 'playing', stop: 'idle', fail: 'error' },
+  unlocking: { unlocked: 'idle', load: 'loading', stop: 'unlocking', fail: 'error' },
+  loading: { load: 'loading', abort: 'idle', play: 'playing', cue: 'paused', pause: 'loading', resume: 'loading', seek: 'loading', stop: 'idle', fail: 'error' },
+  buffering: { load: 'loading', play: 'playing', pause: 'paused', resume: 'buffering', seek: 'buffering', recover: 'playing', end: 'ended', stop: 'idle', fail: 'error' },
+  playing: { load: 'loading', play: 'playing', pause: 'paused', resume: 'playing', seek: 'playing', underrun: 'buffering', end: 'ended', stop: 'idle', fail: 'error' },
+  paused: { load: 'loading', play: 'playing', pause: 'paused', resume: 'playing', seek: 'paused', stop: 'idle', fail: 'error' },
+  ended: { load: 'loading', play: 'playing', pause: 'ended', resume: 'playing', seek: 'paused', stop: 'idle', fail: 'error' },
+  error: { unlock: 'unlocking', load: 'loading', play: 'playing', stop: 'idle', fail: 'error' }
+};
+
+// Events that lead from idle to each state
+const PATHS: Record<PlaybackState, PlaybackEvent[]> = {
+  idle: [],
+  unlocking: ['unlock'],
+  loading: ['load'],
+  buffering: ['play', 'underrun'],
+  playing: ['play'],
+  paused: ['play', 'pause'],
+  ended: ['play', 'end'],
+  error: ['fail']
+};
+
+function machineIn(state: PlaybackState): PlaybackStateMachine {
+  const machine = new PlaybackStateMachine();
+  for (const event of PATHS[state]) {
+    machine.send(event, 'track');
+  }
+  expect(machine.getState()).toBe(state);
+  return machine;
+}
+
+const CASES = (Object.keys(EXPECTED) as PlaybackState[]).flatMap(state =>
+  EVENTS.map(event => ({ state, event, to: EXPECTED[state][event] }))
+);
+
+describe('PlaybackStateMachine', () => {
+  it.each(CASES.filter(({ to }) => to !== undefined))('$state + $event -> $to', ({ state, event, to }) => {
+    const machine = machineIn(state);
+
+    expect(machine.can(event)).toBe(true);
+    expect(machine.send(event)).toBe(to);
+    expect(machine.getState()).toBe(to);
+  });
+
+  it.each(CASES.filter(({ to }) => to === undefined))('rejects $event while $state', ({ state, event }) => {
+    const machine = machineIn(state);
+
+    expect(machine.can(event)).toBe(false);
+    expect(() => machine.send(event)).toThrow(`Cannot ${event} while ${state}`);
+    expect(machine.trySend(event)).toBe(false);
+    expect(machine.getState()).toBe(state);
+  });
+
+  it('accepts stop in every state', () => {
+    for (const state of Object.keys(EXPECTED) as PlaybackState[]) {
+      expect(machineIn(state).trySend('stop')).toBe(true);
+    }
+  });
+
+  it('resets from any state and forgets the track', () => {
+    for (const state of Object.keys(EXPECTED) as PlaybackState[]) {
+      const machine = machineIn(state);
+      expect(machine.send('reset')).toBe('idle');
+      expect(machine.getTrackId()).toBeNull();
+    }
+  });
+
+  it('emits a transition only when the state changes', () => {
+    const machine = new PlaybackStateMachine();
+    const transitions = vi.fn();
+    machine.on('transition', transitions);
+
+    machine.send('load', 'a');
+    machine.send('pause');
+    machine.send('play');
+
+    expect(transitions.mock.calls.map(([transition]) => transition)).toEqual([
+      { from: 'idle', to: 'loading', event: 'load', trackId: 'a' },
+      { from: 'loading', to: 'playing', event: 'play', trackId: 'a' }
+    ]);
+  });
+
+  it('keeps the track unless an event names another one', () => {
+    const machine = new PlaybackStateMachine();
+    machine.send('load', 'a');
+    machine.send('play');
+    expect(machine.getTrackId()).toBe('a');
+
+    machine.trySend('load', 'b');
+    expect(machine.getTrackId()).toBe('b');
+  });
+});
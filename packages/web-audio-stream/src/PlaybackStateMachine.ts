@@ -0,0 +1,114 @@
+// PlaybackStateMachine.ts
+// Explicit playback state machine - one place that decides which state changes are legal
+// Driven by WebAudioManager calls, downloads and worklet messages (UNDERRUN, ENDED, ...)
+
+import { TypedEventEmitter } from './TypedEventEmitter.js';
+
+export type PlaybackState = 'idle' | 'unlocking' | 'loading' | 'buffering' | 'playing' | 'paused' | 'ended' | 'error';
+
+export type PlaybackEvent =
+  | 'unlock'    // AudioContext creation/resume started
+  | 'unlocked'  // AudioContext ready
+  | 'load'      // A track started loading
+  | 'abort'     // The loading track was cancelled before it played
+  | 'play'      // A track (re)started from its buffer
+  | 'cue'       // A track finished loading paused (pause() was called while it loaded)
+  | 'pause'
+  | 'resume'
+  | 'seek'
+  | 'underrun'  // Worklet ran out of audio while playing
+  | 'recover'   // Worklet has audio again
+  | 'end'       // Worklet reached the end of the track
+  | 'fail'
+  | 'stop'      // Playback stopped and tracks dropped
+  | 'reset';    // Cleanup - always allowed
+
+export interface PlaybackTransition {
+  from: PlaybackState;
+  to: PlaybackState;
+  event: PlaybackEvent;
+  trackId: string | null;
+}
+
+export interface PlaybackStateMachineEvents {
+  transition: PlaybackTransition;
+}
+
+// Events missing from a state's row are illegal there; mapping to the same state accepts them without a transition
+const TRANSITIONS: Record<PlaybackState, Partial<Record<PlaybackEvent, PlaybackState>>> = {
+  idle: { unlock: 'unlocking', load: 'loading', play: 'playing', stop: 'idle', fail: 'error' },
+  // A load or stop during a gesture-triggered unlock doesn't wait for it; unlocked arriving later is ignored
+  unlocking: { unlocked: 'idle', load: 'loading', stop: 'unlocking', fail: 'error' },
+  // pause/resume/seek before the first audio are held back and applied when the track starts
+  loading: { load: 'loading', abort: 'idle', play: 'playing', cue: 'paused', pause: 'loading', resume: 'loading', seek: 'loading', stop: 'idle', fail: 'error' },
+  buffering: { load: 'loading', play: 'playing', pause: 'paused', resume: 'buffering', seek: 'buffering', recover: 'playing', end: 'ended', stop: 'idle', fail: 'error' },
+  playing: { load: 'loading', play: 'playing', pause: 'paused', resume: 'playing', seek: 'playing', underrun: 'buffering', end: 'ended', stop: 'idle', fail: 'error' },
+  paused: { load: 'loading', play: 'playing', pause: 'paused', resume: 'playing', seek: 'paused', stop: 'idle', fail: 'error' },
+  ended: { load: 'loading', play: 'playing', pause: 'ended', resume: 'playing', seek: 'paused', stop: 'idle', fail: 'error' },
+  error: { unlock: 'unlocking', load: 'loading', play: 'playing', stop: 'idle', fail: 'error' }
+};
+
+/**
+ * Playback state machine
+ *
+ * Key features:
+ * - idle, unlocking, loading, buffering, playing, paused, ended and error states
+ * - Named events with a fixed transition table - anything else is rejected with an error naming the state
+ * - transition events carrying from/to, the triggering event and the track
+ */
+export class PlaybackStateMachine extends TypedEventEmitter<PlaybackStateMachineEvents> {
+  private state: PlaybackState = 'idle';
+  private trackId: string | null = null;
+
+  getState(): PlaybackState {
+    return this.state;
+  }
+
+  /**
+   * Track the current state refers to
+   */
+  getTrackId(): string | null {
+    return this.trackId;
+  }
+
+  /**
+   * Whether an event is legal in the current state
+   */
+  can(event: PlaybackEvent): boolean {
+    return event === 'reset' || TRANSITIONS[this.state][event] !== undefined;
+  }
+
+  /**
+   * Apply an event
+   * @returns The new state
+   * @throws If the event is illegal in the current state
+   */
+  send(event: PlaybackEvent, trackId: string | null = this.trackId): PlaybackState {
+    const to = event === 'reset' ? 'idle' : TRANSITIONS[this.state][event];
+    if (to === undefined) {
+      throw new Error(`Cannot ${event} while ${this.state}`);
+    }
+
+    const from = this.state;
+    this.trackId = event === 'reset' ? null : trackId;
+    if (from === to) {
+      return to;
+    }
+
+    this.state = to;
+    this.emit('transition', { from, to, event, trackId: this.trackId });
+    return to;
+  }
+
+  /**
+   * Apply an event only if it is legal - for worklet and download notifications that may arrive late
+   * @returns Whether the event was applied
+   */
+  trySend(event: PlaybackEvent, trackId?: string | null): boolean {
+    if (!this.can(event)) {
+      return false;
+    }
+    this.send(event, trackId === undefined ? this.trackId : trackId);
+    return true;
+  }
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SilenceTrimmer } from './SilenceTrimmer.js';
+import { FakeOfflineAudioContext } from './testing/index.js';
+
+const SAMPLE_RATE = 1000; // 1 sample per ms keeps the padding arithmetic readable
+
+// Silence with a -20dBFS tone between two sample indices
+function channel(length: number, from: number, to: number): Float32Array {
+  const data = new Float32Array(length);
+  for (let i = from; i < to; i++) {
+    data[i] = 0.1 * (i % 2 === 0 ? 1 : -1);
+  }
+  return data;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SilenceTrimmer', () => {
+  it('keeps the audible span plus padding', () => {
+    const range = SilenceTrimmer.getTrimRange([channel(1000, 300, 700)], SAMPLE_RATE);
+
+    expect(range).toEqual({ start: 250, end: 750 });
+  });
+
+  it('takes the widest span across channels', () => {
+    const range = SilenceTrimmer.getTrimRange([channel(1000, 400, 600), channel(1000, 200, 500)], SAMPLE_RATE, { paddingMs: 0 });
+
+    expect(range).toEqual({ start: 200, end: 600 });
+  });
+
+  it('clamps the padding to the buffer', () => {
+    expect(SilenceTrimmer.getTrimRange([channel(1000, 10, 990)], SAMPLE_RATE)).toEqual({ start: 0, end: 1000 });
+  });
+
+  it('treats samples at or below the threshold as silence', () => {
+    const data = channel(1000, 300, 700);
+    data[100] = 0.0005; // -66dBFS
+    data[900] = 0.002;  // -54dBFS
+
+    expect(SilenceTrimmer.getTrimRange([data], SAMPLE_RATE, { paddingMs: 0 })).toEqual({ start: 300, end: 901 });
+    expect(SilenceTrimmer.getTrimRange([data], SAMPLE_RATE, { paddingMs: 0, thresholdDb: -70 })).toEqual({ start: 100, end: 901 });
+  });
+
+  it('leaves silent and empty data untouched', () => {
+    expect(SilenceTrimmer.getTrimRange([new Float32Array(500)], SAMPLE_RATE)).toEqual({ start: 0, end: 500 });
+    expect(SilenceTrimmer.getTrimRange([], SAMPLE_RATE)).toEqual({ start: 0, end: 0 });
+    expect(SilenceTrimmer.findAudibleStart([new Float32Array(10)], 0.001)).toBeNull();
+    expect(SilenceTrimmer.findAudibleEnd([new Float32Array(10)], 0.001)).toBeNull();
+  });
+
+  describe('trim', () => {
+    const context = new FakeOfflineAudioContext(2, SAMPLE_RATE, SAMPLE_RATE) as unknown as BaseAudioContext;
+
+    function buffer(channels: Float32Array[]): AudioBuffer {
+      const audioBuffer = context.createBuffer(channels.length, channels[0].length, SAMPLE_RATE);
+      channels.forEach((data, index) => audioBuffer.copyToChannel(data, index));
+      return audioBuffer;
+    }
+
+    it('copies the audible part and reports the seconds removed', () => {
+      const source = buffer([channel(2000, 500, 1500), channel(2000, 600, 1400)]);
+      const { audioBuffer, trim } = SilenceTrimmer.trim(context, source, { paddingMs: 100 });
+
+      expect(trim).toEqual({ start: 0.4, end: 0.4 });
+      expect(audioBuffer.length).toBe(1200);
+      expect(audioBuffer.numberOfChannels).toBe(2);
+      expect(audioBuffer.getChannelData(0)[100]).toBeCloseTo(0.1);
+      expect(audioBuffer.getChannelData(1)[100]).toBe(0);
+    });
+
+    it('returns the same buffer when there is nothing to remove', () => {
+      const source = buffer([channel(1000, 0, 1000)]);
+      const result = SilenceTrimmer.trim(context, source);
+
+      expect(result.audioBuffer).toBe(source);
+      expect(result.trim).toEqual({ start: 0, end: 0 });
+    });
+  });
+});
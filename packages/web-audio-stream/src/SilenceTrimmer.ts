@@ -0,0 +1,116 @@
+// SilenceTrimmer.ts
+// Leading/trailing silence detection and trimming of decoded audio
+// Unlike encoder delay (GaplessTrimmer), this is silence that is part of the recording
+
+import type { GaplessTrimRange } from './GaplessTrimmer.js';
+
+export interface SilenceTrimOptions {
+  thresholdDb?: number;  // Samples below this peak level count as silence (default: -60 dBFS)
+  paddingMs?: number;    // Silence kept before the first and after the last audible sample (default: 50)
+}
+
+// Seconds removed from a decoded track - what maps buffer time back to the original timeline
+export interface SilenceTrim {
+  start: number;
+  end: number;
+}
+
+/**
+ * Silence trimming helper
+ *
+ * Key features:
+ * - Finds the first and last samples above a threshold on any channel
+ * - Keeps a little padding so fade-ins and reverb tails aren't cut hard
+ * - Leaves silent (or entirely quiet) buffers untouched
+ * - Works on plain channel data too, for streamed segments that never become one buffer
+ */
+export class SilenceTrimmer {
+  /**
+   * Work out which decoded samples to keep
+   * Returns the full range when the buffer holds nothing above the threshold
+   */
+  static getTrimRange(channelData: Float32Array[], sampleRate: number, options: SilenceTrimOptions = {}): GaplessTrimRange {
+    const length = channelData[0]?.length ?? 0;
+    const threshold = SilenceTrimmer.getThreshold(options);
+    const padding = SilenceTrimmer.getPadding(sampleRate, options);
+
+    const first = SilenceTrimmer.findAudibleStart(channelData, threshold);
+    if (first === null) {
+      return { start: 0, end: length };
+    }
+    const last = SilenceTrimmer.findAudibleEnd(channelData, threshold)!;
+
+    return {
+      start: Math.max(0, first - padding),
+      end: Math.min(length, last + padding)
+    };
+  }
+
+  /**
+   * Trim a decoded buffer to its audible part, returning the same buffer when nothing needs removing
+   */
+  static trim(audioContext: BaseAudioContext, audioBuffer: AudioBuffer, options: SilenceTrimOptions = {}): { audioBuffer: AudioBuffer; trim: SilenceTrim } {
+    const { start, end } = SilenceTrimmer.getTrimRange(SilenceTrimmer.getChannelData(audioBuffer), audioBuffer.sampleRate, options);
+    const trim = { start: start / audioBuffer.sampleRate, end: (audioBuffer.length - end) / audioBuffer.sampleRate };
+    if (start === 0 && end === audioBuffer.length) {
+      return { audioBuffer, trim };
+    }
+
+    const trimmed = audioContext.createBuffer(audioBuffer.numberOfChannels, end - start, audioBuffer.sampleRate);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      trimmed.copyToChannel(audioBuffer.getChannelData(channel).subarray(start, end), channel);
+    }
+    console.log(`[SilenceTrimmer] Trimmed ${trim.start.toFixed(3)}s of leading and ${trim.end.toFixed(3)}s of trailing silence`);
+    return { audioBuffer: trimmed, trim };
+  }
+
+  /**
+   * Index of the first sample above the threshold on any channel, or null if there is none
+   */
+  static findAudibleStart(channelData: Float32Array[], threshold: number): number | null {
+    let first: number | null = null;
+    for (const data of channelData) {
+      const limit = first ?? data.length;
+      for (let i = 0; i < limit; i++) {
+        if (Math.abs(data[i]) > threshold) {
+          first = i;
+          break;
+        }
+      }
+    }
+    return first;
+  }
+
+  /**
+   * One past the last sample above the threshold on any channel, or null if there is none
+   */
+  static findAudibleEnd(channelData: Float32Array[], threshold: number): number | null {
+    let end: number | null = null;
+    for (const data of channelData) {
+      const limit = end ?? 0;
+      for (let i = data.length - 1; i >= limit; i--) {
+        if (Math.abs(data[i]) > threshold) {
+          end = i + 1;
+          break;
+        }
+      }
+    }
+    return end;
+  }
+
+  static getThreshold(options: SilenceTrimOptions): number {
+    return Math.pow(10, (options.thresholdDb ?? -60) / 20);
+  }
+
+  static getPadding(sampleRate: number, options: SilenceTrimOptions): number {
+    return Math.round((options.paddingMs ?? 50) / 1000 * sampleRate);
+  }
+
+  private static getChannelData(audioBuffer: AudioBuffer): Float32Array[] {
+    const channelData: Float32Array[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      channelData.push(audioBuffer.getChannelData(channel));
+    }
+    return channelData;
+  }
+}
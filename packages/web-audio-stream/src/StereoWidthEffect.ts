@@ -0,0 +1,92 @@
+// StereoWidthEffect.ts
+// Mid/side stereo width effect unit (0 = mono, 1 = unchanged, 2 = extra wide)
+
+import type { EffectUnit } from './EffectsChain.js';
+
+export interface StereoWidthParams {
+  width: number;
+}
+
+const PARAM_SMOOTHING = 0.01;
+
+/**
+ * Stereo width
+ *
+ * Scales the side signal: L' = M + w*S, R' = M - w*S with M = (L+R)/2 and S = (L-R)/2,
+ * done as a 2x2 matrix of gains so no extra latency is added. Mono input is upmixed first.
+ */
+export class StereoWidthEffect implements EffectUnit<StereoWidthParams> {
+  readonly type: string = 'stereo-width';
+  readonly input: GainNode;
+  readonly output: ChannelMergerNode;
+
+  private audioContext: BaseAudioContext;
+  private width: number;
+  private splitter: ChannelSplitterNode;
+  private directGains: GainNode[];
+  private crossGains: GainNode[];
+
+  constructor(audioContext: BaseAudioContext, params: Partial<StereoWidthParams> = {}) {
+    this.audioContext = audioContext;
+    this.width = this.clampWidth(params.width ?? 1);
+
+    this.input = audioContext.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+
+    this.splitter = audioContext.createChannelSplitter(2);
+    this.output = audioContext.createChannelMerger(2);
+    this.directGains = [audioContext.createGain(), audioContext.createGain()];
+    this.crossGains = [audioContext.createGain(), audioContext.createGain()];
+
+    this.input.connect(this.splitter);
+    for (let channel = 0; channel < 2; channel++) {
+      const other = 1 - channel;
+      this.splitter.connect(this.directGains[channel], channel);
+      this.directGains[channel].connect(this.output, 0, channel);
+      this.splitter.connect(this.crossGains[channel], other);
+      this.crossGains[channel].connect(this.output, 0, channel);
+    }
+
+    this.applyWidth(null);
+  }
+
+  getParams(): StereoWidthParams {
+    return { width: this.width };
+  }
+
+  setParams(params: Partial<StereoWidthParams>): void {
+    if (params.width === undefined) return;
+
+    this.width = this.clampWidth(params.width);
+    this.applyWidth(this.audioContext.currentTime);
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.splitter.disconnect();
+    this.directGains.forEach(gain => gain.disconnect());
+    this.crossGains.forEach(gain => gain.disconnect());
+  }
+
+  // Set immediately when time is null, otherwise glide there
+  private applyWidth(time: number | null): void {
+    const direct = (1 + this.width) / 2;
+    const cross = (1 - this.width) / 2;
+
+    for (let channel = 0; channel < 2; channel++) {
+      if (time === null) {
+        this.directGains[channel].gain.value = direct;
+        this.crossGains[channel].gain.value = cross;
+      } else {
+        this.directGains[channel].gain.setTargetAtTime(direct, time, PARAM_SMOOTHING);
+        this.crossGains[channel].gain.setTargetAtTime(cross, time, PARAM_SMOOTHING);
+      }
+    }
+  }
+
+  private clampWidth(width: number): number {
+    return Math.max(0, Math.min(2, width));
+  }
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DownloadChunk } from './DownloadManager.js';
+import { StreamingAssembler, type AssemblyChunk, type StreamingAssemblerOptions } from './StreamingAssembler.js';
+import { createToneWav } from './testing/index.js';
+
+function chunk(overrides: Partial<AssemblyChunk>): AssemblyChunk {
+  return {
+    id: 'chunk',
+    storageIndex: 0,
+    downloadChunks: [],
+    totalSize: 0,
+    data: new ArrayBuffer(0),
+    assemblyTime: 0,
+    canStartPlayback: false,
+    format: 'mp3',
+    sourceByteOffset: 0,
+    sampleOffset: 11520,
+    sampleCount: 11520,
+    overlapSamples: 2304,
+    sourceSampleRate: 44100,
+    discontinuity: false,
+    ...overrides
+  };
+}
+
+describe('StreamingAssembler.getDecodedRange', () => {
+  it('takes the chunk\'s own samples from the tail, dropping priming and overlap output', () => {
+    // Decoder priming (529) + overlap frames (2304) + the chunk (11520)
+    expect(StreamingAssembler.getDecodedRange(chunk({}), 529 + 2304 + 11520, 44100)).toEqual({ start: 2833, length: 11520 });
+  });
+
+  it('keeps the source length when the decoder returns less, starting after the overlap', () => {
+    const range = StreamingAssembler.getDecodedRange(chunk({}), 11000, 44100);
+
+    expect(range).toEqual({ start: 2304, length: 11520 }); // Runs past the decode - padded with silence
+  });
+
+  it('converts to the context rate without drifting across chunks', () => {
+    const ends: number[] = [];
+    let position = 0;
+    for (let index = 0; index < 50; index++) {
+      const { length } = StreamingAssembler.getDecodedRange(chunk({ sampleOffset: index * 1152, sampleCount: 1152, overlapSamples: 0 }), 2000, 48000);
+      position += length;
+      ends.push(position);
+    }
+
+    expect(ends[49]).toBe(Math.round(50 * 1152 * 48000 / 44100));
+  });
+
+  it('uses the whole decode when sample positions are unknown', () => {
+    expect(StreamingAssembler.getDecodedRange(chunk({ format: 'unknown', sampleOffset: null, sampleCount: null }), 5000, 44100))
+      .toEqual({ start: 0, length: 5000 });
+  });
+});
+
+// 1s of 16-bit stereo at 8kHz: 44 header bytes, then 4 bytes per frame
+const WAV = createToneWav({ duration: 1, sampleRate: 8000 });
+
+function downloadChunks(file: Uint8Array, size: number): DownloadChunk[] {
+  const chunks: DownloadChunk[] = [];
+  for (let start = 0; start < file.length; start += size) {
+    const end = Math.min(start + size, file.length) - 1;
+    chunks.push({ index: chunks.length, start, end, data: file.slice(start, end + 1).buffer, downloadTime: 0 });
+  }
+  return chunks;
+}
+
+function createAssembler(options: Partial<StreamingAssemblerOptions> = {}): StreamingAssembler {
+  const assembler = new StreamingAssembler({ playbackChunkSize: 4000, storageChunkSize: 8000, ...options });
+  assembler.initialize(WAV.length);
+  return assembler;
+}
+
+describe('StreamingAssembler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('assembles download chunks as they arrive, without waiting for the whole file', () => {
+    const onPlaybackReady = vi.fn();
+    const onChunkAssembled = vi.fn();
+    const assembler = createAssembler({ onPlaybackReady, onChunkAssembled });
+    const chunks = downloadChunks(WAV, 5000);
+
+    assembler.addDownloadChunk(chunks[0]);
+    expect(onPlaybackReady).toHaveBeenCalledOnce();
+    expect(onPlaybackReady.mock.calls[0][0]).toMatchObject({ storageIndex: 0, canStartPlayback: true, sampleOffset: 0 });
+    expect(onChunkAssembled).toHaveBeenCalledOnce();
+
+    chunks.slice(1).forEach(chunk => assembler.addDownloadChunk(chunk));
+    assembler.finalize();
+
+    const assembled = assembler.getAssembledChunks();
+    expect(onPlaybackReady).toHaveBeenCalledOnce();
+    expect(onChunkAssembled).toHaveBeenCalledTimes(assembled.length);
+    expect(assembled.map(chunk => chunk.sampleOffset)).toEqual(
+      assembled.map((_, index) => assembled.slice(0, index).reduce((sum, chunk) => sum + chunk.sampleCount!, 0))
+    );
+    expect(assembled.reduce((sum, chunk) => sum + chunk.sampleCount!, 0)).toBe(8000);
+    expect(assembler.getStats().assemblyProgress).toBe(1);
+  });
+
+  it('holds later chunks until the bytes before them have arrived', () => {
+    const onChunkAssembled = vi.fn();
+    const assembler = createAssembler({ onChunkAssembled });
+    const [first, second] = downloadChunks(WAV, 5000);
+
+    assembler.addDownloadChunk(second);
+    expect(onChunkAssembled).not.toHaveBeenCalled();
+
+    assembler.addDownloadChunk(first);
+    // The first run only needs the playback chunk size; the rest waits for a full storage chunk
+    expect(onChunkAssembled).toHaveBeenCalledOnce();
+    expect(onChunkAssembled.mock.calls[0][0]).toMatchObject({ sourceByteOffset: 0, sampleOffset: 0 });
+  });
+
+  it('keeps assembling when starting playback fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const assembler = createAssembler({ onPlaybackReady: () => Promise.reject(new Error('Unable to decode')) });
+
+    downloadChunks(WAV, 5000).forEach(chunk => assembler.addDownloadChunk(chunk));
+    assembler.finalize();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Playback start failed: Error: Unable to decode'));
+    expect(assembler.getStats().assemblyProgress).toBe(1);
+  });
+
+  describe('seek', () => {
+    it('assembles from the seek point first, then fills the skipped bytes', () => {
+      const onChunkAssembled = vi.fn();
+      const assembler = createAssembler({ onChunkAssembled });
+      const chunks = downloadChunks(WAV, 5000);
+      assembler.addDownloadChunk(chunks[0]);
+
+      const target = assembler.getSeekPoint(0.75)!;
+      expect(target).toEqual({ byteOffset: 44 + 6000 * 4, sampleOffset: 6000 });
+      expect(assembler.seek(target)).toBe(true);
+      expect(assembler.getNextByteOffset()).toBe(target.byteOffset);
+
+      chunks.slice(4).forEach(chunk => assembler.addDownloadChunk(chunk));
+      expect(onChunkAssembled.mock.calls[1][0]).toMatchObject({ sampleOffset: 6000, sourceByteOffset: target.byteOffset, discontinuity: true });
+
+      chunks.slice(1, 4).forEach(chunk => assembler.addDownloadChunk(chunk));
+      assembler.finalize();
+
+      const assembled = assembler.getAssembledChunks().sort((a, b) => a.sampleOffset! - b.sampleOffset!);
+      expect(assembled.map(chunk => chunk.sampleOffset)).toEqual(
+        assembled.map((_, index) => assembled.slice(0, index).reduce((sum, chunk) => sum + chunk.sampleCount!, 0))
+      );
+      expect(assembled.reduce((sum, chunk) => sum + chunk.sampleCount!, 0)).toBe(8000);
+      expect(assembler.getStats().assemblyProgress).toBe(1);
+    });
+
+    it('ignores seeks before the first chunk and into assembled audio', () => {
+      const assembler = createAssembler();
+      const chunks = downloadChunks(WAV, 5000);
+      expect(assembler.seek({ byteOffset: 20044, sampleOffset: 5000 })).toBe(false);
+
+      assembler.addDownloadChunk(chunks[0]);
+      expect(assembler.seek({ byteOffset: 1044, sampleOffset: 250 })).toBe(false);
+    });
+  });
+});
+
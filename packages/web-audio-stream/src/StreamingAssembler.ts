@@ -3,25 +3,41 @@
 // Bridges the gap between network-optimized downloads and storage-optimized chunks
 
 import { DownloadChunk } from './DownloadManager.js';
+import { AudioFrameParser, type AudioContainerFormat, type AudioStreamInfo, type SeekPoint } from './AudioFrameParser.js';
+import { GaplessTrimmer, type GaplessInfo } from './GaplessTrimmer.js';
 
 export interface AssemblyChunk {
   id: string;
   storageIndex: number;
   downloadChunks: DownloadChunk[];
   totalSize: number;
-  data: ArrayBuffer;
+  data: ArrayBuffer; // Independently decodable (frame-aligned, headers or overlap frames re-attached)
   assemblyTime: number;
   canStartPlayback: boolean; // True if this chunk can start audio playback
+  format: AudioContainerFormat;
+  sourceByteOffset: number; // Where this chunk's audio starts in the original file
+  sampleOffset: number | null; // First source sample in this chunk (null for unknown formats)
+  sampleCount: number | null; // Source samples contained in this chunk
+  overlapSamples: number; // Source samples of MP3/AAC frames repeated from the previous chunk at the front of data
+  sourceSampleRate: number | null; // Rate that sampleOffset/sampleCount are expressed in
+  discontinuity: boolean; // Doesn't follow on from the previous chunk (first chunk after a seek)
 }
 
 export interface StreamingAssemblerOptions {
   storageChunkSize: number;        // Target size for storage chunks (1-3MB)
   playbackChunkSize: number;       // Size for initial playback chunk (256-384KB)
   onChunkAssembled?: (chunk: AssemblyChunk) => void;
-  onPlaybackReady?: (firstChunk: AssemblyChunk) => void;
+  onPlaybackReady?: (firstChunk: AssemblyChunk) => void | Promise<void>;
   onProgress?: (assembled: number, total: number) => void;
 }
 
+// Unassembled stretch of the file left behind by a seek, resumed once the current run stops
+interface AssemblyGap {
+  byteOffset: number;
+  sampleOffset: number;
+  resync: boolean; // Offset is an estimate that still has to be moved to a frame boundary
+}
+
 /**
  * Streaming assembler that converts network-optimized download chunks
  * into storage-optimized chunks and playback-ready buffers
@@ -29,8 +45,11 @@ export interface StreamingAssemblerOptions {
  * Key features:
  * - Assembles small download chunks (64KB-512KB) into larger storage chunks (1-3MB)
  * - Creates optimal first chunk for instant playback (256-384KB)
+ * - Cuts on codec frame boundaries so every chunk decodes on its own (see AudioFrameParser)
+ * - getDecodedRange() maps a decoded chunk back to its own samples, without overlap frames or decoder priming
  * - Streams assembly - doesn't wait for all downloads to complete
- * - Memory efficient - releases download chunks after assembly
+ * - Seeks: jumps to another byte offset, then fills the skipped stretch once it reaches the end or assembled audio
+ * - Memory efficient - releases download chunks once every byte in them is assembled
  * - iOS Safari optimized chunk sizes
  */
 export class StreamingAssembler {
@@ -45,6 +64,18 @@ export class StreamingAssembler {
   private currentAssemblyBuffer: ArrayBuffer | null = null;
   private currentAssemblySize: number = 0;
   private currentDownloadChunks: DownloadChunk[] = [];
+  private currentSourceOffset: number = 0; // Source byte offset of the assembly buffer's first byte
+  private samplesAssembled: number = 0;
+  
+  // Seek state - assembly runs from one offset until it meets audio that is already assembled
+  private assembledRanges: Array<{ start: number; end: number }> = []; // Sorted, merged source byte ranges
+  private gaps: AssemblyGap[] = [];
+  private resyncPending: boolean = false;
+  private discontinuityPending: boolean = false;
+  
+  // Frame-aware cut point detection
+  private frameParser: AudioFrameParser = new AudioFrameParser();
+  private gaplessInfo: GaplessInfo | null = null; // Encoder delay/padding read from the start of the file
 
   constructor(options: StreamingAssemblerOptions) {
     this.options = options;
@@ -63,6 +94,14 @@ export class StreamingAssembler {
     this.currentAssemblyBuffer = null;
     this.currentAssemblySize = 0;
     this.currentDownloadChunks = [];
+    this.currentSourceOffset = 0;
+    this.samplesAssembled = 0;
+    this.assembledRanges = [];
+    this.gaps = [];
+    this.resyncPending = false;
+    this.discontinuityPending = false;
+    this.frameParser = new AudioFrameParser();
+    this.gaplessInfo = null;
     this.isPlaybackReady = false;
     
     console.log(`[StreamingAssembler] Initialized for ${(totalSize / 1024 / 1024).toFixed(2)}MB file`);
@@ -79,44 +118,80 @@ export class StreamingAssembler {
   }
 
   /**
-   * Process all available sequential chunks
+   * Continue assembly from another point in the file (e.g. a seek beyond the downloaded audio)
+   *
+   * The bytes between the current position and the seek point are kept as a gap and assembled
+   * once the new run reaches the end of the file or audio that is already assembled.
+   * @returns false when the target has already been assembled
    */
-  private processAvailableChunks(): void {
-    // Find the next sequential chunk we can process
-    let nextIndex = this.getNextSequentialIndex();
-    
-    while (this.downloadChunks.has(nextIndex)) {
-      const chunk = this.downloadChunks.get(nextIndex)!;
-      this.processDownloadChunk(chunk);
-      this.downloadChunks.delete(nextIndex); // Free memory
-      nextIndex++;
+  seek(target: SeekPoint): boolean {
+    // Stream headers and gapless info come from the first chunk - only seek once it exists
+    if (this.nextStorageIndex === 0 || this.isAssembled(target.byteOffset)) {
+      return false;
+    }
+    
+    const lookahead = this.options.storageChunkSize;
+    const readOffset = this.currentSourceOffset + this.currentAssemblySize;
+    if (target.byteOffset >= this.currentSourceOffset && target.byteOffset < Math.min(readOffset + lookahead, this.getStopOffset())) {
+      // The current run gets there soon anyway
+      return true;
+    }
+    
+    // Park the current run so its bytes are assembled later
+    if (this.currentSourceOffset < this.getStopOffset()) {
+      this.gaps.push({ byteOffset: this.currentSourceOffset, sampleOffset: this.samplesAssembled, resync: this.resyncPending });
+    }
+    
+    // Resume a parked run when the target is just after where it stopped - its sample offset is exact
+    const parked = this.gaps.find(gap => target.byteOffset >= gap.byteOffset && target.byteOffset < Math.min(gap.byteOffset + lookahead, this.getStopOffset(gap.byteOffset)));
+    if (parked) {
+      this.gaps.splice(this.gaps.indexOf(parked), 1);
+      this.startRun(parked);
+    } else {
+      this.startRun({ ...target, resync: true });
     }
+    
+    console.log(`[StreamingAssembler] Seek to byte ${this.currentSourceOffset} (sample ${this.samplesAssembled}${parked ? '' : ', estimated'}), ${this.gaps.length} gaps pending`);
+    this.processAvailableChunks();
+    return true;
+  }
+
+  /**
+   * Source byte the assembler needs next (where downloads should be prioritised after a seek)
+   */
+  getNextByteOffset(): number {
+    return this.currentSourceOffset + this.currentAssemblySize;
   }
 
   /**
-   * Get the next sequential download chunk index we're waiting for
+   * Process every downloaded byte the current run can use
    */
-  private getNextSequentialIndex(): number {
-    // Count total chunks processed so far
-    let processedChunks = 0;
-    for (const assembledChunk of this.assembledChunks.values()) {
-      processedChunks += assembledChunk.downloadChunks.length;
+  private processAvailableChunks(): void {
+    while (true) {
+      const readOffset = this.currentSourceOffset + this.currentAssemblySize;
+      const stopOffset = this.getStopOffset();
+      
+      if (readOffset >= stopOffset) {
+        // Run complete - carry on with a stretch skipped by an earlier seek
+        if (this.currentAssemblySize > 0 || !this.resumeNextGap()) return;
+        continue;
+      }
+      
+      const chunk = this.findDownloadChunk(readOffset);
+      if (!chunk) return;
+      this.processDownloadChunk(chunk, readOffset - chunk.start, Math.min(chunk.end + 1, stopOffset) - chunk.start);
     }
-    // Add current assembly buffer chunks
-    processedChunks += this.currentDownloadChunks.length;
-    
-    return processedChunks;
   }
 
   /**
-   * Process a single download chunk into the assembly buffer
+   * Process part of a download chunk into the assembly buffer
    */
-  private processDownloadChunk(chunk: DownloadChunk): void {
+  private processDownloadChunk(chunk: DownloadChunk, from: number, to: number): void {
     // Add chunk to current assembly
     this.currentDownloadChunks.push(chunk);
     
     // Combine with existing assembly buffer
-    const newTotalSize = this.currentAssemblySize + chunk.data.byteLength;
+    const newTotalSize = this.currentAssemblySize + (to - from);
     const combined = new ArrayBuffer(newTotalSize);
     const combinedView = new Uint8Array(combined);
     
@@ -127,7 +202,7 @@ export class StreamingAssembler {
     }
     
     // Append new chunk
-    const chunkView = new Uint8Array(chunk.data);
+    const chunkView = new Uint8Array(chunk.data, from, to - from);
     combinedView.set(chunkView, this.currentAssemblySize);
     
     this.currentAssemblyBuffer = combined;
@@ -138,89 +213,246 @@ export class StreamingAssembler {
   }
 
   /**
-   * Check if current assembly should be completed
+   * Complete as many assembly chunks as the buffered data allows
    */
-  private checkForAssemblyCompletion(): void {
-    if (!this.currentAssemblyBuffer) return;
-    
-    const shouldComplete = this.shouldCompleteCurrentAssembly();
-    
-    if (shouldComplete) {
-      this.completeCurrentAssembly();
+  private checkForAssemblyCompletion(force: boolean = false): void {
+    while (this.currentAssemblyBuffer && this.currentAssemblySize > 0) {
+      const isFinal = force || this.isLastAssemblyChunk();
+      if (this.resyncPending && !this.resyncToFrame(isFinal)) return;
+      if (!isFinal && this.currentAssemblySize < this.getTargetSize()) return;
+      if (!this.completeCurrentAssembly(isFinal)) return;
     }
   }
 
   /**
-   * Determine if current assembly should be completed
+   * Drop the bytes before the first frame boundary of a run that started at an estimated offset
+   * Returns false when more data is needed to find one
    */
-  private shouldCompleteCurrentAssembly(): boolean {
-    // First chunk - optimize for playback start
-    if (this.nextStorageIndex === 0) {
-      // Complete when we reach playback chunk size for instant start
-      return this.currentAssemblySize >= this.options.playbackChunkSize;
-    }
-    
-    // Subsequent chunks - optimize for storage efficiency
-    const reachedStorageSize = this.currentAssemblySize >= this.options.storageChunkSize;
-    const isLastChunk = this.isLastAssemblyChunk();
+  private resyncToFrame(isFinal: boolean): boolean {
+    const buffered = new Uint8Array(this.currentAssemblyBuffer!, 0, this.currentAssemblySize);
+    const boundary = this.frameParser.findFrameBoundary(buffered, isFinal);
+    if (boundary === null) return false;
     
-    return reachedStorageSize || isLastChunk;
+    this.resyncPending = false;
+    if (boundary > 0) {
+      // Left unassembled so a run filling the gap before it can finish the frame they belong to
+      this.currentSourceOffset += boundary;
+      this.currentAssemblySize -= boundary;
+      this.currentAssemblyBuffer = this.currentAssemblySize > 0 ? this.currentAssemblyBuffer!.slice(boundary, boundary + this.currentAssemblySize) : null;
+    }
+    return true;
   }
 
   /**
-   * Check if this is the last assembly chunk
+   * Target size for the chunk being assembled
+   */
+  private getTargetSize(): number {
+    // First chunk optimizes for playback start, the rest for storage efficiency
+    return this.nextStorageIndex === 0 ? this.options.playbackChunkSize : this.options.storageChunkSize;
+  }
+
+  /**
+   * Check if every source byte of the current run has reached the assembly buffer
    */
   private isLastAssemblyChunk(): boolean {
-    // Calculate how much data we've processed
-    let processedBytes = 0;
-    for (const assembledChunk of this.assembledChunks.values()) {
-      processedBytes += assembledChunk.totalSize;
+    return this.totalExpectedSize > 0 && this.currentSourceOffset + this.currentAssemblySize >= this.getStopOffset();
+  }
+
+  /**
+   * Where the run starting at `offset` ends: the next assembled range or the end of the file
+   */
+  private getStopOffset(offset: number = this.currentSourceOffset): number {
+    const next = this.assembledRanges.find(range => range.start > offset);
+    return next ? next.start : this.totalExpectedSize;
+  }
+
+  private isAssembled(offset: number): boolean {
+    return this.assembledRanges.some(range => offset >= range.start && offset < range.end);
+  }
+
+  private markAssembled(start: number, end: number): void {
+    if (end <= start) return;
+    
+    const ranges = [...this.assembledRanges, { start, end }].sort((a, b) => a.start - b.start);
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
     }
-    processedBytes += this.currentAssemblySize;
+    this.assembledRanges = merged;
     
-    return processedBytes >= this.totalExpectedSize;
+    // Download chunks are only needed until every byte in them is assembled
+    for (const [index, chunk] of this.downloadChunks) {
+      if (merged.some(range => chunk.start >= range.start && chunk.end < range.end)) {
+        this.downloadChunks.delete(index);
+      }
+    }
+  }
+
+  private findDownloadChunk(offset: number): DownloadChunk | null {
+    for (const chunk of this.downloadChunks.values()) {
+      if (offset >= chunk.start && offset <= chunk.end) return chunk;
+    }
+    return null;
+  }
+
+  private startRun(gap: AssemblyGap): void {
+    this.currentSourceOffset = gap.byteOffset;
+    this.samplesAssembled = gap.sampleOffset;
+    this.resyncPending = gap.resync;
+    this.discontinuityPending = true;
+    this.currentAssemblyBuffer = null;
+    this.currentAssemblySize = 0;
+    this.currentDownloadChunks = [];
+    this.frameParser.resetPosition(gap.byteOffset);
+  }
+
+  /**
+   * Start the next parked run whose bytes are still unassembled
+   */
+  private resumeNextGap(): boolean {
+    while (this.gaps.length > 0) {
+      const gap = this.gaps.shift()!;
+      // Another run may have covered it since it was parked
+      if (!this.isAssembled(gap.byteOffset) && gap.byteOffset < this.totalExpectedSize) {
+        this.startRun(gap);
+        console.log(`[StreamingAssembler] Filling skipped bytes from ${gap.byteOffset}`);
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
-   * Complete the current assembly and create an AssemblyChunk
+   * Cut the next frame-aligned AssemblyChunk from the assembly buffer
+   * Returns false when more data is needed to find a frame boundary
    */
-  private completeCurrentAssembly(): void {
+  private completeCurrentAssembly(isFinal: boolean): boolean {
     if (!this.currentAssemblyBuffer || this.currentDownloadChunks.length === 0) {
-      return;
+      return false;
     }
     
     const assemblyStartTime = performance.now();
+    const buffered = new Uint8Array(this.currentAssemblyBuffer, 0, this.currentAssemblySize);
+    const cut = this.frameParser.cutChunk(buffered, {
+      isFirst: this.nextStorageIndex === 0,
+      isFinal,
+      targetSize: this.getTargetSize()
+    });
+    
+    if (!cut) {
+      return false;
+    }
+    
+    if (this.nextStorageIndex === 0) {
+      // Headers (LAME, ID3 iTunSMPB) are only in the first bytes - read them before the buffer moves on
+      this.gaplessInfo = GaplessTrimmer.parse(buffered);
+    }
+    
+    const streamInfo = this.frameParser.getStreamInfo();
+    const hasSampleInfo = cut.sampleCount !== null && !!streamInfo && streamInfo.format !== 'unknown';
     
     const assemblyChunk: AssemblyChunk = {
       id: `assembly-${this.nextStorageIndex}`,
       storageIndex: this.nextStorageIndex,
       downloadChunks: [...this.currentDownloadChunks], // Copy array
-      totalSize: this.currentAssemblySize,
-      data: this.currentAssemblyBuffer,
+      totalSize: cut.data.byteLength,
+      data: cut.data,
       assemblyTime: performance.now() - assemblyStartTime,
-      canStartPlayback: this.nextStorageIndex === 0 && !this.isPlaybackReady
+      canStartPlayback: this.nextStorageIndex === 0 && !this.isPlaybackReady,
+      format: streamInfo?.format || 'unknown',
+      sourceByteOffset: this.currentSourceOffset,
+      sampleOffset: hasSampleInfo ? this.samplesAssembled : null,
+      sampleCount: hasSampleInfo ? cut.sampleCount : null,
+      overlapSamples: cut.overlapSamples,
+      sourceSampleRate: hasSampleInfo ? streamInfo!.sampleRate : null,
+      discontinuity: this.discontinuityPending
     };
+    this.discontinuityPending = false;
     
     this.assembledChunks.set(this.nextStorageIndex, assemblyChunk);
     
-    console.log(`[StreamingAssembler] Assembled chunk ${this.nextStorageIndex}: ${(assemblyChunk.totalSize / 1024).toFixed(0)}KB from ${assemblyChunk.downloadChunks.length} download chunks`);
+    console.log(`[StreamingAssembler] Assembled chunk ${this.nextStorageIndex}: ${(assemblyChunk.totalSize / 1024).toFixed(0)}KB from ${assemblyChunk.downloadChunks.length} download chunks (${assemblyChunk.format}, sample offset ${assemblyChunk.sampleOffset ?? 'unknown'})`);
     
     // Check if this is the first playback-ready chunk
     if (assemblyChunk.canStartPlayback) {
       this.isPlaybackReady = true;
       console.log(`[StreamingAssembler] 🎵 First chunk ready for playback: ${(assemblyChunk.totalSize / 1024).toFixed(0)}KB`);
-      this.options.onPlaybackReady?.(assemblyChunk);
+      // Playback starts asynchronously while assembly carries on - a failure must not go unhandled
+      Promise.resolve(this.options.onPlaybackReady?.(assemblyChunk)).catch(error => {
+        console.error(`[StreamingAssembler] Playback start failed: ${error}`);
+      });
     }
     
     // Notify listeners
     this.options.onChunkAssembled?.(assemblyChunk);
     this.reportProgress();
     
-    // Reset assembly state for next chunk
+    // Carry the bytes after the cut (a partial frame) into the next chunk
     this.nextStorageIndex++;
-    this.currentAssemblyBuffer = null;
-    this.currentAssemblySize = 0;
-    this.currentDownloadChunks = [];
+    this.samplesAssembled += cut.sampleCount || 0;
+    this.markAssembled(this.currentSourceOffset, this.currentSourceOffset + cut.bytesConsumed);
+    this.currentSourceOffset += cut.bytesConsumed;
+    const remainder = this.currentAssemblySize - cut.bytesConsumed;
+    
+    if (remainder > 0) {
+      this.currentAssemblyBuffer = this.currentAssemblyBuffer.slice(cut.bytesConsumed, this.currentAssemblySize);
+      this.currentAssemblySize = remainder;
+      // The last download chunk straddles the cut and contributes to the next assembly too
+      this.currentDownloadChunks = this.currentDownloadChunks.slice(-1);
+    } else {
+      this.currentAssemblyBuffer = null;
+      this.currentAssemblySize = 0;
+      this.currentDownloadChunks = [];
+    }
+    
+    return true;
+  }
+
+  /**
+   * Get detected container/codec information (null until the header has been parsed)
+   */
+  getStreamInfo(): AudioStreamInfo | null {
+    return this.frameParser.getStreamInfo();
+  }
+
+  /**
+   * Estimate the file offset of a source time (see AudioFrameParser.getSeekPoint)
+   */
+  getSeekPoint(time: number): SeekPoint | null {
+    return this.frameParser.getSeekPoint(time, this.totalExpectedSize);
+  }
+
+  /**
+   * Decoded samples that belong to a chunk, in the decoded buffer's sample rate
+   *
+   * Decoders emit priming output and the overlap frames first, so the chunk's own audio is the tail of the
+   * decode. The length comes from sampleCount, not the decoded length, so chunks butt together on the source
+   * timeline; a decode shorter than that leaves `length` past the end of the decoded audio (pad with silence).
+   */
+  static getDecodedRange(chunk: AssemblyChunk, decodedLength: number, sampleRate: number): { start: number; length: number } {
+    if (chunk.sampleOffset === null || chunk.sampleCount === null || !chunk.sourceSampleRate) {
+      return { start: 0, length: decodedLength };
+    }
+
+    const ratio = sampleRate / chunk.sourceSampleRate;
+    // Rounded at both ends of the run position so resampled chunks don't accumulate rounding drift
+    const length = Math.round((chunk.sampleOffset + chunk.sampleCount) * ratio) - Math.round(chunk.sampleOffset * ratio);
+    const start = decodedLength >= length
+      ? decodedLength - length
+      : Math.min(Math.round(chunk.overlapSamples * ratio), decodedLength);
+    return { start, length };
+  }
+
+  /**
+   * Get encoder delay/padding found in the file header (null if none)
+   */
+  getGaplessInfo(): GaplessInfo | null {
+    return this.gaplessInfo;
   }
 
   /**
@@ -246,7 +478,7 @@ export class StreamingAssembler {
    */
   finalize(): void {
     if (this.currentAssemblyBuffer && this.currentDownloadChunks.length > 0) {
-      this.completeCurrentAssembly();
+      this.checkForAssemblyCompletion(true);
     }
     
     console.log(`[StreamingAssembler] Finalized: ${this.assembledChunks.size} total chunks assembled`);
@@ -286,8 +518,9 @@ export class StreamingAssembler {
     const totalAssembledSize = Array.from(this.assembledChunks.values())
       .reduce((sum, chunk) => sum + chunk.totalSize, 0);
     
-    const assemblyProgress = this.totalExpectedSize > 0 ? 
-      (totalAssembledSize + this.currentAssemblySize) / this.totalExpectedSize : 0;
+    // Measured in source bytes - assembled chunks may carry re-attached container headers
+    const sourceBytes = this.assembledRanges.reduce((sum, range) => sum + range.end - range.start, 0) + this.currentAssemblySize;
+    const assemblyProgress = this.totalExpectedSize > 0 ? sourceBytes / this.totalExpectedSize : 0;
     
     return {
       assembledChunks: this.assembledChunks.size,
@@ -307,6 +540,8 @@ export class StreamingAssembler {
     this.currentAssemblyBuffer = null;
     this.currentDownloadChunks = [];
     this.currentAssemblySize = 0;
+    this.assembledRanges = [];
+    this.gaps = [];
     
     console.log(`[StreamingAssembler] Cleanup completed`);
   }
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TypedEventEmitter } from './TypedEventEmitter.js';
+
+interface Events {
+  tick: { count: number };
+  done: undefined;
+}
+
+// emit() is protected - subclasses decide what they publish
+class Emitter extends TypedEventEmitter<Events> {
+  send<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.emit(event, payload);
+  }
+}
+
+let emitter: Emitter;
+
+beforeEach(() => {
+  emitter = new Emitter();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('TypedEventEmitter', () => {
+  it('calls listeners for their event with the payload', () => {
+    const tick = vi.fn();
+    const done = vi.fn();
+    emitter.on('tick', tick);
+    emitter.on('done', done);
+
+    emitter.send('tick', { count: 1 });
+
+    expect(tick).toHaveBeenCalledWith({ count: 1 });
+    expect(done).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes through the returned function or off()', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = emitter.on('tick', first);
+    emitter.on('tick', second);
+
+    unsubscribe();
+    emitter.off('tick', second);
+    emitter.send('tick', { count: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('tick')).toBe(0);
+  });
+
+  it('calls once() listeners a single time, and off() removes them by the original listener', () => {
+    const once = vi.fn();
+    const removed = vi.fn();
+    emitter.once('tick', once);
+    emitter.once('tick', removed);
+    emitter.off('tick', removed);
+
+    emitter.send('tick', { count: 1 });
+    emitter.send('tick', { count: 2 });
+
+    expect(once).toHaveBeenCalledOnce();
+    expect(once).toHaveBeenCalledWith({ count: 1 });
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it('keeps calling the other listeners when one throws', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    emitter.on('tick', () => { throw new Error('Listener failed'); });
+    emitter.on('tick', after);
+
+    emitter.send('tick', { count: 1 });
+
+    expect(after).toHaveBeenCalledOnce();
+    expect(error).toHaveBeenCalledWith('[TypedEventEmitter] Listener for "tick" threw:', expect.any(Error));
+  });
+
+  it('lets a listener unsubscribe others while the event is being emitted', () => {
+    const later = vi.fn();
+    let unsubscribeLater = () => {};
+    emitter.on('tick', () => unsubscribeLater());
+    unsubscribeLater = emitter.on('tick', later);
+
+    emitter.send('tick', { count: 1 });
+    emitter.send('tick', { count: 2 });
+
+    // Still called for the emit in progress, not for the next one
+    expect(later).toHaveBeenCalledOnce();
+  });
+
+  it('removes every listener, or those of one event', () => {
+    emitter.on('tick', () => {});
+    emitter.on('done', () => {});
+
+    emitter.removeAllListeners('tick');
+    expect(emitter.listenerCount('tick')).toBe(0);
+    expect(emitter.listenerCount('done')).toBe(1);
+
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount('done')).toBe(0);
+  });
+});
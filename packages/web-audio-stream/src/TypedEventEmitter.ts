@@ -0,0 +1,96 @@
+// TypedEventEmitter.ts
+// Minimal strongly-typed event emitter for browser code (no Node.js EventEmitter dependency)
+
+export type EventListener<T> = (payload: T) => void;
+
+type OnceWrapper<T> = EventListener<T> & { original?: EventListener<T> };
+
+/**
+ * Event emitter keyed by an event map interface
+ *
+ * Key features:
+ * - on/off/once with payload types inferred from the event name
+ * - on() returns an unsubscribe function
+ * - A throwing listener is logged and does not stop the others
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on() or once()
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.delete(listener);
+    // once() wrappers are registered under the original listener
+    listeners.forEach(registered => {
+      if ((registered as OnceWrapper<Events[K]>).original === listener) {
+        listeners.delete(registered);
+      }
+    });
+
+    if (listeners.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const wrapper: OnceWrapper<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    wrapper.original = listener;
+
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Remove all listeners for an event, or for every event
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size || 0;
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[TypedEventEmitter] Listener for "${String(event)}" threw:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { WaveformPeaks } from './WaveformPeaks.js';
+import { FakeAudioBuffer } from './testing/index.js';
+
+const SAMPLE_RATE = 1000;
+
+// 4 samples per peak, then 8 and 16
+function createPeaks(channels = 1): WaveformPeaks {
+  return new WaveformPeaks(SAMPLE_RATE, channels, { samplesPerPeak: 4, levels: 3, levelFactor: 2 });
+}
+
+// Back to the stored Int8 steps, so float rounding doesn't matter
+function steps(values: Float32Array): number[] {
+  return Array.from(values, value => Math.round(value * 127));
+}
+
+function constant(length: number, value: number): Float32Array {
+  return new Float32Array(length).fill(value);
+}
+
+describe('WaveformPeaks', () => {
+  it('keeps the quantized min and max of every bucket', () => {
+    const peaks = createPeaks();
+    peaks.append([Float32Array.from([0.5, -0.25, 1.5, 0, 0.1, 0.2, -1, 0.3])], 0);
+
+    const [finest] = peaks.getLevels();
+    expect(Array.from(finest.min[0])).toEqual([-32, -127]);
+    expect(Array.from(finest.max[0])).toEqual([127, 38]);
+    expect(peaks.duration).toBe(0.008);
+  });
+
+  it('merges segments appended out of order, leaving gaps silent', () => {
+    const peaks = createPeaks();
+    peaks.append([constant(4, 0.5)], 12);
+    peaks.append([constant(4, -0.5)], 0);
+    peaks.append([constant(4, -0.5)], 0);
+
+    const range = peaks.getRange(4);
+    expect(steps(range.max)).toEqual([-63, 0, 0, 64]);
+    expect(steps(range.min)).toEqual([-63, 0, 0, 64]);
+    expect(peaks.getTotalSamples()).toBe(16);
+  });
+
+  it('derives coarser levels and reads the coarsest that still fills every pixel', () => {
+    const peaks = createPeaks();
+    const ramp = Float32Array.from({ length: 64 }, (_, index) => index / 64);
+    peaks.append([ramp], 0);
+
+    const levels = peaks.getLevels();
+    expect(levels.map(level => [level.samplesPerPeak, level.max[0].length])).toEqual([[4, 16], [8, 8], [16, 4]]);
+    expect(Array.from(levels[2].max[0])).toEqual([30, 62, 93, 125]);
+
+    // 16 samples per pixel - every pixel is one bucket of the coarsest level
+    expect(steps(peaks.getRange(4).max)).toEqual([30, 62, 93, 125]);
+    // A zoomed-in window reads the finest level
+    expect(steps(peaks.getRange(2, { start: 0, end: 0.008 }).max)).toEqual([6, 14]);
+  });
+
+  it('fills every channel from mono segments and reads one channel or the mix', () => {
+    const peaks = createPeaks(2);
+    peaks.append([constant(8, 0.5)], 0);
+    peaks.append([constant(8, 0), constant(8, -1)], 8);
+
+    expect(steps(peaks.getRange(2, { channel: 0 }).min)).toEqual([64, 0]);
+    expect(steps(peaks.getRange(2).min)).toEqual([64, -127]);
+  });
+
+  it('drops everything after a truncation point', () => {
+    const peaks = createPeaks();
+    peaks.append([constant(16, 0.5)], 0);
+
+    peaks.truncate(6);
+
+    expect(peaks.getTotalSamples()).toBe(6);
+    expect(peaks.getLevels()[0].max[0]).toHaveLength(2);
+    peaks.truncate(10);
+    expect(peaks.getTotalSamples()).toBe(6);
+  });
+
+  it('restores from stored data and whole buffers', () => {
+    const buffer = new FakeAudioBuffer({ numberOfChannels: 2, length: 32, sampleRate: SAMPLE_RATE });
+    buffer.getChannelData(0).fill(0.25);
+    buffer.getChannelData(1).fill(-0.75);
+    const peaks = WaveformPeaks.fromAudioBuffer(buffer as unknown as AudioBuffer, { samplesPerPeak: 4, levels: 3, levelFactor: 2 });
+
+    const restored = WaveformPeaks.fromData(structuredClone(peaks.getData()));
+
+    expect(restored.getData()).toEqual(peaks.getData());
+    expect(restored.samplesPerPeak).toBe(4);
+    expect(() => WaveformPeaks.fromData({ ...peaks.getData(), levels: [] })).toThrow('Waveform peaks data has no levels');
+  });
+});
@@ -0,0 +1,286 @@
+// WaveformPeaks.ts
+// Multi-resolution min/max peaks per channel for drawing waveforms and scrubbers
+// Peaks are quantized to Int8 (value * 127) so a 5 minute stereo track needs ~150KB at the default resolution
+
+export interface WaveformPeaksOptions {
+  samplesPerPeak?: number;  // Samples per peak at the finest resolution (default: 512)
+  levels?: number;          // Number of resolutions (default: 4)
+  levelFactor?: number;     // Each resolution is this many times coarser than the previous (default: 4)
+}
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Int8Array[];  // Per channel
+  max: Int8Array[];  // Per channel - a bucket with max -128 holds no audio yet
+}
+
+// Plain-object form stored in IndexedDB (structured-clone friendly)
+export interface WaveformPeaksData {
+  version: 1;
+  sampleRate: number;
+  numberOfChannels: number;
+  totalSamples: number;
+  levels: PeakLevel[]; // Finest first
+}
+
+export interface PeakRange {
+  min: Float32Array; // -1 to 1, one value per pixel
+  max: Float32Array;
+}
+
+export interface PeakRangeOptions {
+  channel?: number;  // Channel to read (default: all channels merged)
+  start?: number;    // Seconds (default: 0)
+  end?: number;      // Seconds (default: end of the audio covered so far)
+}
+
+const EMPTY_MIN = 127;
+const EMPTY_MAX = -128;
+
+/**
+ * Waveform peaks builder and reader
+ *
+ * Key features:
+ * - Min/max per channel at several resolutions (mipmap), picked per zoom level by getRange()
+ * - Segments can be appended at any sample offset and in any order (streaming, seeks)
+ * - Buckets that haven't received audio read as silence
+ * - Serializes to a plain object for persistence next to AudioMetadata
+ */
+export class WaveformPeaks {
+  readonly sampleRate: number;
+  readonly numberOfChannels: number;
+  readonly samplesPerPeak: number;
+
+  private levelCount: number;
+  private levelFactor: number;
+  private min: Int8Array[];  // Finest level, grown as audio arrives
+  private max: Int8Array[];
+  private peakCount = 0;
+  private totalSamples = 0;
+  private levelCache: PeakLevel[] | null = null; // Coarser levels are derived on first read after a change
+
+  constructor(sampleRate: number, numberOfChannels: number, options: WaveformPeaksOptions = {}, expectedSamples: number = 0) {
+    this.sampleRate = sampleRate;
+    this.numberOfChannels = Math.max(1, numberOfChannels);
+    this.samplesPerPeak = Math.max(1, Math.floor(options.samplesPerPeak ?? 512));
+    this.levelCount = Math.max(1, Math.floor(options.levels ?? 4));
+    this.levelFactor = Math.max(2, Math.floor(options.levelFactor ?? 4));
+
+    const capacity = Math.ceil(expectedSamples / this.samplesPerPeak);
+    this.min = Array.from({ length: this.numberOfChannels }, () => new Int8Array(capacity).fill(EMPTY_MIN));
+    this.max = Array.from({ length: this.numberOfChannels }, () => new Int8Array(capacity).fill(EMPTY_MAX));
+  }
+
+  /**
+   * Peaks of a whole decoded buffer
+   */
+  static fromAudioBuffer(audioBuffer: AudioBuffer, options: WaveformPeaksOptions = {}): WaveformPeaks {
+    const peaks = new WaveformPeaks(audioBuffer.sampleRate, audioBuffer.numberOfChannels, options, audioBuffer.length);
+    peaks.appendBuffer(audioBuffer, 0);
+    return peaks;
+  }
+
+  /**
+   * Restore peaks saved with getData()
+   */
+  static fromData(data: WaveformPeaksData): WaveformPeaks {
+    const finest = data.levels[0];
+    if (!finest) {
+      throw new Error('Waveform peaks data has no levels');
+    }
+
+    const levelFactor = data.levels.length > 1 ? data.levels[1].samplesPerPeak / finest.samplesPerPeak : 4;
+    const peaks = new WaveformPeaks(data.sampleRate, data.numberOfChannels, {
+      samplesPerPeak: finest.samplesPerPeak,
+      levels: data.levels.length,
+      levelFactor
+    });
+    peaks.min = finest.min.map(channel => Int8Array.from(channel));
+    peaks.max = finest.max.map(channel => Int8Array.from(channel));
+    peaks.peakCount = peaks.min[0]?.length ?? 0;
+    peaks.totalSamples = data.totalSamples;
+    return peaks;
+  }
+
+  /**
+   * Seconds of audio covered so far (the end of the furthest appended segment)
+   */
+  get duration(): number {
+    return this.totalSamples / this.sampleRate;
+  }
+
+  getTotalSamples(): number {
+    return this.totalSamples;
+  }
+
+  /**
+   * Add decoded PCM starting at a timeline sample
+   * Overlapping segments merge, so appending the same audio twice is harmless
+   */
+  append(channelData: Float32Array[], startSample: number): void {
+    const length = channelData[0]?.length ?? 0;
+    if (length === 0) return;
+
+    const endSample = startSample + length;
+    this.ensureCapacity(Math.ceil(endSample / this.samplesPerPeak));
+
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      // Mono segments fill every channel
+      const data = channelData[Math.min(channel, channelData.length - 1)];
+      const min = this.min[channel];
+      const max = this.max[channel];
+      let i = 0;
+
+      while (i < length) {
+        const peak = Math.floor((startSample + i) / this.samplesPerPeak);
+        const bucketEnd = Math.min(length, (peak + 1) * this.samplesPerPeak - startSample);
+        let low = Infinity;
+        let high = -Infinity;
+        for (; i < bucketEnd; i++) {
+          const sample = data[i];
+          if (sample < low) low = sample;
+          if (sample > high) high = sample;
+        }
+        min[peak] = Math.min(min[peak], WaveformPeaks.quantize(low));
+        max[peak] = Math.max(max[peak], WaveformPeaks.quantize(high));
+      }
+    }
+
+    this.peakCount = Math.max(this.peakCount, Math.ceil(endSample / this.samplesPerPeak));
+    this.totalSamples = Math.max(this.totalSamples, endSample);
+    this.levelCache = null;
+  }
+
+  appendBuffer(audioBuffer: AudioBuffer, startSample: number): void {
+    const channelData: Float32Array[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      channelData.push(audioBuffer.getChannelData(channel));
+    }
+    this.append(channelData, startSample);
+  }
+
+  /**
+   * Drop everything after a sample (e.g. encoder padding found once a stream completes)
+   */
+  truncate(totalSamples: number): void {
+    if (totalSamples >= this.totalSamples) return;
+
+    this.totalSamples = Math.max(0, totalSamples);
+    this.peakCount = Math.ceil(this.totalSamples / this.samplesPerPeak);
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      this.min[channel].fill(EMPTY_MIN, this.peakCount);
+      this.max[channel].fill(EMPTY_MAX, this.peakCount);
+    }
+    this.levelCache = null;
+  }
+
+  /**
+   * All resolutions, finest first
+   */
+  getLevels(): PeakLevel[] {
+    if (this.levelCache) return this.levelCache;
+
+    const levels: PeakLevel[] = [{
+      samplesPerPeak: this.samplesPerPeak,
+      min: this.min.map(channel => channel.slice(0, this.peakCount)),
+      max: this.max.map(channel => channel.slice(0, this.peakCount))
+    }];
+
+    for (let level = 1; level < this.levelCount; level++) {
+      const previous = levels[level - 1];
+      const count = Math.ceil(previous.min[0].length / this.levelFactor);
+      const min = previous.min.map(() => new Int8Array(count).fill(EMPTY_MIN));
+      const max = previous.max.map(() => new Int8Array(count).fill(EMPTY_MAX));
+
+      for (let channel = 0; channel < this.numberOfChannels; channel++) {
+        for (let i = 0; i < previous.min[channel].length; i++) {
+          const peak = Math.floor(i / this.levelFactor);
+          if (previous.min[channel][i] < min[channel][peak]) min[channel][peak] = previous.min[channel][i];
+          if (previous.max[channel][i] > max[channel][peak]) max[channel][peak] = previous.max[channel][i];
+        }
+      }
+
+      levels.push({ samplesPerPeak: previous.samplesPerPeak * this.levelFactor, min, max });
+    }
+
+    this.levelCache = levels;
+    return levels;
+  }
+
+  /**
+   * Min/max for `width` pixels between two times, read from the coarsest resolution that still has
+   * at least one peak per pixel
+   */
+  getRange(width: number, options: PeakRangeOptions = {}): PeakRange {
+    const pixels = Math.max(0, Math.floor(width));
+    const result: PeakRange = { min: new Float32Array(pixels), max: new Float32Array(pixels) };
+    const startSample = Math.max(0, Math.floor((options.start ?? 0) * this.sampleRate));
+    const endSample = Math.floor((options.end ?? this.duration) * this.sampleRate);
+    if (pixels === 0 || endSample <= startSample) return result;
+
+    const samplesPerPixel = (endSample - startSample) / pixels;
+    const levels = this.getLevels();
+    let level = levels[0];
+    for (const candidate of levels) {
+      if (candidate.samplesPerPeak <= samplesPerPixel) level = candidate;
+    }
+
+    const channels = options.channel !== undefined
+      ? [Math.min(Math.max(0, options.channel), this.numberOfChannels - 1)]
+      : Array.from({ length: this.numberOfChannels }, (_, channel) => channel);
+    const peakCount = level.min[0].length;
+
+    for (let x = 0; x < pixels; x++) {
+      const first = Math.floor((startSample + x * samplesPerPixel) / level.samplesPerPeak);
+      const last = Math.min(peakCount, Math.max(first + 1, Math.ceil((startSample + (x + 1) * samplesPerPixel) / level.samplesPerPeak)));
+      let low: number = EMPTY_MIN;
+      let high: number = EMPTY_MAX;
+
+      for (const channel of channels) {
+        for (let peak = first; peak < last; peak++) {
+          if (level.min[channel][peak] < low) low = level.min[channel][peak];
+          if (level.max[channel][peak] > high) high = level.max[channel][peak];
+        }
+      }
+
+      if (high !== EMPTY_MAX) {
+        result.min[x] = low / 127;
+        result.max[x] = high / 127;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Plain-object copy for storage
+   */
+  getData(): WaveformPeaksData {
+    return {
+      version: 1,
+      sampleRate: this.sampleRate,
+      numberOfChannels: this.numberOfChannels,
+      totalSamples: this.totalSamples,
+      levels: this.getLevels()
+    };
+  }
+
+  private ensureCapacity(peakCount: number): void {
+    const capacity = this.min[0].length;
+    if (peakCount <= capacity) return;
+
+    const grown = Math.max(peakCount, capacity * 2);
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      const min = new Int8Array(grown).fill(EMPTY_MIN);
+      const max = new Int8Array(grown).fill(EMPTY_MAX);
+      min.set(this.min[channel]);
+      max.set(this.max[channel]);
+      this.min[channel] = min;
+      this.max[channel] = max;
+    }
+  }
+
+  private static quantize(value: number): number {
+    return Math.round(Math.max(-1, Math.min(1, value)) * 127);
+  }
+}
@@ -0,0 +1,394 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createToneWav, installFakeBrowser, type FakeAudioContext, type FakeBrowser, type FakeBrowserOptions } from './testing/index.js';
+import { createWebAudioManager, getWebAudioManager, type WebAudioManager } from './index.js';
+
+const TONE = createToneWav({ duration: 10, sampleRate: 44100 });
+
+let browser: FakeBrowser;
+let manager: WebAudioManager;
+let context: FakeAudioContext;
+
+// Render in small steps, letting fetch and IndexedDB callbacks queued as tasks run in between
+async function advanceUntil(condition: () => boolean, limitSeconds = 10): Promise<void> {
+  for (let elapsed = 0; elapsed < limitSeconds; elapsed += 0.02) {
+    if (condition()) return;
+    await browser.advance(0.02);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  throw new Error(`Condition not met within ${limitSeconds}s`);
+}
+
+async function startTone(trackId = 'tone'): Promise<void> {
+  await manager.playInstantly(`/${trackId}.wav`, trackId, 'Tone', { forceInstant: true });
+  await advanceUntil(() => manager.getState() === 'playing');
+}
+
+async function setUp(options: FakeBrowserOptions = {}): Promise<void> {
+  browser = installFakeBrowser({ audioContext: { sampleRate: 44100 }, ...options });
+  browser.fetch.route('/tone.wav', { body: TONE, contentType: 'audio/wav' });
+  browser.fetch.route('/other.wav', { body: TONE, contentType: 'audio/wav' });
+  manager = createWebAudioManager({
+    enableCache: false,
+    instantPlaybackConfig: { playbackChunkSize: 128 * 1024, storageChunkSize: 512 * 1024 }
+  });
+  await manager.initialize();
+  context = browser.audioContexts[0];
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  await setUp();
+});
+
+afterEach(async () => {
+  await manager.dispose();
+  browser.uninstall();
+  vi.restoreAllMocks();
+});
+
+describe('WebAudioManager playback', () => {
+  it('streams with range requests and advances with the context clock', async () => {
+    await startTone();
+    expect(browser.fetch.requests.some(request => request.range !== null)).toBe(true);
+
+    const start = manager.getCurrentTime();
+    await context.advance(1);
+    expect(manager.getCurrentTime() - start).toBeCloseTo(1, 1);
+    expect(manager.getPlaybackPosition().playing).toBe(true);
+  });
+
+  it('reads the position from shared memory on cross-origin isolated pages', async () => {
+    expect(manager.getPlaybackPosition().source).toBe('message');
+    await manager.dispose();
+    browser.uninstall();
+    await setUp({ crossOriginIsolated: true });
+
+    await startTone();
+    const start = manager.getCurrentTime();
+    await context.advance(0.5);
+
+    const position = manager.getPlaybackPosition();
+    expect(position.source).toBe('shared-memory');
+    expect(position.currentTime - start).toBeCloseTo(0.5, 2);
+  });
+
+  it('pauses, seeks and resumes', async () => {
+    await startTone();
+    const paused = manager.pause();
+    await context.advance(0.1);
+    await paused;
+    expect(manager.getState()).toBe('paused');
+
+    const position = manager.getCurrentTime();
+    await context.advance(1);
+    expect(manager.getCurrentTime()).toBeCloseTo(position, 2);
+
+    await manager.seek(4);
+    expect(manager.getCurrentTime()).toBeCloseTo(4, 2);
+
+    await manager.resume();
+    await context.advance(1);
+    expect(manager.getState()).toBe('playing');
+    expect(manager.getCurrentTime()).toBeCloseTo(5, 1);
+  });
+
+  it('only resolves pause() once the worklet has faded out', async () => {
+    await startTone();
+    let resolved = false;
+    const paused = manager.pause().then(() => { resolved = true; });
+    await context.flush();
+    expect(resolved).toBe(false);
+
+    await context.advance(0.1);
+    await paused;
+    expect(resolved).toBe(true);
+  });
+
+  it('keeps a seek and stays paused when pause() and seek() overlap', async () => {
+    await startTone();
+    const pending = Promise.all([manager.pause(), manager.seek(5)]);
+    await context.advance(0.2);
+    await pending;
+
+    expect(manager.getState()).toBe('paused');
+    expect(manager.getCurrentTime()).toBeCloseTo(5, 2);
+    await context.advance(1);
+    expect(manager.getCurrentTime()).toBeCloseTo(5, 2);
+  });
+
+  it('applies a seek before a pause that supersedes its fade', async () => {
+    await startTone();
+    const pending = Promise.all([manager.seek(5), manager.pause()]);
+    await context.advance(0.2);
+    await pending;
+
+    expect(manager.getState()).toBe('paused');
+    expect(manager.getCurrentTime()).toBeCloseTo(5, 2);
+  });
+
+  it('keeps a pending seek when resume() cancels a pause', async () => {
+    await startTone();
+    const pending = Promise.all([manager.pause(), manager.seek(5), manager.resume()]);
+    await context.advance(0.2);
+    await pending;
+
+    expect(manager.getState()).toBe('playing');
+    const position = manager.getCurrentTime();
+    expect(position).toBeGreaterThan(5);
+    expect(position).toBeLessThan(5.3);
+  });
+
+  it('defers pause() and seek() made while the first chunk loads', async () => {
+    browser.fetch.route('/slow.wav', { body: TONE, contentType: 'audio/wav', delayMs: 30 });
+    const loading = manager.playInstantly('/slow.wav', 'slow', 'Slow', { forceInstant: true });
+    await advanceUntil(() => manager.getState() === 'loading');
+
+    await manager.pause();
+    await manager.seek(2);
+    await loading;
+    await advanceUntil(() => manager.getState() !== 'loading');
+
+    expect(manager.getState()).toBe('paused');
+    await context.advance(0.2);
+    expect(manager.getCurrentTime()).toBeCloseTo(2, 2);
+  });
+
+  it('falls back to a full load when the first chunk fails to decode', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const decode = vi.spyOn(context, 'decodeAudioData').mockRejectedValueOnce(new Error('Unable to decode chunk'));
+    const ready = vi.fn();
+    manager.on('playbackready', ready);
+
+    await startTone();
+    await context.advance(1);
+
+    expect(decode.mock.calls.length).toBeGreaterThan(1);
+    expect(ready).toHaveBeenCalledOnce();
+    expect(ready.mock.calls[0][0]).toMatchObject({ trackId: 'tone', strategy: 'standard' });
+    expect(manager.getCurrentTime()).toBeGreaterThan(0.9);
+  });
+
+  it('aborts the previous download when another track starts', async () => {
+    browser.fetch.route('/slow.wav', { body: TONE, contentType: 'audio/wav', delayMs: 200 });
+    const first = manager.playInstantly('/slow.wav', 'slow', 'Slow', { forceInstant: true });
+    const firstSettled = first.then(() => 'resolved', () => 'rejected');
+    const playing: Array<string | null> = [];
+    manager.on('statechange', ({ to, trackId }) => {
+      if (to === 'playing') playing.push(trackId);
+    });
+    await advanceUntil(() => browser.fetch.requests.length > 0 || manager.getState() === 'loading');
+
+    await startTone('other');
+    await advanceUntil(() => manager.getTimeline().duration > 0);
+    await firstSettled;
+
+    await context.advance(1);
+    expect(playing).toEqual(['other']);
+    expect(manager.getState()).toBe('playing');
+    // Aborted while delayed, so the slow response was never answered
+    expect(browser.fetch.requests.some(request => request.url === '/slow.wav')).toBe(false);
+  });
+
+  it('fills in waveform peaks as a track streams in', async () => {
+    const updates: boolean[] = [];
+    manager.on('peaks', ({ trackId, complete }) => {
+      if (trackId === 'tone') updates.push(complete);
+    });
+
+    await startTone();
+    await advanceUntil(() => updates.includes(true));
+
+    expect(updates.indexOf(false)).toBe(0);
+    const peaks = (await manager.getPeaks('tone'))!;
+    expect(peaks.duration).toBeCloseTo(10, 2);
+    expect(Math.max(...peaks.getRange(100).max)).toBeGreaterThan(0.1);
+  });
+
+  it('cancels loads and preloads through their signal', async () => {
+    const controller = new AbortController();
+    const load = manager.loadAudio('/tone.wav', 'tone', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(load).rejects.toMatchObject({ name: 'AbortError' });
+
+    // A cancelled preload resolves without keeping anything
+    const preloading = new AbortController();
+    const preload = manager.preloadAudio('/tone.wav', 'tone', 'Tone', { signal: preloading.signal });
+    preloading.abort();
+    await expect(preload).resolves.toBeUndefined();
+    expect(manager.getBufferDuration('tone')).toBeNull();
+
+    await manager.preloadAudio('/tone.wav', 'tone', 'Tone', { signal: new AbortController().signal });
+    expect(manager.getBufferDuration('tone')).toBeCloseTo(10, 2);
+  });
+
+  it('stops from any state', async () => {
+    await expect(manager.stop()).resolves.toBeUndefined();
+    await startTone();
+    // stop() fades out first when audible
+    const stopped = manager.stop();
+    await context.advance(0.1);
+    await stopped;
+    expect(manager.getState()).toBe('idle');
+  });
+
+  it('moves on to an enqueued track without ending', async () => {
+    browser.fetch.route('/short.wav', { body: createToneWav({ duration: 0.5, sampleRate: 44100 }), contentType: 'audio/wav' });
+    await manager.playInstantly('/short.wav', 'short', 'Short', { forceInstant: true });
+    await manager.enqueueNext('other', '/other.wav');
+    expect(manager.getNextTrackId()).toBe('other');
+    const changes: Array<{ trackId: string; previousTrackId: string | null }> = [];
+    manager.on('trackchange', change => changes.push(change));
+    const ended = vi.fn();
+    manager.on('ended', ended);
+
+    await advanceUntil(() => changes.length > 0);
+    await context.advance(0.2);
+
+    expect(changes).toEqual([{ trackId: 'other', previousTrackId: 'short' }]);
+    expect(ended).not.toHaveBeenCalled();
+    expect(manager.getNextTrackId()).toBeNull();
+    expect(manager.getState()).toBe('playing');
+    expect(manager.getCurrentTime()).toBeCloseTo(0.2, 1);
+  });
+
+  it('keeps reporting track time at another playback rate', async () => {
+    const changes: Array<{ playbackRate: number; preservePitch: boolean }> = [];
+    manager.on('ratechange', change => changes.push(change));
+    await startTone();
+    const start = manager.getCurrentTime();
+
+    manager.setPlaybackRate(2);
+    await context.advance(1);
+    expect(manager.getCurrentTime() - start).toBeCloseTo(2, 1);
+
+    manager.setPlaybackRate(8, { preservePitch: false });
+    expect(manager.getPlaybackRate()).toBe(4);
+    expect(() => manager.setPlaybackRate(0)).toThrow('Invalid playback rate: 0');
+    expect(changes).toEqual([{ playbackRate: 2, preservePitch: true }, { playbackRate: 4, preservePitch: false }]);
+  });
+
+  it('loops a region of the current track until cleared', async () => {
+    await startTone();
+    expect(() => manager.setLoop({ start: 2, end: 1 })).toThrow('Invalid loop region: 2s-1s');
+
+    manager.setLoop({ start: 0, end: 0.5 });
+    expect(manager.getLoop()).toEqual({ start: 0, end: 0.5 });
+    await context.advance(2);
+    expect(manager.getCurrentTime()).toBeLessThan(0.5);
+
+    manager.clearLoop();
+    expect(manager.getLoop()).toBeNull();
+    await context.advance(1);
+    expect(manager.getCurrentTime()).toBeGreaterThan(0.5);
+  });
+
+  it('plays an ended track again from the start on resume()', async () => {
+    browser.fetch.route('/short.wav', { body: createToneWav({ duration: 0.5, sampleRate: 44100 }), contentType: 'audio/wav' });
+    await manager.playInstantly('/short.wav', 'short', 'Short', { forceInstant: true });
+    await advanceUntil(() => manager.getState() === 'ended');
+
+    await manager.resume();
+    await context.advance(0.2);
+    expect(manager.getState()).toBe('playing');
+    expect(manager.getCurrentTime()).toBeLessThan(0.5);
+  });
+});
+
+describe('WebAudioManager lifecycle', () => {
+  it('can be initialized again after cleanup()', async () => {
+    await startTone();
+    await manager.cleanup();
+    expect(context.state).toBe('closed');
+    expect(manager.getState()).toBe('idle');
+
+    await manager.initialize();
+    context = browser.audioContexts[1];
+    await startTone('other');
+    await context.advance(0.5);
+    expect(manager.getCurrentTime()).toBeGreaterThan(0.4);
+  });
+
+  it('keeps analysers attached across cleanup() and initialize()', async () => {
+    const analyser = manager.createAnalyser({ tap: 'output', fftSize: 1024 });
+    await startTone();
+    await context.advance(0.1);
+    expect(analyser.getLevels()[0].peak).toBeGreaterThan(0.1);
+
+    await manager.cleanup();
+    expect(analyser.isAttached()).toBe(false);
+
+    await manager.initialize();
+    expect(analyser.isAttached()).toBe(true);
+    analyser.dispose();
+  });
+
+  it('keeps the chosen output device after initialize()', async () => {
+    browser.mediaDevices.addOutputDevice({ deviceId: 'headphones', label: 'USB Headphones' });
+    await manager.setOutputDevice('headphones');
+    expect(context.sinkId).toBe('headphones');
+    await expect(manager.setOutputDevice('speakers')).rejects.toThrow('Audio output device not found: speakers');
+
+    await manager.cleanup();
+    expect(manager.getOutputDevice()).toBe('headphones');
+    await manager.initialize();
+    expect(browser.audioContexts[1].sinkId).toBe('headphones');
+  });
+
+  it('releases everything for good on dispose()', async () => {
+    manager.on('statechange', () => {});
+    await startTone();
+
+    await manager.dispose();
+    await manager.dispose();
+
+    expect(context.state).toBe('closed');
+    expect(manager.listenerCount('statechange')).toBe(0);
+    await expect(manager.initialize()).rejects.toThrow('WebAudioManager has been disposed');
+  });
+});
+
+describe('getWebAudioManager', () => {
+  const shared: WebAudioManager[] = [];
+  const get = (options: Parameters<typeof getWebAudioManager>[0]) => {
+    const instance = getWebAudioManager(options);
+    shared.push(instance);
+    return instance;
+  };
+
+  afterEach(async () => {
+    await Promise.all(shared.splice(0).map(instance => instance.dispose()));
+  });
+
+  it('shares one instance per name', () => {
+    const player = get({ name: 'player' });
+
+    expect(get({ name: 'player' })).toBe(player);
+    expect(get({ name: 'preview' })).not.toBe(player);
+    expect(get({})).toBe(get({ name: 'default' }));
+    expect(createWebAudioManager()).not.toBe(get({}));
+  });
+
+  it('compares option objects by value and callbacks by identity', () => {
+    const onEnded = () => {};
+    get({ name: 'player', fades: { pause: 50, seek: 20 }, onEnded });
+
+    get({ name: 'player', fades: { seek: 20, pause: 50 }, onEnded, enableCache: undefined });
+    expect(console.warn).not.toHaveBeenCalled();
+
+    get({ name: 'player', fades: { pause: 80, seek: 20 }, onEnded: () => {} });
+    expect(console.warn).toHaveBeenCalledOnce();
+    expect(vi.mocked(console.warn).mock.calls[0][0]).toContain('ignoring different options: fades, onEnded');
+  });
+
+  it('creates a fresh instance once the shared one is cleaned up or disposed', async () => {
+    const cleaned = get({ name: 'player' });
+    await cleaned.initialize();
+    await cleaned.cleanup();
+    const replacement = get({ name: 'player' });
+    expect(replacement).not.toBe(cleaned);
+
+    await replacement.dispose();
+    expect(get({ name: 'player' })).not.toBe(replacement);
+  });
+});
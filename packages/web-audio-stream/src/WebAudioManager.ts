@@ -5,6 +5,19 @@
 import { AudioChunkStore, type ProgressCallback } from './AudioChunkStore.js';
 import { DownloadManager, type DownloadStrategy, type DownloadProgress } from './DownloadManager.js';
 import { StreamingAssembler, type AssemblyChunk } from './StreamingAssembler.js';
+import { GaplessTrimmer, type GaplessInfo } from './GaplessTrimmer.js';
+import { TypedEventEmitter } from './TypedEventEmitter.js';
+import { EffectsChain, type EffectsPreset } from './EffectsChain.js';
+import { MediaSessionController, type MediaSessionOptions } from './MediaSessionController.js';
+import { PlaybackStateMachine, type PlaybackState } from './PlaybackStateMachine.js';
+import { AudioBufferCache, type MemoryBudget, type MemoryUsage } from './AudioBufferCache.js';
+import { AudioAnalyser, type AnalyserOptions } from './AudioAnalyser.js';
+import { WaveformPeaks, type WaveformPeaksOptions } from './WaveformPeaks.js';
+import { LoudnessAnalyzer, type LoudnessInfo, type NormalizationOptions, type ReplayGainInfo } from './LoudnessAnalyzer.js';
+import { SilenceTrimmer, type SilenceTrim, type SilenceTrimOptions } from './SilenceTrimmer.js';
+import { AudioExporter, type ExportFormat, type PcmSource } from './AudioExporter.js';
+import { PlaybackClock, type PlaybackPosition } from './PlaybackClock.js';
+import { OutputDeviceController, type AudioOutputDevice, type OutputDeviceChange, type OutputDeviceOptions } from './OutputDeviceController.js';
 
 export interface WebAudioManagerOptions {
   workletPath?: string;
@@ -14,11 +27,128 @@ export interface WebAudioManagerOptions {
   onEnded?: () => void;
   onError?: (error: Error) => void;
   onProgressiveLoadingStatus?: (status: 'STARTED' | 'PROGRESS' | 'COMPLETED' | 'FAILED', data?: any) => void;
+  onTrackChange?: (trackId: string, previousTrackId: string | null) => void; // Gapless transition to an enqueued track
   // Instant playback options
   enableInstantPlayback?: boolean;
   instantPlaybackConfig?: InstantPlaybackConfig;
   // Privacy options
   obfuscationKey?: string;
+  // Effects applied between playback and the volume control
+  effects?: EffectsPreset;
+  // Lock-screen metadata and media keys through navigator.mediaSession
+  mediaSession?: boolean | MediaSessionOptions;
+  // Declick fade lengths (0 disables a fade)
+  fades?: FadeOptions;
+  // Existing AudioContext to play through instead of creating one - it is left open on dispose()
+  audioContext?: AudioContext;
+  // Decoded PCM kept in memory (default: 128MB on iOS, 512MB elsewhere; {} for no limit)
+  memoryBudget?: MemoryBudget;
+  // Waveform peaks computed from decoded audio and stored with cached tracks (false disables them)
+  peaks?: WaveformPeaksOptions | false;
+  // Loudness normalization (default: track mode at -18 LUFS, honouring ReplayGain tags)
+  normalization?: NormalizationOptions;
+  // Fast-forward through quiet passages while playing (default: off)
+  skipSilence?: SkipSilenceOptions;
+  // Trim leading/trailing silence when tracks are decoded, unless a load sets its own trimSilence (default: off)
+  trimSilence?: boolean | SilenceTrimOptions;
+  // Output device selection through setSinkId, remembered across sessions (false disables it)
+  outputDevice?: OutputDeviceOptions | false;
+}
+
+// Options for the shared instances returned by getWebAudioManager
+export interface SharedWebAudioManagerOptions extends WebAudioManagerOptions {
+  name?: string; // Instance name (default: 'default')
+}
+
+// Same as PlaybackState - kept for existing imports
+export type PlaybackStatus = PlaybackState;
+
+export type LoadStrategy = 'instant' | 'standard' | 'cache';
+
+export interface WebAudioMemoryUsage extends MemoryUsage {
+  streamingBytes: number; // Decoded segments of tracks still downloading, beyond what the cache holds
+}
+
+export interface LoadOptions {
+  signal?: AbortSignal; // Cancels downloading/decoding - the call rejects with the signal's reason
+  trimSilence?: boolean | SilenceTrimOptions; // Trim leading/trailing silence of this track when decoded (default: the manager's trimSilence)
+}
+
+export interface ExportRegionOptions {
+  start?: number;          // Seconds on the playback timeline (default: 0)
+  end?: number;            // Seconds (default: end of the track)
+  format?: ExportFormat;   // 'wav16' (default), 'wav24' or 'float32'
+  normalize?: boolean;     // Apply the track's loudness normalization gain (default: true)
+  effects?: boolean;       // Render through the current effects chain (default: true)
+  signal?: AbortSignal;    // Cancels rendering between blocks
+  onProgress?: (progress: number) => void; // 0 to 1
+}
+
+export interface SkipSilenceOptions {
+  enabled?: boolean;
+  thresholdDb?: number;    // RMS level below which audio counts as silence (default: -50 dBFS)
+  minDurationMs?: number;  // Shorter pauses are played (default: 500)
+  keepMs?: number;         // Silence kept of each skipped region, half on either side of the jump (default: 100)
+}
+
+// Playback position on the three timelines of a track (seconds)
+export interface PlaybackTimeline {
+  currentTime: number;        // Decoded buffer - what seek() and loops use
+  duration: number;
+  originalTime: number;       // Before silence trimming removed audio from the ends
+  originalDuration: number;
+  effectiveTime: number;      // What is actually heard - skipped silence left out
+  effectiveDuration: number;
+}
+
+export interface LoadProgressEvent {
+  trackId: string;
+  bytesLoaded: number;
+  bytesTotal: number;
+  downloadSpeed: number | null; // bytes per second, when measured
+}
+
+// Event map for manager.on/off/once
+export interface WebAudioManagerEvents {
+  timeupdate: PlaybackTimeline;
+  ended: { trackId: string | null };
+  error: { error: Error; trackId: string | null };
+  loadstart: { trackId: string; url: string; strategy: LoadStrategy; name?: string };
+  progress: LoadProgressEvent;
+  playbackready: { trackId: string; loadTime: number; strategy: LoadStrategy };
+  bufferswitched: { bufferIndex: number; duration: number; currentTime: number };
+  statechange: { from: PlaybackStatus; to: PlaybackStatus; trackId: string | null };
+  'samplerate-change': { previousSampleRate: number; sampleRate: number };
+  trackchange: { trackId: string; previousTrackId: string | null };
+  ratechange: { playbackRate: number; preservePitch: boolean };
+  peaks: { trackId: string; peaks: WaveformPeaks; complete: boolean }; // Repeated while a track streams in
+  loudness: { trackId: string; loudness: LoudnessInfo; gain: number }; // gain: normalization in dB under the current settings
+  silenceskip: { trackId: string | null; from: number; to: number }; // Buffer timeline seconds
+  devicechange: OutputDeviceChange; // Output devices plugged in or removed, or playback moved to another device
+}
+
+export type CrossfadeCurve = 'linear' | 'equal-power' | 'exponential';
+
+export interface CrossfadeOptions {
+  duration?: number;       // Overlap in seconds (default: 3)
+  curve?: CrossfadeCurve;  // Gain curve (default: 'equal-power')
+  url?: string;            // Source to stream from when the track is not loaded yet
+  name?: string;
+  signal?: AbortSignal;    // Cancels loading the incoming track
+  trimSilence?: boolean | SilenceTrimOptions; // Trim the incoming track's leading/trailing silence when decoded
+}
+
+export interface FadeOptions {
+  pause?: number;          // ms fade-out before pausing (default: 15)
+  resume?: number;         // ms fade-in on play/resume (default: 15)
+  seek?: number;           // ms fade-out before and fade-in after a seek (default: 10)
+  trackChange?: number;    // ms fade of the old audio when a new track replaces it (default: 15)
+}
+
+export interface LoopRegion {
+  start: number;           // Seconds
+  end: number;             // Seconds (may lie beyond what has downloaded so far)
+  crossfadeMs?: number;    // Seam crossfade (default: 10)
 }
 
 export interface InstantPlaybackConfig {
@@ -36,6 +166,18 @@ export interface InstantPlaybackConfig {
   enablePerformanceLogging?: boolean;
 }
 
+// Decoded state of a track that is still being streamed into the worklet
+interface StreamingTrack {
+  segments: AudioBuffer[];
+  segmentStarts: number[]; // Timeline sample of each segment (segments arrive out of order after a seek)
+  totalSamples: number; // End of the furthest segment
+  nextSample: number; // Where the next chunk of the current run goes
+  loadedRanges: Array<{ start: number; end: number }>; // Merged timeline ranges appended so far
+  runEnds: Map<number, number>; // Source sample at the end of each run -> its timeline sample, to resume runs exactly
+  trimmedStart: number; // Decoded samples dropped from the first chunk (encoder delay, then leading silence)
+  gaplessInfo: GaplessInfo | null;
+}
+
 // Legacy InstantPlaybackSession interface (deprecated in v1.2.0)
 // TODO: Remove in v2.0.0 when old implementation is fully removed
 interface InstantPlaybackSession {
@@ -68,13 +210,31 @@ interface InstantPlaybackSession {
  * - AudioWorklet-based playback with sample rate monitoring
  * - Automatic cleanup and storage management
  */
-export class WebAudioManager {
+export class WebAudioManager extends TypedEventEmitter<WebAudioManagerEvents> {
   private audioContext: AudioContext | null = null;
   private audioWorkletNode: AudioWorkletNode | null = null;
   private gainNode: GainNode | null = null;
-  private audioBuffers: Map<string, AudioBuffer> = new Map();
+  private effectsChain: EffectsChain | null = null;
+  private analysers: Set<AudioAnalyser> = new Set(); // Reattached whenever the graph is rebuilt
+  private initialEffects: EffectsPreset | null;
+  private mediaSession: MediaSessionController | null = null;
+  private outputDevice: OutputDeviceController | null = null;
+  private trackNames: Map<string, string> = new Map(); // Names passed to load/play/preload calls
+  private trackPeaks: Map<string, WaveformPeaks> = new Map(); // Dropped with the track's decoded audio
+  private peaksOptions: WaveformPeaksOptions | null;
+  private trackLoudness: Map<string, LoudnessInfo> = new Map(); // Measurements and tags - tiny, kept for the manager's lifetime
+  private trackAlbums: Map<string, string> = new Map(); // Album of each track, for album-mode normalization
+  private normalization: Required<NormalizationOptions>;
+  private skipSilence: Required<SkipSilenceOptions>;
+  private trimSilence: SilenceTrimOptions | null; // Default for tracks loaded without their own trimSilence
+  private trackTrimOptions: Map<string, SilenceTrimOptions | null> = new Map(); // trimSilence passed to load/play calls
+  private trackTrims: Map<string, SilenceTrim> = new Map(); // Silence removed from each decoded track, dropped with its audio
+  private audioBuffers: AudioBufferCache; // Decoded tracks, evicted least-recently-played first
   private currentTrackId: string | null = null;
   private isInitialized = false;
+  private isDisposed = false;
+  private externalAudioContext: AudioContext | null; // Shared context passed in options - never closed here
+  private gestureListener: (() => Promise<void>) | null = null; // Document click/touchstart listener until the first gesture
   private preloadQueue: Set<string> = new Set();
   private chunkStore: AudioChunkStore | null = null;
   
@@ -83,10 +243,29 @@ export class WebAudioManager {
   private onEnded?: () => void;
   private onError?: (error: Error) => void;
   private onProgressiveLoadingStatus?: (status: 'STARTED' | 'PROGRESS' | 'COMPLETED' | 'FAILED', data?: any) => void;
+  private onTrackChange?: (trackId: string, previousTrackId: string | null) => void;
+  private stateMachine: PlaybackStateMachine = new PlaybackStateMachine();
+  
+  // Gapless transitions
+  private stagedTrackId: string | null = null;
+  private playbackGeneration: number = 0; // Bumped on every explicit track start so stale enqueueNext calls are dropped
+  
+  // Playback rate (applied in the worklet - currentTime stays in track time)
+  private playbackRate: number = 1;
+  private preservePitch: boolean = true;
+  
+  // A-B loop (the worklet drops it when the track changes)
+  private loopRegion: { region: LoopRegion; trackId: string | null } | null = null;
+  
+  // pause()/seek() calls made while a track loads, applied when it starts
+  private deferredStart: { pause: boolean; seekTime: number | null } | null = null;
   
   // Position tracking
   private lastKnownPosition: number = 0;
-  private positionRequestResolvers: Map<string, (position: { currentTime: number, samplePosition: number }) => void> = new Map();
+  private timeline: PlaybackTimeline = { currentTime: 0, duration: 0, originalTime: 0, originalDuration: 0, effectiveTime: 0, effectiveDuration: 0 };
+  private playbackClock: PlaybackClock | null = null; // Sample-accurate position published by the worklet
+  private fadeRequestResolvers: Map<string, () => void> = new Map();
+  private fadeOptions: FadeOptions;
   
   // iOS Safari specific properties
   private iosSafariDetected: boolean = false;
@@ -100,6 +279,12 @@ export class WebAudioManager {
   // Download and streaming components
   private downloadManager: DownloadManager | null = null;
   private streamingAssembler: StreamingAssembler | null = null;
+  private assemblyTaskQueue: Promise<void> = Promise.resolve(); // Keeps chunk decodes in assembly order
+  private streamingTracks: Map<string, StreamingTrack> = new Map(); // Decoded segments already appended to the worklet
+  private streamingSources: Map<string, { assembler: StreamingAssembler; downloadManager: DownloadManager }> = new Map(); // Seekable downloads still in progress
+  private trackLoads: Map<string, AbortController> = new Map(); // Loads of tracks being played - switching tracks aborts the others
+  private queuedTrackIds: Set<string> = new Set(); // Upcoming tracks pinned in memory (set by PlaybackQueue)
+  private fadingTrackId: string | null = null; // Outgoing track while a crossfade is running
   
   // Configuration
   private workletPath: string;
@@ -126,13 +311,43 @@ export class WebAudioManager {
   };
 
   constructor(options: WebAudioManagerOptions = {}) {
+    super();
     this.workletPath = options.workletPath || '/audio-worklet-processor.js';
     this.enableCache = options.enableCache !== false;
     this.onTimeUpdate = options.onTimeUpdate;
     this.onEnded = options.onEnded;
+    this.onTrackChange = options.onTrackChange;
     this.onError = options.onError;
     this.onProgressiveLoadingStatus = options.onProgressiveLoadingStatus;
     this.obfuscationKey = options.obfuscationKey;
+    this.initialEffects = options.effects || null;
+    this.fadeOptions = { pause: 15, resume: 15, seek: 10, trackChange: 15, ...options.fades };
+    this.externalAudioContext = options.audioContext || null;
+    this.audioBuffers = new AudioBufferCache({
+      budget: options.memoryBudget || { maxBytes: (this.isIOSSafari() ? 128 : 512) * 1024 * 1024 },
+      // Playing, queued and still-loading tracks are never evicted
+      isPinned: (trackId) => trackId === this.currentTrackId || trackId === this.stagedTrackId ||
+        trackId === this.fadingTrackId || this.queuedTrackIds.has(trackId) ||
+        this.streamingTracks.has(trackId) || this.trackLoads.has(trackId),
+      onEvict: (trackId) => {
+        this.trackPeaks.delete(trackId);
+        this.trackTrims.delete(trackId);
+      }
+    });
+    this.peaksOptions = options.peaks === false ? null : options.peaks || {};
+    this.normalization = { mode: 'track', targetLufs: -18, preventClipping: true, useTags: true, ...options.normalization };
+    this.skipSilence = { enabled: false, thresholdDb: -50, minDurationMs: 500, keepMs: 100, ...options.skipSilence };
+    this.trimSilence = WebAudioManager.getTrimOptions(options.trimSilence) ?? null;
+    this.stateMachine.on('transition', ({ from, to, trackId }) => this.emit('statechange', { from, to, trackId }));
+    if (options.mediaSession) {
+      this.mediaSession = new MediaSessionController(this, options.mediaSession === true ? {} : options.mediaSession);
+    }
+    if (options.outputDevice !== false) {
+      this.outputDevice = new OutputDeviceController({
+        ...options.outputDevice,
+        onChange: (change) => this.emit('devicechange', change)
+      });
+    }
     
     // Initialize instant playback settings
     this.enableInstantPlayback = options.enableInstantPlayback !== false;
@@ -174,17 +389,27 @@ export class WebAudioManager {
     }
     
     const initializeAudio = async () => {
+      this.removeGestureListener();
       if (!this.isInitialized) {
         await this.initialize();
-        document.removeEventListener('click', initializeAudio);
-        document.removeEventListener('touchstart', initializeAudio);
       }
     };
     
+    this.gestureListener = initializeAudio;
     document.addEventListener('click', initializeAudio, { once: true });
     document.addEventListener('touchstart', initializeAudio, { once: true });
   }
 
+  private removeGestureListener(): void {
+    if (!this.gestureListener || typeof document === 'undefined') {
+      return;
+    }
+    
+    document.removeEventListener('click', this.gestureListener);
+    document.removeEventListener('touchstart', this.gestureListener);
+    this.gestureListener = null;
+  }
+
   // iOS-safe AudioContext creation - implements the ios-safe-audio-context pattern
   private async createIOSSafeAudioContext(): Promise<AudioContext> {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
@@ -309,6 +534,7 @@ export class WebAudioManager {
       if (currentSampleRate !== this.lastKnownSampleRate) {
         console.warn(`[WebAudioManager] iOS sample rate changed: ${this.lastKnownSampleRate}Hz → ${currentSampleRate}Hz`);
         this.handleSampleRateChange(currentSampleRate);
+        this.emit('samplerate-change', { previousSampleRate: this.lastKnownSampleRate, sampleRate: currentSampleRate });
         this.lastKnownSampleRate = currentSampleRate;
       }
     }, 1000);
@@ -351,10 +577,14 @@ export class WebAudioManager {
     if (typeof window === 'undefined') {
       throw new Error('Web Audio API not available on server-side');
     }
+    if (this.isDisposed) {
+      throw new Error('WebAudioManager has been disposed');
+    }
     
+    this.stateMachine.trySend('unlock');
     try {
-      // Create AudioContext with iOS-safe initialization
-      this.audioContext = await this.createIOSSafeAudioContext();
+      // Use the shared AudioContext if one was passed, otherwise create one with iOS-safe initialization
+      this.audioContext = this.externalAudioContext || await this.createIOSSafeAudioContext();
       
       // Resume context if it's suspended
       if (this.audioContext.state === 'suspended') {
@@ -370,16 +600,40 @@ export class WebAudioManager {
       // Create gain node for volume control
       this.gainNode = this.audioContext.createGain();
       
-      // Connect: AudioWorklet -> Gain -> Destination
-      this.audioWorkletNode.connect(this.gainNode);
+      // Connect: AudioWorklet -> Effects -> Gain -> Destination
+      this.effectsChain = new EffectsChain(this.audioContext);
+      if (this.initialEffects) {
+        this.effectsChain.loadPreset(this.initialEffects);
+      }
+      this.audioWorkletNode.connect(this.effectsChain.input);
+      this.effectsChain.output.connect(this.gainNode);
       this.gainNode.connect(this.audioContext.destination);
+      this.analysers.forEach(analyser => this.attachAnalyser(analyser));
       
       // Set up message handling
       this.setupWorkletMessageHandling();
       
+      // Position reads go through shared memory when the page is cross-origin isolated, POSITION messages otherwise
+      this.playbackClock = new PlaybackClock(this.audioContext);
+      if (this.playbackClock.sharedBuffer) {
+        this.audioWorkletNode.port.postMessage({ type: 'SET_POSITION_BUFFER', buffer: this.playbackClock.sharedBuffer });
+      }
+      
+      // A rate chosen before initialization still applies
+      if (this.playbackRate !== 1) {
+        this.postPlaybackRate();
+      }
+      this.postFadeOptions();
+      this.postSkipSilence();
+      
+      // Play through the remembered output device - the default output if it is gone or can't be used
+      await this.outputDevice?.attach(this.audioContext).catch(error => {
+        console.warn('[WebAudioManager] Failed to restore output device:', error);
+      });
+      
       // Initialize chunk store if caching is enabled
       if (this.enableCache) {
-        this.chunkStore = new AudioChunkStore(this.audioContext, undefined, this.obfuscationKey);
+        this.chunkStore = new AudioChunkStore(this.audioContext, undefined, this.obfuscationKey, this.peaksOptions || false);
         await this.chunkStore.initialize();
       }
       
@@ -408,11 +662,14 @@ export class WebAudioManager {
       }
       
       this.isInitialized = true;
+      this.removeGestureListener();
+      this.stateMachine.trySend('unlocked');
       console.log(`[WebAudioManager] Initialized successfully - AudioContext sample rate: ${this.audioContext.sampleRate}Hz${this.iosSafariDetected ? ' (iOS optimized)' : ''}`);
       
     } catch (error) {
       console.error('Failed to initialize Web Audio API:', error);
-      this.onError?.(error as Error);
+      this.stateMachine.trySend('fail');
+      this.reportError(error as Error);
       throw error;
     }
   }
@@ -426,45 +683,97 @@ export class WebAudioManager {
       switch (type) {
         case 'TIME_UPDATE':
           this.lastKnownPosition = currentTime;
+          this.updateTimeline(currentTime, duration, event.data.effectiveTime, event.data.effectiveDuration);
           this.onTimeUpdate?.(currentTime, duration);
+          this.emit('timeupdate', { ...this.timeline });
+          break;
+          
+        case 'SILENCE_SKIPPED':
+          this.lastKnownPosition = event.data.to;
+          this.emit('silenceskip', { trackId: event.data.trackId, from: event.data.from, to: event.data.to });
           break;
           
         case 'ENDED':
+          this.stateMachine.trySend('end');
           this.onEnded?.();
+          this.emit('ended', { trackId: this.currentTrackId });
+          break;
+          
+        case 'POSITION':
+          this.playbackClock?.update({
+            position: currentTime,
+            duration,
+            contextTime: event.data.contextTime,
+            rate: event.data.rate,
+            playing: event.data.playing
+          });
           break;
           
         case 'POSITION_RESPONSE':
           this.lastKnownPosition = currentTime;
           break;
           
-        case 'CURRENT_POSITION_RESPONSE':
-          this.lastKnownPosition = currentTime;
-          // Handle real-time position request
-          const { requestId, samplePosition } = event.data;
-          if (requestId && this.positionRequestResolvers.has(requestId)) {
-            const resolver = this.positionRequestResolvers.get(requestId)!;
-            resolver({ currentTime, samplePosition });
-            this.positionRequestResolvers.delete(requestId);
-          }
+        case 'FADE_COMPLETE':
+          // Pause/seek/fade request finished - a superseded request completes with the ramp that carried it forward
+          this.fadeRequestResolvers.get(event.data.requestId)?.();
           break;
           
         case 'BUFFER_SWITCHED':
           // Progressive buffer switch completed
           const { newBufferIndex, newDuration } = event.data;
           console.log(`[WebAudioManager] Progressive buffer switch completed - Buffer ${newBufferIndex}, Duration: ${newDuration}s`);
+          this.emit('bufferswitched', { bufferIndex: newBufferIndex, duration: newDuration, currentTime });
+          break;
+          
+        case 'TRACK_CHANGED':
+          // The worklet started the staged track on the sample after the previous one ended
+          const { trackId: changedTrackId, previousTrackId } = event.data;
+          this.currentTrackId = changedTrackId;
+          this.stagedTrackId = null;
+          this.lastKnownPosition = 0;
+          this.updateTimeline(0, event.data.duration);
+          this.audioBuffers.touch(changedTrackId);
+          this.audioBuffers.enforceBudget();
+          console.log(`[WebAudioManager] Gapless transition: ${previousTrackId} -> ${changedTrackId}`);
+          this.onTrackChange?.(changedTrackId, previousTrackId);
+          this.emit('trackchange', { trackId: changedTrackId, previousTrackId });
+          break;
+          
+        case 'CROSSFADE_COMPLETE':
+          console.log(`[WebAudioManager] Crossfade complete: ${event.data.previousTrackId} -> ${event.data.trackId}`);
+          this.fadingTrackId = null;
+          this.audioBuffers.enforceBudget();
+          break;
+          
+        case 'UNDERRUN':
+          // Playback caught up with the appended PCM - the worklet holds position until more arrives
+          console.warn(`[WebAudioManager] Buffer underrun at ${currentTime.toFixed(3)}s (loaded: ${event.data.loadedDuration.toFixed(3)}s)`);
+          this.stateMachine.trySend('underrun');
+          if (this.currentTrackId) {
+            this.bufferStreamingTrackAt(this.currentTrackId, currentTime);
+          }
+          break;
+          
+        case 'UNDERRUN_RECOVERED':
+          console.log(`[WebAudioManager] Recovered from buffer underrun at ${currentTime.toFixed(3)}s`);
+          this.stateMachine.trySend('recover');
           break;
       }
     };
   }
 
   // Load and decode audio from URL
-  async loadAudio(url: string, trackId: string, progressCallback?: (loaded: number, total: number) => void): Promise<AudioBuffer> {
+  async loadAudio(url: string, trackId: string, progressCallback?: (loaded: number, total: number) => void, options: LoadOptions = {}): Promise<AudioBuffer> {
     if (!this.audioContext) {
       await this.initialize();
     }
     
+    const { signal } = options;
+    this.rememberTrimOptions(trackId, options.trimSilence);
     try {
-      // Check if already loaded
+      signal?.throwIfAborted();
+      
+      // Check if already loaded (a changed trimSilence applies the next time the track is decoded)
       if (this.audioBuffers.has(trackId)) {
         return this.audioBuffers.get(trackId)!;
       }
@@ -472,7 +781,7 @@ export class WebAudioManager {
       console.log(`Loading audio: ${trackId}`);
       
       // Fetch audio data with progress tracking
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       if (!response.ok) {
         throw new Error(`Failed to fetch audio: ${response.status}`);
       }
@@ -487,6 +796,7 @@ export class WebAudioManager {
       const reader = response.body.getReader();
       const chunks: Uint8Array[] = [];
       let loaded = 0;
+      const fetchStartTime = performance.now();
       
       // Read chunks progressively
       while (true) {
@@ -501,6 +811,14 @@ export class WebAudioManager {
         if (progressCallback && total > 0) {
           progressCallback(loaded, total);
         }
+        
+        const elapsedSeconds = (performance.now() - fetchStartTime) / 1000;
+        this.emit('progress', {
+          trackId,
+          bytesLoaded: loaded,
+          bytesTotal: total,
+          downloadSpeed: elapsedSeconds > 0 ? loaded / elapsedSeconds : null
+        });
       }
       
       // Combine all chunks into single ArrayBuffer
@@ -513,8 +831,14 @@ export class WebAudioManager {
         offset += chunk.length;
       }
       
+      // Read encoder delay/padding and ReplayGain tags before decoding detaches the buffer
+      const gaplessInfo = GaplessTrimmer.parse(uint8Array);
+      const replayGain = LoudnessAnalyzer.parseReplayGain(uint8Array);
+      
       // Decode audio data
-      const audioBuffer = await this.audioContext!.decodeAudioData(arrayBuffer);
+      const decodedBuffer = GaplessTrimmer.trim(this.audioContext!, await this.audioContext!.decodeAudioData(arrayBuffer), gaplessInfo);
+      const audioBuffer = this.trimTrackSilence(trackId, decodedBuffer);
+      signal?.throwIfAborted(); // Decoding can't be interrupted - drop the result instead
       
       // Enhanced iOS debugging for sample rate issues
       const contextSampleRate = this.audioContext!.sampleRate;
@@ -539,15 +863,24 @@ export class WebAudioManager {
         }
       }
       
+      // Measure before caching so the first play is already normalized
+      await this.measureTrackLoudness(trackId, audioBuffer, replayGain);
+      signal?.throwIfAborted();
+      
       // Cache the buffer
       this.audioBuffers.set(trackId, audioBuffer);
+      this.setTrackPeaks(trackId, audioBuffer);
       console.log(`Audio loaded and cached: ${trackId}`);
       
       return audioBuffer;
       
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`[WebAudioManager] Loading cancelled: ${trackId}`);
+        throw error;
+      }
       console.error(`Failed to load audio ${trackId}:`, error);
-      this.onError?.(error as Error);
+      this.reportError(error as Error, trackId);
       throw error;
     }
   }
@@ -563,7 +896,13 @@ export class WebAudioManager {
       throw new Error(`Audio buffer not found for track: ${trackId}`);
     }
 
+    this.abortTrackLoads([trackId]);
     this.currentTrackId = trackId;
+    this.stagedTrackId = null;
+    this.fadingTrackId = null;
+    this.playbackGeneration++;
+    this.audioBuffers.touch(trackId);
+    this.audioBuffers.enforceBudget();
 
     // Extract channel data for worklet
     const channelData: Float32Array[] = [];
@@ -578,42 +917,80 @@ export class WebAudioManager {
       channelData,
       sampleRate: audioBuffer.sampleRate,
       numberOfChannels: audioBuffer.numberOfChannels,
-      totalSamples: audioBuffer.length
+      totalSamples: audioBuffer.length,
+      trackGain: this.getTrackGain(trackId)
     });
 
-    // Start playback
-    this.audioWorkletNode!.port.postMessage({ type: 'PLAY' });
+    this.startTrack(trackId);
   }
 
   // Load and play audio with progressive loading
-  async loadAndPlay(url: string, trackId: string, name?: string): Promise<void> {
-    // First check if we have it cached
-    if (this.chunkStore && this.enableCache) {
-      const isStored = await this.chunkStore.isStored(trackId);
-      if (isStored) {
-        console.log(`[WebAudioManager] Loading from cache: ${trackId}`);
-        const audioBuffer = await this.chunkStore.getAudioBuffer(trackId);
-        if (audioBuffer) {
-          this.audioBuffers.set(trackId, audioBuffer);
-          await this.play(trackId);
-          return;
+  // Starting another track aborts this load; so does options.signal
+  async loadAndPlay(url: string, trackId: string, name?: string, options: LoadOptions = {}): Promise<void> {
+    const startTime = Date.now();
+    this.rememberTrackName(trackId, name);
+    this.rememberTrimOptions(trackId, options.trimSilence);
+    const controller = this.beginTrackLoad(trackId, options.signal);
+    const { signal } = controller;
+    const hadBuffer = this.audioBuffers.has(trackId);
+    
+    try {
+      // First check if we have it cached
+      if (this.chunkStore && this.enableCache) {
+        const isStored = await this.chunkStore.isStored(trackId);
+        if (isStored) {
+          console.log(`[WebAudioManager] Loading from cache: ${trackId}`);
+          this.emit('loadstart', { trackId, url, strategy: 'cache', name });
+          this.stateMachine.send('load', trackId);
+          const storedBuffer = await this.chunkStore.getAudioBuffer(trackId);
+          signal.throwIfAborted();
+          if (storedBuffer) {
+            const audioBuffer = this.trimTrackSilence(trackId, storedBuffer);
+            this.audioBuffers.set(trackId, audioBuffer);
+            await this.restoreLoudness(trackId, audioBuffer);
+            signal.throwIfAborted();
+            await this.play(trackId);
+            this.emit('playbackready', { trackId, loadTime: Date.now() - startTime, strategy: 'cache' });
+            await this.restorePeaks(trackId, audioBuffer);
+            return;
+          }
         }
       }
-    }
 
-    // Load from network
-    const audioBuffer = await this.loadAudio(url, trackId);
-    
-    // Store in cache if enabled
-    if (this.chunkStore && this.enableCache && name) {
+      // Load from network
+      this.emit('loadstart', { trackId, url, strategy: 'standard', name });
+      this.stateMachine.send('load', trackId);
       try {
-        await this.chunkStore.storeAudio(url, trackId, name);
+        await this.loadAudio(url, trackId, undefined, { signal });
       } catch (error) {
-        console.warn(`[WebAudioManager] Failed to cache audio: ${error}`);
+        if (!signal.aborted) {
+          this.stateMachine.send('fail', trackId);
+        }
+        throw error;
+      }
+      
+      // Store in cache if enabled
+      if (this.chunkStore && this.enableCache && name) {
+        try {
+          await this.chunkStore.storeAudio(url, trackId, name, undefined, { signal });
+        } catch (error) {
+          if (!signal.aborted) {
+            console.warn(`[WebAudioManager] Failed to cache audio: ${error}`);
+          }
+        }
+      }
+      
+      signal.throwIfAborted();
+      await this.play(trackId);
+      this.emit('playbackready', { trackId, loadTime: Date.now() - startTime, strategy: 'standard' });
+    } catch (error) {
+      if (signal.aborted) {
+        this.abandonTrackLoad(trackId, !hadBuffer);
       }
+      throw error;
+    } finally {
+      this.endTrackLoad(trackId, controller);
     }
-    
-    await this.play(trackId);
   }
 
   // Instant playback - starts playing first chunk immediately while loading rest
@@ -622,87 +999,155 @@ export class WebAudioManager {
     onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void;
     onFullyLoaded?: () => void;
     onDownloadProgress?: (progress: DownloadProgress) => void;
+    crossfade?: CrossfadeOptions; // Fade from the current track instead of cutting
+    signal?: AbortSignal; // Starting another track aborts this load too
+    trimSilence?: boolean | SilenceTrimOptions; // Leading silence goes with the first chunk, trailing once the download completes
   }): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
     }
     
+    this.rememberTrackName(trackId, name);
+    this.rememberTrimOptions(trackId, options?.trimSilence ?? options?.crossfade?.trimSilence);
+    // A crossfade keeps the outgoing track's download running while it fades
+    const controller = this.beginTrackLoad(trackId, options?.signal, options?.crossfade ? this.currentTrackId : null);
+    try {
+      await this.streamInstantly(url, trackId, name, controller.signal, options);
+    } finally {
+      this.endTrackLoad(trackId, controller);
+    }
+  }
+
+  private async streamInstantly(url: string, trackId: string, name: string, signal: AbortSignal, options?: {
+    forceInstant?: boolean;
+    onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void;
+    onFullyLoaded?: () => void;
+    onDownloadProgress?: (progress: DownloadProgress) => void;
+    crossfade?: CrossfadeOptions;
+  }): Promise<void> {
     // Check if instant playback should be used
     if (!this.shouldUseInstantPlayback(url, options?.forceInstant)) {
       console.log(`[WebAudioManager] Using standard playback for ${trackId}`);
-      return this.loadAndPlay(url, trackId, name);
+      return options?.crossfade ? this.crossfadeToLoaded(url, trackId, options.crossfade, signal) : this.loadAndPlay(url, trackId, name, { signal });
     }
 
     console.log(`[WebAudioManager] 🚀 Starting separated download/storage instant playback for ${name} (${trackId})`);
     const startTime = Date.now();
+    let playbackStarted = false;
+    let firstChunkError: Error | null = null; // The first chunk couldn't start playback - the whole file is loaded instead
+    
+    // Stopped early when the first chunk fails, so the fallback doesn't wait for the rest of the file
+    const downloadController = new AbortController();
+    signal.addEventListener('abort', () => downloadController.abort(signal.reason), { once: true });
+    
+    // Create streaming assembler - kept local so a crossfaded track's download can overlap this one
+    const streamingAssembler = new StreamingAssembler({
+      storageChunkSize: this.instantPlaybackConfig.storageChunkSize || 2 * 1024 * 1024,
+      playbackChunkSize: this.instantPlaybackConfig.playbackChunkSize || 384 * 1024,
+      onPlaybackReady: async (firstChunk) => {
+        if (signal.aborted) return;
+        const initialLoadTime = Date.now() - startTime;
+        console.log(`[WebAudioManager] 🎵 First chunk ready for playback in ${initialLoadTime}ms (${(firstChunk.totalSize / 1024).toFixed(0)}KB)`);
+        
+        // Decode and start playback with first chunk
+        await this.enqueueAssemblyTask(async () => {
+          // Another track may have been started while earlier decodes were queued
+          if (signal.aborted) return;
+          try {
+            await this.startPlaybackWithChunk(trackId, firstChunk, streamingAssembler.getGaplessInfo(), options?.crossfade);
+            playbackStarted = true;
+          } catch (error) {
+            firstChunkError = error as Error;
+            downloadController.abort(firstChunkError);
+          }
+        });
+        if (playbackStarted) {
+          this.emit('playbackready', { trackId, loadTime: Date.now() - startTime, strategy: 'instant' });
+        }
+      },
+      onChunkAssembled: (assemblyChunk) => {
+        if (signal.aborted) return;
+        if (this.instantPlaybackConfig.enablePerformanceLogging) {
+          console.log(`[WebAudioManager] Assembled chunk ${assemblyChunk.storageIndex}: ${(assemblyChunk.totalSize / 1024).toFixed(0)}KB from ${assemblyChunk.downloadChunks.length} download chunks`);
+        }
+        
+        // Update progress callback
+        options?.onChunkLoaded?.(assemblyChunk.storageIndex, streamingAssembler.getStats().assembledChunks || 1);
+        
+        // If this is not the first chunk, extend the playing buffer once earlier chunks are decoded
+        if (assemblyChunk.storageIndex > 0) {
+          this.enqueueAssemblyTask(() => this.appendStreamingChunk(trackId, assemblyChunk));
+        }
+      },
+      onProgress: (assembled, total) => {
+        this.onProgressiveLoadingStatus?.('PROGRESS', { 
+          trackId, 
+          assembled, 
+          total,
+          strategy: 'separated-instant' 
+        });
+      }
+    });
+    
+    this.streamingAssembler = streamingAssembler;
+    let downloadManager: DownloadManager | null = null;
     
     try {
       this.onProgressiveLoadingStatus?.('STARTED', { trackId, strategy: 'separated-instant' });
+      this.emit('loadstart', { trackId, url, strategy: 'instant', name });
+      if (!options?.crossfade) {
+        this.stateMachine.send('load', trackId);
+      }
       
       // Create download manager with optimized settings
-      this.downloadManager = new DownloadManager({
+      downloadManager = new DownloadManager({
         strategy: this.instantPlaybackConfig.downloadStrategy,
         onProgress: (progress) => {
           options?.onDownloadProgress?.(progress);
+          this.emit('progress', {
+            trackId,
+            bytesLoaded: progress.bytesLoaded,
+            bytesTotal: progress.bytesTotal,
+            downloadSpeed: progress.downloadSpeed
+          });
           if (this.instantPlaybackConfig.enablePerformanceLogging) {
             console.log(`[WebAudioManager] Download progress: ${(progress.bytesLoaded / 1024 / 1024).toFixed(2)}MB/${(progress.bytesTotal / 1024 / 1024).toFixed(2)}MB (${(progress.downloadSpeed / 1024 / 1024).toFixed(2)}MB/s)`);
           }
         },
+        onStart: (totalSize) => {
+          // Size is known before the first range lands, so assembly can begin immediately
+          streamingAssembler.initialize(totalSize);
+        },
+        onChunkComplete: (downloadChunk) => {
+          // Feed each range straight into the assembler while later ranges are still in flight
+          streamingAssembler.addDownloadChunk(downloadChunk);
+        },
         onError: (error) => {
           console.error(`[WebAudioManager] Download error: ${error}`);
-          this.onError?.(error);
+          this.reportError(error, trackId);
         }
       });
+      const activeDownloadManager = downloadManager;
       
-      // Create streaming assembler
-      this.streamingAssembler = new StreamingAssembler({
-        storageChunkSize: this.instantPlaybackConfig.storageChunkSize || 2 * 1024 * 1024,
-        playbackChunkSize: this.instantPlaybackConfig.playbackChunkSize || 384 * 1024,
-        onPlaybackReady: async (firstChunk) => {
-          const initialLoadTime = Date.now() - startTime;
-          console.log(`[WebAudioManager] 🎵 First chunk ready for playback in ${initialLoadTime}ms (${(firstChunk.totalSize / 1024).toFixed(0)}KB)`);
-          
-          // Decode and start playback with first chunk
-          await this.startPlaybackWithChunk(trackId, firstChunk);
-        },
-        onChunkAssembled: (assemblyChunk) => {
-          if (this.instantPlaybackConfig.enablePerformanceLogging) {
-            console.log(`[WebAudioManager] Assembled chunk ${assemblyChunk.storageIndex}: ${(assemblyChunk.totalSize / 1024).toFixed(0)}KB from ${assemblyChunk.downloadChunks.length} download chunks`);
-          }
-          
-          // Update progress callback
-          options?.onChunkLoaded?.(assemblyChunk.storageIndex, this.streamingAssembler?.getStats().assembledChunks || 1);
-          
-          // If this is not the first chunk, seamlessly replace the buffer
-          if (assemblyChunk.storageIndex > 0) {
-            this.seamlesslyReplaceBuffer(trackId, assemblyChunk);
-          }
-        },
-        onProgress: (assembled, total) => {
-          this.onProgressiveLoadingStatus?.('PROGRESS', { 
-            trackId, 
-            assembled, 
-            total,
-            strategy: 'separated-instant' 
-          });
-        }
-      });
+      this.downloadManager = downloadManager;
+      this.streamingSources.set(trackId, { assembler: streamingAssembler, downloadManager: activeDownloadManager });
       
-      // Start the download process
-      const downloadResult = await this.downloadManager.downloadAudio(url, {
-        priorityFirstChunk: true
+      // Start the download process - chunks stream into the assembler as they complete
+      const downloadResult = await activeDownloadManager.downloadAudio(url, {
+        priorityFirstChunk: true,
+        signal: downloadController.signal
       });
       
-      // Initialize assembler
-      this.streamingAssembler.initialize(downloadResult.totalSize);
-      
-      // Process download chunks as they arrive
-      for (const downloadChunk of downloadResult.chunks) {
-        this.streamingAssembler.addDownloadChunk(downloadChunk);
-      }
-      
       // Finalize assembly
-      this.streamingAssembler.finalize();
+      this.streamingSources.delete(trackId);
+      streamingAssembler.finalize();
+      await this.enqueueAssemblyTask(async () => {
+        // The download can finish before the first chunk's decode does
+        if (firstChunkError) {
+          throw firstChunkError;
+        }
+        await this.completeStreamingTrack(trackId, true);
+      });
       
       // Complete the loading process
       options?.onFullyLoaded?.();
@@ -717,45 +1162,183 @@ export class WebAudioManager {
       console.log(`[WebAudioManager] ✅ Separated instant playback complete: ${downloadResult.downloadTime.toFixed(2)}ms download, ${(downloadResult.averageSpeed / 1024 / 1024).toFixed(2)}MB/s`);
       
     } catch (error) {
+      this.streamingSources.delete(trackId);
+      
+      if (signal.aborted) {
+        this.releaseStreamingLoad(trackId, streamingAssembler, downloadManager, playbackStarted);
+        throw error;
+      }
+      
       console.error(`[WebAudioManager] Separated instant playback failed: ${error}`);
       this.onProgressiveLoadingStatus?.('FAILED', { trackId, error, strategy: 'separated-instant' });
       
+      if (playbackStarted) {
+        // Audio is already playing - keep everything delivered so far instead of restarting
+        streamingAssembler.finalize();
+        this.enqueueAssemblyTask(() => this.completeStreamingTrack(trackId, false));
+        console.warn(`[WebAudioManager] Download interrupted for ${trackId}, continuing with ${streamingAssembler.getStats().assembledChunks || 0} assembled chunks`);
+        throw error;
+      }
+      
       // Fallback to standard loading
       console.log(`[WebAudioManager] Falling back to standard loading for ${trackId}`);
-      return this.loadAndPlay(url, trackId, name);
+      return options?.crossfade ? this.crossfadeToLoaded(url, trackId, options.crossfade, signal) : this.loadAndPlay(url, trackId, name, { signal });
+    }
+  }
+
+  /**
+   * Free an aborted streaming load
+   * A playing track that nothing replaces ends where its audio runs out; any other track is dropped entirely
+   */
+  private releaseStreamingLoad(trackId: string, assembler: StreamingAssembler, downloadManager: DownloadManager | null, playbackStarted: boolean): void {
+    assembler.cleanup();
+    if (this.streamingAssembler === assembler) {
+      this.streamingAssembler = null;
+    }
+    if (this.downloadManager === downloadManager) {
+      this.downloadManager = null;
+    }
+    this.onProgressiveLoadingStatus?.('FAILED', { trackId, error: 'aborted', strategy: 'separated-instant' });
+    
+    const isAudible = this.currentTrackId === trackId || this.fadingTrackId === trackId;
+    const isReplaced = [...this.trackLoads.keys()].some(loadingTrackId => loadingTrackId !== trackId);
+    if (playbackStarted && isAudible && !isReplaced) {
+      // Cancelled while playing - play out what was decoded, then end
+      this.enqueueAssemblyTask(() => this.completeStreamingTrack(trackId, false));
+    } else {
+      // Replaced or never heard - the worklet keeps its own copy of anything still playing until the next track starts
+      this.enqueueAssemblyTask(async () => {
+        this.streamingTracks.delete(trackId);
+        this.audioBuffers.delete(trackId);
+        this.trackPeaks.delete(trackId);
+        this.trackTrims.delete(trackId);
+      });
+      this.abandonTrackLoad(trackId, false);
+    }
+    console.log(`[WebAudioManager] Streaming cancelled for ${trackId}`);
+  }
+
+  /**
+   * Start a load for a track that is about to play, aborting loads of every other track
+   * except keepTrackId (the outgoing track of a crossfade). Nested loads of the same
+   * track (e.g. a fallback to loadAndPlay) share its controller.
+   */
+  private beginTrackLoad(trackId: string, signal?: AbortSignal, keepTrackId: string | null = null): AbortController {
+    this.abortTrackLoads([trackId, keepTrackId]);
+    
+    let controller = this.trackLoads.get(trackId);
+    if (!controller || controller.signal.aborted) {
+      controller = new AbortController();
+      this.trackLoads.set(trackId, controller);
+      this.deferredStart = null;
+    }
+    
+    if (signal) {
+      const linked = controller;
+      if (signal.aborted) {
+        linked.abort(signal.reason);
+      } else {
+        signal.addEventListener('abort', () => linked.abort(signal.reason), { once: true });
+      }
+    }
+    return controller;
+  }
+
+  private endTrackLoad(trackId: string, controller: AbortController): void {
+    if (this.trackLoads.get(trackId) === controller) {
+      this.trackLoads.delete(trackId);
+    }
+  }
+
+  private abortTrackLoads(keepTrackIds: Array<string | null>): void {
+    for (const [trackId, controller] of this.trackLoads) {
+      if (!keepTrackIds.includes(trackId)) {
+        console.log(`[WebAudioManager] Aborting load of ${trackId}`);
+        controller.abort();
+        this.trackLoads.delete(trackId);
+      }
+    }
+  }
+
+  /**
+   * Undo the loading state of an aborted load, and optionally drop the buffer it decoded
+   */
+  private abandonTrackLoad(trackId: string, dropBuffer: boolean): void {
+    if (this.stateMachine.getState() === 'loading' && this.stateMachine.getTrackId() === trackId) {
+      this.stateMachine.send('abort', trackId);
+      this.deferredStart = null;
+    }
+    const isAudible = this.currentTrackId === trackId || this.fadingTrackId === trackId;
+    if (dropBuffer && !isAudible) {
+      this.audioBuffers.delete(trackId);
+      this.trackPeaks.delete(trackId);
+      this.trackTrims.delete(trackId);
     }
   }
 
   /**
    * Start playback with the first assembled chunk
    */
-  private async startPlaybackWithChunk(trackId: string, assemblyChunk: AssemblyChunk): Promise<void> {
+  private async startPlaybackWithChunk(trackId: string, assemblyChunk: AssemblyChunk, gaplessInfo: GaplessInfo | null, crossfade?: CrossfadeOptions): Promise<void> {
     try {
-      // Decode the assembled chunk data
-      const audioBuffer = await this.audioContext!.decodeAudioData(assemblyChunk.data.slice(0));
-      
-      // Set as current track
-      this.currentTrackId = trackId;
-      this.audioBuffers.set(trackId, audioBuffer);
-      
-      // Extract channel data for worklet
-      const channelData: Float32Array[] = [];
-      for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
-        channelData.push(audioBuffer.getChannelData(i));
+      // Tags in the first chunk set the gain before any audio plays - the measurement follows once the download completes
+      if (!this.trackLoudness.has(trackId)) {
+        const replayGain = LoudnessAnalyzer.parseReplayGain(new Uint8Array(assemblyChunk.data));
+        if (replayGain) {
+          this.setTrackLoudness(trackId, { integratedLoudness: null, truePeak: null, gatedPower: 0, gatedBlocks: 0, replayGain });
+        }
       }
       
-      // Send initial buffer to worklet
-      this.audioWorkletNode!.port.postMessage({
-        type: 'SET_BUFFER',
-        trackId,
-        channelData,
-        sampleRate: audioBuffer.sampleRate,
-        numberOfChannels: audioBuffer.numberOfChannels,
-        totalSamples: audioBuffer.length
+      // Decode the assembled chunk data, dropping encoder delay if the decoder kept it, then any leading silence
+      const decodedBuffer = await this.audioContext!.decodeAudioData(assemblyChunk.data.slice(0));
+      const gaplessStart = this.getStreamingTrimStart(decodedBuffer, assemblyChunk, gaplessInfo);
+      const trimmedStart = gaplessStart + this.getStreamingSilenceStart(trackId, decodedBuffer, gaplessStart);
+      const audioBuffer = trimmedStart > 0 ? this.sliceAudioBuffer(decodedBuffer, trimmedStart) : decodedBuffer;
+      
+      this.audioBuffers.set(trackId, audioBuffer);
+      this.streamingTracks.set(trackId, {
+        segments: [audioBuffer],
+        segmentStarts: [0],
+        totalSamples: audioBuffer.length,
+        nextSample: audioBuffer.length,
+        loadedRanges: [{ start: 0, end: audioBuffer.length }],
+        runEnds: new Map(assemblyChunk.sampleCount !== null ? [[assemblyChunk.sampleCount, audioBuffer.length]] : []),
+        trimmedStart,
+        gaplessInfo
       });
+      this.beginStreamingPeaks(trackId, audioBuffer);
       
-      // Start playback
-      this.audioWorkletNode!.port.postMessage({ type: 'PLAY' });
+      if (crossfade) {
+        // Later chunks are appended with APPEND_PCM while both voices play
+        this.postCrossfade(trackId, audioBuffer, crossfade, true);
+      } else {
+        // Set as current track
+        this.currentTrackId = trackId;
+        this.stagedTrackId = null;
+        this.fadingTrackId = null;
+        this.playbackGeneration++;
+        this.audioBuffers.enforceBudget();
+        
+        // Extract channel data for worklet
+        const channelData: Float32Array[] = [];
+        for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+          channelData.push(audioBuffer.getChannelData(i));
+        }
+        
+        // Send initial buffer to worklet - later chunks are appended with APPEND_PCM
+        this.audioWorkletNode!.port.postMessage({
+          type: 'SET_BUFFER',
+          trackId,
+          channelData,
+          sampleRate: audioBuffer.sampleRate,
+          numberOfChannels: audioBuffer.numberOfChannels,
+          totalSamples: audioBuffer.length,
+          streaming: true,
+          trackGain: this.getTrackGain(trackId)
+        });
+        
+        this.startTrack(trackId);
+      }
       
       console.log(`[WebAudioManager] 🎵 Started playback with first chunk: ${(assemblyChunk.totalSize / 1024).toFixed(0)}KB, ${audioBuffer.duration.toFixed(2)}s`);
       
@@ -766,120 +1349,1259 @@ export class WebAudioManager {
   }
 
   /**
-   * Seamlessly replace the current buffer with a larger one containing more audio data
+   * Run assembly-driven work (decode, worklet updates) strictly in chunk order
+   * decodeAudioData is async, so a small later chunk could otherwise overtake an earlier one
+   */
+  private enqueueAssemblyTask(task: () => Promise<void>): Promise<void> {
+    const run = this.assemblyTaskQueue.then(task);
+    this.assemblyTaskQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Decode the next assembled chunk and append its PCM to the worklet timeline
+   * Only the new samples cross the thread boundary - earlier audio is never re-decoded or re-sent
    */
-  private async seamlesslyReplaceBuffer(trackId: string, assemblyChunk: AssemblyChunk): Promise<void> {
-    if (this.currentTrackId !== trackId) {
-      console.log(`[WebAudioManager] Skipping buffer replacement for inactive track: ${trackId}`);
+  private async appendStreamingChunk(trackId: string, assemblyChunk: AssemblyChunk): Promise<void> {
+    const streamingTrack = this.streamingTracks.get(trackId);
+    const isAudible = this.currentTrackId === trackId || this.fadingTrackId === trackId;
+    if (!isAudible || !streamingTrack) {
+      console.log(`[WebAudioManager] Skipping chunk append for inactive track: ${trackId}`);
       return;
     }
     
     try {
-      // Get current playback position
-      const currentPosition = this.getCurrentTime();
-      
-      // Decode the complete assembled chunk
-      const newAudioBuffer = await this.audioContext!.decodeAudioData(assemblyChunk.data.slice(0));
-      
-      // Update stored buffer
-      this.audioBuffers.set(trackId, newAudioBuffer);
-      
-      // Extract channel data for worklet
-      const channelData: Float32Array[] = [];
-      for (let i = 0; i < newAudioBuffer.numberOfChannels; i++) {
-        channelData.push(newAudioBuffer.getChannelData(i));
+      // MP3/AAC chunks decode with the previous chunk's last frames in front - keep only this chunk's samples,
+      // sized by its source sample count so decoder priming can't push the timeline away from sampleOffset
+      const decodedBuffer = await this.audioContext!.decodeAudioData(assemblyChunk.data.slice(0));
+      const { start, length } = StreamingAssembler.getDecodedRange(assemblyChunk, decodedBuffer.length, decodedBuffer.sampleRate);
+      const chunkBuffer = start === 0 && length === decodedBuffer.length
+        ? decodedBuffer
+        : this.sliceAudioBuffer(decodedBuffer, start, length);
+      const startSample = assemblyChunk.discontinuity
+        ? this.getRunStartSample(streamingTrack, assemblyChunk, chunkBuffer.sampleRate)
+        : streamingTrack.nextSample;
+      const endSample = startSample + chunkBuffer.length;
+      
+      streamingTrack.segments.push(chunkBuffer);
+      streamingTrack.segmentStarts.push(startSample);
+      streamingTrack.totalSamples = Math.max(streamingTrack.totalSamples, endSample);
+      streamingTrack.nextSample = endSample;
+      this.addLoadedRange(streamingTrack, startSample, endSample);
+      if (assemblyChunk.sampleOffset !== null && assemblyChunk.sampleCount !== null) {
+        streamingTrack.runEnds.delete(assemblyChunk.sampleOffset);
+        streamingTrack.runEnds.set(assemblyChunk.sampleOffset + assemblyChunk.sampleCount, endSample);
       }
       
-      // Send seamless buffer replacement message to worklet
-      this.audioWorkletNode!.port.postMessage({
-        type: 'REPLACE_BUFFER',
-        trackId,
-        channelData,
-        sampleRate: newAudioBuffer.sampleRate,
-        numberOfChannels: newAudioBuffer.numberOfChannels,
-        totalSamples: newAudioBuffer.length,
-        currentPosition, // Maintain exact playback position
-        startTime: Date.now()
-      });
+      this.postPcmSegment(trackId, chunkBuffer, startSample);
+      this.appendStreamingPeaks(trackId, chunkBuffer, startSample);
       
       if (this.instantPlaybackConfig.enablePerformanceLogging) {
-        console.log(`[WebAudioManager] 🔄 Seamlessly replaced buffer: ${(assemblyChunk.totalSize / 1024 / 1024).toFixed(2)}MB, ${newAudioBuffer.duration.toFixed(2)}s (position: ${currentPosition.toFixed(3)}s)`);
+        console.log(`[WebAudioManager] ➕ Appended chunk ${assemblyChunk.storageIndex}: ${chunkBuffer.duration.toFixed(2)}s at sample ${startSample} (total: ${(streamingTrack.totalSamples / chunkBuffer.sampleRate).toFixed(2)}s)`);
       }
       
     } catch (error) {
-      console.error(`[WebAudioManager] Failed to replace buffer seamlessly: ${error}`);
-      // Continue playback with current buffer - don't fail the whole process
+      console.error(`[WebAudioManager] Failed to append chunk ${assemblyChunk.storageIndex}: ${error}`);
+      // Continue playback with what has been appended - don't fail the whole process
     }
   }
 
-  // Preload audio for smooth transitions
-  async preloadAudio(url: string, trackId: string, name: string = 'Unknown'): Promise<void> {
-    // Check if already in memory buffer or currently preloading
-    if (this.audioBuffers.has(trackId) || this.preloadQueue.has(trackId)) {
-      console.log(`[WebAudioManager] Skipping preload for ${trackId}: already loaded or in progress`);
-      return;
+  /**
+   * Timeline sample for the first chunk of a run started by a seek
+   * Resumed runs continue exactly where their earlier chunks ended; new ones use the estimated source sample
+   */
+  private getRunStartSample(streamingTrack: StreamingTrack, assemblyChunk: AssemblyChunk, sampleRate: number): number {
+    if (assemblyChunk.sampleOffset === null || !assemblyChunk.sourceSampleRate) {
+      return streamingTrack.nextSample;
     }
     
-    // Check if already in chunk store
-    if (this.chunkStore) {
-      const isInChunkStore = await this.chunkStore.isStored(trackId);
-      if (isInChunkStore) {
-        console.log(`[WebAudioManager] Skipping preload for ${trackId}: already in chunk store`);
-        return;
-      }
+    const resumed = streamingTrack.runEnds.get(assemblyChunk.sampleOffset);
+    if (resumed !== undefined) {
+      return resumed;
     }
     
-    this.preloadQueue.add(trackId);
-    
-    try {
-      console.log(`[WebAudioManager] Preloading: ${name} (${trackId})`);
-      
-      if (this.chunkStore && this.enableCache) {
-        // Store in chunk store for efficient access
-        await this.chunkStore.storeAudio(url, trackId, name);
-        console.log(`[WebAudioManager] ✅ Preloaded to chunk store: ${name}`);
+    const ratio = sampleRate / assemblyChunk.sourceSampleRate;
+    return Math.max(0, Math.round(assemblyChunk.sampleOffset * ratio) - streamingTrack.trimmedStart);
+  }
+
+  private addLoadedRange(streamingTrack: StreamingTrack, start: number, end: number): void {
+    const ranges = [...streamingTrack.loadedRanges, { start, end }].sort((a, b) => a.start - b.start);
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
       } else {
-        // Fallback to direct memory loading
-        await this.loadAudio(url, trackId);
-        console.log(`[WebAudioManager] ✅ Preloaded to memory: ${name}`);
+        merged.push({ ...range });
       }
-    } catch (error) {
-      console.warn(`[WebAudioManager] Failed to preload ${name} (${trackId}):`, error);
-    } finally {
-      this.preloadQueue.delete(trackId);
     }
+    streamingTrack.loadedRanges = merged;
   }
 
-  // Control methods
-  async pause(): Promise<void> {
-    if (this.audioWorkletNode) {
-      this.audioWorkletNode.port.postMessage({ type: 'PAUSE' });
+  /**
+   * Make sure audio at `time` is on its way when it hasn't been streamed yet
+   *
+   * Maps the time to a byte offset (Xing/VBRI seek table or bitrate), restarts assembly there from the next
+   * frame boundary and downloads the ranges from that offset first. Playback waits in the buffering state
+   * until the decoded audio is appended. Formats without a byte mapping (Ogg) wait for the download instead.
+   */
+  private bufferStreamingTrackAt(trackId: string, time: number): void {
+    const streamingTrack = this.streamingTracks.get(trackId);
+    const source = this.streamingSources.get(trackId);
+    if (!streamingTrack || !source) return;
+    
+    const sampleRate = streamingTrack.segments[0].sampleRate;
+    const sample = Math.floor(time * sampleRate);
+    if (streamingTrack.loadedRanges.some(range => sample >= range.start && sample < range.end)) {
+      return;
     }
-  }
-
-  async resume(): Promise<void> {
-    if (this.audioWorkletNode) {
-      this.audioWorkletNode.port.postMessage({ type: 'PLAY' });
+    
+    // Seek points count source samples from the start of the file, encoder delay included
+    const target = source.assembler.getSeekPoint((sample + streamingTrack.trimmedStart) / sampleRate);
+    if (!target) return;
+    
+    if (source.assembler.seek(target)) {
+      source.downloadManager.prioritize(source.assembler.getNextByteOffset());
+      return;
     }
-  }
-
-  async seek(time: number): Promise<void> {
-    if (this.audioWorkletNode) {
-      this.audioWorkletNode.port.postMessage({
-        type: 'SEEK',
-        time
-      });
+    
+    // The bytes are assembled but the estimated timeline positions left a hole - skip to the audio after it
+    const next = streamingTrack.loadedRanges.find(range => range.start > sample);
+    if (next && trackId === this.currentTrackId) {
+      console.log(`[WebAudioManager] Skipping unfilled ${((next.start - sample) / sampleRate).toFixed(3)}s at ${time.toFixed(3)}s`);
+      this.audioWorkletNode?.port.postMessage({ type: 'SEEK', time: next.start / sampleRate });
     }
   }
 
-  setVolume(volume: number): void {
-    if (this.gainNode) {
-      this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
+  /**
+   * Send decoded PCM to the worklet at a timeline sample offset
+   */
+  private postPcmSegment(trackId: string, audioBuffer: AudioBuffer, startSample: number): void {
+    // Copy out of the AudioBuffer so the copies can be transferred instead of cloned
+    const channelData: Float32Array[] = [];
+    for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+      channelData.push(audioBuffer.getChannelData(i).slice());
     }
+    
+    this.audioWorkletNode!.port.postMessage({
+      type: 'APPEND_PCM',
+      trackId,
+      channelData,
+      startSample
+    }, channelData.map(data => data.buffer));
   }
 
-  getCurrentTime(): number {
-    return this.lastKnownPosition;
+  /**
+   * Mark a streamed track as complete in the worklet and keep one merged buffer for replay
+   */
+  private async completeStreamingTrack(trackId: string, isComplete: boolean): Promise<void> {
+    const streamingTrack = this.streamingTracks.get(trackId);
+    if (!streamingTrack) {
+      return;
+    }
+    
+    this.streamingTracks.delete(trackId);
+    
+    // Encoder padding and trailing silence can only be dropped once the whole track is known
+    const endSample = isComplete
+      ? this.getStreamingSilenceEnd(trackId, streamingTrack, this.getStreamingEndSample(streamingTrack))
+      : streamingTrack.totalSamples;
+    
+    if (this.currentTrackId === trackId || this.fadingTrackId === trackId) {
+      // Let the worklet report ENDED (or start the staged track) once playback passes the last sample
+      this.audioWorkletNode?.port.postMessage({ type: 'END_OF_STREAM', trackId, totalSamples: endSample });
+    }
+    
+    const peaks = this.trackPeaks.get(trackId);
+    if (peaks) {
+      peaks.truncate(endSample);
+      this.emit('peaks', { trackId, peaks, complete: isComplete });
+    }
+    
+    // A partial download must not be cached as the full track
+    if (!isComplete) {
+      return;
+    }
+    
+    if (streamingTrack.segments.length > 1 || endSample < streamingTrack.totalSamples) {
+      this.audioBuffers.set(trackId, this.concatAudioBuffers(streamingTrack.segments, endSample, streamingTrack.segmentStarts));
+    }
+    
+    // Not awaited - later chunks of the next track must not wait for the analysis
+    // The gain of a track that is already playing isn't changed mid-play; it applies from the next play
+    const completeBuffer = this.audioBuffers.get(trackId);
+    if (completeBuffer) {
+      this.measureTrackLoudness(trackId, completeBuffer, null).catch(error => {
+        console.warn(`[WebAudioManager] Loudness analysis failed for ${trackId}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Decoded samples to drop from the first streamed chunk
+   * The chunk's source sample count tells whether the decoder already removed the encoder delay
+   */
+  private getStreamingTrimStart(decodedBuffer: AudioBuffer, firstChunk: AssemblyChunk, gaplessInfo: GaplessInfo | null): number {
+    if (!gaplessInfo || firstChunk.sampleCount === null || !firstChunk.sourceSampleRate) {
+      return 0;
+    }
+    
+    const ratio = decodedBuffer.sampleRate / firstChunk.sourceSampleRate;
+    const untrimmedLength = firstChunk.sampleCount * ratio;
+    const delay = Math.round(gaplessInfo.encoderDelay * ratio);
+    const tolerance = Math.round(decodedBuffer.sampleRate * 0.01);
+    
+    if (Math.abs(decodedBuffer.length - untrimmedLength) > tolerance || delay >= decodedBuffer.length) {
+      return 0;
+    }
+    
+    return delay;
+  }
+
+  /**
+   * Last timeline sample of a fully streamed track after dropping encoder padding
+   */
+  private getStreamingEndSample(streamingTrack: StreamingTrack): number {
+    const sampleRate = streamingTrack.segments[0].sampleRate;
+    const decodedLength = streamingTrack.totalSamples + streamingTrack.trimmedStart;
+    const { end } = GaplessTrimmer.getTrimRange(decodedLength, sampleRate, streamingTrack.gaplessInfo);
+    
+    // Timeline sample 0 is decoded sample trimmedStart
+    return Math.max(0, Math.min(streamingTrack.totalSamples, end - streamingTrack.trimmedStart));
+  }
+
+  /**
+   * Decoded samples of leading silence to drop from the first streamed chunk, after the encoder delay
+   * A first chunk that is silent throughout is kept whole - skip silence can still jump over it
+   */
+  private getStreamingSilenceStart(trackId: string, decodedBuffer: AudioBuffer, gaplessStart: number): number {
+    const options = this.getTrackTrimOptions(trackId);
+    if (!options) {
+      this.trackTrims.delete(trackId);
+      return 0;
+    }
+    
+    const channelData: Float32Array[] = [];
+    for (let i = 0; i < decodedBuffer.numberOfChannels; i++) {
+      channelData.push(decodedBuffer.getChannelData(i).subarray(gaplessStart));
+    }
+    const first = SilenceTrimmer.findAudibleStart(channelData, SilenceTrimmer.getThreshold(options));
+    const start = first === null ? 0 : Math.max(0, first - SilenceTrimmer.getPadding(decodedBuffer.sampleRate, options));
+    this.trackTrims.set(trackId, { start: start / decodedBuffer.sampleRate, end: 0 });
+    return start;
+  }
+  
+  /**
+   * Last timeline sample of a fully streamed track after dropping trailing silence
+   */
+  private getStreamingSilenceEnd(trackId: string, streamingTrack: StreamingTrack, endSample: number): number {
+    const options = this.getTrackTrimOptions(trackId);
+    const trim = this.trackTrims.get(trackId);
+    if (!options || !trim) {
+      return endSample;
+    }
+    
+    // Each segment is searched from its end, so only the silent tail of every segment is read
+    const threshold = SilenceTrimmer.getThreshold(options);
+    let audibleEnd = 0;
+    streamingTrack.segments.forEach((segment, index) => {
+      const start = streamingTrack.segmentStarts[index];
+      const length = Math.min(segment.length, endSample - start);
+      if (length <= 0 || start + length <= audibleEnd) return;
+      
+      const channelData: Float32Array[] = [];
+      for (let i = 0; i < segment.numberOfChannels; i++) {
+        channelData.push(segment.getChannelData(i).subarray(0, length));
+      }
+      const end = SilenceTrimmer.findAudibleEnd(channelData, threshold);
+      if (end !== null) {
+        audibleEnd = Math.max(audibleEnd, start + end);
+      }
+    });
+    
+    if (audibleEnd === 0) {
+      return endSample;
+    }
+    const sampleRate = streamingTrack.segments[0].sampleRate;
+    const end = Math.min(endSample, audibleEnd + SilenceTrimmer.getPadding(sampleRate, options));
+    trim.end = (endSample - end) / sampleRate;
+    return end;
+  }
+
+  /**
+   * Copy of `length` samples from `start` (the whole rest of the buffer by default)
+   */
+  private sliceAudioBuffer(audioBuffer: AudioBuffer, start: number, length: number = audioBuffer.length - start): AudioBuffer {
+    // Samples past the end of the source stay silent
+    const sliced = this.audioContext!.createBuffer(audioBuffer.numberOfChannels, Math.max(1, length), audioBuffer.sampleRate);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      sliced.copyToChannel(audioBuffer.getChannelData(channel).subarray(start, start + length), channel);
+    }
+    return sliced;
+  }
+
+  /**
+   * Concatenate decoded segments into a single buffer with one copy per segment (truncated to totalLength)
+   * With starts, each segment is placed at its own offset instead of straight after the previous one
+   */
+  private concatAudioBuffers(buffers: AudioBuffer[], totalLength: number, starts?: number[]): AudioBuffer {
+    const first = buffers[0];
+    const mergedBuffer = this.audioContext!.createBuffer(first.numberOfChannels, totalLength, first.sampleRate);
+    
+    for (let channel = 0; channel < first.numberOfChannels; channel++) {
+      const mergedChannelData = mergedBuffer.getChannelData(channel);
+      let offset = 0;
+      buffers.forEach((buffer, i) => {
+        const start = starts ? starts[i] : offset;
+        offset = start + buffer.length;
+        if (start >= totalLength) return;
+        const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+        mergedChannelData.set(source.subarray(0, totalLength - start), start);
+      });
+    }
+    
+    return mergedBuffer;
+  }
+
+  // Preload audio for smooth transitions
+  // Resolves (without caching anything) if options.signal aborts
+  async preloadAudio(url: string, trackId: string, name: string = 'Unknown', options: LoadOptions = {}): Promise<void> {
+    this.rememberTrackName(trackId, name);
+    
+    // Check if already in memory buffer or currently preloading
+    if (this.audioBuffers.has(trackId) || this.preloadQueue.has(trackId)) {
+      console.log(`[WebAudioManager] Skipping preload for ${trackId}: already loaded or in progress`);
+      return;
+    }
+    
+    // Check if already in chunk store
+    if (this.chunkStore) {
+      const isInChunkStore = await this.chunkStore.isStored(trackId);
+      if (isInChunkStore) {
+        console.log(`[WebAudioManager] Skipping preload for ${trackId}: already in chunk store`);
+        return;
+      }
+    }
+    
+    this.preloadQueue.add(trackId);
+    
+    try {
+      console.log(`[WebAudioManager] Preloading: ${name} (${trackId})`);
+      
+      if (this.chunkStore && this.enableCache) {
+        // Store in chunk store for efficient access
+        await this.chunkStore.storeAudio(url, trackId, name, undefined, options);
+        console.log(`[WebAudioManager] ✅ Preloaded to chunk store: ${name}`);
+      } else {
+        // Fallback to direct memory loading
+        await this.loadAudio(url, trackId, undefined, options);
+        console.log(`[WebAudioManager] ✅ Preloaded to memory: ${name}`);
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        console.log(`[WebAudioManager] Preload cancelled: ${name} (${trackId})`);
+        return;
+      }
+      console.warn(`[WebAudioManager] Failed to preload ${name} (${trackId}):`, error);
+    } finally {
+      this.preloadQueue.delete(trackId);
+    }
+  }
+
+  // Control methods
+  // Each one is checked against the state machine first, so e.g. resume() with nothing loaded throws
+  // While a track loads, pause()/resume()/seek() resolve straight away and take effect when it starts
+  /**
+   * Pause after a short fade-out; resolves once the output is silent
+   */
+  async pause(): Promise<void> {
+    this.stateMachine.send('pause');
+    if (this.deferStart({ pause: true })) return;
+    if (this.audioWorkletNode) {
+      await this.postFadeRequest({ type: 'PAUSE' }, this.fadeOptions.pause!);
+    }
+  }
+
+  /**
+   * Stop playback and drop the current, staged and fading tracks from the worklet
+   * Their decoded buffers stay cached (no longer pinned) until evicted or unloaded
+   * Never rejects on state - stopping is fine whatever is (or isn't) playing
+   */
+  async stop(): Promise<void> {
+    const wasAudible = this.stateMachine.getState() === 'playing' || this.stateMachine.getState() === 'buffering';
+    this.stateMachine.trySend('stop');
+    this.abortTrackLoads([]);
+    this.deferredStart = null;
+    
+    this.currentTrackId = null;
+    this.stagedTrackId = null;
+    this.fadingTrackId = null;
+    this.loopRegion = null;
+    this.lastKnownPosition = 0;
+    this.updateTimeline(0, 0);
+    this.playbackGeneration++;
+    
+    if (this.audioWorkletNode) {
+      if (wasAudible) {
+        await this.postFadeRequest({ type: 'PAUSE' }, this.fadeOptions.pause!);
+      }
+      this.audioWorkletNode.port.postMessage({ type: 'STOP' });
+    }
+    this.audioBuffers.enforceBudget();
+  }
+
+  /**
+   * Resume a paused track - an ended one plays again from the start
+   */
+  async resume(): Promise<void> {
+    const ended = this.stateMachine.getState() === 'ended';
+    this.stateMachine.send('resume');
+    if (this.deferStart({ pause: false })) return;
+    if (ended) {
+      this.rewindEndedTrack();
+    }
+    this.audioWorkletNode?.port.postMessage({ type: 'PLAY' });
+  }
+
+  /**
+   * Seek with a short fade-out/fade-in while playing; resolves once the jump has happened
+   * During instant playback a seek past the downloaded audio fetches from there and buffers until it arrives
+   * Seeking after the track ended leaves it paused at the new position
+   */
+  async seek(time: number): Promise<void> {
+    this.stateMachine.send('seek');
+    if (this.deferStart({ seekTime: time })) return;
+    if (this.audioWorkletNode) {
+      if (this.currentTrackId) {
+        this.bufferStreamingTrackAt(this.currentTrackId, time);
+      }
+      await this.postFadeRequest({ type: 'SEEK', time }, this.fadeOptions.seek!);
+    }
+  }
+
+  /**
+   * Resume (or keep playing) while ramping up to full level over the given time
+   */
+  async fadeIn(ms: number): Promise<void> {
+    const ended = this.stateMachine.getState() === 'ended';
+    this.stateMachine.send('resume');
+    if (this.deferStart({ pause: false })) return;
+    if (ended) {
+      this.rewindEndedTrack();
+    }
+    if (this.audioWorkletNode) {
+      await this.postFadeRequest({ type: 'PLAY', fadeMs: ms }, ms);
+    }
+  }
+
+  /**
+   * Ramp down over the given time, then pause
+   */
+  async fadeOut(ms: number): Promise<void> {
+    this.stateMachine.send('pause');
+    if (this.deferStart({ pause: true })) return;
+    if (this.audioWorkletNode) {
+      await this.postFadeRequest({ type: 'PAUSE', fadeMs: ms }, ms);
+    }
+  }
+
+  // Nothing is playing yet while a track loads - remember the call for startTrack()
+  private deferStart(change: { pause?: boolean; seekTime?: number }): boolean {
+    if (this.stateMachine.getState() !== 'loading') return false;
+    this.deferredStart = { pause: false, seekTime: null, ...this.deferredStart, ...change };
+    return true;
+  }
+
+  // Start the worklet on a buffer that was just set, applying pause()/seek() calls made while it loaded
+  private startTrack(trackId: string): void {
+    const deferred = this.deferredStart;
+    this.deferredStart = null;
+    if (deferred && deferred.seekTime !== null) {
+      this.bufferStreamingTrackAt(trackId, deferred.seekTime);
+      this.audioWorkletNode!.port.postMessage({ type: 'SEEK', time: deferred.seekTime });
+    }
+    if (deferred?.pause) {
+      this.stateMachine.send('cue', trackId);
+      return;
+    }
+    this.audioWorkletNode!.port.postMessage({ type: 'PLAY' });
+    this.stateMachine.send('play', trackId);
+  }
+
+  // The worklet stops at the end of the track - jump back so PLAY has something to play
+  private rewindEndedTrack(): void {
+    if (this.currentTrackId) {
+      this.bufferStreamingTrackAt(this.currentTrackId, 0);
+    }
+    this.audioWorkletNode?.port.postMessage({ type: 'SEEK', time: 0 });
+  }
+
+  /**
+   * Change the declick fade lengths (ms, 0 disables a fade)
+   */
+  setFadeOptions(fades: FadeOptions): void {
+    this.fadeOptions = { ...this.fadeOptions, ...fades };
+    this.postFadeOptions();
+  }
+
+  private postFadeOptions(): void {
+    this.audioWorkletNode?.port.postMessage({
+      type: 'SET_FADE_CONFIG',
+      config: {
+        pauseMs: this.fadeOptions.pause,
+        resumeMs: this.fadeOptions.resume,
+        seekMs: this.fadeOptions.seek,
+        trackChangeMs: this.fadeOptions.trackChange
+      }
+    });
+  }
+
+  // Post a message the worklet answers with FADE_COMPLETE once its fade (and any pause/seek it carries) is done
+  private postFadeRequest(message: Record<string, unknown>, fadeMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const requestId = Math.random().toString(36).substr(2, 9);
+      const context = this.audioContext;
+      let fallback: ReturnType<typeof setTimeout> | null = null;
+
+      const complete = () => {
+        if (fallback !== null) clearTimeout(fallback);
+        context?.removeEventListener('statechange', onStateChange);
+        this.fadeRequestResolvers.delete(requestId);
+        resolve();
+      };
+      // The worklet doesn't render while the context is suspended or closed - only then give up waiting after a timeout
+      const onStateChange = () => {
+        if (fallback !== null) clearTimeout(fallback);
+        fallback = context && context.state !== 'running' ? setTimeout(complete, fadeMs + 500) : null;
+      };
+
+      this.fadeRequestResolvers.set(requestId, complete);
+      context?.addEventListener('statechange', onStateChange);
+      onStateChange();
+      this.audioWorkletNode!.port.postMessage({ ...message, requestId });
+    });
+  }
+
+  setVolume(volume: number): void {
+    if (this.gainNode) {
+      this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
+    }
+  }
+
+  /**
+   * Seconds into the current track at what is audible right now - extrapolated from the worklet's last published position
+   */
+  getCurrentTime(): number {
+    return this.getPlaybackPosition().currentTime;
+  }
+
+  /**
+   * Sample-accurate position for lyric and visual sync, without a round trip to the worklet
+   * Reads shared memory on cross-origin isolated pages and timestamped worklet messages elsewhere
+   */
+  getPlaybackPosition(): PlaybackPosition {
+    const position = this.currentTrackId ? this.playbackClock?.read() : null;
+    if (position) {
+      return position;
+    }
+    return {
+      currentTime: this.lastKnownPosition,
+      duration: this.timeline.duration,
+      playing: false,
+      rate: 0,
+      source: 'message'
+    };
+  }
+
+  /**
+   * Position and duration on the buffer, original (untrimmed) and effective (skipped silence left out) timelines,
+   * as of the last timeupdate
+   */
+  getTimeline(): PlaybackTimeline {
+    return { ...this.timeline };
+  }
+
+  /**
+   * Fast-forward through quiet passages - the playing track is rescanned with the new settings
+   * Skips are reported by 'silenceskip'; timeupdate's effectiveTime/effectiveDuration leave the skipped time out
+   */
+  setSkipSilence(options: SkipSilenceOptions): void {
+    this.skipSilence = { ...this.skipSilence, ...options };
+    this.postSkipSilence();
+  }
+
+  getSkipSilence(): Required<SkipSilenceOptions> {
+    return { ...this.skipSilence };
+  }
+
+  /**
+   * Seconds of leading/trailing silence removed from a decoded track (null when it wasn't trimmed)
+   */
+  getSilenceTrim(trackId: string): SilenceTrim | null {
+    const trim = this.trackTrims.get(trackId);
+    return trim ? { ...trim } : null;
+  }
+
+  /**
+   * Name a track was loaded with, falling back to its stored metadata
+   */
+  async getTrackName(trackId: string): Promise<string | null> {
+    const name = this.trackNames.get(trackId);
+    if (name) return name;
+
+    const metadata = this.chunkStore ? await this.chunkStore.getMetadata(trackId) : null;
+    return metadata?.name && metadata.name !== 'Unknown' ? metadata.name : null;
+  }
+
+  /**
+   * Waveform peaks of a track - from memory, or from the chunk store for cached tracks
+   * Streaming tracks return the peaks decoded so far; listen to 'peaks' to redraw as they fill in
+   */
+  async getPeaks(trackId: string): Promise<WaveformPeaks | null> {
+    const peaks = this.trackPeaks.get(trackId);
+    if (peaks || !this.peaksOptions) return peaks || null;
+
+    const data = this.chunkStore ? await this.chunkStore.getPeaks(trackId) : null;
+    if (!data) return null;
+
+    const restored = WaveformPeaks.fromData(data);
+    if (this.audioBuffers.has(trackId)) {
+      this.trackPeaks.set(trackId, restored);
+    }
+    return restored;
+  }
+
+  /**
+   * Change loudness normalization - the playing, staged and fading tracks glide to their new gains
+   */
+  setNormalization(options: NormalizationOptions): void {
+    this.normalization = { ...this.normalization, ...options };
+    this.refreshTrackGains();
+  }
+
+  getNormalization(): Required<NormalizationOptions> {
+    return { ...this.normalization };
+  }
+
+  /**
+   * Normalization gain in dB a track gets under the current settings (0 until it is measured or its tags are read)
+   */
+  getNormalizationGain(trackId: string): number {
+    const loudness = this.trackLoudness.get(trackId);
+    if (!loudness) return 0;
+
+    const albumId = this.trackAlbums.get(trackId);
+    const albumLoudness = this.normalization.mode === 'album' && albumId !== undefined
+      ? LoudnessAnalyzer.getAlbumLoudness(this.getAlbumLoudnessInfo(albumId))
+      : undefined;
+    return LoudnessAnalyzer.getNormalizationGain(loudness, this.normalization, albumLoudness);
+  }
+
+  /**
+   * Loudness measurement and tags of a track - from memory, or from the chunk store for cached tracks
+   */
+  async getLoudness(trackId: string): Promise<LoudnessInfo | null> {
+    const loudness = this.trackLoudness.get(trackId);
+    if (loudness) return loudness;
+
+    return this.chunkStore ? this.chunkStore.getLoudness(trackId) : null;
+  }
+
+  /**
+   * Group a track with its album for album-mode normalization (null removes it)
+   * Without album tags, the album gain comes from the measured tracks of the album loaded so far
+   */
+  setTrackAlbum(trackId: string, albumId: string | null): void {
+    if (albumId === null) {
+      this.trackAlbums.delete(trackId);
+    } else {
+      this.trackAlbums.set(trackId, albumId);
+    }
+    if (this.normalization.mode === 'album') {
+      this.refreshTrackGains();
+    }
+  }
+
+  /**
+   * Audio outputs that setOutputDevice() accepts (labels may be empty until the page has media permission)
+   */
+  async listOutputDevices(): Promise<AudioOutputDevice[]> {
+    if (!this.outputDevice) {
+      throw new Error('Output device selection is disabled');
+    }
+    return this.outputDevice.listDevices();
+  }
+
+  /**
+   * Play through a specific output device ('' for the system default)
+   * The choice is remembered and restored by later sessions, falling back to the default while the device is missing
+   */
+  async setOutputDevice(deviceId: string): Promise<void> {
+    if (!this.outputDevice) {
+      throw new Error('Output device selection is disabled');
+    }
+    await this.outputDevice.setDevice(deviceId);
+  }
+
+  /**
+   * Device playback goes to now ('' is the system default) - differs from the chosen one while it is unplugged
+   */
+  getOutputDevice(): string {
+    if (!this.outputDevice) return '';
+    return this.isInitialized ? this.outputDevice.getDeviceId() : this.outputDevice.getPreferredDeviceId();
+  }
+
+  /**
+   * Whether this browser can route playback to a chosen output device (AudioContext.setSinkId)
+   */
+  isOutputDeviceSelectionSupported(): boolean {
+    return this.outputDevice !== null && OutputDeviceController.isSupported();
+  }
+
+  /**
+   * Media Session integration created by the mediaSession option (null when disabled)
+   */
+  getMediaSession(): MediaSessionController | null {
+    return this.mediaSession;
+  }
+
+  /**
+   * Render part of a track to a WAV file with its normalization gain and the current effects applied
+   * PCM comes from memory or the chunk store and is rendered in blocks, so long regions stay within memory limits
+   */
+  async exportRegion(trackId: string, options: ExportRegionOptions = {}): Promise<Blob> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    
+    // A streaming track only has its first chunk in audioBuffers
+    const audioBuffer = this.streamingTracks.has(trackId) ? undefined : this.audioBuffers.get(trackId);
+    let source: PcmSource | null = audioBuffer ? AudioExporter.fromAudioBuffer(audioBuffer) : null;
+    let offset = 0;
+    let length = source?.length ?? 0;
+    
+    if (!source && this.chunkStore) {
+      source = await this.chunkStore.createPcmSource(trackId);
+      // Stored audio isn't silence-trimmed - map the playback timeline onto it
+      const trim = this.trackTrims.get(trackId);
+      if (source) {
+        offset = Math.round((trim?.start ?? 0) * source.sampleRate);
+        length = source.length - offset - Math.round((trim?.end ?? 0) * source.sampleRate);
+      }
+    }
+    if (!source) {
+      throw new Error(`Audio not found for track: ${trackId}`);
+    }
+    
+    const start = options.start ?? 0;
+    const end = Math.min(options.end ?? Infinity, length / source.sampleRate);
+    if (start < 0 || end <= start) {
+      throw new Error(`Invalid export region: ${start}s-${options.end ?? end}s`);
+    }
+    
+    const preset = options.effects !== false && this.effectsChain ? this.effectsChain.getPreset() : null;
+    const blob = await AudioExporter.exportWav(source, offset + Math.round(start * source.sampleRate), offset + Math.round(end * source.sampleRate), {
+      format: options.format,
+      gain: options.normalize === false ? 1 : this.getTrackGain(trackId),
+      createGraph: preset && preset.effects.length > 0
+        ? (context) => {
+            const chain = new EffectsChain(context, { crossfadeTime: 0 });
+            chain.loadPreset(preset);
+            return chain;
+          }
+        : undefined,
+      signal: options.signal,
+      onProgress: options.onProgress
+    });
+    
+    console.log(`[WebAudioManager] Exported ${trackId} ${start.toFixed(2)}s-${end.toFixed(2)}s as ${options.format ?? 'wav16'} (${(blob.size / 1024).toFixed(0)}KB)`);
+    return blob;
+  }
+
+  private postSkipSilence(): void {
+    this.audioWorkletNode?.port.postMessage({ type: 'SET_SKIP_SILENCE', options: this.skipSilence });
+  }
+
+  // Buffer times from the worklet mapped onto the original timeline of the current track
+  private updateTimeline(currentTime: number, duration: number, effectiveTime: number = currentTime, effectiveDuration: number = duration): void {
+    const trim = this.currentTrackId ? this.trackTrims.get(this.currentTrackId) : undefined;
+    const start = trim?.start ?? 0;
+    const end = trim?.end ?? 0;
+    this.timeline = {
+      currentTime,
+      duration,
+      originalTime: currentTime + start,
+      originalDuration: duration > 0 ? duration + start + end : 0,
+      effectiveTime,
+      effectiveDuration
+    };
+  }
+
+  private static getTrimOptions(option: boolean | SilenceTrimOptions | undefined): SilenceTrimOptions | null | undefined {
+    if (option === undefined) return undefined;
+    if (option === false) return null;
+    return option === true ? {} : option;
+  }
+
+  private rememberTrimOptions(trackId: string, option: boolean | SilenceTrimOptions | undefined): void {
+    const options = WebAudioManager.getTrimOptions(option);
+    if (options !== undefined) {
+      this.trackTrimOptions.set(trackId, options);
+    }
+  }
+
+  // A track's own trimSilence, else the manager default (null: no trimming)
+  private getTrackTrimOptions(trackId: string): SilenceTrimOptions | null {
+    const options = this.trackTrimOptions.get(trackId);
+    return options !== undefined ? options : this.trimSilence;
+  }
+
+  // Trim a decoded track's silence when its settings ask for it, remembering how much went
+  private trimTrackSilence(trackId: string, audioBuffer: AudioBuffer): AudioBuffer {
+    const options = this.getTrackTrimOptions(trackId);
+    if (!options) {
+      this.trackTrims.delete(trackId);
+      return audioBuffer;
+    }
+
+    const { audioBuffer: trimmed, trim } = SilenceTrimmer.trim(this.audioContext!, audioBuffer, options);
+    this.trackTrims.set(trackId, trim);
+    return trimmed;
+  }
+
+  private getTrackGain(trackId: string): number {
+    return Math.pow(10, this.getNormalizationGain(trackId) / 20);
+  }
+
+  private getAlbumLoudnessInfo(albumId: string): LoudnessInfo[] {
+    const tracks: LoudnessInfo[] = [];
+    for (const [trackId, trackAlbumId] of this.trackAlbums) {
+      const loudness = this.trackLoudness.get(trackId);
+      if (trackAlbumId === albumId && loudness) {
+        tracks.push(loudness);
+      }
+    }
+    return tracks;
+  }
+
+  // Send current gains for every voice the worklet may be playing
+  private refreshTrackGains(): void {
+    const trackIds = new Set([this.currentTrackId, this.stagedTrackId, this.fadingTrackId]);
+    for (const trackId of trackIds) {
+      if (trackId) {
+        this.audioWorkletNode?.port.postMessage({ type: 'SET_TRACK_GAIN', trackId, gain: this.getTrackGain(trackId) });
+      }
+    }
+  }
+
+  private setTrackLoudness(trackId: string, loudness: LoudnessInfo): void {
+    this.trackLoudness.set(trackId, loudness);
+    this.emit('loudness', { trackId, loudness, gain: this.getNormalizationGain(trackId) });
+  }
+
+  // Measure a decoded track once, keeping tags read earlier (e.g. from the first streamed chunk)
+  private async measureTrackLoudness(trackId: string, audioBuffer: AudioBuffer, replayGain: ReplayGainInfo | null): Promise<void> {
+    const known = this.trackLoudness.get(trackId);
+    if (known && known.integratedLoudness !== null) return;
+
+    const measured = await LoudnessAnalyzer.analyzeAsync(audioBuffer);
+    const tags = replayGain || known?.replayGain;
+    this.setTrackLoudness(trackId, tags ? { ...measured, replayGain: tags } : measured);
+  }
+
+  // Loudness of a track loaded from the chunk store - measured and saved once for tracks stored without it
+  private async restoreLoudness(trackId: string, audioBuffer: AudioBuffer): Promise<void> {
+    const known = this.trackLoudness.get(trackId);
+    if (known && known.integratedLoudness !== null) return;
+
+    try {
+      const stored = this.chunkStore ? await this.chunkStore.getLoudness(trackId) : null;
+      if (stored) {
+        this.setTrackLoudness(trackId, stored);
+        return;
+      }
+      await this.measureTrackLoudness(trackId, audioBuffer, null);
+      await this.chunkStore?.saveLoudness(trackId, this.trackLoudness.get(trackId)!);
+    } catch (error) {
+      console.warn(`[WebAudioManager] Failed to restore loudness for ${trackId}:`, error);
+    }
+  }
+
+  // Peaks of a fully decoded track
+  private setTrackPeaks(trackId: string, audioBuffer: AudioBuffer): void {
+    if (!this.peaksOptions) return;
+
+    const peaks = WaveformPeaks.fromAudioBuffer(audioBuffer, this.peaksOptions);
+    this.trackPeaks.set(trackId, peaks);
+    this.emit('peaks', { trackId, peaks, complete: true });
+  }
+
+  // Peaks of a track loaded from the chunk store - computed and saved once for tracks stored without them
+  private async restorePeaks(trackId: string, audioBuffer: AudioBuffer): Promise<void> {
+    if (!this.peaksOptions || !this.chunkStore) return;
+
+    try {
+      // Stored peaks cover the untrimmed audio - a trimmed track gets its own, which aren't saved
+      const trim = this.trackTrims.get(trackId);
+      if (trim && (trim.start > 0 || trim.end > 0)) {
+        this.setTrackPeaks(trackId, audioBuffer);
+        return;
+      }
+      
+      const data = await this.chunkStore.getPeaks(trackId);
+      if (data) {
+        const peaks = WaveformPeaks.fromData(data);
+        this.trackPeaks.set(trackId, peaks);
+        this.emit('peaks', { trackId, peaks, complete: true });
+      } else {
+        this.setTrackPeaks(trackId, audioBuffer);
+        await this.chunkStore.savePeaks(trackId, this.trackPeaks.get(trackId)!.getData());
+      }
+    } catch (error) {
+      console.warn(`[WebAudioManager] Failed to restore waveform peaks for ${trackId}:`, error);
+    }
+  }
+
+  // Peaks of a streaming track start with its first chunk and fill in as later chunks are decoded
+  private beginStreamingPeaks(trackId: string, firstBuffer: AudioBuffer): void {
+    if (!this.peaksOptions) return;
+
+    this.trackPeaks.set(trackId, new WaveformPeaks(firstBuffer.sampleRate, firstBuffer.numberOfChannels, this.peaksOptions));
+    this.appendStreamingPeaks(trackId, firstBuffer, 0);
+  }
+
+  private appendStreamingPeaks(trackId: string, audioBuffer: AudioBuffer, startSample: number): void {
+    const peaks = this.trackPeaks.get(trackId);
+    if (!peaks) return;
+
+    peaks.appendBuffer(audioBuffer, startSample);
+    this.emit('peaks', { trackId, peaks, complete: false });
+  }
+
+  // 'Unknown' is the placeholder default of preloadAudio, not a real name
+  private rememberTrackName(trackId: string, name: string | undefined): void {
+    if (name && name !== 'Unknown') {
+      this.trackNames.set(trackId, name);
+    }
+  }
+
+  /**
+   * Effects between playback and the volume control (null until initialized)
+   */
+  getEffectsChain(): EffectsChain | null {
+    return this.effectsChain;
+  }
+
+  /**
+   * Tap the graph for visualisers - spectrum, waveform and per-channel levels
+   * The analyser survives track changes and re-initialization; created before initialize(), it reads silence until then
+   */
+  createAnalyser(options: AnalyserOptions = {}): AudioAnalyser {
+    const analyser: AudioAnalyser = new AudioAnalyser(options, () => this.analysers.delete(analyser));
+    this.analysers.add(analyser);
+    this.attachAnalyser(analyser);
+    return analyser;
+  }
+
+  private attachAnalyser(analyser: AudioAnalyser): void {
+    const source = analyser.tap === 'output' ? this.gainNode : this.audioWorkletNode;
+    if (this.audioContext && source) {
+      analyser.attach(this.audioContext, source);
+    }
+  }
+
+  /**
+   * Change playback speed (0.25x-4x)
+   * preservePitch (default) time-stretches so voices keep their pitch; false resamples like a tape (varispeed)
+   * Times reported by timeupdate and accepted by seek() stay in track time at any rate
+   */
+  setPlaybackRate(rate: number, options: { preservePitch?: boolean } = {}): void {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid playback rate: ${rate}`);
+    }
+
+    this.playbackRate = Math.max(0.25, Math.min(4, rate));
+    this.preservePitch = options.preservePitch !== false;
+    this.postPlaybackRate();
+    this.emit('ratechange', { playbackRate: this.playbackRate, preservePitch: this.preservePitch });
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  /**
+   * Loop a region of the current track sample-accurately, with a short crossfade at the seam
+   * Seeking past the loop end plays on; seeking back before it resumes looping
+   */
+  setLoop(region: LoopRegion): void {
+    if (!(region.start >= 0) || !(region.end > region.start)) {
+      throw new Error(`Invalid loop region: ${region.start}s-${region.end}s`);
+    }
+
+    this.loopRegion = { region: { ...region }, trackId: this.currentTrackId };
+    this.audioWorkletNode?.port.postMessage({
+      type: 'SET_LOOP',
+      start: region.start,
+      end: region.end,
+      crossfadeMs: region.crossfadeMs ?? 10
+    });
+  }
+
+  clearLoop(): void {
+    this.loopRegion = null;
+    this.audioWorkletNode?.port.postMessage({ type: 'CLEAR_LOOP' });
+  }
+
+  getLoop(): LoopRegion | null {
+    if (!this.loopRegion || this.loopRegion.trackId !== this.currentTrackId) {
+      return null;
+    }
+    return { ...this.loopRegion.region };
+  }
+
+  private postPlaybackRate(): void {
+    this.audioWorkletNode?.port.postMessage({
+      type: 'SET_PLAYBACK_RATE',
+      rate: this.playbackRate,
+      preservePitch: this.preservePitch
+    });
+  }
+
+  /**
+   * Current playback state (transitions are reported through the statechange event)
+   */
+  getState(): PlaybackState {
+    return this.stateMachine.getState();
+  }
+
+  /**
+   * Same as getState()
+   */
+  getPlaybackStatus(): PlaybackStatus {
+    return this.stateMachine.getState();
+  }
+
+  /**
+   * Report an error through the onError option and the error event
+   */
+  private reportError(error: Error, trackId: string | null = null): void {
+    this.onError?.(error);
+    this.emit('error', { error, trackId });
+  }
+
+  /**
+   * Stage a track to start on the exact sample after the current track ends (gapless playback)
+   * The track must be loaded, cached, or loadable from the given url
+   * @param trackId The track to play next
+   * @param url Optional source used when the track is not loaded yet
+   */
+  async enqueueNext(trackId: string, url?: string, options: LoadOptions = {}): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    
+    const generation = this.playbackGeneration;
+    this.rememberTrimOptions(trackId, options.trimSilence);
+    let audioBuffer = this.audioBuffers.get(trackId) || null;
+    
+    if (!audioBuffer && this.chunkStore && await this.chunkStore.isStored(trackId)) {
+      audioBuffer = await this.chunkStore.getAudioBuffer(trackId);
+      if (audioBuffer) {
+        audioBuffer = this.trimTrackSilence(trackId, audioBuffer);
+        this.audioBuffers.set(trackId, audioBuffer);
+      }
+    }
+    
+    if (!audioBuffer && url) {
+      audioBuffer = await this.loadAudio(url, trackId, undefined, options);
+    }
+    options.signal?.throwIfAborted();
+    
+    if (!audioBuffer) {
+      throw new Error(`Audio buffer not found for track: ${trackId}`);
+    }
+    await this.restoreLoudness(trackId, audioBuffer);
+    
+    // Another track was started while loading - this request no longer follows the current track
+    if (generation !== this.playbackGeneration) {
+      console.log(`[WebAudioManager] Dropping stale enqueueNext for ${trackId}`);
+      return;
+    }
+    
+    const channelData: Float32Array[] = [];
+    for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+      channelData.push(audioBuffer.getChannelData(i));
+    }
+    
+    this.audioWorkletNode!.port.postMessage({
+      type: 'STAGE_NEXT_TRACK',
+      trackId,
+      channelData,
+      sampleRate: audioBuffer.sampleRate,
+      numberOfChannels: audioBuffer.numberOfChannels,
+      totalSamples: audioBuffer.length,
+      trackGain: this.getTrackGain(trackId)
+    });
+    
+    this.stagedTrackId = trackId;
+    console.log(`[WebAudioManager] Enqueued ${trackId} for gapless playback after ${this.currentTrackId}`);
+  }
+
+  /**
+   * Fade from the current track into another one, overlapping both for the fade duration
+   * Works with tracks that are still downloading on either side
+   * @param trackId The track to fade in
+   * @param options Fade duration/curve, plus a url to stream from when the track is not loaded
+   */
+  async crossfadeTo(trackId: string, options: CrossfadeOptions = {}): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    this.rememberTrackName(trackId, options.name);
+    this.rememberTrimOptions(trackId, options.trimSilence);
+    
+    let audioBuffer = this.streamingTracks.has(trackId) ? null : this.audioBuffers.get(trackId) || null;
+    
+    if (!audioBuffer && this.chunkStore && await this.chunkStore.isStored(trackId)) {
+      audioBuffer = await this.chunkStore.getAudioBuffer(trackId);
+      if (audioBuffer) {
+        audioBuffer = this.trimTrackSilence(trackId, audioBuffer);
+        this.audioBuffers.set(trackId, audioBuffer);
+      }
+    }
+    
+    if (audioBuffer) {
+      await this.restoreLoudness(trackId, audioBuffer);
+      this.postCrossfade(trackId, audioBuffer, options, false);
+      return;
+    }
+    
+    if (!options.url) {
+      throw new Error(`Audio buffer not found for track: ${trackId}`);
+    }
+    
+    // Stream the incoming track - the fade starts as soon as its first chunk decodes
+    await this.playInstantly(options.url, trackId, options.name || 'Unknown', { crossfade: options, signal: options.signal });
+  }
+
+  /**
+   * Load a whole track, then crossfade into it
+   */
+  private async crossfadeToLoaded(url: string, trackId: string, options: CrossfadeOptions, signal?: AbortSignal): Promise<void> {
+    const audioBuffer = await this.loadAudio(url, trackId, undefined, { signal });
+    this.postCrossfade(trackId, audioBuffer, options, false);
+  }
+
+  /**
+   * Hand the worklet a new track to fade in over the current one
+   */
+  private postCrossfade(trackId: string, audioBuffer: AudioBuffer, options: CrossfadeOptions, streaming: boolean): void {
+    const previousTrackId = this.currentTrackId;
+    this.abortTrackLoads([trackId, previousTrackId]);
+    this.audioBuffers.touch(trackId);
+    this.fadingTrackId = previousTrackId !== trackId ? previousTrackId : null;
+    this.currentTrackId = trackId;
+    this.stagedTrackId = null;
+    this.playbackGeneration++;
+    
+    const channelData: Float32Array[] = [];
+    for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+      channelData.push(audioBuffer.getChannelData(i));
+    }
+    
+    this.audioWorkletNode!.port.postMessage({
+      type: 'CROSSFADE',
+      trackId,
+      channelData,
+      sampleRate: audioBuffer.sampleRate,
+      numberOfChannels: audioBuffer.numberOfChannels,
+      totalSamples: audioBuffer.length,
+      streaming,
+      trackGain: this.getTrackGain(trackId),
+      duration: Math.max(0, options.duration ?? 3),
+      curve: options.curve || 'equal-power'
+    });
+    this.stateMachine.send('play', trackId);
+    
+    console.log(`[WebAudioManager] Crossfading ${previousTrackId} -> ${trackId} (${options.duration ?? 3}s, ${options.curve || 'equal-power'})`);
+  }
+
+  /**
+   * Remove the track staged by enqueueNext
+   */
+  clearNextTrack(): void {
+    if (!this.stagedTrackId) return;
+    
+    this.audioWorkletNode?.port.postMessage({ type: 'CLEAR_NEXT_TRACK' });
+    this.stagedTrackId = null;
+  }
+
+  /**
+   * Get the track staged by enqueueNext (null if none)
+   */
+  getNextTrackId(): string | null {
+    return this.stagedTrackId;
+  }
+
+  /**
+   * Free a track's decoded audio (the IndexedDB copy is kept)
+   * A playing track is stopped first and a staged one is removed from the gapless queue
+   * @returns Whether the track had anything in memory
+   */
+  async unload(trackId: string): Promise<boolean> {
+    if (trackId === this.currentTrackId) {
+      await this.stop();
+    } else if (trackId === this.stagedTrackId) {
+      this.clearNextTrack();
+    }
+    
+    const load = this.trackLoads.get(trackId);
+    if (load) {
+      load.abort();
+      this.trackLoads.delete(trackId);
+    }
+    
+    const wasLoaded = this.audioBuffers.has(trackId) || this.streamingTracks.has(trackId);
+    this.audioBuffers.delete(trackId);
+    this.streamingTracks.delete(trackId);
+    this.streamingSources.delete(trackId);
+    this.trackPeaks.delete(trackId);
+    this.trackTrims.delete(trackId);
+    return wasLoaded;
+  }
+
+  /**
+   * Decoded audio held in memory, per track, against the budget
+   */
+  getMemoryUsage(): WebAudioMemoryUsage {
+    let streamingBytes = 0;
+    for (const [trackId, streamingTrack] of this.streamingTracks) {
+      const cached = this.audioBuffers.get(trackId);
+      for (const segment of streamingTrack.segments) {
+        if (segment !== cached) {
+          streamingBytes += AudioBufferCache.getByteSize(segment);
+        }
+      }
+    }
+    return { ...this.audioBuffers.getUsage(), streamingBytes };
+  }
+
+  /**
+   * Pin the tracks that are about to play so the memory budget never evicts them
+   * Replaces the previous list - PlaybackQueue keeps this in sync with its upcoming entries
+   */
+  setQueuedTracks(trackIds: string[]): void {
+    this.queuedTrackIds = new Set(trackIds);
+    this.audioBuffers.enforceBudget();
+  }
+
+  /**
+   * Change the memory budget, evicting least-recently-played tracks down to it
+   * @returns Evicted track IDs
+   */
+  setMemoryBudget(budget: MemoryBudget): string[] {
+    return this.audioBuffers.setBudget(budget);
   }
 
   /**
@@ -888,6 +2610,11 @@ export class WebAudioManager {
    * @returns Duration in seconds, or null if not loaded
    */
   getBufferDuration(trackId: string): number | null {
+    const streamingTrack = this.streamingTracks.get(trackId);
+    if (streamingTrack) {
+      return streamingTrack.totalSamples / streamingTrack.segments[0].sampleRate;
+    }
+    
     const audioBuffer = this.audioBuffers.get(trackId);
     return audioBuffer ? audioBuffer.duration : null;
   }
@@ -968,522 +2695,6 @@ export class WebAudioManager {
     return true;
   }
 
-  // Load first chunk for instant playback with Range requests
-  private async loadFirstChunk(session: InstantPlaybackSession, onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void): Promise<AudioBuffer> {
-    const startTime = Date.now();
-    const targetInitialSize = this.instantPlaybackConfig.playbackChunkSize || 384 * 1024;
-    
-    try {
-      // First, try Range request for just the initial chunk
-      const rangeSupported = await this.checkRangeSupport(session.url);
-      
-      if (rangeSupported) {
-        return await this.loadFirstChunkWithRangeRequest(session, startTime, targetInitialSize, onChunkLoaded);
-      } else {
-        return await this.loadFirstChunkWithProgressiveDownload(session, startTime, targetInitialSize, onChunkLoaded);
-      }
-    } catch (error) {
-      console.warn(`[WebAudioManager] Range request failed, falling back to progressive download: ${error}`);
-      return await this.loadFirstChunkWithProgressiveDownload(session, startTime, targetInitialSize, onChunkLoaded);
-    }
-  }
-  
-  // Check if server supports Range requests
-  private async checkRangeSupport(url: string): Promise<boolean> {
-    try {
-      const response = await fetch(url, { method: 'HEAD' });
-      const acceptRanges = response.headers.get('accept-ranges');
-      const contentLength = response.headers.get('content-length');
-      
-      return acceptRanges === 'bytes' && contentLength !== null;
-    } catch (error) {
-      console.warn(`[WebAudioManager] Range support check failed: ${error}`);
-      return false;
-    }
-  }
-  
-  // Load first chunk using Range request
-  private async loadFirstChunkWithRangeRequest(
-    session: InstantPlaybackSession,
-    startTime: number,
-    targetInitialSize: number,
-    onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void
-  ): Promise<AudioBuffer> {
-    console.log(`[WebAudioManager] Using Range request for initial chunk (${(targetInitialSize / 1024).toFixed(1)}KB)`);
-    
-    // Request only the initial chunk
-    const response = await fetch(session.url, {
-      headers: {
-        'Range': `bytes=0-${targetInitialSize - 1}`
-      }
-    });
-    
-    if (!response.ok && response.status !== 206) {
-      throw new Error(`Failed to fetch initial chunk: ${response.status}`);
-    }
-    
-    const chunkBuffer = await response.arrayBuffer();
-    
-    // Try to decode the partial chunk
-    let audioBuffer: AudioBuffer;
-    try {
-      audioBuffer = await this.audioContext!.decodeAudioData(chunkBuffer);
-    } catch (error) {
-      // If partial decode fails, get more data
-      console.warn(`[WebAudioManager] Partial decode failed, requesting larger chunk: ${error}`);
-      
-      const largerSize = targetInitialSize * 2;
-      const largerResponse = await fetch(session.url, {
-        headers: {
-          'Range': `bytes=0-${largerSize - 1}`
-        }
-      });
-      
-      if (!largerResponse.ok && largerResponse.status !== 206) {
-        throw new Error(`Failed to fetch larger chunk: ${largerResponse.status}`);
-      }
-      
-      const largerBuffer = await largerResponse.arrayBuffer();
-      audioBuffer = await this.audioContext!.decodeAudioData(largerBuffer);
-    }
-    
-    const loadTime = Date.now() - startTime;
-    console.log(`[WebAudioManager] Initial chunk loaded via Range request in ${loadTime}ms (${(chunkBuffer.byteLength / 1024).toFixed(1)}KB)`);
-    
-    // Get file size for calculating total chunks
-    const fileSize = await this.getFileSize(session.url);
-    const estimatedTotalChunks = Math.ceil(fileSize / targetInitialSize);
-    
-    // Store metadata for session
-    session.metadata = {
-      duration: audioBuffer.duration,
-      sampleRate: audioBuffer.sampleRate,
-      numberOfChannels: audioBuffer.numberOfChannels,
-      totalSamples: audioBuffer.length
-    };
-    
-    session.loadedChunks.add(0);
-    session.audioBuffer = audioBuffer;
-    session.totalChunks = estimatedTotalChunks;
-    
-    // Start loading remaining chunks in background
-    this.loadRemainingChunksWithRangeRequests(session, fileSize, targetInitialSize, onChunkLoaded);
-    
-    onChunkLoaded?.(0, estimatedTotalChunks);
-    
-    return audioBuffer;
-  }
-  
-  // Load first chunk using progressive download (fallback)
-  private async loadFirstChunkWithProgressiveDownload(
-    session: InstantPlaybackSession,
-    startTime: number,
-    targetInitialSize: number,
-    onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void
-  ): Promise<AudioBuffer> {
-    console.log(`[WebAudioManager] Using progressive download for initial chunk`);
-    
-    const response = await fetch(session.url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch audio file: ${response.status}`);
-    }
-    
-    if (!response.body) {
-      throw new Error('ReadableStream not supported');
-    }
-    
-    const reader = response.body.getReader();
-    const chunks: Uint8Array[] = [];
-    let loaded = 0;
-    
-    // Read until we have enough for initial playback
-    let hasEnoughForPlayback = false;
-    
-    while (!hasEnoughForPlayback) {
-      const { done, value } = await reader.read();
-      
-      if (done) {
-        hasEnoughForPlayback = true;
-        break;
-      }
-      
-      chunks.push(value);
-      loaded += value.length;
-      
-      // Check if we have enough data to start playback
-      if (loaded >= targetInitialSize) {
-        hasEnoughForPlayback = true;
-      }
-    }
-    
-    // Create partial ArrayBuffer for initial decode
-    const partialBuffer = new ArrayBuffer(loaded);
-    const uint8Array = new Uint8Array(partialBuffer);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      uint8Array.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    // Decode the partial audio data
-    let audioBuffer: AudioBuffer;
-    try {
-      audioBuffer = await this.audioContext!.decodeAudioData(partialBuffer);
-    } catch (error) {
-      // If partial decode fails, try to load more data
-      console.warn(`[WebAudioManager] Partial decode failed, loading more data: ${error}`);
-      
-      // Load the rest of the file
-      const remainingChunks: Uint8Array[] = [];
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        remainingChunks.push(value);
-        loaded += value.length;
-      }
-      
-      // Create complete buffer
-      const completeBuffer = new ArrayBuffer(loaded);
-      const completeUint8Array = new Uint8Array(completeBuffer);
-      let completeOffset = 0;
-      
-      // Copy initial chunks
-      for (const chunk of chunks) {
-        completeUint8Array.set(chunk, completeOffset);
-        completeOffset += chunk.length;
-      }
-      
-      // Copy remaining chunks
-      for (const chunk of remainingChunks) {
-        completeUint8Array.set(chunk, completeOffset);
-        completeOffset += chunk.length;
-      }
-      
-      // Decode complete file
-      audioBuffer = await this.audioContext!.decodeAudioData(completeBuffer);
-    }
-    
-    const loadTime = Date.now() - startTime;
-    console.log(`[WebAudioManager] Initial chunk loaded progressively in ${loadTime}ms (${(loaded / 1024).toFixed(1)}KB)`);
-    
-    // Store metadata for session
-    session.metadata = {
-      duration: audioBuffer.duration,
-      sampleRate: audioBuffer.sampleRate,
-      numberOfChannels: audioBuffer.numberOfChannels,
-      totalSamples: audioBuffer.length
-    };
-    
-    session.loadedChunks.add(0);
-    session.audioBuffer = audioBuffer;
-    session.totalChunks = 1; // For progressive download, we load everything at once
-    
-    // Start loading remaining data in background if we didn't get everything
-    if (loaded < targetInitialSize * 3) { // If we got less than 3x initial size, continue loading
-      this.continueLoadingInBackground(session, reader, chunks, loaded, onChunkLoaded);
-    }
-    
-    onChunkLoaded?.(0, 1);
-    
-    return audioBuffer;
-  }
-  
-  // Get file size
-  private async getFileSize(url: string): Promise<number> {
-    try {
-      const response = await fetch(url, { method: 'HEAD' });
-      const contentLength = response.headers.get('content-length');
-      return contentLength ? parseInt(contentLength, 10) : 0;
-    } catch (error) {
-      console.warn(`[WebAudioManager] Failed to get file size: ${error}`);
-      return 0;
-    }
-  }
-  
-  // Load remaining chunks using Range requests
-  private async loadRemainingChunksWithRangeRequests(
-    session: InstantPlaybackSession,
-    fileSize: number,
-    initialChunkSize: number,
-    onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void
-  ): Promise<void> {
-    if (!session.isActive) return;
-    
-    const subsequentChunkSize = this.instantPlaybackConfig.storageChunkSize || 2 * 1024 * 1024;
-    let currentOffset = initialChunkSize;
-    let chunkIndex = 1;
-    
-    const loadedChunks: AudioBuffer[] = [session.audioBuffer!];
-    
-    try {
-      while (currentOffset < fileSize && session.isActive) {
-        const endOffset = Math.min(currentOffset + subsequentChunkSize - 1, fileSize - 1);
-        
-        console.log(`[WebAudioManager] Loading chunk ${chunkIndex} (${(currentOffset / 1024).toFixed(1)}KB - ${(endOffset / 1024).toFixed(1)}KB)`);
-        
-        const response = await fetch(session.url, {
-          headers: {
-            'Range': `bytes=${currentOffset}-${endOffset}`
-          }
-        });
-        
-        if (!response.ok && response.status !== 206) {
-          throw new Error(`Failed to fetch chunk ${chunkIndex}: ${response.status}`);
-        }
-        
-        const chunkBuffer = await response.arrayBuffer();
-        
-        // For now, we'll decode the full file up to this point
-        // In a more advanced implementation, we'd merge chunks
-        const combinedSize = currentOffset + chunkBuffer.byteLength;
-        const combinedBuffer = new ArrayBuffer(combinedSize);
-        const combinedArray = new Uint8Array(combinedBuffer);
-        
-        // Copy initial chunk(s)
-        const initialResponse = await fetch(session.url, {
-          headers: {
-            'Range': `bytes=0-${currentOffset + chunkBuffer.byteLength - 1}`
-          }
-        });
-        
-        if (initialResponse.ok || initialResponse.status === 206) {
-          const initialBuffer = await initialResponse.arrayBuffer();
-          combinedArray.set(new Uint8Array(initialBuffer));
-          
-          // Decode combined buffer
-          const combinedAudioBuffer = await this.audioContext!.decodeAudioData(combinedBuffer);
-          
-          // Replace buffer seamlessly
-          if (session.isActive && this.currentTrackId === session.trackId) {
-            await this.replaceBufferSeamlessly(session.trackId, combinedAudioBuffer);
-            
-            // Update session
-            session.audioBuffer = combinedAudioBuffer;
-            session.metadata = {
-              duration: combinedAudioBuffer.duration,
-              sampleRate: combinedAudioBuffer.sampleRate,
-              numberOfChannels: combinedAudioBuffer.numberOfChannels,
-              totalSamples: combinedAudioBuffer.length
-            };
-            
-            session.loadedChunks.add(chunkIndex);
-            onChunkLoaded?.(chunkIndex, session.totalChunks);
-          }
-        }
-        
-        currentOffset = endOffset + 1;
-        chunkIndex++;
-        
-        // Add small delay to prevent overwhelming the browser
-        await new Promise(resolve => setTimeout(resolve, 10));
-      }
-      
-      console.log(`[WebAudioManager] Completed loading ${chunkIndex - 1} chunks for ${session.trackId}`);
-      
-    } catch (error) {
-      console.warn(`[WebAudioManager] Range request loading failed: ${error}`);
-    }
-  }
-  
-  // Continue loading remaining data in background
-  private async continueLoadingInBackground(
-    session: InstantPlaybackSession,
-    reader: ReadableStreamDefaultReader<Uint8Array>,
-    initialChunks: Uint8Array[],
-    initialLoaded: number,
-    onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void
-  ): Promise<void> {
-    try {
-      const remainingChunks: Uint8Array[] = [];
-      let totalLoaded = initialLoaded;
-      
-      // Continue reading the stream
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        remainingChunks.push(value);
-        totalLoaded += value.length;
-        
-        // Update session periodically with larger buffer
-        if (remainingChunks.length % 5 === 0) { // Every 5 chunks
-          await this.updateSessionWithLargerBuffer(session, initialChunks, remainingChunks, totalLoaded);
-        }
-      }
-      
-      // Final update with complete buffer
-      if (remainingChunks.length > 0) {
-        await this.updateSessionWithLargerBuffer(session, initialChunks, remainingChunks, totalLoaded);
-      }
-      
-      console.log(`[WebAudioManager] Background loading completed for ${session.trackId} (${(totalLoaded / 1024 / 1024).toFixed(1)}MB)`);
-      
-    } catch (error) {
-      console.warn(`[WebAudioManager] Background loading failed: ${error}`);
-    } finally {
-      reader.releaseLock();
-    }
-  }
-  
-  // Update session with larger buffer
-  private async updateSessionWithLargerBuffer(
-    session: InstantPlaybackSession,
-    initialChunks: Uint8Array[],
-    remainingChunks: Uint8Array[],
-    totalLoaded: number
-  ): Promise<void> {
-    if (!session.isActive) return;
-    
-    try {
-      // Combine all chunks
-      const completeBuffer = new ArrayBuffer(totalLoaded);
-      const uint8Array = new Uint8Array(completeBuffer);
-      let offset = 0;
-      
-      // Copy initial chunks
-      for (const chunk of initialChunks) {
-        uint8Array.set(chunk, offset);
-        offset += chunk.length;
-      }
-      
-      // Copy remaining chunks
-      for (const chunk of remainingChunks) {
-        uint8Array.set(chunk, offset);
-        offset += chunk.length;
-      }
-      
-      // Decode the larger buffer
-      const newAudioBuffer = await this.audioContext!.decodeAudioData(completeBuffer);
-      
-      // Update session
-      session.audioBuffer = newAudioBuffer;
-      session.metadata = {
-        duration: newAudioBuffer.duration,
-        sampleRate: newAudioBuffer.sampleRate,
-        numberOfChannels: newAudioBuffer.numberOfChannels,
-        totalSamples: newAudioBuffer.length
-      };
-      
-      // Replace buffer seamlessly in worklet
-      await this.replaceBufferSeamlessly(session.trackId, newAudioBuffer);
-      
-    } catch (error) {
-      console.warn(`[WebAudioManager] Failed to update with larger buffer: ${error}`);
-    }
-  }
-
-  // Load remaining chunks in background
-  private async loadRemainingChunks(session: InstantPlaybackSession, onChunkLoaded?: (chunkIndex: number, totalChunks: number) => void): Promise<void> {
-    // With the current implementation, we load the full file upfront
-    // So there are no additional chunks to load
-    // This method exists for future optimization where we could implement true streaming
-    
-    if (!session.isActive) return;
-    
-    // Since we loaded everything in loadFirstChunk, we're already done
-    console.log(`[WebAudioManager] Full audio loaded in initial chunk for ${session.trackId}`);
-    
-    // No additional work needed
-    return;
-  }
-
-  // Load a specific chunk
-  private async loadChunk(url: string, start: number, end: number): Promise<AudioBuffer> {
-    const response = await fetch(url, {
-      headers: {
-        'Range': `bytes=${start}-${end}`
-      }
-    });
-    
-    if (!response.ok && response.status !== 206) {
-      throw new Error(`Failed to fetch chunk: ${response.status}`);
-    }
-    
-    const chunkBuffer = await response.arrayBuffer();
-    return await this.audioContext!.decodeAudioData(chunkBuffer);
-  }
-
-  // Merge two audio buffers
-  private async mergeAudioBuffers(buffer1: AudioBuffer, buffer2: AudioBuffer): Promise<AudioBuffer> {
-    const totalLength = buffer1.length + buffer2.length;
-    const mergedBuffer = this.audioContext!.createBuffer(
-      buffer1.numberOfChannels,
-      totalLength,
-      buffer1.sampleRate
-    );
-    
-    // Copy data from both buffers
-    for (let channel = 0; channel < buffer1.numberOfChannels; channel++) {
-      const mergedChannelData = mergedBuffer.getChannelData(channel);
-      const buffer1Data = buffer1.getChannelData(channel);
-      const buffer2Data = buffer2.getChannelData(channel);
-      
-      // Copy first buffer
-      mergedChannelData.set(buffer1Data, 0);
-      
-      // Copy second buffer
-      mergedChannelData.set(buffer2Data, buffer1.length);
-    }
-    
-    return mergedBuffer;
-  }
-
-  // Replace buffer seamlessly in worklet
-  private async replaceBufferSeamlessly(trackId: string, newBuffer: AudioBuffer): Promise<void> {
-    if (!this.audioWorkletNode || this.currentTrackId !== trackId) {
-      return;
-    }
-    
-    // Get current position from worklet
-    const currentPosition = await this.getCurrentPosition();
-    
-    // Extract channel data
-    const channelData: Float32Array[] = [];
-    for (let i = 0; i < newBuffer.numberOfChannels; i++) {
-      channelData.push(newBuffer.getChannelData(i));
-    }
-    
-    // Send replace buffer message
-    this.audioWorkletNode.port.postMessage({
-      type: 'REPLACE_BUFFER',
-      trackId,
-      channelData,
-      sampleRate: newBuffer.sampleRate,
-      numberOfChannels: newBuffer.numberOfChannels,
-      totalSamples: newBuffer.length,
-      currentPosition: currentPosition.currentTime,
-      startTime: Date.now()
-    });
-    
-    // Update cached buffer
-    this.audioBuffers.set(trackId, newBuffer);
-  }
-
-  // Get current position from worklet
-  private async getCurrentPosition(): Promise<{ currentTime: number; samplePosition: number }> {
-    return new Promise((resolve) => {
-      const requestId = Math.random().toString(36).substr(2, 9);
-      
-      // Set up resolver
-      this.positionRequestResolvers.set(requestId, resolve);
-      
-      // Request position
-      this.audioWorkletNode!.port.postMessage({
-        type: 'GET_CURRENT_POSITION',
-        requestId
-      });
-      
-      // Timeout after 100ms
-      setTimeout(() => {
-        if (this.positionRequestResolvers.has(requestId)) {
-          this.positionRequestResolvers.delete(requestId);
-          resolve({ currentTime: this.lastKnownPosition, samplePosition: 0 });
-        }
-      }, 100);
-    });
-  }
-  
   // Get instant playback performance metrics
   getInstantPlaybackMetrics(): {
     enabled: boolean;
@@ -1620,6 +2831,8 @@ export class WebAudioManager {
 
   // Cleanup
   async cleanup(): Promise<void> {
+    this.abortTrackLoads([]);
+    
     if (this.sampleRateMonitorInterval) {
       clearInterval(this.sampleRateMonitorInterval);
       this.sampleRateMonitorInterval = null;
@@ -1635,22 +2848,136 @@ export class WebAudioManager {
       await this.chunkStore.cleanup();
     }
 
-    if (this.audioContext) {
+    if (this.effectsChain) {
+      this.effectsChain.dispose();
+      this.effectsChain = null;
+    }
+
+    this.mediaSession?.destroy();
+    this.mediaSession = null;
+    this.outputDevice?.detach();
+
+    this.analysers.forEach(analyser => analyser.detach());
+    // The worklet won't answer pending pause/seek requests anymore
+    [...this.fadeRequestResolvers.values()].forEach(complete => complete());
+    if (this.audioWorkletNode) {
+      this.audioWorkletNode.port.postMessage({ type: 'DISPOSE' });
+      this.audioWorkletNode.port.onmessage = null;
+      this.audioWorkletNode.disconnect();
+      this.audioWorkletNode = null;
+    }
+    this.playbackClock = null;
+    if (this.gainNode) {
+      this.gainNode.disconnect();
+      this.gainNode = null;
+    }
+
+    // A shared context stays open for the other managers using it
+    if (this.audioContext && this.audioContext !== this.externalAudioContext) {
       await this.audioContext.close();
-      this.audioContext = null;
     }
+    this.audioContext = null;
 
     this.audioBuffers.clear();
+    this.trackPeaks.clear();
+    this.trackTrims.clear();
+    this.streamingTracks.clear();
+    this.streamingSources.clear();
+    this.stateMachine.send('reset');
     this.isInitialized = false;
+    // Later getWebAudioManager() calls get a fresh instance instead of this torn-down one
+    unregisterWebAudioManager(this);
+  }
+
+  /**
+   * Release everything for good: cleanup(), the document gesture listeners and all event listeners.
+   * A shared instance is removed so the next getWebAudioManager() call creates a new one.
+   */
+  async dispose(): Promise<void> {
+    if (this.isDisposed) {
+      return;
+    }
+    this.isDisposed = true;
+    this.removeGestureListener();
+    
+    try {
+      await this.cleanup();
+    } finally {
+      [...this.analysers].forEach(analyser => analyser.dispose());
+      this.outputDevice?.destroy();
+      this.outputDevice = null;
+      this.removeAllListeners();
+    }
+  }
+}
+
+/**
+ * Create an independent manager - never shared with getWebAudioManager() callers
+ */
+export function createWebAudioManager(options?: WebAudioManagerOptions): WebAudioManager {
+  return new WebAudioManager(options);
+}
+
+// Shared instances by name, with the options they were created with
+const sharedManagers: Map<string, { manager: WebAudioManager; options: WebAudioManagerOptions }> = new Map();
+
+/**
+ * Get (or create) a shared manager by name.
+ * Options only apply when the instance is created - differing options on later calls log a warning.
+ */
+export function getWebAudioManager(options: SharedWebAudioManagerOptions = {}): WebAudioManager {
+  const { name = 'default', ...managerOptions } = options;
+  const shared = sharedManagers.get(name);
+  
+  if (shared) {
+    const conflicts = getConflictingOptions(shared.options, managerOptions);
+    if (conflicts.length > 0) {
+      console.warn(`[WebAudioManager] Shared instance "${name}" already exists - ignoring different options: ${conflicts.join(', ')}. Use another name or createWebAudioManager() for a separate manager.`);
+    }
+    return shared.manager;
+  }
+  
+  const manager = new WebAudioManager(managerOptions);
+  sharedManagers.set(name, { manager, options: managerOptions });
+  return manager;
+}
+
+function unregisterWebAudioManager(manager: WebAudioManager): void {
+  for (const [name, shared] of sharedManagers) {
+    if (shared.manager === manager) {
+      sharedManagers.delete(name);
+    }
   }
 }
 
-// Singleton instance for easy use
-let globalWebAudioManager: WebAudioManager | null = null;
+// Option keys whose values differ - omitted (undefined) options never conflict
+function getConflictingOptions(existing: WebAudioManagerOptions, requested: WebAudioManagerOptions): string[] {
+  return (Object.keys(requested) as Array<keyof WebAudioManagerOptions>).filter(key => {
+    const value = requested[key];
+    return value !== undefined && !isEqualOption(value, existing[key]);
+  });
+}
+
+// Plain objects and arrays compare by structure, everything else (callbacks, AudioContexts) by identity
+function isEqualOption(first: unknown, second: unknown): boolean {
+  if (first === second) {
+    return true;
+  }
+  if (Array.isArray(first) || Array.isArray(second)) {
+    return Array.isArray(first) && Array.isArray(second) && first.length === second.length &&
+      first.every((item, index) => isEqualOption(item, second[index]));
+  }
+  if (!isPlainObject(first) || !isPlainObject(second)) {
+    return false;
+  }
+  const keys = new Set([...Object.keys(first), ...Object.keys(second)]);
+  return [...keys].every(key => isEqualOption(first[key], second[key]));
+}
 
-export function getWebAudioManager(options?: WebAudioManagerOptions): WebAudioManager {
-  if (!globalWebAudioManager) {
-    globalWebAudioManager = new WebAudioManager(options);
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
   }
-  return globalWebAudioManager;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
 }
\ No newline at end of file
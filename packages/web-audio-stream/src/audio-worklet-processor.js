@@ -2,17 +2,74 @@
 // AudioWorklet processor for iOS Safari-safe audio playback with progressive streaming
 // Fixes pitch/speed issues and prevents page reloads on iOS Safari
 
+// WSOLA time-stretch: 30ms frames at 50% overlap, searching +/-8ms for the best-matching continuation
+const STRETCH_FRAME_SECONDS = 0.03;
+const STRETCH_SEEK_SECONDS = 0.008;
+const STRETCH_CORRELATION_STRIDE = 4; // Every 4th sample is enough to find the waveform alignment
+
+// Loudness normalization changes on the playing track glide over ~50ms instead of stepping
+const TRACK_GAIN_SMOOTHING_SECONDS = 0.05;
+
+// Skip silence: 10ms RMS windows are compared against the threshold, scanning far ahead of playback
+const SILENCE_WINDOW_SECONDS = 0.01;
+const SILENCE_SCAN_FRAMES_PER_QUANTUM = 8192;
+
+// Position publishing - the main thread extrapolates from the last publish (shared layout documented in PlaybackClock.ts)
+const POSITION_FLAG_PLAYING = 1;
+const POSITION_TOLERANCE_QUANTA = 2; // Without shared memory, drift past this from the last message is republished
+const POSITION_REFRESH_SECONDS = 0.5; // ...and so is a moving position this old, since reads stop extrapolating after a second
+
 class AudioPlaybackProcessor extends AudioWorkletProcessor {
   constructor() {
     super();
     
     this.isPlaying = false;
     this.volume = 1.0;
+    
+    // Loudness normalization - per track, so the fading and staged voices keep their own gain
+    this.trackGain = 1; // Linear gain of the current track
+    this.trackGainTarget = 1; // Set by SET_TRACK_GAIN, approached smoothly
+    this.trackGainSmoothing = 1 - Math.exp(-1 / (TRACK_GAIN_SMOOTHING_SECONDS * sampleRate));
     this.currentTime = 0;
     this.duration = 0;
     this.audioBuffer = null;
     this.bufferSourcePosition = 0;
     
+    // Segmented timeline - decoded PCM is appended at sample offsets instead of re-sending the whole buffer
+    this.segments = []; // Array of {startSample, length, channelData}, sorted by startSample
+    this.segmentCursor = 0; // Index of the segment that served the last sample (fast path for sequential reads)
+    this.streamComplete = true; // False while a progressive track is still receiving APPEND_PCM segments
+    this.isUnderrun = false; // Waiting for data that has not been appended yet
+    
+    // Gapless transitions - the staged track starts on the sample after the current one ends
+    this.nextTrack = null; // {trackId, channelData, sampleRate, numberOfChannels, totalSamples}
+    
+    // Crossfade - the outgoing track keeps playing as a second voice while the new one fades in
+    this.fadingVoice = null; // {trackId, segments, segmentCursor, totalSamples, bufferSourcePosition, streamComplete}
+    this.crossfade = null; // {totalFrames, elapsedFrames, curve}
+    
+    // Playback rate - bufferSourcePosition becomes fractional when not playing at 1x
+    this.playbackRate = 1.0;
+    this.preservePitch = true; // Time-stretch (WSOLA) instead of resampling
+    this.stretcher = null; // WSOLA state, rebuilt from bufferSourcePosition whenever the timeline jumps
+    
+    // Declick fades - pause/seek ramp the output down before acting, resume and seeks ramp it back up
+    this.fadeConfig = { pauseMs: 15, resumeMs: 15, seekMs: 10, trackChangeMs: 15 };
+    this.outputLevel = 1; // Current ramp level applied on top of volume
+    this.gainRamp = null; // {from, to, totalFrames, elapsedFrames, pause, seekTime (null when not seeking), requestIds}
+    this.frameLevels = new Float32Array(128); // Per-frame ramp level of the current quantum (shared with the fading voice)
+    
+    // A-B loop - the region's tail crossfades into its head, then playback continues just after the head's fade
+    this.loop = null; // {startSample, endSample, crossfadeFrames, requestedEnd, requestedCrossfadeFrames, engaged}
+    
+    // Skip silence - quiet regions found ahead of playback are fast-forwarded, keeping keepMs of each
+    this.skipSilence = { enabled: false, thresholdDb: -50, minDurationMs: 500, keepMs: 100 };
+    this.silenceScan = null; // {position, runStart, regions: [{start, end}]} of the current track while enabled
+    
+    // Sample-accurate position for the main thread - shared memory when cross-origin isolated, else POSITION messages
+    this.sharedPosition = null; // {sequence: Int32Array, values: Float64Array} over the SharedArrayBuffer from SET_POSITION_BUFFER
+    this.publishedPosition = null; // {position, contextTime, rate, playing} of the last POSITION message
+    
     // Progressive buffer switching support
     this.scheduledBuffers = []; // Array of {trackId, channelData, sampleRate, numberOfChannels, totalSamples, duration, switchTime}
     this.currentBufferIndex = 0;
@@ -32,9 +89,13 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
     this.iosSampleRate = null;
     this.iosMaxChunkSize = null;
     
+    this.isDisposed = false; // Set by DISPOSE - process() returns false so the node can be collected
+    
     // Handle messages from main thread
     this.port.onmessage = (event) => {
-      const { type, data } = event.data;
+      // Messages are flat: { type, ...fields }
+      const data = event.data;
+      const { type } = data;
       
       switch (type) {
         case 'SET_BUFFER':
@@ -50,39 +111,136 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
             this.currentTrackId = newTrackId;
           }
           
-          this.audioChannelData = data.channelData;
           this.sampleRate = this.isIOSSafari && this.iosSampleRate ? this.iosSampleRate : data.sampleRate;
           this.numberOfChannels = data.numberOfChannels;
-          this.totalSamples = data.totalSamples;
-          this.duration = this.totalSamples / this.sampleRate;
-          this.currentBufferEarlyStopTime = Math.max(0, this.duration - 0.75); // Set early stop time
+          // Replacing audio that is playing would click - let it fade out briefly under the new track
+          this.startTrackChangeFade();
+          this.setTrackGain(data.trackGain);
+          this.setSingleSegment(data.channelData, data.totalSamples);
+          // An explicit track start replaces whatever was staged to follow the previous track
+          this.nextTrack = null;
+          // Progressive tracks keep growing through APPEND_PCM until END_OF_STREAM
+          this.streamComplete = !data.streaming;
+          if (data.streaming) {
+            this.currentBufferEarlyStopTime = null;
+          }
           // Always reset to beginning when setting new buffer
           this.bufferSourcePosition = 0;
           this.currentTime = 0;
+          this.refreshLoop();
           // Don't automatically set playing - let main thread control this
           break;
           
-        case 'PLAY':
-          this.isPlaying = true;
+        case 'APPEND_PCM':
+          this.handleAppendPcm(data);
+          break;
+          
+        case 'END_OF_STREAM':
+          if (this.fadingVoice && data.trackId === this.fadingVoice.trackId) {
+            // Outgoing track finished downloading mid-crossfade
+            this.fadingVoice.streamComplete = true;
+            break;
+          }
+          if (this.currentTrackId && data.trackId !== this.currentTrackId) {
+            break;
+          }
+          this.streamComplete = true;
+          // Gapless metadata can shorten the track to drop encoder padding at the end
+          if (data.totalSamples !== undefined && data.totalSamples < this.totalSamples) {
+            this.totalSamples = data.totalSamples;
+            this.duration = this.totalSamples / this.sampleRate;
+          }
+          this.refreshLoop();
+          console.log(`[AudioWorklet] End of stream for ${data.trackId}: ${this.duration.toFixed(2)}s in ${this.segments.length} segments`);
+          break;
           
+        case 'CROSSFADE':
+          this.startCrossfade(data);
+          break;
+          
+        case 'STAGE_NEXT_TRACK':
+          // Stage the next track for a sample-exact gapless start
+          this.nextTrack = {
+            trackId: data.trackId,
+            channelData: data.channelData,
+            sampleRate: data.sampleRate,
+            numberOfChannels: data.numberOfChannels,
+            totalSamples: data.totalSamples,
+            trackGain: data.trackGain ?? 1
+          };
+          console.log(`[AudioWorklet] Staged next track ${data.trackId} (${(data.totalSamples / data.sampleRate).toFixed(2)}s) after ${this.currentTrackId}`);
+          break;
+          
+        case 'CLEAR_NEXT_TRACK':
+          this.nextTrack = null;
+          break;
+          
+        case 'SET_LOOP':
+          this.setLoop(data);
+          break;
+          
+        case 'SET_SKIP_SILENCE':
+          this.setSkipSilence(data.options);
+          break;
+          
+        case 'SET_POSITION_BUFFER':
+          this.sharedPosition = {
+            sequence: new Int32Array(data.buffer, 0, 2),
+            values: new Float64Array(data.buffer, 8, 4)
+          };
+          break;
+          
+        case 'CLEAR_LOOP':
+          this.loop = null;
+          this.stretcher = null;
+          break;
+          
+        case 'SET_PLAYBACK_RATE':
+          this.playbackRate = Math.max(0.25, Math.min(4, data.rate));
+          this.preservePitch = data.preservePitch !== false;
+          // Restart stretching from the audible position so the new rate applies immediately
+          this.stretcher = null;
+          console.log(`[AudioWorklet] Playback rate ${this.playbackRate}x (${this.preservePitch ? 'pitch preserved' : 'varispeed'})`);
+          break;
+          
+        case 'PLAY':
           if (!this.audioChannelData) {
             console.error(`[AudioWorklet] ❌ PLAY command received but no audio data available!`);
           }
+          
+          if (!this.isPlaying) {
+            // Start from silence and ramp up
+            this.isPlaying = true;
+            this.outputLevel = 0;
+          }
+          // Also cancels a pause that is still fading out (a pending seek still happens first)
+          this.startGainRamp(1, data.fadeMs ?? this.fadeConfig.resumeMs, data.requestId, { pause: false });
           break;
           
         case 'PAUSE':
-          this.isPlaying = false;
+          if (this.isPlaying) {
+            this.startGainRamp(0, data.fadeMs ?? this.fadeConfig.pauseMs, data.requestId, { pause: true });
+          } else {
+            this.completeFadeRequests([data.requestId]);
+          }
           break;
           
         case 'SEEK':
-          if (this.audioChannelData && this.sampleRate) {
-            this.bufferSourcePosition = Math.floor(data.time * this.sampleRate);
-            this.currentTime = data.time;
-          } else {
+          if (!this.audioChannelData || !this.sampleRate) {
             console.error(`[AudioWorklet] ❌ SEEK failed - no audio data or sample rate`);
+            this.completeFadeRequests([data.requestId]);
+          } else if (this.isPlaying) {
+            this.startGainRamp(0, data.fadeMs ?? this.fadeConfig.seekMs, data.requestId, { seekTime: data.time });
+          } else {
+            this.seekTo(data.time);
+            this.completeFadeRequests([data.requestId]);
           }
           break;
           
+        case 'SET_FADE_CONFIG':
+          this.fadeConfig = { ...this.fadeConfig, ...data.config };
+          break;
+          
         case 'REPLACE_BUFFER':
           // Seamlessly replace buffer during playback
           console.log(`[AudioWorklet] Replacing buffer seamlessly - maintaining position`);
@@ -102,12 +260,9 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
           const previousDuration = this.duration;
           
           // Update buffer data atomically
-          this.audioChannelData = data.channelData;
           this.sampleRate = this.isIOSSafari && this.iosSampleRate ? this.iosSampleRate : data.sampleRate;
           this.numberOfChannels = data.numberOfChannels;
-          this.totalSamples = data.totalSamples;
-          this.duration = this.totalSamples / this.sampleRate;
-          this.currentBufferEarlyStopTime = Math.max(0, this.duration - 0.75); // Update early stop time
+          this.setSingleSegment(data.channelData, data.totalSamples);
           
           // Use precise position calculation - maintain exact sample position
           if (data.currentPosition !== undefined) {
@@ -123,6 +278,7 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
           
           // Ensure we don't lose playing state
           this.isPlaying = wasPlaying;
+          this.refreshLoop();
           
           // Calculate buffer replacement time using start time from main thread
           const bufferReplacementTime = data.startTime ? Date.now() - data.startTime : 0;
@@ -133,6 +289,19 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
           this.volume = Math.max(0, Math.min(1, data.volume));
           break;
           
+        case 'SET_TRACK_GAIN':
+          // Normalization changed (new analysis or settings) - applies to whichever voice plays the track
+          if (data.trackId === this.currentTrackId) {
+            this.trackGainTarget = data.gain;
+          }
+          if (this.fadingVoice && data.trackId === this.fadingVoice.trackId) {
+            this.fadingVoice.trackGain = data.gain;
+          }
+          if (this.nextTrack && data.trackId === this.nextTrack.trackId) {
+            this.nextTrack.trackGain = data.gain;
+          }
+          break;
+          
         case 'GET_POSITION':
           // Send current position back to main thread
           this.port.postMessage({
@@ -234,6 +403,17 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
           }
           break;
           
+        case 'STOP':
+          // Drop the current, staged and fading tracks so their PCM can be freed
+          this.clearPlayback();
+          break;
+          
+        case 'DISPOSE':
+          // Manager disposed while the AudioContext stays open (shared context) - drop audio and stop processing
+          this.isDisposed = true;
+          this.clearPlayback();
+          break;
+          
         default:
           break;
       }
@@ -243,9 +423,14 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
   process(inputs, outputs, parameters) {
     const output = outputs[0];
     
+    if (this.isDisposed) {
+      return false;
+    }
+    
     if (!output || !this.audioChannelData || !this.isPlaying) {
       // DON'T send time updates when no audio data or not playing
       // This was causing the "0 duration: 0" spam
+      this.publishPosition(output ? output[0].length : 128);
       return true;
     }
     
@@ -271,35 +456,94 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
       this.performBufferSwitch();
     }
     
+    if (this.silenceScan) {
+      this.scanSilence();
+      this.skipSilentRegion();
+    }
+    
     let audioEnded = false;
+    let starved = false;
+    const previousTime = this.currentTime;
     
-    // Process each channel
-    for (let channel = 0; channel < output.length; channel++) {
-      const outputChannel = output[channel];
-      const channelIndex = Math.min(channel, this.numberOfChannels - 1);
-      const inputChannel = this.audioChannelData[channelIndex];
+    if (this.frameLevels.length < bufferLength) {
+      this.frameLevels = new Float32Array(bufferLength);
+    }
+    
+    // Read sample frames from the segmented timeline
+    for (let i = 0; i < bufferLength; i++) {
+      const level = this.gainRamp ? this.advanceGainRamp() : this.outputLevel;
+      if (!this.isPlaying) {
+        // A pause finished fading out on this frame - the rest of the quantum is silent
+        for (let channel = 0; channel < output.length; channel++) {
+          output[channel].fill(0, i);
+        }
+        this.frameLevels.fill(0, i, bufferLength);
+        break;
+      }
+      this.frameLevels[i] = level;
+      if (this.trackGain !== this.trackGainTarget) {
+        this.advanceTrackGain();
+      }
+      const gain = (this.crossfade ? this.volume * this.getCrossfadeGain(i, true) : this.volume) * level * this.trackGain;
+      const rendered = this.preservePitch && this.playbackRate !== 1
+        ? this.renderStretchedFrame(output, i, gain)
+        : this.renderResampledFrame(output, i, gain);
       
-      for (let i = 0; i < bufferLength; i++) {
-        if (this.bufferSourcePosition < inputChannel.length) {
-          outputChannel[i] = inputChannel[this.bufferSourcePosition] * this.volume;
-        } else {
-          outputChannel[i] = 0;
-          // Mark that we've reached the end
-          if (!audioEnded) {
-            audioEnded = true;
-            // Count buffer underrun for instant playback mode
-            if (this.instantPlaybackMode) {
-              this.performanceMetrics.bufferUnderruns++;
-            }
+      if (rendered) {
+        if (this.outputLevel === 0 && !this.gainRamp) {
+          // Data arrived after an underrun - fade in rather than starting at full level
+          this.startGainRamp(1, this.fadeConfig.resumeMs, undefined);
+        }
+        continue;
+      }
+      
+      if (this.streamComplete && this.bufferSourcePosition >= this.totalSamples && this.nextTrack) {
+        // Current track finished mid-quantum - continue with the staged track from this exact frame
+        this.startStagedTrack();
+        i--;
+        continue;
+      }
+      
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = 0;
+      }
+      
+      if (this.streamComplete && this.bufferSourcePosition >= this.totalSamples) {
+        // Mark that we've reached the end
+        if (!audioEnded) {
+          audioEnded = true;
+          // Count buffer underrun for instant playback mode
+          if (this.instantPlaybackMode) {
+            this.performanceMetrics.bufferUnderruns++;
           }
         }
-        
-        if (channel === 0) {
-          this.bufferSourcePosition++;
+      } else {
+        // Data for this position has not arrived yet - hold position and output silence
+        starved = true;
+        // A fade-in has nothing to fade - drop to silence and fade in once data arrives (pause/seek ramps keep running)
+        if (!this.gainRamp || !this.gainRamp.pause && this.gainRamp.seekTime === null) {
+          if (this.gainRamp) {
+            this.completeFadeRequests(this.gainRamp.requestIds);
+            this.gainRamp = null;
+          }
+          this.outputLevel = 0;
         }
       }
     }
     
+    if (this.crossfade) {
+      this.mixFadingVoice(output, bufferLength);
+    }
+    
+    if (starved !== this.isUnderrun) {
+      this.isUnderrun = starved;
+      this.port.postMessage({
+        type: starved ? 'UNDERRUN' : 'UNDERRUN_RECOVERED',
+        currentTime: this.bufferSourcePosition / this.sampleRate,
+        loadedDuration: this.duration
+      });
+    }
+    
     // Send ENDED message only once when audio actually ends
     if (audioEnded && this.isPlaying) {
       this.isPlaying = false;
@@ -312,18 +556,166 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
     // Update current time
     this.currentTime = this.bufferSourcePosition / this.sampleRate;
     
-    // Send time update to main thread periodically (every ~100ms)
-    if (Math.floor(this.currentTime * 10) !== Math.floor((this.currentTime - bufferLength / this.sampleRate) * 10)) {
+    // Send time update to main thread periodically (every ~100ms of track time, whatever the rate)
+    if (Math.floor(this.currentTime * 10) !== Math.floor(previousTime * 10)) {
       this.port.postMessage({
         type: 'TIME_UPDATE',
         currentTime: this.currentTime,
-        duration: this.duration
+        duration: this.duration,
+        // Track time with the skipped silence left out (same as currentTime/duration while skip silence is off)
+        effectiveTime: this.silenceScan ? this.getEffectiveTime(this.bufferSourcePosition) : this.currentTime,
+        effectiveDuration: this.silenceScan ? this.getEffectiveTime(this.totalSamples) : this.duration
       });
     }
     
+    this.publishPosition(bufferLength);
     return true;
   }
   
+  // Where playback is at the end of this quantum and how fast it is moving, for main-thread position reads
+  // Shared memory is written every quantum; messages only go out when extrapolating the last one would be wrong
+  publishPosition(frames) {
+    const position = this.sampleRate ? this.bufferSourcePosition / this.sampleRate : 0;
+    const contextTime = currentTime + frames / sampleRate;
+    const rate = this.isPlaying && !this.isUnderrun && this.sampleRate ? this.playbackRate * sampleRate / this.sampleRate : 0;
+    
+    if (this.sharedPosition) {
+      // Seqlock: the sequence is odd while the fields are being written
+      const { sequence, values } = this.sharedPosition;
+      Atomics.add(sequence, 0, 1);
+      sequence[1] = this.isPlaying ? POSITION_FLAG_PLAYING : 0;
+      values[0] = position;
+      values[1] = this.duration || 0;
+      values[2] = contextTime;
+      values[3] = rate;
+      Atomics.add(sequence, 0, 1);
+      return;
+    }
+    
+    const last = this.publishedPosition;
+    const isFresh = rate === 0 || (last && contextTime - last.contextTime < POSITION_REFRESH_SECONDS);
+    if (last && last.rate === rate && last.playing === this.isPlaying && isFresh) {
+      const predicted = last.position + (contextTime - last.contextTime) * last.rate;
+      if (Math.abs(position - predicted) <= POSITION_TOLERANCE_QUANTA * frames / sampleRate) {
+        return;
+      }
+    }
+    
+    this.publishedPosition = { position, contextTime, rate, playing: this.isPlaying };
+    this.port.postMessage({
+      type: 'POSITION',
+      currentTime: position,
+      duration: this.duration || 0,
+      contextTime,
+      rate,
+      playing: this.isPlaying
+    });
+  }
+  
+  // Jump the sample pointer (no fade - callers ramp the output down first)
+  seekTo(time) {
+    this.bufferSourcePosition = Math.floor(time * this.sampleRate);
+    this.currentTime = time;
+    this.stretcher = null;
+    // Seeking past the loop end plays on; seeking back before it re-engages the loop
+    if (this.loop) {
+      this.loop.engaged = this.bufferSourcePosition < this.loop.endSample;
+    }
+  }
+  
+  // Ramp the output level, then seek and/or pause
+  // A ramp that replaces another carries its pending seek, pause and requests forward - only PLAY (pause: false) cancels the pause
+  startGainRamp(to, fadeMs, requestId, { pause, seekTime = null } = {}) {
+    const superseded = this.gainRamp;
+    this.gainRamp = null;
+    
+    const ramp = {
+      from: this.outputLevel,
+      to,
+      totalFrames: Math.round(Math.max(0, fadeMs) / 1000 * sampleRate),
+      elapsedFrames: 0,
+      pause: pause ?? superseded?.pause ?? false,
+      seekTime: seekTime ?? superseded?.seekTime ?? null,
+      requestIds: [...(superseded?.requestIds ?? []), requestId]
+    };
+    if (ramp.seekTime !== null) {
+      // Keep fading out - the jump happens at silence
+      ramp.to = 0;
+    }
+    
+    if (ramp.totalFrames === 0 || this.outputLevel === ramp.to && !ramp.pause && ramp.seekTime === null) {
+      this.outputLevel = ramp.to;
+      this.finishGainRamp(ramp);
+      return;
+    }
+    this.gainRamp = ramp;
+  }
+  
+  // Level for the next frame of the active ramp
+  advanceGainRamp() {
+    const ramp = this.gainRamp;
+    ramp.elapsedFrames++;
+    const progress = Math.min(1, ramp.elapsedFrames / ramp.totalFrames);
+    this.outputLevel = ramp.from + (ramp.to - ramp.from) * progress;
+    
+    if (progress >= 1) {
+      this.gainRamp = null;
+      this.finishGainRamp(ramp);
+    }
+    return this.outputLevel;
+  }
+  
+  finishGainRamp(ramp) {
+    if (ramp.seekTime !== null) {
+      this.seekTo(ramp.seekTime);
+    }
+    if (ramp.pause) {
+      this.isPlaying = false;
+      // Report a fresh UNDERRUN if playback resumes into missing data
+      this.isUnderrun = false;
+    } else if (ramp.seekTime !== null) {
+      // Resolve the seek now (the jump is done) and fade back in from the new position
+      this.completeFadeRequests(ramp.requestIds);
+      this.startGainRamp(1, this.fadeConfig.seekMs, undefined);
+      return;
+    }
+    this.completeFadeRequests(ramp.requestIds);
+  }
+  
+  completeFadeRequests(requestIds) {
+    // Callers read the position as soon as their request resolves - make sure it is the one after the jump
+    if (requestIds.some(requestId => requestId !== undefined)) {
+      this.publishPosition(0);
+    }
+    for (const requestId of requestIds) {
+      if (requestId !== undefined) {
+        this.port.postMessage({ type: 'FADE_COMPLETE', requestId });
+      }
+    }
+  }
+  
+  // Keep the audio that is playing as a briefly fading voice when a new buffer replaces it
+  startTrackChangeFade() {
+    const frames = Math.round(this.fadeConfig.trackChangeMs / 1000 * sampleRate);
+    
+    if (!this.isPlaying || !this.audioChannelData || frames === 0 || this.outputLevel === 0) {
+      this.fadingVoice = null;
+      this.crossfade = null;
+      return;
+    }
+    
+    this.fadingVoice = {
+      trackId: null, // Too short to be worth routing APPEND_PCM to
+      segments: this.segments,
+      segmentCursor: this.segmentCursor,
+      totalSamples: this.totalSamples,
+      bufferSourcePosition: this.bufferSourcePosition,
+      streamComplete: true,
+      trackGain: this.trackGain
+    };
+    this.crossfade = { totalFrames: frames, elapsedFrames: 0, curve: 'linear' };
+  }
+  
   // Perform seamless buffer switch to progressive buffer
   performBufferSwitch() {
     if (this.currentBufferIndex + 1 >= this.scheduledBuffers.length) {
@@ -344,18 +736,17 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
     console.log(`[AudioWorklet] Switching to progressive buffer ${this.currentBufferIndex + 1} (${nextBuffer.trackId}) at ${this.currentTime.toFixed(3)}s (scheduled: ${this.nextSwitchTime?.toFixed(3)}s)`);
     
     // Seamlessly switch to the next progressive buffer
-    this.audioChannelData = nextBuffer.channelData;
     this.sampleRate = nextBuffer.sampleRate;
     this.numberOfChannels = nextBuffer.numberOfChannels;
-    this.totalSamples = nextBuffer.totalSamples;
-    this.duration = nextBuffer.duration;
-    this.currentBufferEarlyStopTime = Math.max(0, this.duration - 0.75); // Set new early stop time
+    this.setSingleSegment(nextBuffer.channelData, nextBuffer.totalSamples);
     
     // Maintain current playback position exactly - the progressive buffer contains all previous audio
-    // So the current position should work seamlessly in the new, longer buffer
-    const currentSamplePosition = Math.floor(this.currentTime * this.sampleRate);
+    // So the current position should work seamlessly in the new, longer buffer (fractional at non-1x rates)
+    const currentSamplePosition = this.currentTime * this.sampleRate;
     this.bufferSourcePosition = Math.min(currentSamplePosition, this.totalSamples - 1);
     
+    this.refreshLoop();
+    
     // Update buffer tracking
     this.currentBufferIndex++;
     
@@ -377,10 +768,749 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
     });
   }
   
+  // Switch to the staged next track without resetting output - used for gapless transitions
+  startStagedTrack() {
+    const nextTrack = this.nextTrack;
+    const previousTrackId = this.currentTrackId;
+    this.nextTrack = null;
+    
+    this.autoResetForNewSong(nextTrack.trackId);
+    this.sampleRate = this.isIOSSafari && this.iosSampleRate ? this.iosSampleRate : nextTrack.sampleRate;
+    this.numberOfChannels = nextTrack.numberOfChannels;
+    this.setTrackGain(nextTrack.trackGain);
+    this.setSingleSegment(nextTrack.channelData, nextTrack.totalSamples);
+    this.streamComplete = true;
+    this.bufferSourcePosition = 0;
+    
+    this.port.postMessage({
+      type: 'TRACK_CHANGED',
+      trackId: nextTrack.trackId,
+      previousTrackId,
+      duration: this.duration
+    });
+    console.log(`[AudioWorklet] Gapless transition: ${previousTrackId} -> ${nextTrack.trackId}`);
+  }
+  
+  // Gain of a track that starts now - applied at once, unlike SET_TRACK_GAIN on a playing track
+  setTrackGain(gain) {
+    this.trackGain = gain ?? 1;
+    this.trackGainTarget = this.trackGain;
+  }
+  
+  advanceTrackGain() {
+    this.trackGain += (this.trackGainTarget - this.trackGain) * this.trackGainSmoothing;
+    if (Math.abs(this.trackGainTarget - this.trackGain) < 1e-4) {
+      this.trackGain = this.trackGainTarget;
+    }
+  }
+  
+  // Replace the timeline with one segment holding a complete buffer
+  setSingleSegment(channelData, totalSamples) {
+    this.segments = [{ startSample: 0, length: totalSamples, channelData }];
+    this.segmentCursor = 0;
+    this.audioChannelData = channelData;
+    this.totalSamples = totalSamples;
+    this.stretcher = null;
+    this.duration = this.totalSamples / this.sampleRate;
+    this.currentBufferEarlyStopTime = Math.max(0, this.duration - 0.75); // Set early stop time
+    this.resetSilenceScan();
+  }
+  
+  // Handle APPEND_PCM message - add decoded PCM at a sample offset without touching earlier audio
+  handleAppendPcm(data) {
+    const { trackId, channelData, startSample } = data;
+    
+    if (!channelData || channelData.length === 0) {
+      console.error(`[AudioWorklet] APPEND_PCM without channel data for ${trackId}`);
+      return;
+    }
+    
+    // A track that is still downloading while it fades out keeps receiving segments
+    if (this.fadingVoice && trackId === this.fadingVoice.trackId) {
+      this.insertSegment(this.fadingVoice, channelData, startSample);
+      if (data.isFinal) {
+        this.fadingVoice.streamComplete = true;
+      }
+      return;
+    }
+    
+    if (this.currentTrackId && trackId !== this.currentTrackId) {
+      console.log(`[AudioWorklet] Rejecting appended PCM from wrong song: ${trackId} (current: ${this.currentTrackId})`);
+      return;
+    }
+    
+    this.insertSegment(this, channelData, startSample);
+    
+    if (!this.audioChannelData) {
+      this.audioChannelData = channelData;
+      this.numberOfChannels = channelData.length;
+    }
+    
+    this.duration = this.totalSamples / this.sampleRate;
+    this.currentBufferEarlyStopTime = null; // Segments grow in place - no buffer switching needed
+    
+    if (data.isFinal) {
+      this.streamComplete = true;
+      this.refreshLoop();
+    }
+  }
+  
+  // Hand the playing track to the fading voice and start the new track underneath it
+  startCrossfade(data) {
+    const hasOutgoing = this.isPlaying && this.audioChannelData && this.currentTrackId && this.currentTrackId !== data.trackId;
+    
+    if (hasOutgoing) {
+      this.fadingVoice = {
+        trackId: this.currentTrackId,
+        segments: this.segments,
+        segmentCursor: this.segmentCursor,
+        totalSamples: this.totalSamples,
+        bufferSourcePosition: this.bufferSourcePosition,
+        streamComplete: this.streamComplete,
+        trackGain: this.trackGain
+      };
+      this.crossfade = {
+        totalFrames: Math.max(1, Math.round(data.duration * sampleRate)),
+        elapsedFrames: 0,
+        curve: data.curve || 'equal-power'
+      };
+    } else {
+      // Nothing audible to fade from - start the new track at full level
+      this.fadingVoice = null;
+      this.crossfade = null;
+    }
+    
+    if (this.currentTrackId !== data.trackId) {
+      this.autoResetForNewSong(data.trackId);
+    }
+    
+    this.sampleRate = this.isIOSSafari && this.iosSampleRate ? this.iosSampleRate : data.sampleRate;
+    this.numberOfChannels = data.numberOfChannels;
+    this.setTrackGain(data.trackGain);
+    this.setSingleSegment(data.channelData, data.totalSamples);
+    this.streamComplete = !data.streaming;
+    if (data.streaming) {
+      this.currentBufferEarlyStopTime = null;
+    }
+    this.nextTrack = null;
+    this.bufferSourcePosition = 0;
+    this.currentTime = 0;
+    this.isUnderrun = false;
+    this.isPlaying = true;
+    
+    console.log(`[AudioWorklet] Crossfade ${hasOutgoing ? `${this.fadingVoice.trackId} -> ` : 'start '}${data.trackId} over ${data.duration}s (${this.crossfade ? this.crossfade.curve : 'none'})`);
+  }
+  
+  // Gain for the incoming (or outgoing) voice at a frame of the current render quantum
+  getCrossfadeGain(frame, incoming) {
+    const progress = Math.min(1, (this.crossfade.elapsedFrames + frame) / this.crossfade.totalFrames);
+    const t = incoming ? progress : 1 - progress;
+    
+    switch (this.crossfade.curve) {
+      case 'linear':
+        return t;
+      case 'exponential':
+        // 60dB range, reaching exactly 0 and 1 at the ends
+        return (Math.pow(1000, t) - 1) / 999;
+      case 'equal-power':
+      default:
+        return Math.sin(t * Math.PI / 2);
+    }
+  }
+  
+  // Add the outgoing voice on top of the already-rendered incoming voice
+  mixFadingVoice(output, bufferLength) {
+    const voice = this.fadingVoice;
+    
+    for (let i = 0; i < bufferLength; i++) {
+      // The outgoing voice follows the playback rate by resampling - it is fading out anyway
+      const gain = this.volume * this.getCrossfadeGain(i, false) * this.frameLevels[i] * voice.trackGain;
+      if (this.mixInterpolatedFrame(voice, voice.bufferSourcePosition, output, i, gain, true)) {
+        voice.bufferSourcePosition += this.playbackRate;
+      }
+      // Otherwise ran out of outgoing audio - hold position if more is still downloading
+    }
+    
+    this.crossfade.elapsedFrames += bufferLength;
+    if (this.crossfade.elapsedFrames >= this.crossfade.totalFrames) {
+      const finishedTrackId = voice.trackId;
+      this.fadingVoice = null;
+      this.crossfade = null;
+      if (finishedTrackId === null) {
+        // Track-change declick, not a crossfade the main thread asked for
+        return;
+      }
+      this.port.postMessage({
+        type: 'CROSSFADE_COMPLETE',
+        trackId: this.currentTrackId,
+        previousTrackId: finishedTrackId
+      });
+    }
+  }
+  
+  // Render one frame by reading the timeline at a fractional position (varispeed - pitch follows the rate)
+  renderResampledFrame(output, frame, gain) {
+    const position = this.bufferSourcePosition;
+    const loop = this.loop;
+    const seamStart = loop && loop.engaged ? loop.endSample - loop.crossfadeFrames : Infinity;
+    
+    if (position >= seamStart) {
+      // Loop seam - the region's tail fades out while its head fades in
+      const progress = (position - seamStart) / loop.crossfadeFrames;
+      if (!this.mixInterpolatedFrame(this, position, output, frame, gain * Math.cos(progress * Math.PI / 2), false)) {
+        return false;
+      }
+      this.mixInterpolatedFrame(this, loop.startSample + position - seamStart, output, frame, gain * Math.sin(progress * Math.PI / 2), true);
+    } else if (!this.mixInterpolatedFrame(this, position, output, frame, gain, false)) {
+      return false;
+    }
+    
+    this.bufferSourcePosition = this.wrapLoop(position + this.playbackRate);
+    return true;
+  }
+  
+  // Write (or add) one linearly interpolated frame of a voice, returning false if that audio has not arrived
+  mixInterpolatedFrame(voice, position, output, frame, gain, accumulate) {
+    const index = Math.floor(position);
+    const segment = index < voice.totalSamples ? this.findSegment(index, voice) : null;
+    if (!segment) {
+      return false;
+    }
+    
+    const offset = index - segment.startSample;
+    const fraction = position - index;
+    let nextSegment = segment;
+    let nextOffset = offset + 1;
+    if (nextOffset >= segment.length) {
+      // The following sample is in the next segment, or hasn't arrived yet (then hold the current one)
+      nextSegment = fraction > 0 && index + 1 < voice.totalSamples ? this.findSegment(index + 1, voice) : null;
+      nextOffset = 0;
+    }
+    
+    for (let channel = 0; channel < output.length; channel++) {
+      const current = segment.channelData[Math.min(channel, segment.channelData.length - 1)][offset];
+      const following = nextSegment
+        ? nextSegment.channelData[Math.min(channel, nextSegment.channelData.length - 1)][nextOffset]
+        : current;
+      const sample = (current + (following - current) * fraction) * gain;
+      if (accumulate) {
+        output[channel][frame] += sample;
+      } else {
+        output[channel][frame] = sample;
+      }
+    }
+    return true;
+  }
+  
+  // Render one frame of pitch-preserving time-stretched audio from the WSOLA output hop
+  renderStretchedFrame(output, frame, gain) {
+    if (this.bufferSourcePosition >= this.totalSamples) {
+      return false;
+    }
+    
+    if (!this.stretcher) {
+      this.stretcher = this.createStretcher();
+    }
+    const stretcher = this.stretcher;
+    
+    if (stretcher.outputRead >= stretcher.hop && !this.synthesizeStretchHop(stretcher)) {
+      return false;
+    }
+    
+    for (let channel = 0; channel < output.length; channel++) {
+      const channelOutput = stretcher.output[Math.min(channel, stretcher.output.length - 1)];
+      output[channel][frame] = channelOutput[stretcher.outputRead] * gain;
+    }
+    stretcher.outputRead++;
+    // Analysis runs hop * rate ahead per hop, so this tracks the audible source position
+    this.bufferSourcePosition = this.wrapLoop(this.bufferSourcePosition + this.playbackRate);
+    return true;
+  }
+  
+  createStretcher() {
+    const rate = this.sampleRate || sampleRate;
+    const hop = Math.round(rate * STRETCH_FRAME_SECONDS / 2);
+    const frameSize = hop * 2;
+    const tolerance = Math.round(rate * STRETCH_SEEK_SECONDS);
+    const channels = Math.max(1, this.numberOfChannels || 1);
+    
+    // Periodic Hann - windows at 50% overlap sum to exactly 1
+    const hann = new Float32Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+      hann[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frameSize);
+    }
+    
+    const overlap = [];
+    const output = [];
+    for (let channel = 0; channel < channels; channel++) {
+      overlap.push(new Float32Array(hop));
+      output.push(new Float32Array(hop));
+    }
+    
+    return {
+      hop,
+      frameSize,
+      tolerance,
+      hann,
+      inputPosition: this.bufferSourcePosition, // Nominal analysis position of the next frame
+      continuation: null, // Where the previous frame would have continued naturally
+      overlap, // Windowed tail of the previous frame, per channel
+      output, // Current output hop, per channel
+      outputRead: hop, // Empty until the first hop is synthesized
+      frame: new Float32Array(frameSize),
+      reference: new Float32Array(hop),
+      candidates: new Float32Array(hop + 2 * tolerance)
+    };
+  }
+  
+  // Overlap-add the next analysis frame, shifted to line up with the previous one, into a new output hop
+  synthesizeStretchHop(stretcher) {
+    const { hop, frameSize, tolerance, hann } = stretcher;
+    const nominal = Math.round(stretcher.inputPosition);
+    const first = stretcher.continuation === null;
+    const searchStart = first ? nominal : Math.max(0, nominal - tolerance);
+    const searchEnd = first ? nominal : nominal + tolerance;
+    const needFrom = first ? searchStart : Math.min(searchStart, stretcher.continuation);
+    
+    if (!this.isLoopedRangeLoaded(needFrom, searchEnd + frameSize)) {
+      return false;
+    }
+    
+    const start = first ? nominal : this.findStretchAlignment(stretcher, searchStart, searchEnd);
+    
+    for (let channel = 0; channel < stretcher.output.length; channel++) {
+      const frame = stretcher.frame;
+      const output = stretcher.output[channel];
+      const overlap = stretcher.overlap[channel];
+      this.readLoopedTimeline(channel, start, frameSize, frame, false);
+      
+      for (let i = 0; i < hop; i++) {
+        // The very first hop has nothing to blend with - play it unwindowed instead of fading in
+        output[i] = first ? frame[i] : overlap[i] + frame[i] * hann[i];
+        overlap[i] = frame[hop + i] * hann[hop + i];
+      }
+    }
+    
+    stretcher.continuation = start + hop;
+    stretcher.inputPosition = this.wrapLoop(stretcher.inputPosition + hop * this.playbackRate);
+    stretcher.outputRead = 0;
+    return true;
+  }
+  
+  // Offset within the search range whose waveform best continues the previous frame (cross-correlation)
+  findStretchAlignment(stretcher, searchStart, searchEnd) {
+    const { hop, reference, candidates } = stretcher;
+    const channels = stretcher.output.length;
+    const candidateLength = searchEnd - searchStart + hop;
+    
+    reference.fill(0);
+    candidates.fill(0);
+    for (let channel = 0; channel < channels; channel++) {
+      this.readLoopedTimeline(channel, stretcher.continuation, hop, reference, true);
+      this.readLoopedTimeline(channel, searchStart, candidateLength, candidates, true);
+    }
+    
+    let bestOffset = Math.round(stretcher.inputPosition) - searchStart;
+    let bestScore = -Infinity;
+    for (let offset = 0; offset <= searchEnd - searchStart; offset++) {
+      let score = 0;
+      for (let i = 0; i < hop; i += STRETCH_CORRELATION_STRIDE) {
+        score += reference[i] * candidates[offset + i];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    
+    return searchStart + bestOffset;
+  }
+  
+  // Copy (or add) a range of one channel of the timeline into target - missing audio reads as silence
+  readTimeline(channel, start, length, target, accumulate) {
+    let written = 0;
+    while (written < length) {
+      const position = start + written;
+      const segment = position >= 0 && position < this.totalSamples ? this.findSegment(position) : null;
+      
+      if (!segment) {
+        if (!accumulate) {
+          target[written] = 0;
+        }
+        written++;
+        continue;
+      }
+      
+      const offset = position - segment.startSample;
+      const count = Math.min(segment.length - offset, length - written);
+      const channelData = segment.channelData[Math.min(channel, segment.channelData.length - 1)];
+      if (accumulate) {
+        for (let i = 0; i < count; i++) {
+          target[written + i] += channelData[offset + i];
+        }
+      } else {
+        target.set(channelData.subarray(offset, offset + count), written);
+      }
+      written += count;
+    }
+  }
+  
+  // Whether every sample in [start, end) has been appended (past the end of a complete stream counts as silence)
+  isRangeLoaded(start, end) {
+    if (this.streamComplete) {
+      end = Math.min(end, this.totalSamples);
+    } else if (end > this.totalSamples) {
+      return false;
+    }
+    
+    let position = Math.max(0, start);
+    while (position < end) {
+      const segment = this.findSegment(position);
+      if (!segment) {
+        return false;
+      }
+      position = segment.startSample + segment.length;
+    }
+    return true;
+  }
+  
+  // Enable or retune skip silence - the current track is rescanned from its start with the new settings
+  setSkipSilence(options) {
+    this.skipSilence = { ...this.skipSilence, ...options };
+    this.resetSilenceScan();
+    console.log(`[AudioWorklet] Skip silence ${this.skipSilence.enabled ? `on (${this.skipSilence.thresholdDb}dB for ${this.skipSilence.minDurationMs}ms)` : 'off'}`);
+  }
+  
+  resetSilenceScan() {
+    this.silenceScan = this.skipSilence.enabled ? { position: 0, runStart: -1, regions: [] } : null;
+  }
+  
+  // Measure the audio that has arrived ahead of the scanner, recording quiet runs of at least minDurationMs
+  scanSilence() {
+    const scan = this.silenceScan;
+    const rate = this.sampleRate || sampleRate;
+    const windowFrames = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * rate));
+    const threshold = Math.pow(10, this.skipSilence.thresholdDb / 20);
+    const minFrames = this.skipSilence.minDurationMs / 1000 * rate;
+    const scanEnd = scan.position + SILENCE_SCAN_FRAMES_PER_QUANTUM;
+    const cursor = this.segmentCursor; // Reading ahead must not move the playback fast path
+    
+    while (scan.position < scanEnd) {
+      if (this.streamComplete && scan.position >= this.totalSamples) {
+        // Trailing silence runs to the end of the track
+        this.closeSilentRun(this.totalSamples, minFrames);
+        break;
+      }
+      
+      const end = this.streamComplete ? Math.min(scan.position + windowFrames, this.totalSamples) : scan.position + windowFrames;
+      const power = this.measureWindowPower(scan.position, end);
+      if (power < 0) {
+        // Not appended yet - once playback has moved past the hole (a seek), scan on from there and leave the hole unscanned
+        if (this.bufferSourcePosition < scan.position + windowFrames) {
+          break;
+        }
+        scan.position = Math.floor(this.bufferSourcePosition);
+        scan.runStart = -1;
+        continue;
+      }
+      
+      if (power < threshold * threshold) {
+        if (scan.runStart < 0) {
+          scan.runStart = scan.position;
+        }
+      } else {
+        this.closeSilentRun(scan.position, minFrames);
+      }
+      scan.position = end;
+    }
+    
+    this.segmentCursor = cursor;
+  }
+  
+  closeSilentRun(end, minFrames) {
+    const scan = this.silenceScan;
+    if (scan.runStart >= 0 && end - scan.runStart >= minFrames) {
+      scan.regions.push({ start: scan.runStart, end });
+    }
+    scan.runStart = -1;
+  }
+  
+  // Mean square over all channels of [start, end), or -1 if part of it has not been appended
+  measureWindowPower(start, end) {
+    let power = 0;
+    let position = start;
+    while (position < end) {
+      const segment = this.findSegment(position);
+      if (!segment) {
+        return -1;
+      }
+      
+      const offset = position - segment.startSample;
+      const count = Math.min(segment.length - offset, end - position);
+      for (const channelData of segment.channelData) {
+        let sum = 0;
+        for (let i = offset; i < offset + count; i++) {
+          sum += channelData[i] * channelData[i];
+        }
+        power += sum / segment.channelData.length;
+      }
+      position += count;
+    }
+    return power / (end - start);
+  }
+  
+  // Part of a silent region that is jumped over - half of keepMs stays on each side so words don't get clipped
+  getSkippedRange(region) {
+    const keepHalf = this.skipSilence.keepMs / 2000 * (this.sampleRate || sampleRate);
+    return { from: region.start + keepHalf, to: Math.min(region.end, this.totalSamples) - keepHalf };
+  }
+  
+  // Jump to the end of the skipped part when playback is inside one (never across an engaged loop seam)
+  skipSilentRegion() {
+    const position = this.bufferSourcePosition;
+    const seamStart = this.loop && this.loop.engaged ? this.loop.endSample - this.loop.crossfadeFrames : Infinity;
+    
+    for (const region of this.silenceScan.regions) {
+      const { from, to } = this.getSkippedRange(region);
+      if (position < from) {
+        return;
+      }
+      if (position < to && to <= seamStart) {
+        this.bufferSourcePosition = to;
+        this.currentTime = to / this.sampleRate;
+        this.stretcher = null;
+        this.port.postMessage({
+          type: 'SILENCE_SKIPPED',
+          trackId: this.currentTrackId,
+          from: position / this.sampleRate,
+          to: this.currentTime
+        });
+        return;
+      }
+    }
+  }
+  
+  // Seconds of a timeline position once the skipped parts of the silent regions before it are left out
+  getEffectiveTime(position) {
+    let skipped = 0;
+    for (const region of this.silenceScan.regions) {
+      const { from, to } = this.getSkippedRange(region);
+      if (position <= from) {
+        break;
+      }
+      if (to > from) {
+        skipped += Math.min(position, to) - from;
+      }
+    }
+    return (position - skipped) / this.sampleRate;
+  }
+  
+  // Set the A-B loop from seconds; the end may lie beyond the audio that has arrived so far
+  setLoop(data) {
+    const rate = this.sampleRate || sampleRate;
+    const startSample = Math.max(0, Math.round(data.start * rate));
+    const requestedEnd = Math.round(data.end * rate);
+    
+    if (requestedEnd <= startSample) {
+      console.error(`[AudioWorklet] ❌ Invalid loop region ${data.start}s-${data.end}s`);
+      return;
+    }
+    
+    this.loop = {
+      startSample,
+      endSample: requestedEnd,
+      crossfadeFrames: 0,
+      requestedEnd,
+      requestedCrossfadeFrames: Math.round((data.crossfadeMs ?? 10) / 1000 * rate),
+      engaged: false
+    };
+    this.refreshLoop();
+    this.loop.engaged = this.loop.endSample > startSample && this.bufferSourcePosition < this.loop.endSample;
+    this.stretcher = null;
+    
+    console.log(`[AudioWorklet] Loop ${data.start}s-${data.end}s (${this.loop.crossfadeFrames} frame crossfade)`);
+  }
+  
+  // Fit the loop to the audio that exists - a complete stream can end before the requested loop end
+  refreshLoop() {
+    const loop = this.loop;
+    if (!loop) {
+      return;
+    }
+    
+    loop.endSample = this.streamComplete ? Math.min(loop.requestedEnd, this.totalSamples) : loop.requestedEnd;
+    loop.crossfadeFrames = Math.max(0, Math.min(loop.requestedCrossfadeFrames, Math.floor((loop.endSample - loop.startSample) / 2)));
+    if (loop.endSample <= loop.startSample) {
+      loop.engaged = false;
+    }
+  }
+  
+  // Map a position that reached the loop end back to the head, just after the part already heard in the seam
+  wrapLoop(position) {
+    const loop = this.loop;
+    if (!loop || !loop.engaged) {
+      return position;
+    }
+    
+    while (position >= loop.endSample) {
+      position -= loop.endSample - loop.startSample - loop.crossfadeFrames;
+    }
+    return position;
+  }
+  
+  // readTimeline through the loop: the seam is crossfaded and reads past the end continue from the head
+  readLoopedTimeline(channel, start, length, target, accumulate) {
+    const loop = this.loop;
+    const seamStart = loop && loop.engaged ? loop.endSample - loop.crossfadeFrames : Infinity;
+    
+    if (start + length <= seamStart) {
+      this.readTimeline(channel, start, length, target, accumulate);
+      return;
+    }
+    
+    let position = start;
+    let written = 0;
+    while (written < length) {
+      if (position < seamStart) {
+        const count = Math.min(length - written, seamStart - position);
+        this.readTimeline(channel, position, count, target.subarray(written), accumulate);
+        position += count;
+        written += count;
+      } else if (position < loop.endSample) {
+        const progress = (position - seamStart) / loop.crossfadeFrames;
+        const sample = this.readTimelineSample(channel, position) * Math.cos(progress * Math.PI / 2) +
+          this.readTimelineSample(channel, loop.startSample + position - seamStart) * Math.sin(progress * Math.PI / 2);
+        if (accumulate) {
+          target[written] += sample;
+        } else {
+          target[written] = sample;
+        }
+        position++;
+        written++;
+      } else {
+        position = this.wrapLoop(position);
+      }
+    }
+  }
+  
+  readTimelineSample(channel, position) {
+    const segment = position >= 0 && position < this.totalSamples ? this.findSegment(position) : null;
+    if (!segment) {
+      return 0;
+    }
+    return segment.channelData[Math.min(channel, segment.channelData.length - 1)][position - segment.startSample];
+  }
+  
+  // isRangeLoaded for a read that may cross the loop seam (and so also needs the head of the region)
+  isLoopedRangeLoaded(start, end) {
+    const loop = this.loop;
+    const seamStart = loop && loop.engaged ? loop.endSample - loop.crossfadeFrames : Infinity;
+    
+    if (end <= seamStart) {
+      return this.isRangeLoaded(start, end);
+    }
+    
+    const headLength = Math.min(end - seamStart, loop.endSample - loop.startSample);
+    return this.isRangeLoaded(start, Math.min(end, loop.endSample)) &&
+      this.isRangeLoaded(loop.startSample, loop.startSample + headLength);
+  }
+  
+  // Insert a segment into a voice's timeline (the processor itself is the primary voice)
+  insertSegment(voice, channelData, startSample) {
+    const length = channelData[0].length;
+    const segment = {
+      startSample: startSample !== undefined ? startSample : voice.totalSamples,
+      length,
+      channelData
+    };
+    
+    // Keep segments ordered by start sample; appends at the end are the common case
+    let insertAt = voice.segments.length;
+    while (insertAt > 0 && voice.segments[insertAt - 1].startSample > segment.startSample) {
+      insertAt--;
+    }
+    voice.segments.splice(insertAt, 0, segment);
+    if (insertAt <= voice.segmentCursor && voice.segments.length > 1) {
+      voice.segmentCursor = 0;
+    }
+    
+    voice.totalSamples = Math.max(voice.totalSamples || 0, segment.startSample + length);
+  }
+  
+  // Find the segment containing a timeline sample, or null if it has not been appended
+  findSegment(position, voice = this) {
+    const segments = voice.segments;
+    const cursor = segments[voice.segmentCursor];
+    
+    if (cursor && position >= cursor.startSample && position < cursor.startSample + cursor.length) {
+      return cursor;
+    }
+    
+    // Sequential playback moves into the next segment
+    const next = segments[voice.segmentCursor + 1];
+    if (next && position >= next.startSample && position < next.startSample + next.length) {
+      voice.segmentCursor++;
+      return next;
+    }
+    
+    // Seek or gap - binary search
+    let low = 0;
+    let high = segments.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const segment = segments[mid];
+      if (position < segment.startSample) {
+        high = mid - 1;
+      } else if (position >= segment.startSample + segment.length) {
+        low = mid + 1;
+      } else {
+        voice.segmentCursor = mid;
+        return segment;
+      }
+    }
+    
+    return null;
+  }
+  
   // Automatic reset for new song
+  // Return to the empty state - nothing loaded, nothing staged, position 0
+  clearPlayback() {
+    if (this.gainRamp) {
+      this.completeFadeRequests(this.gainRamp.requestIds);
+      this.gainRamp = null;
+    }
+    this.isPlaying = false;
+    this.outputLevel = 1;
+    this.setTrackGain(1);
+    this.segments = [];
+    this.segmentCursor = 0;
+    this.audioChannelData = null;
+    this.totalSamples = 0;
+    this.duration = 0;
+    this.bufferSourcePosition = 0;
+    this.currentTime = 0;
+    this.streamComplete = true;
+    this.isUnderrun = false;
+    this.stretcher = null;
+    this.nextTrack = null;
+    this.fadingVoice = null;
+    this.crossfade = null;
+    this.loop = null;
+    this.silenceScan = null;
+    this.scheduledBuffers = [];
+    this.currentBufferIndex = 0;
+    this.nextSwitchTime = null;
+    this.currentBufferEarlyStopTime = null;
+    this.pendingChunkedBuffers.clear();
+    this.currentTrackId = null;
+  }
+  
   autoResetForNewSong(newTrackId) {
     console.log(`[AudioWorklet] Auto-resetting progressive buffers for new song: ${newTrackId}`);
     
+    // Loop regions belong to the previous song
+    this.loop = null;
+    
     // Clear all progressive buffer state
     this.scheduledBuffers = [];
     this.currentBufferIndex = 0;
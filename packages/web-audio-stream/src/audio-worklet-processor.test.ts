@@ -0,0 +1,391 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAudioContext, FakeAudioWorkletNode } from './testing/index.js';
+
+const SAMPLE_RATE = 8000;
+
+// Messages the processor posted back, as plain records
+type WorkletMessage = Record<string, any>;
+
+interface Worklet {
+  context: FakeAudioContext;
+  messages: WorkletMessage[];
+  post(message: WorkletMessage): Promise<void>;
+  render(frames: number): Promise<void>;
+  recording(channel?: number): Float32Array;
+}
+
+// The bundled processor on its own, wired straight to a recording destination
+async function createWorklet(): Promise<Worklet> {
+  const context = new FakeAudioContext({ sampleRate: SAMPLE_RATE, record: true });
+  await context.audioWorklet.addModule('/audio-worklet-processor.js');
+  const node = new FakeAudioWorkletNode(context, 'audio-playback-processor');
+  node.connect(context.destination);
+  const messages: WorkletMessage[] = [];
+  node.port.onmessage = event => messages.push(event.data);
+
+  // No declick ramps, so rendered samples are the source samples
+  node.port.postMessage({ type: 'SET_FADE_CONFIG', config: { pauseMs: 0, resumeMs: 0, seekMs: 0, trackChangeMs: 0 } });
+  await context.flush();
+
+  return {
+    context,
+    messages,
+    post: async message => {
+      node.port.postMessage(message);
+      await context.flush();
+    },
+    render: frames => context.advance(frames / SAMPLE_RATE),
+    recording: (channel = 0) => context.getRecording()[channel]
+  };
+}
+
+function track(trackId: string, channelData: Float32Array[], type = 'SET_BUFFER'): WorkletMessage {
+  return { type, trackId, channelData, sampleRate: SAMPLE_RATE, numberOfChannels: channelData.length, totalSamples: channelData[0].length };
+}
+
+function fill(length: number, sample: (index: number) => number): Float32Array {
+  return Float32Array.from({ length }, (_, index) => sample(index));
+}
+
+function sine(frequency: number, seconds: number): Float32Array {
+  return fill(seconds * SAMPLE_RATE, index => 0.5 * Math.sin(2 * Math.PI * frequency * index / SAMPLE_RATE));
+}
+
+function countZeroCrossings(data: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < data.length; i++) {
+    if ((data[i - 1] < 0) !== (data[i] < 0)) crossings++;
+  }
+  return crossings;
+}
+
+function timeUpdates(messages: WorkletMessage[]): number[] {
+  return messages.filter(message => message.type === 'TIME_UPDATE').map(message => message.currentTime);
+}
+
+function lastTimeUpdate(messages: WorkletMessage[]): number {
+  return timeUpdates(messages).at(-1)!;
+}
+
+function largestStep(data: Float32Array): number {
+  let largest = 0;
+  for (let i = 1; i < data.length; i++) {
+    largest = Math.max(largest, Math.abs(data[i] - data[i - 1]));
+  }
+  return largest;
+}
+
+let worklet: Worklet;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  worklet = await createWorklet();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('audio-playback-processor', () => {
+  describe('gapless transitions', () => {
+    const first = fill(1000, index => (index + 1) / 2000);
+    const second = fill(1000, index => -(index + 1) / 2000);
+
+    it('starts the staged track on the sample after the current one ends', async () => {
+      await worklet.post(track('a', [first]));
+      await worklet.post(track('b', [second], 'STAGE_NEXT_TRACK'));
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(2048);
+
+      const output = worklet.recording();
+      expect(output[999]).toBeCloseTo(first[999], 6);
+      expect(output[1000]).toBeCloseTo(second[0], 6);
+      expect(output[1999]).toBeCloseTo(second[999], 6);
+      expect(worklet.messages.filter(message => message.type === 'TRACK_CHANGED')).toEqual([
+        { type: 'TRACK_CHANGED', trackId: 'b', previousTrackId: 'a', duration: 1000 / SAMPLE_RATE }
+      ]);
+      expect(worklet.messages.filter(message => message.type === 'ENDED')).toHaveLength(1);
+    });
+
+    it('ends instead when the staged track is cleared or replaced by SET_BUFFER', async () => {
+      await worklet.post(track('a', [first]));
+      await worklet.post(track('b', [second], 'STAGE_NEXT_TRACK'));
+      await worklet.post({ type: 'CLEAR_NEXT_TRACK' });
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(1024);
+      await worklet.post(track('b', [second], 'STAGE_NEXT_TRACK'));
+      await worklet.post(track('c', [first]));
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(1024);
+
+      expect(worklet.messages.some(message => message.type === 'TRACK_CHANGED')).toBe(false);
+      expect(worklet.messages.filter(message => message.type === 'ENDED')).toHaveLength(2);
+    });
+  });
+
+  describe('crossfades', () => {
+    // Left carries the outgoing track and right the incoming one, so each channel shows one voice's gain
+    const outgoing = [fill(4000, () => 1), fill(4000, () => 0)];
+    const incoming = [fill(4000, () => 0), fill(4000, () => 1)];
+
+    async function crossfade(curve: string): Promise<number> {
+      await worklet.post(track('a', outgoing));
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(256);
+      const start = worklet.context.currentFrame;
+      await worklet.post({ ...track('b', incoming, 'CROSSFADE'), duration: 0.1, curve });
+      await worklet.render(1024);
+      return start;
+    }
+
+    // Both voices are at the same gain halfway through the 800 frame fade
+    it.each([
+      ['linear', 0.5],
+      ['equal-power', Math.SQRT1_2],
+      ['exponential', (Math.sqrt(1000) - 1) / 999]
+    ])('fades with the %s curve', async (curve, midpointGain) => {
+      const start = await crossfade(curve);
+      const [left, right] = [worklet.recording(0), worklet.recording(1)];
+
+      expect(left[start - 1]).toBe(1);
+      expect(left[start + 200]).toBeGreaterThan(right[start + 200]);
+      expect(left[start + 400]).toBeCloseTo(midpointGain, 4);
+      expect(right[start + 400]).toBeCloseTo(midpointGain, 4);
+      expect(left[start + 800]).toBe(0);
+      expect(right[start + 800]).toBe(1);
+    });
+
+    it('keeps the summed power level with equal-power', async () => {
+      const start = await crossfade('equal-power');
+      const [left, right] = [worklet.recording(0), worklet.recording(1)];
+
+      for (let frame = start; frame < start + 800; frame += 50) {
+        expect(left[frame] ** 2 + right[frame] ** 2).toBeCloseTo(1, 4);
+      }
+    });
+
+    it('reports CROSSFADE_COMPLETE once the outgoing track is silent', async () => {
+      await crossfade('linear');
+
+      expect(worklet.messages.filter(message => message.type === 'CROSSFADE_COMPLETE')).toEqual([
+        { type: 'CROSSFADE_COMPLETE', trackId: 'b', previousTrackId: 'a' }
+      ]);
+    });
+
+    it('starts at full level when nothing is playing', async () => {
+      await worklet.post({ ...track('b', incoming, 'CROSSFADE'), duration: 0.1, curve: 'linear' });
+      await worklet.render(128);
+
+      expect(worklet.recording(1)[0]).toBe(1);
+      expect(worklet.messages.some(message => message.type === 'CROSSFADE_COMPLETE')).toBe(false);
+    });
+  });
+
+  describe('playback rate', () => {
+    const tone = sine(400, 3);
+
+    async function playAt(rate: number, preservePitch: boolean): Promise<Float32Array> {
+      await worklet.post(track('a', [tone]));
+      await worklet.post({ type: 'SET_PLAYBACK_RATE', rate, preservePitch });
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(SAMPLE_RATE / 2);
+      // A quarter second from the middle, clear of the first WSOLA hop
+      return worklet.recording().subarray(1000, 3000);
+    }
+
+    it('time-stretches with WSOLA, keeping the pitch', async () => {
+      const output = await playAt(2, true);
+
+      expect(countZeroCrossings(output)).toBeGreaterThanOrEqual(190); // 400Hz: 200 crossings in 0.25s
+      expect(countZeroCrossings(output)).toBeLessThanOrEqual(210);
+      expect(Math.max(...output)).toBeGreaterThan(0.45);
+      expect(lastTimeUpdate(worklet.messages)).toBeCloseTo(1, 0);
+    });
+
+    it('resamples like tape without pitch preservation', async () => {
+      const output = await playAt(2, false);
+
+      expect(countZeroCrossings(output)).toBeGreaterThanOrEqual(390);
+      expect(countZeroCrossings(output)).toBeLessThanOrEqual(410);
+      expect(lastTimeUpdate(worklet.messages)).toBeCloseTo(1, 0);
+    });
+
+    it('applies a rate change from the audible position', async () => {
+      await worklet.post(track('a', [tone]));
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(2048);
+      await worklet.post({ type: 'SET_PLAYBACK_RATE', rate: 0.5, preservePitch: true });
+      await worklet.render(4096);
+
+      // POSITION is only republished when extrapolating the last one would drift
+      const published = worklet.messages.filter(message => message.type === 'POSITION').at(-1)!;
+      const position = published.currentTime + (worklet.context.currentTime - published.contextTime) * published.rate;
+      expect(published.rate).toBe(0.5);
+      expect(position).toBeCloseTo((2048 + 4096 * 0.5) / SAMPLE_RATE, 3);
+    });
+
+    it('clamps the rate to 0.25x-4x', async () => {
+      await worklet.post(track('a', [tone]));
+      await worklet.post({ type: 'SET_PLAYBACK_RATE', rate: 10, preservePitch: false });
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(128);
+
+      expect(worklet.messages.filter(message => message.type === 'POSITION').at(-1)!.rate).toBe(4);
+    });
+  });
+
+  describe('A-B loop', () => {
+    // 50Hz is 160 frames a cycle, so the 900 frame region ends 5/8 of a cycle off the head's phase
+    const tone = sine(50, 2);
+    const region = { start: 0.1, end: 0.2125 };
+
+    async function playLoop(crossfadeMs: number): Promise<void> {
+      await worklet.post(track('a', [tone]));
+      await worklet.post({ type: 'SET_LOOP', ...region, crossfadeMs });
+      await worklet.post({ type: 'PLAY' });
+    }
+
+    it('crossfades the seam without a click', async () => {
+      await playLoop(10);
+      await worklet.render(SAMPLE_RATE);
+
+      // A 0.5 amplitude 50Hz sine never moves more than ~0.02 between samples
+      expect(largestStep(worklet.recording())).toBeLessThan(0.05);
+    });
+
+    it('jumps at the seam without a crossfade', async () => {
+      await playLoop(0);
+      await worklet.render(SAMPLE_RATE);
+
+      expect(largestStep(worklet.recording())).toBeGreaterThan(0.3);
+    });
+
+    it('keeps the position inside the region once it is reached', async () => {
+      await playLoop(10);
+      await worklet.render(SAMPLE_RATE);
+
+      const looped = timeUpdates(worklet.messages).filter(time => time >= region.start);
+      expect(looped.length).toBeGreaterThan(5);
+      looped.forEach(time => expect(time).toBeLessThan(region.end));
+    });
+
+    it('plays on after CLEAR_LOOP or a seek past the loop end', async () => {
+      await playLoop(10);
+      await worklet.render(SAMPLE_RATE / 2);
+      await worklet.post({ type: 'CLEAR_LOOP' });
+      await worklet.render(SAMPLE_RATE / 2);
+      expect(lastTimeUpdate(worklet.messages)).toBeGreaterThan(region.end);
+
+      await worklet.post({ type: 'SET_LOOP', ...region, crossfadeMs: 10 });
+      await worklet.post({ type: 'SEEK', time: 0.5 });
+      await worklet.render(SAMPLE_RATE / 2);
+      expect(lastTimeUpdate(worklet.messages)).toBeCloseTo(1, 1);
+    });
+  });
+
+  describe('fades', () => {
+    const ones = fill(SAMPLE_RATE, () => 1);
+
+    function completed(): number[] {
+      return worklet.messages.filter(message => message.type === 'FADE_COMPLETE').map(message => message.requestId);
+    }
+
+    async function playOnes(): Promise<number> {
+      await worklet.post(track('a', [ones]));
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(256);
+      return worklet.context.currentFrame;
+    }
+
+    it('resolves a pause once its fade reaches silence', async () => {
+      const start = await playOnes();
+      await worklet.post({ type: 'PAUSE', requestId: 1, fadeMs: 20 });
+      expect(completed()).toEqual([]);
+
+      await worklet.render(256);
+      const output = worklet.recording();
+      // 160 frame linear ramp, one step taken on its first frame
+      expect(output[start + 79]).toBeCloseTo(0.5, 6);
+      expect(output[start + 159]).toBe(0);
+      expect(output[start + 200]).toBe(0);
+      expect(completed()).toEqual([1]);
+    });
+
+    it('resolves every request folded into one fade, seeking at silence', async () => {
+      await playOnes();
+      await worklet.post({ type: 'PAUSE', requestId: 1, fadeMs: 20 });
+      await worklet.post({ type: 'SEEK', requestId: 2, fadeMs: 20, time: 0.5 });
+      await worklet.render(512);
+
+      expect(completed()).toEqual([1, 2]);
+      expect(worklet.messages.filter(message => message.type === 'POSITION').at(-1)).toMatchObject({ currentTime: 0.5, playing: false });
+    });
+
+    it('keeps playing when PLAY supersedes a pause, resolving both', async () => {
+      const start = await playOnes();
+      await worklet.post({ type: 'PAUSE', requestId: 1, fadeMs: 20 });
+      await worklet.render(128);
+      await worklet.post({ type: 'PLAY', requestId: 2, fadeMs: 20 });
+      await worklet.render(512);
+
+      expect(completed()).toEqual([1, 2]);
+      expect(worklet.recording()[start + 600]).toBe(1);
+    });
+
+    it('resolves at once when there is nothing to fade', async () => {
+      await worklet.post(track('a', [ones]));
+      await worklet.post({ type: 'PAUSE', requestId: 1 });
+      await worklet.post({ type: 'SEEK', requestId: 2, time: 0.25 });
+
+      expect(completed()).toEqual([1, 2]);
+    });
+  });
+
+  describe('skip silence', () => {
+    // A second of tone, a second of silence, then another second of tone
+    const tone = sine(400, 1);
+    const speech = fill(3 * SAMPLE_RATE, index => index < SAMPLE_RATE ? tone[index] : index >= 2 * SAMPLE_RATE ? tone[index - 2 * SAMPLE_RATE] : 0);
+
+    async function playWithSkipSilence(): Promise<void> {
+      await worklet.post(track('a', [speech]));
+      await worklet.post({ type: 'SET_SKIP_SILENCE', options: { enabled: true, keepMs: 100 } });
+      await worklet.post({ type: 'PLAY' });
+      await worklet.render(1.5 * SAMPLE_RATE);
+    }
+
+    it('jumps over silence, keeping half of keepMs on each side', async () => {
+      await playWithSkipSilence();
+
+      const skips = worklet.messages.filter(message => message.type === 'SILENCE_SKIPPED');
+      expect(skips).toEqual([{ type: 'SILENCE_SKIPPED', trackId: 'a', from: expect.any(Number), to: expect.closeTo(1.95, 2) }]);
+      // The jump happens at the first quantum boundary past the kept silence
+      expect(skips[0].from).toBeGreaterThanOrEqual(1.05);
+      expect(skips[0].from).toBeLessThan(1.05 + 128 / SAMPLE_RATE);
+      // 1.5s of output covers 2.4s of the track (updates come every 0.1s of track time)
+      expect(lastTimeUpdate(worklet.messages)).toBeGreaterThan(2.3);
+    });
+
+    it('reports effective time with the skipped parts left out', async () => {
+      await playWithSkipSilence();
+
+      const update = worklet.messages.filter(message => message.type === 'TIME_UPDATE').at(-1)!;
+      expect(update.effectiveTime).toBeCloseTo(update.currentTime - 0.9, 2);
+      expect(update.effectiveDuration).toBeCloseTo(2.1, 2);
+      expect(update.duration).toBe(3);
+    });
+
+    it('plays the silence once switched off', async () => {
+      await playWithSkipSilence();
+      await worklet.post({ type: 'SEEK', time: 0.5 });
+      await worklet.post({ type: 'SET_SKIP_SILENCE', options: { enabled: false } });
+      worklet.messages.length = 0;
+      await worklet.render(SAMPLE_RATE);
+
+      const update = worklet.messages.filter(message => message.type === 'TIME_UPDATE').at(-1)!;
+      expect(worklet.messages.some(message => message.type === 'SILENCE_SKIPPED')).toBe(false);
+      expect(update.currentTime).toBeCloseTo(1.5, 1);
+      expect(update.effectiveTime).toBe(update.currentTime);
+    });
+  });
+});
+
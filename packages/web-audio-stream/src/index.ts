@@ -3,18 +3,81 @@
 
 import { WebAudioManager, getWebAudioManager, type InstantPlaybackConfig } from './WebAudioManager.js';
 
-export { WebAudioManager, getWebAudioManager } from './WebAudioManager.js';
+export { WebAudioManager, getWebAudioManager, createWebAudioManager } from './WebAudioManager.js';
 export type { 
   WebAudioManagerOptions, 
-  InstantPlaybackConfig 
+  SharedWebAudioManagerOptions,
+  InstantPlaybackConfig,
+  CrossfadeCurve,
+  CrossfadeOptions,
+  FadeOptions,
+  LoopRegion,
+  PlaybackStatus,
+  LoadStrategy,
+  LoadOptions,
+  LoadProgressEvent,
+  SkipSilenceOptions,
+  PlaybackTimeline,
+  ExportRegionOptions,
+  WebAudioMemoryUsage,
+  WebAudioManagerEvents
 } from './WebAudioManager.js';
 
+export { TypedEventEmitter } from './TypedEventEmitter.js';
+export type { EventListener } from './TypedEventEmitter.js';
+
+export { PlaybackStateMachine } from './PlaybackStateMachine.js';
+export type {
+  PlaybackState,
+  PlaybackEvent,
+  PlaybackTransition,
+  PlaybackStateMachineEvents
+} from './PlaybackStateMachine.js';
+
+export { AudioAnalyser } from './AudioAnalyser.js';
+export type { AnalyserOptions, AnalyserTap, ChannelLevels } from './AudioAnalyser.js';
+
+export { WaveformPeaks } from './WaveformPeaks.js';
+export type {
+  WaveformPeaksOptions,
+  WaveformPeaksData,
+  PeakLevel,
+  PeakRange,
+  PeakRangeOptions
+} from './WaveformPeaks.js';
+
+export { LoudnessAnalyzer } from './LoudnessAnalyzer.js';
+export type {
+  LoudnessInfo,
+  ReplayGainInfo,
+  NormalizationMode,
+  NormalizationOptions
+} from './LoudnessAnalyzer.js';
+
+export { SilenceTrimmer } from './SilenceTrimmer.js';
+export type { SilenceTrimOptions, SilenceTrim } from './SilenceTrimmer.js';
+
+export { PlaybackClock } from './PlaybackClock.js';
+export type { PlaybackPosition, PositionSnapshot } from './PlaybackClock.js';
+
+export { AudioExporter } from './AudioExporter.js';
+export type { ExportFormat, PcmSource, ExportGraph, AudioExporterOptions } from './AudioExporter.js';
+
+export { AudioBufferCache } from './AudioBufferCache.js';
+export type {
+  MemoryBudget,
+  MemoryUsage,
+  CachedTrackUsage,
+  AudioBufferCacheOptions
+} from './AudioBufferCache.js';
+
 export { AudioChunkStore } from './AudioChunkStore.js';
 export type { 
   AudioMetadata, 
   AudioChunk, 
   StoredChunk, 
-  ProgressCallback
+  ProgressCallback,
+  StoreOptions
 } from './AudioChunkStore.js';
 
 export { DownloadManager } from './DownloadManager.js';
@@ -31,6 +94,50 @@ export type {
   StreamingAssemblerOptions
 } from './StreamingAssembler.js';
 
+export { AudioFrameParser } from './AudioFrameParser.js';
+export type {
+  AudioContainerFormat,
+  AudioStreamInfo,
+  XingHeader,
+  VbriHeader,
+  SeekPoint,
+  FrameAlignedCut
+} from './AudioFrameParser.js';
+
+export { GaplessTrimmer } from './GaplessTrimmer.js';
+export type {
+  GaplessInfo,
+  GaplessTrimRange
+} from './GaplessTrimmer.js';
+
+export { PlaybackQueue } from './PlaybackQueue.js';
+export type {
+  QueueItem,
+  RepeatMode,
+  PlaybackQueueOptions,
+  SerializedPlaybackQueue
+} from './PlaybackQueue.js';
+
+export { EffectsChain } from './EffectsChain.js';
+export type {
+  EffectUnit,
+  EffectFactory,
+  EffectDescriptor,
+  EffectsPreset,
+  EffectsChainOptions
+} from './EffectsChain.js';
+export { ParametricEqualizer } from './ParametricEqualizer.js';
+export type { EqBand, EqBandType, ParametricEqualizerParams } from './ParametricEqualizer.js';
+export { CompressorEffect, COMPRESSOR_DEFAULTS, LIMITER_DEFAULTS } from './CompressorEffect.js';
+export type { CompressorParams } from './CompressorEffect.js';
+export { StereoWidthEffect } from './StereoWidthEffect.js';
+export type { StereoWidthParams } from './StereoWidthEffect.js';
+
+export { MediaSessionController } from './MediaSessionController.js';
+export type { MediaSessionOptions, MediaSessionTrackMetadata } from './MediaSessionController.js';
+export { OutputDeviceController } from './OutputDeviceController.js';
+export type { AudioOutputDevice, OutputDeviceOptions, OutputDeviceChange } from './OutputDeviceController.js';
+
 // Utility functions for iOS Safari detection
 export function isIOSSafari(): boolean {
   if (typeof navigator === 'undefined') return false;
@@ -42,8 +149,10 @@ export function isIOSSafari(): boolean {
   return isIOS && isSafari;
 }
 
-// Quick setup function for basic usage
+// Quick setup function for basic usage (shared instance, named 'default' unless given a name)
 export async function setupWebAudio(options: {
+  name?: string;
+  audioContext?: AudioContext;
   workletPath?: string;
   enableCache?: boolean;
   enableInstantPlayback?: boolean;
@@ -59,7 +168,10 @@ export async function setupWebAudio(options: {
 }
 
 // Quick setup function optimized for instant playback with separated download/storage
+// (shared instance, named 'instant' unless given a name - so it never picks up setupWebAudio's config)
 export async function setupInstantAudio(options: {
+  name?: string;
+  audioContext?: AudioContext;
   workletPath?: string;
   enableCache?: boolean;
   downloadChunkSize?: number;      // Size for network downloads (256KB-512KB)
@@ -89,6 +201,8 @@ export async function setupInstantAudio(options: {
   };
   
   const manager = getWebAudioManager({
+    name: options.name || 'instant',
+    audioContext: options.audioContext,
     workletPath: options.workletPath,
     enableCache: options.enableCache,
     enableInstantPlayback: true,
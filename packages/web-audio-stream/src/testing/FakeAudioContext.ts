@@ -0,0 +1,1185 @@
+// FakeAudioContext.ts
+// Deterministic Web Audio stand-ins for Node - the graph renders on a virtual clock, one 128-frame quantum at a time
+// Gain, splitter/merger, buffer source, analyser and worklet nodes process audio; filters and compressors pass it through
+
+import { readFile } from 'node:fs/promises';
+import { FakeMediaDevices } from './FakeMediaDevices.js';
+
+const RENDER_QUANTUM = 128;
+const DEFAULT_PROCESSOR_URL = new URL('../audio-worklet-processor.js', import.meta.url);
+const ANALYSER_HISTORY = 32768;
+
+export type FakeAudioDecoder = (data: ArrayBuffer, sampleRate: number) => FakeAudioBuffer | Promise<FakeAudioBuffer>;
+
+export interface FakeAudioContextOptions {
+  sampleRate?: number;                      // Context rate (default: 48000)
+  state?: 'running' | 'suspended';          // Initial state (default: 'running')
+  record?: boolean;                         // Keep everything the destination renders, for getRecording() (default: false)
+  workletModules?: Record<string, string>;  // Processor source per addModule() URL (default: the bundled audio-playback-processor for any URL)
+  decoder?: FakeAudioDecoder;               // decodeAudioData() override (default: WAV only)
+}
+
+interface Upstream {
+  source: FakeAudioNode;
+  output: number;
+  input: number;
+}
+
+interface ParamEvent {
+  type: 'set' | 'linear' | 'exponential' | 'target';
+  time: number;
+  value: number;
+  timeConstant?: number;
+}
+
+let bundledProcessorSource: Promise<string> | null = null;
+let pendingProcessorPort: FakeMessagePort | null = null;
+
+/**
+ * AudioBuffer stand-in
+ */
+export class FakeAudioBuffer {
+  readonly sampleRate: number;
+  readonly length: number;
+  readonly numberOfChannels: number;
+  private channels: Float32Array[];
+
+  constructor(options: { numberOfChannels?: number; length: number; sampleRate: number }) {
+    if (!(options.length > 0) || !(options.sampleRate > 0)) {
+      throw new Error(`Invalid AudioBuffer size: ${options.length} frames at ${options.sampleRate}Hz`);
+    }
+    this.numberOfChannels = options.numberOfChannels ?? 1;
+    this.length = Math.floor(options.length);
+    this.sampleRate = options.sampleRate;
+    this.channels = Array.from({ length: this.numberOfChannels }, () => new Float32Array(this.length));
+  }
+
+  get duration(): number {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array {
+    const data = this.channels[channel];
+    if (!data) {
+      throw new Error(`Channel ${channel} out of range (${this.numberOfChannels} channels)`);
+    }
+    return data;
+  }
+
+  copyFromChannel(destination: Float32Array, channel: number, bufferOffset = 0): void {
+    const data = this.getChannelData(channel);
+    destination.set(data.subarray(bufferOffset, bufferOffset + destination.length));
+  }
+
+  copyToChannel(source: Float32Array, channel: number, bufferOffset = 0): void {
+    const data = this.getChannelData(channel);
+    data.set(source.subarray(0, Math.max(0, data.length - bufferOffset)), bufferOffset);
+  }
+}
+
+/**
+ * AudioParam stand-in - automation is evaluated once per render quantum
+ */
+export class FakeAudioParam {
+  readonly defaultValue: number;
+  readonly minValue: number;
+  readonly maxValue: number;
+  automationRate: 'a-rate' | 'k-rate' = 'a-rate';
+  private events: ParamEvent[] = [];
+
+  constructor(private context: FakeBaseAudioContext, defaultValue: number, minValue = -3.4028234663852886e38, maxValue = 3.4028234663852886e38) {
+    this.defaultValue = defaultValue;
+    this.minValue = minValue;
+    this.maxValue = maxValue;
+  }
+
+  get value(): number {
+    return this.getValueAtTime(this.context.currentTime);
+  }
+
+  set value(value: number) {
+    this.setValueAtTime(value, this.context.currentTime);
+  }
+
+  setValueAtTime(value: number, startTime: number): this {
+    return this.insert({ type: 'set', time: startTime, value });
+  }
+
+  linearRampToValueAtTime(value: number, endTime: number): this {
+    return this.insert({ type: 'linear', time: endTime, value });
+  }
+
+  exponentialRampToValueAtTime(value: number, endTime: number): this {
+    if (value === 0) {
+      throw new RangeError('exponentialRampToValueAtTime() target must be non-zero');
+    }
+    return this.insert({ type: 'exponential', time: endTime, value });
+  }
+
+  setTargetAtTime(target: number, startTime: number, timeConstant: number): this {
+    return this.insert({ type: 'target', time: startTime, value: target, timeConstant });
+  }
+
+  setValueCurveAtTime(values: ArrayLike<number>, startTime: number, duration: number): this {
+    const step = values.length > 1 ? duration / (values.length - 1) : 0;
+    this.insert({ type: 'set', time: startTime, value: values[0] });
+    for (let i = 1; i < values.length; i++) {
+      this.insert({ type: 'linear', time: startTime + i * step, value: values[i] });
+    }
+    return this;
+  }
+
+  cancelScheduledValues(cancelTime: number): this {
+    this.events = this.events.filter(event => event.time < cancelTime);
+    return this;
+  }
+
+  cancelAndHoldAtTime(cancelTime: number): this {
+    const held = this.getValueAtTime(cancelTime);
+    this.cancelScheduledValues(cancelTime);
+    return this.insert({ type: 'set', time: cancelTime, value: held });
+  }
+
+  /**
+   * Value the automation timeline gives at a context time
+   */
+  getValueAtTime(time: number): number {
+    let value = this.defaultValue;
+    let lastTime = 0;
+
+    for (let i = 0; i < this.events.length; i++) {
+      const event = this.events[i];
+
+      if (event.type === 'linear' || event.type === 'exponential') {
+        if (time < event.time) {
+          const span = event.time - lastTime;
+          const progress = span > 0 ? Math.max(0, (time - lastTime) / span) : 1;
+          const ramped = event.type === 'linear' || value === 0 || Math.sign(value) !== Math.sign(event.value)
+            ? value + (event.value - value) * progress
+            : value * Math.pow(event.value / value, progress);
+          return this.clamp(ramped);
+        }
+        value = event.value;
+        lastTime = event.time;
+        continue;
+      }
+
+      if (event.time > time) break;
+
+      if (event.type === 'set') {
+        value = event.value;
+        lastTime = event.time;
+      } else {
+        // Approach the target until the next event takes over
+        const next = this.events[i + 1];
+        const until = next && next.time <= time ? next.time : time;
+        value = event.value + (value - event.value) * Math.exp(-(until - event.time) / event.timeConstant!);
+        lastTime = until;
+      }
+    }
+
+    return this.clamp(value);
+  }
+
+  private insert(event: ParamEvent): this {
+    if (!Number.isFinite(event.value) || !Number.isFinite(event.time) || event.time < 0) {
+      throw new RangeError(`Invalid automation event: ${event.type} ${event.value} at ${event.time}`);
+    }
+    const index = this.events.findIndex(existing => existing.time > event.time);
+    this.events.splice(index === -1 ? this.events.length : index, 0, event);
+
+    // Once a later set or finished ramp has taken over, earlier events can't affect any value again
+    const now = this.context.currentTime;
+    while (this.events.length > 1 && this.events[1].time <= now && this.events[1].type !== 'target') {
+      this.events.shift();
+    }
+    return this;
+  }
+
+  private clamp(value: number): number {
+    return Math.min(this.maxValue, Math.max(this.minValue, value));
+  }
+}
+
+/**
+ * MessagePort stand-in - messages are structured-cloned (transfers detach) and delivered as microtasks
+ */
+export class FakeMessagePort extends EventTarget {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+  private peer: FakeMessagePort | null = null;
+  private closed = false;
+
+  static createPair(): [FakeMessagePort, FakeMessagePort] {
+    const first = new FakeMessagePort();
+    const second = new FakeMessagePort();
+    first.peer = second;
+    second.peer = first;
+    return [first, second];
+  }
+
+  postMessage(message: unknown, transfer?: Transferable[] | StructuredSerializeOptions): void {
+    if (this.closed || !this.peer) return;
+    const transferList = Array.isArray(transfer) ? transfer : transfer?.transfer ?? [];
+    const data = structuredClone(message, { transfer: transferList as Transferable[] });
+    const peer = this.peer;
+    queueMicrotask(() => peer.deliver(data));
+  }
+
+  start(): void {
+    // Delivery is always on - nothing to start
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.peer) {
+      this.peer.peer = null;
+      this.peer = null;
+    }
+  }
+
+  private deliver(data: unknown): void {
+    if (this.closed) return;
+    const event = new MessageEvent('message', { data });
+    this.onmessage?.(event);
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * Base class handed to worklet modules as AudioWorkletProcessor
+ */
+export class FakeAudioWorkletProcessor {
+  readonly port: FakeMessagePort;
+
+  constructor() {
+    if (!pendingProcessorPort) {
+      throw new TypeError('AudioWorkletProcessor can only be constructed by an AudioWorkletNode');
+    }
+    this.port = pendingProcessorPort;
+    pendingProcessorPort = null;
+  }
+}
+
+type ProcessorConstructor = new (options?: unknown) => FakeAudioWorkletProcessor & {
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+};
+
+/**
+ * AudioWorklet stand-in - evaluates processor modules in this realm with the worklet globals they expect
+ */
+export class FakeAudioWorklet {
+  readonly processors = new Map<string, ProcessorConstructor>();
+
+  constructor(private context: FakeBaseAudioContext, private modules: Record<string, string> = {}) {}
+
+  async addModule(moduleURL: string | URL): Promise<void> {
+    const source = this.modules[String(moduleURL)] ?? await FakeAudioWorklet.loadBundledProcessor();
+    const context = this.context;
+    const registerProcessor = (name: string, processor: ProcessorConstructor) => {
+      if (this.processors.has(name)) {
+        throw new Error(`Processor '${name}' is already registered`);
+      }
+      this.processors.set(name, processor);
+    };
+
+    // The scope's getters keep currentTime and currentFrame live, like the worklet global scope
+    const scope = {
+      AudioWorkletProcessor: FakeAudioWorkletProcessor,
+      registerProcessor,
+      sampleRate: context.sampleRate,
+      get currentTime() { return context.currentTime; },
+      get currentFrame() { return context.currentFrame; }
+    };
+    const evaluate = new Function('scope', `with (scope) {\n${source}\n}`);
+    evaluate(scope);
+  }
+
+  private static loadBundledProcessor(): Promise<string> {
+    bundledProcessorSource ??= readFile(DEFAULT_PROCESSOR_URL, 'utf8');
+    return bundledProcessorSource;
+  }
+}
+
+/**
+ * AudioNode stand-in - pulls its inputs and renders at most once per quantum
+ */
+export class FakeAudioNode extends EventTarget {
+  readonly context: FakeBaseAudioContext;
+  readonly numberOfInputs: number;
+  readonly numberOfOutputs: number;
+  channelCount = 2;
+  channelCountMode: ChannelCountMode = 'max';
+  channelInterpretation: ChannelInterpretation = 'speakers';
+  private upstream: Upstream[] = [];
+  private downstream: Array<{ destination: FakeAudioNode | FakeAudioParam; output: number; input: number }> = [];
+  private renderedQuantum = -1;
+  private rendered: Float32Array[][] = [];
+
+  constructor(context: FakeBaseAudioContext, numberOfInputs: number, numberOfOutputs: number) {
+    super();
+    this.context = context;
+    this.numberOfInputs = numberOfInputs;
+    this.numberOfOutputs = numberOfOutputs;
+  }
+
+  connect<T extends FakeAudioNode | FakeAudioParam>(destination: T, output = 0, input = 0): T {
+    if (output >= this.numberOfOutputs) {
+      throw new Error(`Output ${output} out of range (${this.numberOfOutputs} outputs)`);
+    }
+    if (destination instanceof FakeAudioNode) {
+      if (destination.context !== this.context) {
+        throw new Error('Cannot connect nodes from different contexts');
+      }
+      if (input >= destination.numberOfInputs) {
+        throw new Error(`Input ${input} out of range (${destination.numberOfInputs} inputs)`);
+      }
+      if (!destination.upstream.some(link => link.source === this && link.output === output && link.input === input)) {
+        destination.upstream.push({ source: this, output, input });
+      }
+    }
+    // Param connections are accepted but don't modulate anything
+    this.downstream.push({ destination, output, input });
+    return destination;
+  }
+
+  disconnect(destination?: FakeAudioNode | FakeAudioParam | number, output?: number, input?: number): void {
+    if (typeof destination === 'number') {
+      output = destination;
+      destination = undefined;
+    }
+
+    const removed = this.downstream.filter(link =>
+      (destination === undefined || link.destination === destination) &&
+      (output === undefined || link.output === output) &&
+      (input === undefined || link.input === input)
+    );
+    if (destination !== undefined && removed.length === 0) {
+      throw new Error('Nodes are not connected');
+    }
+
+    this.downstream = this.downstream.filter(link => !removed.includes(link));
+    for (const link of removed) {
+      if (link.destination instanceof FakeAudioNode) {
+        link.destination.upstream = link.destination.upstream.filter(up => !(up.source === this && up.output === link.output && up.input === link.input));
+      }
+    }
+  }
+
+  /**
+   * Render this node for a quantum, returning channels per output
+   */
+  pull(quantum: number): Float32Array[][] {
+    if (this.renderedQuantum === quantum) {
+      return this.rendered;
+    }
+    // Marked before pulling inputs so cycles read the previous quantum instead of recursing
+    this.renderedQuantum = quantum;
+
+    const inputs: Float32Array[][] = [];
+    for (let index = 0; index < this.numberOfInputs; index++) {
+      inputs.push(this.mixInput(index, quantum));
+    }
+    this.rendered = this.process(inputs);
+    return this.rendered;
+  }
+
+  /**
+   * Produce outputs from mixed inputs - the default passes the first input through
+   */
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    const input = inputs[0] ?? [];
+    return Array.from({ length: this.numberOfOutputs }, () => input.length > 0 ? input : [new Float32Array(RENDER_QUANTUM)]);
+  }
+
+  private mixInput(index: number, quantum: number): Float32Array[] {
+    const sources = this.upstream
+      .filter(link => link.input === index)
+      .map(link => link.source.pull(quantum)[link.output] ?? []);
+    const widest = sources.reduce((max, channels) => Math.max(max, channels.length), 0);
+    if (widest === 0) {
+      return [];
+    }
+
+    const count = this.channelCountMode === 'explicit' ? this.channelCount
+      : this.channelCountMode === 'clamped-max' ? Math.min(widest, this.channelCount)
+      : widest;
+    const mixed = Array.from({ length: count }, () => new Float32Array(RENDER_QUANTUM));
+
+    const speakers = this.channelInterpretation === 'speakers';
+    for (const channels of sources) {
+      if (speakers && count === 1 && channels.length === 2) {
+        // Stereo to mono speaker down-mix
+        for (let i = 0; i < RENDER_QUANTUM; i++) {
+          mixed[0][i] += 0.5 * (channels[0][i] + channels[1][i]);
+        }
+        continue;
+      }
+      for (let channel = 0; channel < count; channel++) {
+        // Mono up-mixes to every speaker; otherwise channels map one to one and extras are dropped
+        const source = speakers && channels.length === 1 ? channels[0] : channels[channel];
+        if (!source) continue;
+        const target = mixed[channel];
+        for (let i = 0; i < RENDER_QUANTUM; i++) {
+          target[i] += source[i];
+        }
+      }
+    }
+    return mixed;
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain: FakeAudioParam;
+
+  constructor(context: FakeBaseAudioContext, options: { gain?: number } = {}) {
+    super(context, 1, 1);
+    this.gain = new FakeAudioParam(context, 1);
+    if (options.gain !== undefined) this.gain.value = options.gain;
+  }
+
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    const gain = this.gain.value;
+    const input = inputs[0];
+    if (input.length === 0) {
+      return [[new Float32Array(RENDER_QUANTUM)]];
+    }
+    return [input.map(channel => channel.map(sample => sample * gain))];
+  }
+}
+
+export class FakeChannelSplitterNode extends FakeAudioNode {
+  constructor(context: FakeBaseAudioContext, numberOfOutputs = 6) {
+    super(context, 1, numberOfOutputs);
+    this.channelCountMode = 'explicit';
+    this.channelCount = numberOfOutputs;
+    this.channelInterpretation = 'discrete';
+  }
+
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    return Array.from({ length: this.numberOfOutputs }, (_, output) => [inputs[0][output] ?? new Float32Array(RENDER_QUANTUM)]);
+  }
+}
+
+export class FakeChannelMergerNode extends FakeAudioNode {
+  constructor(context: FakeBaseAudioContext, numberOfInputs = 6) {
+    super(context, numberOfInputs, 1);
+    this.channelCountMode = 'explicit';
+    this.channelCount = 1;
+  }
+
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    return [inputs.map(input => input[0] ?? new Float32Array(RENDER_QUANTUM))];
+  }
+}
+
+export class FakeBiquadFilterNode extends FakeAudioNode {
+  type: BiquadFilterType = 'lowpass';
+  readonly frequency: FakeAudioParam;
+  readonly detune: FakeAudioParam;
+  readonly Q: FakeAudioParam;
+  readonly gain: FakeAudioParam;
+
+  constructor(context: FakeBaseAudioContext) {
+    super(context, 1, 1);
+    this.frequency = new FakeAudioParam(context, 350, 0, context.sampleRate / 2);
+    this.detune = new FakeAudioParam(context, 0);
+    this.Q = new FakeAudioParam(context, 1);
+    this.gain = new FakeAudioParam(context, 0);
+  }
+
+  // Pass-through, so the response is flat
+  getFrequencyResponse(frequencyHz: Float32Array, magResponse: Float32Array, phaseResponse: Float32Array): void {
+    magResponse.fill(1, 0, frequencyHz.length);
+    phaseResponse.fill(0, 0, frequencyHz.length);
+  }
+}
+
+export class FakeDynamicsCompressorNode extends FakeAudioNode {
+  readonly threshold: FakeAudioParam;
+  readonly knee: FakeAudioParam;
+  readonly ratio: FakeAudioParam;
+  readonly attack: FakeAudioParam;
+  readonly release: FakeAudioParam;
+  readonly reduction = 0; // Pass-through never reduces gain
+
+  constructor(context: FakeBaseAudioContext) {
+    super(context, 1, 1);
+    this.threshold = new FakeAudioParam(context, -24, -100, 0);
+    this.knee = new FakeAudioParam(context, 30, 0, 40);
+    this.ratio = new FakeAudioParam(context, 12, 1, 20);
+    this.attack = new FakeAudioParam(context, 0.003, 0, 1);
+    this.release = new FakeAudioParam(context, 0.25, 0, 1);
+  }
+}
+
+/**
+ * AnalyserNode stand-in - Blackman-windowed FFT with smoothing, like the spec describes
+ */
+export class FakeAnalyserNode extends FakeAudioNode {
+  minDecibels = -100;
+  maxDecibels = -30;
+  smoothingTimeConstant = 0.8;
+  private size = 2048;
+  private history = new Float32Array(ANALYSER_HISTORY);
+  private written = 0;
+  private smoothed = new Float32Array(1024);
+
+  constructor(context: FakeBaseAudioContext) {
+    super(context, 1, 1);
+    context.addRenderTarget(this);
+  }
+
+  get fftSize(): number {
+    return this.size;
+  }
+
+  set fftSize(size: number) {
+    if (size < 32 || size > ANALYSER_HISTORY || (size & (size - 1)) !== 0) {
+      throw new Error(`fftSize must be a power of two between 32 and ${ANALYSER_HISTORY}`);
+    }
+    this.size = size;
+    this.smoothed = new Float32Array(size / 2);
+  }
+
+  get frequencyBinCount(): number {
+    return this.size / 2;
+  }
+
+  getFloatTimeDomainData(array: Float32Array): void {
+    const frames = Math.min(array.length, this.size);
+    for (let i = 0; i < frames; i++) {
+      array[i] = this.sampleAt(this.size - i);
+    }
+  }
+
+  getByteTimeDomainData(array: Uint8Array): void {
+    const frames = Math.min(array.length, this.size);
+    for (let i = 0; i < frames; i++) {
+      array[i] = Math.max(0, Math.min(255, Math.floor(128 * (1 + this.sampleAt(this.size - i)))));
+    }
+  }
+
+  getFloatFrequencyData(array: Float32Array): void {
+    const magnitudes = this.analyse();
+    const bins = Math.min(array.length, magnitudes.length);
+    for (let i = 0; i < bins; i++) {
+      array[i] = magnitudes[i] > 0 ? 20 * Math.log10(magnitudes[i]) : -Infinity;
+    }
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    const magnitudes = this.analyse();
+    const bins = Math.min(array.length, magnitudes.length);
+    const range = this.maxDecibels - this.minDecibels;
+    for (let i = 0; i < bins; i++) {
+      const db = magnitudes[i] > 0 ? 20 * Math.log10(magnitudes[i]) : -Infinity;
+      array[i] = Math.max(0, Math.min(255, Math.floor(255 / range * (db - this.minDecibels))));
+    }
+  }
+
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    const input = inputs[0];
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      let sum = 0;
+      for (const channel of input) {
+        sum += channel[i];
+      }
+      this.history[(this.written + i) % ANALYSER_HISTORY] = input.length > 0 ? sum / input.length : 0;
+    }
+    this.written += RENDER_QUANTUM;
+    return super.process(inputs);
+  }
+
+  // `back` samples before the newest one plus one
+  private sampleAt(back: number): number {
+    const index = this.written - back;
+    return index < 0 ? 0 : this.history[index % ANALYSER_HISTORY];
+  }
+
+  private analyse(): Float32Array {
+    const n = this.size;
+    const real = new Float64Array(n);
+    const imag = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * i / n) + 0.08 * Math.cos(4 * Math.PI * i / n);
+      real[i] = this.sampleAt(n - i) * window;
+    }
+    fft(real, imag);
+
+    const smoothing = this.smoothingTimeConstant;
+    for (let k = 0; k < n / 2; k++) {
+      const magnitude = Math.hypot(real[k], imag[k]) / n;
+      this.smoothed[k] = smoothing * this.smoothed[k] + (1 - smoothing) * magnitude;
+    }
+    return this.smoothed;
+  }
+}
+
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  loop = false;
+  loopStart = 0;
+  loopEnd = 0;
+  readonly playbackRate: FakeAudioParam;
+  readonly detune: FakeAudioParam;
+  onended: ((event: Event) => void) | null = null;
+  private startTime: number | null = null;
+  private stopTime = Infinity;
+  private position = 0;     // Frames into the buffer
+  private remaining = Infinity;
+  private ended = false;
+
+  constructor(context: FakeBaseAudioContext) {
+    super(context, 0, 1);
+    this.playbackRate = new FakeAudioParam(context, 1);
+    this.detune = new FakeAudioParam(context, 0);
+  }
+
+  start(when = 0, offset = 0, duration?: number): void {
+    if (this.startTime !== null) {
+      throw new Error('AudioBufferSourceNode can only be started once');
+    }
+    this.startTime = when;
+    this.position = offset * (this.buffer?.sampleRate ?? this.context.sampleRate);
+    if (duration !== undefined) this.remaining = duration * this.context.sampleRate;
+    this.context.addRenderTarget(this);
+  }
+
+  stop(when = 0): void {
+    if (this.startTime === null) {
+      throw new Error('AudioBufferSourceNode was stopped before it started');
+    }
+    this.stopTime = when;
+  }
+
+  protected process(): Float32Array[][] {
+    const channels = this.buffer?.numberOfChannels ?? 1;
+    const output = Array.from({ length: channels }, () => new Float32Array(RENDER_QUANTUM));
+    if (this.startTime === null || this.ended) {
+      return [output];
+    }
+
+    const sampleRate = this.context.sampleRate;
+    const frame0 = this.context.currentFrame;
+    const rate = this.playbackRate.value * Math.pow(2, this.detune.value / 1200) * (this.buffer ? this.buffer.sampleRate / sampleRate : 1);
+
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      const time = (frame0 + i) / sampleRate;
+      if (time < this.startTime) continue;
+      if (time >= this.stopTime || this.remaining <= 0) {
+        this.finish();
+        break;
+      }
+      if (!this.buffer) continue;
+
+      const loopStart = this.loopEnd > this.loopStart ? this.loopStart * this.buffer.sampleRate : 0;
+      const loopEnd = this.loopEnd > this.loopStart ? Math.min(this.buffer.length, this.loopEnd * this.buffer.sampleRate) : this.buffer.length;
+      if (this.loop && this.position >= loopEnd) {
+        this.position = loopStart + (this.position - loopEnd) % Math.max(1, loopEnd - loopStart);
+      }
+      if (this.position >= this.buffer.length) {
+        this.finish();
+        break;
+      }
+
+      const index = Math.floor(this.position);
+      for (let channel = 0; channel < channels; channel++) {
+        output[channel][i] = this.buffer.getChannelData(channel)[index];
+      }
+      this.position += rate;
+      this.remaining--;
+    }
+    return [output];
+  }
+
+  private finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.context.removeRenderTarget(this);
+    queueMicrotask(() => {
+      const event = new Event('ended');
+      this.onended?.(event);
+      this.dispatchEvent(event);
+    });
+  }
+}
+
+/**
+ * AudioWorkletNode stand-in - its processor runs in this realm and is reachable through `processor`
+ */
+export class FakeAudioWorkletNode extends FakeAudioNode {
+  readonly port: FakeMessagePort;
+  readonly parameters = new Map<string, FakeAudioParam>();
+  readonly processor: InstanceType<ProcessorConstructor>;
+  onprocessorerror: ((event: Event) => void) | null = null;
+  private outputChannelCount: number[];
+  private active = true;
+
+  constructor(context: FakeBaseAudioContext, name: string, options: AudioWorkletNodeOptions = {}) {
+    super(context, options.numberOfInputs ?? 1, options.numberOfOutputs ?? 1);
+    const Processor = context.audioWorklet.processors.get(name);
+    if (!Processor) {
+      throw new Error(`AudioWorkletNode cannot be created: '${name}' is not registered (call audioWorklet.addModule() first)`);
+    }
+
+    // Outputs default to stereo; browsers follow the input channel count instead when nothing says otherwise
+    this.outputChannelCount = options.outputChannelCount ?? Array.from({ length: this.numberOfOutputs }, () => 2);
+
+    const [nodePort, processorPort] = FakeMessagePort.createPair();
+    this.port = nodePort;
+    pendingProcessorPort = processorPort;
+    try {
+      this.processor = new Processor({ ...options, processorOptions: structuredClone(options.processorOptions) });
+    } finally {
+      pendingProcessorPort = null;
+    }
+    context.addRenderTarget(this);
+  }
+
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    const outputs = this.outputChannelCount.map(count => Array.from({ length: count }, () => new Float32Array(RENDER_QUANTUM)));
+    if (!this.active) {
+      return outputs;
+    }
+
+    try {
+      this.active = Boolean(this.processor.process(inputs, outputs, {}));
+    } catch (error) {
+      this.active = false;
+      console.error('[FakeAudioWorkletNode] Processor threw:', error);
+      queueMicrotask(() => {
+        const event = new Event('processorerror');
+        this.onprocessorerror?.(event);
+        this.dispatchEvent(event);
+      });
+    }
+    if (!this.active) {
+      this.context.removeRenderTarget(this);
+    }
+    return outputs;
+  }
+}
+
+export class FakeAudioDestinationNode extends FakeAudioNode {
+  readonly maxChannelCount = 2;
+  private recording: Float32Array[][] | null;
+
+  constructor(context: FakeBaseAudioContext, channelCount: number, record: boolean) {
+    super(context, 1, 0);
+    this.channelCount = channelCount;
+    this.channelCountMode = 'explicit';
+    this.recording = record ? Array.from({ length: channelCount }, () => []) : null;
+  }
+
+  /**
+   * Everything rendered so far, one array per channel
+   */
+  getRecording(): Float32Array[] {
+    if (!this.recording) {
+      throw new Error('Recording is off - create the context with { record: true }');
+    }
+    return this.recording.map(blocks => {
+      const joined = new Float32Array(blocks.length * RENDER_QUANTUM);
+      blocks.forEach((block, index) => joined.set(block, index * RENDER_QUANTUM));
+      return joined;
+    });
+  }
+
+  protected process(inputs: Float32Array[][]): Float32Array[][] {
+    const input = inputs[0];
+    const output = Array.from({ length: this.channelCount }, (_, channel) => input[channel] ?? new Float32Array(RENDER_QUANTUM));
+    this.recording?.forEach((blocks, channel) => blocks.push(output[channel]));
+    return [output];
+  }
+}
+
+/**
+ * Shared part of the online and offline contexts - node factories, decoding and the render loop
+ */
+export class FakeBaseAudioContext extends EventTarget {
+  readonly sampleRate: number;
+  readonly destination: FakeAudioDestinationNode;
+  readonly audioWorklet: FakeAudioWorklet;
+  state: AudioContextState;
+  onstatechange: ((event: Event) => void) | null = null;
+  protected frame = 0;
+  protected quantum = 0;
+  private renderTargets = new Set<FakeAudioNode>();
+  private decoder?: FakeAudioDecoder;
+
+  constructor(sampleRate: number, channelCount: number, options: FakeAudioContextOptions = {}) {
+    super();
+    this.sampleRate = sampleRate;
+    this.state = options.state ?? 'running';
+    this.decoder = options.decoder;
+    this.audioWorklet = new FakeAudioWorklet(this, options.workletModules);
+    this.destination = new FakeAudioDestinationNode(this, channelCount, options.record ?? false);
+  }
+
+  get currentTime(): number {
+    return this.frame / this.sampleRate;
+  }
+
+  get currentFrame(): number {
+    return this.frame;
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number): FakeAudioBuffer {
+    return new FakeAudioBuffer({ numberOfChannels, length, sampleRate });
+  }
+
+  createGain(): FakeGainNode {
+    return new FakeGainNode(this);
+  }
+
+  createBufferSource(): FakeAudioBufferSourceNode {
+    return new FakeAudioBufferSourceNode(this);
+  }
+
+  createBiquadFilter(): FakeBiquadFilterNode {
+    return new FakeBiquadFilterNode(this);
+  }
+
+  createDynamicsCompressor(): FakeDynamicsCompressorNode {
+    return new FakeDynamicsCompressorNode(this);
+  }
+
+  createChannelSplitter(numberOfOutputs = 6): FakeChannelSplitterNode {
+    return new FakeChannelSplitterNode(this, numberOfOutputs);
+  }
+
+  createChannelMerger(numberOfInputs = 6): FakeChannelMergerNode {
+    return new FakeChannelMergerNode(this, numberOfInputs);
+  }
+
+  createAnalyser(): FakeAnalyserNode {
+    return new FakeAnalyserNode(this);
+  }
+
+  /**
+   * Decode WAV (or whatever the `decoder` option handles), resampled to the context rate
+   * Like the real thing, the input buffer is detached
+   */
+  async decodeAudioData(
+    audioData: ArrayBuffer,
+    successCallback?: (decodedData: FakeAudioBuffer) => void,
+    errorCallback?: (error: DOMException) => void
+  ): Promise<FakeAudioBuffer> {
+    try {
+      const data = structuredClone(audioData, { transfer: [audioData] });
+      const decoded = this.decoder ? await this.decoder(data, this.sampleRate) : decodeWav(data);
+      const buffer = resample(decoded, this.sampleRate);
+      successCallback?.(buffer);
+      return buffer;
+    } catch (error) {
+      const domError = error instanceof DOMException ? error : new DOMException(`Unable to decode audio data: ${(error as Error).message}`, 'EncodingError');
+      errorCallback?.(domError);
+      throw domError;
+    }
+  }
+
+  addRenderTarget(node: FakeAudioNode): void {
+    this.renderTargets.add(node);
+  }
+
+  removeRenderTarget(node: FakeAudioNode): void {
+    this.renderTargets.delete(node);
+  }
+
+  /**
+   * Render one quantum: the destination first, then nodes that process without being connected to it
+   */
+  protected renderQuantum(): Float32Array[] {
+    const output = this.destination.pull(this.quantum)[0];
+    for (const node of [...this.renderTargets]) {
+      node.pull(this.quantum);
+    }
+    this.quantum++;
+    this.frame += RENDER_QUANTUM;
+    return output;
+  }
+
+  protected setState(state: AudioContextState): void {
+    if (this.state === state) return;
+    this.state = state;
+    const event = new Event('statechange');
+    this.onstatechange?.(event);
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * AudioContext stand-in - time only moves when advance() is called
+ *
+ * Key features:
+ * - Runs the real audio-playback-processor (or any registered module) on a virtual clock
+ * - Worklet messages cross as structured clones in microtasks, settled between quanta
+ * - Optional recording of everything the destination renders
+ */
+export class FakeAudioContext extends FakeBaseAudioContext {
+  readonly baseLatency = 0;
+  readonly outputLatency = 0;
+  sinkId = '';
+  onsinkchange: ((event: Event) => void) | null = null;
+
+  constructor(options: FakeAudioContextOptions = {}) {
+    super(options.sampleRate ?? 48000, 2, options);
+  }
+
+  async resume(): Promise<void> {
+    this.assertOpen();
+    this.setState('running');
+  }
+
+  async suspend(): Promise<void> {
+    this.assertOpen();
+    this.setState('suspended');
+  }
+
+  async close(): Promise<void> {
+    this.assertOpen();
+    this.setState('closed');
+  }
+
+  getOutputTimestamp(): AudioTimestamp {
+    return { contextTime: this.currentTime, performanceTime: performance.now() };
+  }
+
+  /**
+   * Route to an output listed by the installed navigator.mediaDevices ('' is the default output)
+   */
+  async setSinkId(sinkId: string): Promise<void> {
+    this.assertOpen();
+    const mediaDevices = (globalThis as { navigator?: { mediaDevices?: unknown } }).navigator?.mediaDevices;
+    if (mediaDevices instanceof FakeMediaDevices && !mediaDevices.hasOutputDevice(sinkId)) {
+      throw new DOMException(`Audio output device not found: ${sinkId}`, 'NotFoundError');
+    }
+    if (sinkId === this.sinkId) return;
+    this.sinkId = sinkId;
+    const event = new Event('sinkchange');
+    this.onsinkchange?.(event);
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * Move the clock forward, rendering while running and settling pending messages after every quantum
+   * A suspended or closed context only settles messages - its time stands still, as in a browser
+   */
+  async advance(seconds: number): Promise<void> {
+    const quanta = Math.ceil(seconds * this.sampleRate / RENDER_QUANTUM);
+    for (let i = 0; i < quanta; i++) {
+      if (this.state === 'running') {
+        this.renderQuantum();
+      }
+      await settle();
+    }
+  }
+
+  /**
+   * Let queued worklet messages and promise callbacks run without moving the clock
+   */
+  async flush(): Promise<void> {
+    await settle();
+  }
+
+  /**
+   * Everything the destination has rendered, when created with { record: true }
+   */
+  getRecording(): Float32Array[] {
+    return this.destination.getRecording();
+  }
+
+  private assertOpen(): void {
+    if (this.state === 'closed') {
+      throw new DOMException('AudioContext is closed', 'InvalidStateError');
+    }
+  }
+}
+
+/**
+ * OfflineAudioContext stand-in - renders its whole length in one startRendering() call
+ */
+export class FakeOfflineAudioContext extends FakeBaseAudioContext {
+  readonly length: number;
+  oncomplete: ((event: Event) => void) | null = null;
+  private numberOfChannels: number;
+
+  constructor(numberOfChannels: number | OfflineAudioContextOptions, length?: number, sampleRate?: number) {
+    const options = typeof numberOfChannels === 'number'
+      ? { numberOfChannels, length: length!, sampleRate: sampleRate! }
+      : numberOfChannels;
+    super(options.sampleRate, options.numberOfChannels ?? 1, { state: 'suspended' });
+    this.numberOfChannels = options.numberOfChannels ?? 1;
+    this.length = options.length;
+  }
+
+  async startRendering(): Promise<FakeAudioBuffer> {
+    if (this.state !== 'suspended') {
+      throw new DOMException('startRendering() can only be called once', 'InvalidStateError');
+    }
+    this.setState('running');
+
+    const rendered = new FakeAudioBuffer({ numberOfChannels: this.numberOfChannels, length: this.length, sampleRate: this.sampleRate });
+    for (let offset = 0; offset < this.length; offset += RENDER_QUANTUM) {
+      const output = this.renderQuantum();
+      const frames = Math.min(RENDER_QUANTUM, this.length - offset);
+      for (let channel = 0; channel < this.numberOfChannels; channel++) {
+        rendered.getChannelData(channel).set(output[channel].subarray(0, frames), offset);
+      }
+    }
+
+    this.setState('closed');
+    const event = new Event('complete');
+    this.oncomplete?.(event);
+    this.dispatchEvent(event);
+    return rendered;
+  }
+}
+
+// Enough microtask turns for a message round trip and the promise chains it resolves
+async function settle(): Promise<void> {
+  for (let i = 0; i < 16; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Decode a RIFF/WAVE file: 8/16/24/32-bit PCM and 32/64-bit float, plain or extensible fmt chunks
+ */
+export function decodeWav(data: ArrayBuffer): FakeAudioBuffer {
+  const view = new DataView(data);
+  const tag = (offset: number) => String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+  if (data.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { formatTag: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let formatTag = view.getUint16(body, true);
+      if (formatTag === 0xfffe && size >= 40) {
+        formatTag = view.getUint16(body + 24, true); // Sub-format GUID starts with the format tag
+      }
+      format = {
+        formatTag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk before fmt chunk');
+      }
+      // Streamed files may carry a zero or oversized length - read whatever is there
+      const available = data.byteLength - body;
+      const length = size === 0 || size > available ? available : size;
+      return decodePcm(view, body, length, format);
+    }
+    offset = body + size + (size & 1);
+  }
+  throw new Error('WAV file has no data chunk');
+}
+
+function decodePcm(view: DataView, start: number, byteLength: number, format: { formatTag: number; channels: number; sampleRate: number; bitsPerSample: number }): FakeAudioBuffer {
+  const { formatTag, channels, sampleRate, bitsPerSample } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  const isFloat = formatTag === 3;
+  if (formatTag !== 1 && !isFloat) {
+    throw new Error(`Unsupported WAV format tag ${formatTag}`);
+  }
+  if (isFloat ? bitsPerSample !== 32 && bitsPerSample !== 64 : ![8, 16, 24, 32].includes(bitsPerSample)) {
+    throw new Error(`Unsupported WAV sample size: ${bitsPerSample} bits`);
+  }
+
+  const frames = Math.floor(byteLength / (bytesPerSample * channels));
+  if (frames === 0) {
+    throw new Error('WAV file has no complete sample frames');
+  }
+  const buffer = new FakeAudioBuffer({ numberOfChannels: channels, length: frames, sampleRate });
+  const outputs = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+
+  let offset = start;
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      let sample: number;
+      if (isFloat) {
+        sample = bitsPerSample === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+      } else if (bitsPerSample === 8) {
+        sample = (view.getUint8(offset) - 128) / 128;
+      } else if (bitsPerSample === 16) {
+        sample = view.getInt16(offset, true) / 0x8000;
+      } else if (bitsPerSample === 24) {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        sample = value / 0x800000;
+      } else {
+        sample = view.getInt32(offset, true) / 0x80000000;
+      }
+      outputs[channel][frame] = sample;
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+}
+
+// Linear interpolation to the context rate, as decodeAudioData always resamples
+function resample(buffer: FakeAudioBuffer, sampleRate: number): FakeAudioBuffer {
+  if (buffer.sampleRate === sampleRate) {
+    return buffer;
+  }
+
+  const ratio = buffer.sampleRate / sampleRate;
+  const length = Math.max(1, Math.round(buffer.length / ratio));
+  const resampled = new FakeAudioBuffer({ numberOfChannels: buffer.numberOfChannels, length, sampleRate });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const input = buffer.getChannelData(channel);
+    const output = resampled.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, input.length - 1);
+      const fraction = position - index;
+      output[i] = input[Math.min(index, input.length - 1)] * (1 - fraction) + input[next] * fraction;
+    }
+  }
+  return resampled;
+}
+
+// In-place radix-2 FFT
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
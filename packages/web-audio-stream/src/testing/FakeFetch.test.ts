@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { FakeFetch } from './FakeFetch.js';
+
+const BODY = Uint8Array.from({ length: 100 }, (_, i) => i);
+
+async function bytes(response: Response): Promise<number[]> {
+  return [...new Uint8Array(await response.arrayBuffer())];
+}
+
+describe('FakeFetch', () => {
+  it('serves the whole body without a Range header', async () => {
+    const mock = new FakeFetch().route('/a', { body: BODY, contentType: 'audio/mpeg' });
+    const response = await mock.fetch('/a');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('audio/mpeg');
+    expect(response.headers.get('Content-Length')).toBe('100');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await bytes(response)).toEqual([...BODY]);
+    expect(mock.requests).toEqual([{ url: '/a', method: 'GET', range: null, status: 200 }]);
+  });
+
+  it('answers bounded, open and suffix ranges with 206', async () => {
+    const mock = new FakeFetch().route('/a', BODY);
+
+    const bounded = await mock.fetch('/a', { headers: { Range: 'bytes=10-19' } });
+    expect(bounded.status).toBe(206);
+    expect(bounded.headers.get('Content-Range')).toBe('bytes 10-19/100');
+    expect(await bytes(bounded)).toEqual([...BODY.subarray(10, 20)]);
+
+    const open = await mock.fetch('/a', { headers: { Range: 'bytes=95-' } });
+    expect(await bytes(open)).toEqual([95, 96, 97, 98, 99]);
+
+    const suffix = await mock.fetch('/a', { headers: { Range: 'bytes=-3' } });
+    expect(suffix.headers.get('Content-Range')).toBe('bytes 97-99/100');
+
+    // Ends past the body are clamped, as servers do
+    const clamped = await mock.fetch('/a', { headers: { Range: 'bytes=90-500' } });
+    expect(clamped.headers.get('Content-Length')).toBe('10');
+
+    expect(mock.requests.map(request => request.range)).toEqual([
+      { start: 10, end: 19 },
+      { start: 95, end: 99 },
+      { start: 97, end: 99 },
+      { start: 90, end: 99 }
+    ]);
+  });
+
+  it('returns 416 for a range past the end', async () => {
+    const mock = new FakeFetch().route('/a', BODY);
+    const response = await mock.fetch('/a', { headers: { Range: 'bytes=100-' } });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */100');
+  });
+
+  it('ignores Range when the route does not accept ranges', async () => {
+    const mock = new FakeFetch().route('/a', { body: BODY, acceptRanges: false });
+    const response = await mock.fetch('/a', { headers: { Range: 'bytes=0-9' } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Accept-Ranges')).toBe('none');
+    expect((await bytes(response)).length).toBe(100);
+  });
+
+  it('answers HEAD with headers only', async () => {
+    const mock = new FakeFetch().route('/a', BODY);
+    const response = await mock.fetch('/a', { method: 'HEAD' });
+
+    expect(response.headers.get('Content-Length')).toBe('100');
+    expect(response.body).toBeNull();
+  });
+
+  it('returns 404 for unknown URLs and the configured status for failing routes', async () => {
+    const mock = new FakeFetch().route('/broken', { body: BODY, status: 500 });
+
+    expect((await mock.fetch('/missing')).status).toBe(404);
+    expect((await mock.fetch('/broken', { headers: { Range: 'bytes=0-9' } })).status).toBe(500);
+  });
+
+  it('streams the body in chunks of the configured size', async () => {
+    const mock = new FakeFetch().route('/a', { body: BODY, streamChunkSize: 30 });
+    const reader = (await mock.fetch('/a')).body!.getReader();
+
+    const sizes: number[] = [];
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      sizes.push(result.value.byteLength);
+    }
+    expect(sizes).toEqual([30, 30, 30, 10]);
+  });
+
+  it('rejects a delayed request when its signal aborts', async () => {
+    const mock = new FakeFetch().route('/a', { body: BODY, delayMs: 50 });
+    const controller = new AbortController();
+    const pending = mock.fetch('/a', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(mock.requests).toEqual([]);
+  });
+
+  it('errors a streaming body when its signal aborts', async () => {
+    const mock = new FakeFetch().route('/a', { body: BODY, streamChunkSize: 10 });
+    const controller = new AbortController();
+    const reader = (await mock.fetch('/a', { signal: controller.signal })).body!.getReader();
+
+    await reader.read();
+    controller.abort();
+    await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
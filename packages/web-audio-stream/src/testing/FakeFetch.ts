@@ -0,0 +1,182 @@
+// FakeFetch.ts
+// fetch() mock serving registered bodies, with HTTP range requests like a CDN would answer them
+// Responses are real Response objects, so headers, status and streamed bodies behave as in a browser
+
+export interface FakeFetchRoute {
+  body: Uint8Array | ArrayBuffer | string;
+  contentType?: string;      // Content-Type header (default: 'application/octet-stream')
+  acceptRanges?: boolean;    // Answer Range requests with 206 partial content (default: true)
+  status?: number;           // Status for every request, e.g. 404 or 500 to simulate failures (default: 200/206)
+  streamChunkSize?: number;  // Bytes per body stream chunk, for progress reporting (default: 64KB)
+  delayMs?: number;          // Wait before responding, using setTimeout (default: 0)
+}
+
+// One request the mock has answered
+export interface FakeFetchRequest {
+  url: string;
+  method: string;
+  range: { start: number; end: number } | null; // Inclusive byte range actually served
+  status: number;
+}
+
+const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Range-aware fetch mock
+ *
+ * Key features:
+ * - Single byte ranges: `bytes=a-b`, `bytes=a-` and suffix `bytes=-n`, with 416 when unsatisfiable
+ * - HEAD requests return the same headers without a body
+ * - Abort signals reject pending and delayed requests with the signal's reason
+ * - Every answered request is recorded for assertions
+ */
+export class FakeFetch {
+  readonly requests: FakeFetchRequest[] = [];
+  private routes = new Map<string, FakeFetchRoute>();
+
+  /**
+   * Serve a body (or a full route description) at a URL, replacing any earlier route
+   */
+  route(url: string, route: FakeFetchRoute | Uint8Array | ArrayBuffer | string): this {
+    const normalized = typeof route === 'string' || route instanceof Uint8Array || route instanceof ArrayBuffer ? { body: route } : route;
+    this.routes.set(url, normalized);
+    return this;
+  }
+
+  unroute(url: string): void {
+    this.routes.delete(url);
+  }
+
+  reset(): void {
+    this.routes.clear();
+    this.requests.length = 0;
+  }
+
+  /**
+   * The fetch() implementation - bound, so it can be installed as a global or passed around
+   */
+  readonly fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const headers = new Headers(init.headers ?? (input instanceof Request ? input.headers : undefined));
+    const signal = init.signal ?? (input instanceof Request ? input.signal : undefined);
+
+    signal?.throwIfAborted();
+    const route = this.routes.get(url);
+    if (route?.delayMs) {
+      await delay(route.delayMs, signal ?? undefined);
+    }
+
+    if (!route) {
+      return this.respond(url, method, null, new Response(null, { status: 404, statusText: 'Not Found' }));
+    }
+
+    const body = toBytes(route.body);
+    const size = body.byteLength;
+    const acceptRanges = route.acceptRanges ?? true;
+    const baseHeaders: Record<string, string> = {
+      'Content-Type': route.contentType ?? 'application/octet-stream',
+      'Accept-Ranges': acceptRanges ? 'bytes' : 'none'
+    };
+
+    if (route.status !== undefined && (route.status < 200 || route.status >= 300)) {
+      return this.respond(url, method, null, new Response(null, { status: route.status, headers: baseHeaders }));
+    }
+
+    const rangeHeader = acceptRanges ? headers.get('Range') : null;
+    if (rangeHeader) {
+      const range = parseRange(rangeHeader, size);
+      if (!range) {
+        return this.respond(url, method, null, new Response(null, {
+          status: 416,
+          statusText: 'Range Not Satisfiable',
+          headers: { ...baseHeaders, 'Content-Range': `bytes */${size}` }
+        }));
+      }
+
+      const slice = body.subarray(range.start, range.end + 1);
+      return this.respond(url, method, range, new Response(method === 'HEAD' ? null : stream(slice, route.streamChunkSize, signal ?? undefined), {
+        status: route.status ?? 206,
+        statusText: 'Partial Content',
+        headers: {
+          ...baseHeaders,
+          'Content-Length': String(slice.byteLength),
+          'Content-Range': `bytes ${range.start}-${range.end}/${size}`
+        }
+      }));
+    }
+
+    return this.respond(url, method, null, new Response(method === 'HEAD' ? null : stream(body, route.streamChunkSize, signal ?? undefined), {
+      status: route.status ?? 200,
+      headers: { ...baseHeaders, 'Content-Length': String(size) }
+    }));
+  };
+
+  private respond(url: string, method: string, range: { start: number; end: number } | null, response: Response): Response {
+    Object.defineProperty(response, 'url', { value: url });
+    this.requests.push({ url, method, range, status: response.status });
+    return response;
+  }
+}
+
+// First range of a `bytes=` header, clamped to the body - null when it can't be satisfied
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    const suffix = Number(match[2]);
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  return start <= end && start < size ? { start, end } : null;
+}
+
+function stream(bytes: Uint8Array, chunkSize = DEFAULT_STREAM_CHUNK_SIZE, signal?: AbortSignal): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Aborting errors the body at once, dropping chunks the reader hasn't taken yet
+      signal?.addEventListener('abort', () => controller.error(signal.reason), { once: true });
+    },
+    pull(controller) {
+      if (signal?.aborted) {
+        controller.error(signal.reason);
+        return;
+      }
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      // Copies, so consumers can transfer or detach what they receive
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    }
+  });
+}
+
+function toBytes(body: Uint8Array | ArrayBuffer | string): Uint8Array {
+  if (typeof body === 'string') return new TextEncoder().encode(body);
+  return body instanceof Uint8Array ? body : new Uint8Array(body);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
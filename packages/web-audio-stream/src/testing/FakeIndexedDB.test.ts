@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeIDBFactory, FakeIDBKeyRange, type FakeIDBDatabase, type FakeIDBRequest, type FakeIDBTransaction } from './FakeIndexedDB.js';
+
+let factory: FakeIDBFactory;
+let db: FakeIDBDatabase;
+
+function settle<T>(request: FakeIDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function finished(transaction: FakeIDBTransaction): Promise<'complete' | 'abort'> {
+  return new Promise(resolve => {
+    transaction.oncomplete = () => resolve('complete');
+    transaction.onabort = () => resolve('abort');
+  });
+}
+
+// Chunk records keyed by [trackId, index], like AudioChunkStore keeps them
+async function openChunks(): Promise<FakeIDBDatabase> {
+  const request = factory.open('audio', 1);
+  request.onupgradeneeded = () => {
+    const store = request.result!.createObjectStore('chunks', { keyPath: ['trackId', 'index'] });
+    store.createIndex('trackId', 'trackId');
+  };
+  return settle(request);
+}
+
+async function putChunks(trackId: string, count: number): Promise<void> {
+  const transaction = db.transaction('chunks', 'readwrite');
+  const store = transaction.objectStore('chunks');
+  for (let index = 0; index < count; index++) {
+    store.put({ trackId, index, size: index * 10 });
+  }
+  await finished(transaction);
+}
+
+beforeEach(async () => {
+  factory = new FakeIDBFactory();
+  db = await openChunks();
+});
+
+describe('FakeIDBFactory', () => {
+  it('runs the upgrade once and rejects older versions', async () => {
+    expect(db.version).toBe(1);
+    expect([...db.objectStoreNames]).toEqual(['chunks']);
+
+    const again = await settle(factory.open('audio', 1));
+    expect([...again.objectStoreNames]).toEqual(['chunks']);
+
+    db.close();
+    await settle(factory.open('audio', 2));
+    await expect(settle(factory.open('audio', 1))).rejects.toMatchObject({ name: 'VersionError' });
+  });
+
+  it('keeps each factory isolated', async () => {
+    expect(await new FakeIDBFactory().databases()).toEqual([]);
+    expect(await factory.databases()).toEqual([{ name: 'audio', version: 1 }]);
+  });
+});
+
+describe('FakeIDBKeyRange', () => {
+  it('includes keys by bound and openness', () => {
+    const range = FakeIDBKeyRange.bound(2, 5, true, false);
+    expect([1, 2, 3, 5, 6].map(key => range.includes(key))).toEqual([false, false, true, true, false]);
+    expect(FakeIDBKeyRange.lowerBound(3).includes(100)).toBe(true);
+    expect(FakeIDBKeyRange.upperBound(3, true).includes(3)).toBe(false);
+    expect(FakeIDBKeyRange.only('a').includes('a')).toBe(true);
+  });
+
+  it('orders array keys element by element', () => {
+    const track = FakeIDBKeyRange.bound(['a', 0], ['a', Infinity]);
+    expect(track.includes(['a', 3])).toBe(true);
+    expect(track.includes(['b', 0])).toBe(false);
+    expect(factory.cmp(['a', 10], ['a', 9])).toBe(1);
+    expect(factory.cmp(1, 'a')).toBe(-1); // Numbers sort before strings
+  });
+
+  it('rejects an inverted range', () => {
+    expect(() => FakeIDBKeyRange.bound(5, 2)).toThrow(expect.objectContaining({ name: 'DataError' }));
+  });
+});
+
+describe('FakeIDBObjectStore', () => {
+  it('reads compound key ranges in key order', async () => {
+    await putChunks('b', 3);
+    await putChunks('a', 12);
+
+    const store = db.transaction('chunks').objectStore('chunks');
+    const chunks = await settle(store.getAll(FakeIDBKeyRange.bound(['a', 2], ['a', 10], false, true))) as Array<{ index: number }>;
+    expect(chunks.map(chunk => chunk.index)).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(await settle(store.count())).toBe(15);
+    expect(await settle(store.getAllKeys(null, 2))).toEqual([['a', 0], ['a', 1]]);
+  });
+
+  it('looks up records through an index', async () => {
+    await putChunks('a', 2);
+    await putChunks('b', 3);
+
+    const index = db.transaction('chunks').objectStore('chunks').index('trackId');
+    expect(await settle(index.count('b'))).toBe(3);
+    expect(await settle(index.getAllKeys(FakeIDBKeyRange.only('a')))).toEqual([['a', 0], ['a', 1]]);
+  });
+
+  it('walks a range with a cursor, newest first', async () => {
+    await putChunks('a', 5);
+
+    const request = db.transaction('chunks').objectStore('chunks').openCursor(FakeIDBKeyRange.lowerBound(['a', 2]), 'prev');
+    const indexes = await new Promise<number[]>(resolve => {
+      const seen: number[] = [];
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(seen);
+        seen.push((cursor.value as { index: number }).index);
+        cursor.continue();
+      };
+    });
+    expect(indexes).toEqual([4, 3, 2]);
+  });
+
+  it('deletes a key range', async () => {
+    await putChunks('a', 6);
+
+    const transaction = db.transaction('chunks', 'readwrite');
+    transaction.objectStore('chunks').delete(FakeIDBKeyRange.bound(['a', 1], ['a', 4]));
+    await finished(transaction);
+
+    const keys = await settle(db.transaction('chunks').objectStore('chunks').getAllKeys());
+    expect(keys).toEqual([['a', 0], ['a', 5]]);
+  });
+
+  it('returns copies, not the stored objects', async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    const transaction = db.transaction('chunks', 'readwrite');
+    transaction.objectStore('chunks').put({ trackId: 'a', index: 0, data });
+    await finished(transaction);
+    data[0] = 9;
+
+    const stored = await settle(db.transaction('chunks').objectStore('chunks').get(['a', 0])) as { data: Uint8Array };
+    expect([...stored.data]).toEqual([1, 2, 3]);
+  });
+});
+
+describe('FakeIDBTransaction', () => {
+  it('rolls back every write when aborted', async () => {
+    await putChunks('a', 2);
+
+    const transaction = db.transaction('chunks', 'readwrite');
+    const store = transaction.objectStore('chunks');
+    const outcome = finished(transaction);
+    store.put({ trackId: 'a', index: 2 });
+    // Abort from the success handler, while the transaction is still active
+    store.delete(['a', 0]).onsuccess = () => transaction.abort();
+    expect(await outcome).toBe('abort');
+
+    expect(await settle(db.transaction('chunks').objectStore('chunks').getAllKeys())).toEqual([['a', 0], ['a', 1]]);
+  });
+
+  it('aborts when a request fails', async () => {
+    await putChunks('a', 1);
+
+    const transaction = db.transaction('chunks', 'readwrite');
+    const store = transaction.objectStore('chunks');
+    const outcome = finished(transaction);
+    store.put({ trackId: 'a', index: 1 });
+    const duplicate = settle(store.add({ trackId: 'a', index: 0 }));
+    await expect(duplicate).rejects.toMatchObject({ name: 'ConstraintError' });
+    expect(await outcome).toBe('abort');
+
+    expect(await settle(db.transaction('chunks').objectStore('chunks').count())).toBe(1);
+  });
+
+  it('refuses writes in a read-only transaction', () => {
+    const store = db.transaction('chunks').objectStore('chunks');
+    expect(() => store.put({ trackId: 'a', index: 0 })).toThrow(expect.objectContaining({ name: 'ReadOnlyError' }));
+  });
+});
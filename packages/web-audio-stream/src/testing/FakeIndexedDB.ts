@@ -0,0 +1,803 @@
+// FakeIndexedDB.ts
+// In-memory IndexedDB for Node - databases live as long as their factory
+// Requests complete in microtasks, in order, and transactions commit once their last request settles
+
+type Key = number | string | Date | ArrayBuffer | Key[];
+type KeyPath = string | string[];
+
+interface StoreSchema {
+  keyPath: KeyPath | null;
+  autoIncrement: boolean;
+  indexes: Map<string, { keyPath: KeyPath; unique: boolean; multiEntry: boolean }>;
+  records: Map<string, { key: Key; value: unknown }>; // By serialized primary key
+  nextKey: number;
+}
+
+interface DatabaseSchema {
+  version: number;
+  stores: Map<string, StoreSchema>;
+  connections: Set<FakeIDBDatabase>;
+}
+
+/**
+ * IDBKeyRange stand-in
+ */
+export class FakeIDBKeyRange {
+  private constructor(
+    readonly lower: Key | undefined,
+    readonly upper: Key | undefined,
+    readonly lowerOpen: boolean,
+    readonly upperOpen: boolean
+  ) {}
+
+  static only(value: Key): FakeIDBKeyRange {
+    return new FakeIDBKeyRange(validateKey(value), value, false, false);
+  }
+
+  static lowerBound(lower: Key, open = false): FakeIDBKeyRange {
+    return new FakeIDBKeyRange(validateKey(lower), undefined, open, true);
+  }
+
+  static upperBound(upper: Key, open = false): FakeIDBKeyRange {
+    return new FakeIDBKeyRange(undefined, validateKey(upper), true, open);
+  }
+
+  static bound(lower: Key, upper: Key, lowerOpen = false, upperOpen = false): FakeIDBKeyRange {
+    if (compareKeys(validateKey(lower), validateKey(upper)) > 0) {
+      throw new DOMException('Lower bound is greater than upper bound', 'DataError');
+    }
+    return new FakeIDBKeyRange(lower, upper, lowerOpen, upperOpen);
+  }
+
+  includes(key: Key): boolean {
+    if (this.lower !== undefined) {
+      const order = compareKeys(key, this.lower);
+      if (order < 0 || (order === 0 && this.lowerOpen)) return false;
+    }
+    if (this.upper !== undefined) {
+      const order = compareKeys(key, this.upper);
+      if (order > 0 || (order === 0 && this.upperOpen)) return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * IDBRequest stand-in - handlers see the request as event.target
+ */
+export class FakeIDBRequest<T = unknown> extends EventTarget {
+  result: T | undefined = undefined;
+  error: DOMException | null = null;
+  readyState: 'pending' | 'done' = 'pending';
+  source: unknown = null;
+  transaction: FakeIDBTransaction | null = null;
+  onsuccess: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  succeed(result: T): void {
+    this.result = result;
+    this.readyState = 'done';
+    this.fire('success', this.onsuccess);
+  }
+
+  fail(error: DOMException): void {
+    this.error = error;
+    this.readyState = 'done';
+    this.fire('error', this.onerror);
+  }
+
+  protected fire(type: string, handler: ((event: Event) => void) | null): void {
+    const event = new Event(type);
+    Object.defineProperty(event, 'target', { value: this });
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+export class FakeIDBOpenDBRequest extends FakeIDBRequest<FakeIDBDatabase> {
+  onupgradeneeded: ((event: Event) => void) | null = null;
+  onblocked: ((event: Event) => void) | null = null;
+
+  upgrade(result: FakeIDBDatabase, oldVersion: number, newVersion: number): void {
+    this.result = result;
+    const event = new Event('upgradeneeded');
+    Object.defineProperties(event, {
+      target: { value: this },
+      oldVersion: { value: oldVersion },
+      newVersion: { value: newVersion }
+    });
+    this.onupgradeneeded?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * IDBFactory stand-in - each factory is an isolated set of databases, so tests can start clean
+ */
+export class FakeIDBFactory {
+  private schemas = new Map<string, DatabaseSchema>();
+
+  open(name: string, version?: number): FakeIDBOpenDBRequest {
+    const request = new FakeIDBOpenDBRequest();
+    if (version !== undefined && !(version >= 1)) {
+      throw new TypeError(`Invalid database version: ${version}`);
+    }
+
+    queueMicrotask(() => {
+      let schema = this.schemas.get(name);
+      if (!schema) {
+        schema = { version: 0, stores: new Map(), connections: new Set() };
+        this.schemas.set(name, schema);
+      }
+
+      const requested = version ?? Math.max(1, schema.version);
+      if (requested < schema.version) {
+        request.fail(new DOMException(`Database '${name}' is at version ${schema.version}, newer than ${requested}`, 'VersionError'));
+        return;
+      }
+
+      const db = new FakeIDBDatabase(name, schema);
+      if (requested > schema.version) {
+        const oldVersion = schema.version;
+        schema.version = requested;
+        const upgrade = new FakeIDBTransaction(db, [...schema.stores.keys()], 'versionchange');
+        request.transaction = upgrade;
+        db.upgrading = upgrade;
+        try {
+          request.upgrade(db, oldVersion, requested);
+        } catch (error) {
+          schema.version = oldVersion;
+          request.fail(new DOMException(`Upgrade failed: ${(error as Error).message}`, 'AbortError'));
+          return;
+        } finally {
+          db.upgrading = null;
+        }
+        request.transaction = null;
+      }
+
+      schema.connections.add(db);
+      request.succeed(db);
+    });
+
+    return request;
+  }
+
+  deleteDatabase(name: string): FakeIDBOpenDBRequest {
+    const request = new FakeIDBOpenDBRequest();
+    queueMicrotask(() => {
+      const schema = this.schemas.get(name);
+      schema?.connections.forEach(db => db.close());
+      this.schemas.delete(name);
+      request.succeed(undefined as unknown as FakeIDBDatabase);
+    });
+    return request;
+  }
+
+  async databases(): Promise<Array<{ name: string; version: number }>> {
+    return [...this.schemas].map(([name, schema]) => ({ name, version: schema.version }));
+  }
+
+  cmp(first: Key, second: Key): number {
+    return Math.sign(compareKeys(validateKey(first), validateKey(second)));
+  }
+}
+
+/**
+ * IDBDatabase stand-in
+ */
+export class FakeIDBDatabase extends EventTarget {
+  upgrading: FakeIDBTransaction | null = null; // Set while onupgradeneeded runs
+  onclose: ((event: Event) => void) | null = null;
+  onversionchange: ((event: Event) => void) | null = null;
+  private closed = false;
+
+  constructor(readonly name: string, private schema: DatabaseSchema) {
+    super();
+  }
+
+  get version(): number {
+    return this.schema.version;
+  }
+
+  get objectStoreNames(): FakeDOMStringList {
+    return new FakeDOMStringList([...this.schema.stores.keys()]);
+  }
+
+  createObjectStore(name: string, options: { keyPath?: KeyPath | null; autoIncrement?: boolean } = {}): FakeIDBObjectStore {
+    const transaction = this.requireUpgrade('createObjectStore');
+    if (this.schema.stores.has(name)) {
+      throw new DOMException(`Object store '${name}' already exists`, 'ConstraintError');
+    }
+    this.schema.stores.set(name, {
+      keyPath: options.keyPath ?? null,
+      autoIncrement: options.autoIncrement ?? false,
+      indexes: new Map(),
+      records: new Map(),
+      nextKey: 1
+    });
+    return transaction.objectStore(name);
+  }
+
+  deleteObjectStore(name: string): void {
+    this.requireUpgrade('deleteObjectStore');
+    if (!this.schema.stores.delete(name)) {
+      throw new DOMException(`No object store named '${name}'`, 'NotFoundError');
+    }
+  }
+
+  transaction(storeNames: string | string[], mode: IDBTransactionMode = 'readonly'): FakeIDBTransaction {
+    if (this.closed) {
+      throw new DOMException('Database connection is closed', 'InvalidStateError');
+    }
+    const names = Array.isArray(storeNames) ? storeNames : [storeNames];
+    for (const name of names) {
+      if (!this.schema.stores.has(name)) {
+        throw new DOMException(`No object store named '${name}'`, 'NotFoundError');
+      }
+    }
+    return new FakeIDBTransaction(this, names, mode);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.schema.connections.delete(this);
+  }
+
+  getStore(name: string): StoreSchema {
+    const store = this.schema.stores.get(name);
+    if (!store) {
+      throw new DOMException(`No object store named '${name}'`, 'NotFoundError');
+    }
+    return store;
+  }
+
+  private requireUpgrade(method: string): FakeIDBTransaction {
+    if (!this.upgrading) {
+      throw new DOMException(`${method}() is only allowed during onupgradeneeded`, 'InvalidStateError');
+    }
+    return this.upgrading;
+  }
+}
+
+/**
+ * IDBTransaction stand-in - read-write transactions roll back on abort or a failed request
+ */
+export class FakeIDBTransaction extends EventTarget {
+  error: DOMException | null = null;
+  oncomplete: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onabort: ((event: Event) => void) | null = null;
+  private pending = 0;
+  private finished = false;
+  private snapshots = new Map<string, { records: Map<string, { key: Key; value: unknown }>; nextKey: number }>();
+
+  constructor(readonly db: FakeIDBDatabase, private storeNames: string[], readonly mode: IDBTransactionMode | 'versionchange') {
+    super();
+    // An empty transaction still completes
+    this.scheduleCommit();
+  }
+
+  get objectStoreNames(): FakeDOMStringList {
+    return new FakeDOMStringList(this.storeNames);
+  }
+
+  objectStore(name: string): FakeIDBObjectStore {
+    if (this.mode !== 'versionchange' && !this.storeNames.includes(name)) {
+      throw new DOMException(`Object store '${name}' is not in this transaction`, 'NotFoundError');
+    }
+    return new FakeIDBObjectStore(this, name, this.db.getStore(name));
+  }
+
+  abort(): void {
+    if (this.finished) {
+      throw new DOMException('Transaction has already finished', 'InvalidStateError');
+    }
+    this.rollback(new DOMException('Transaction was aborted', 'AbortError'));
+  }
+
+  commit(): void {
+    this.scheduleCommit();
+  }
+
+  /**
+   * Queue a request: the operation runs after earlier ones, then its handlers fire
+   * Cursors pass their original request back in, so every step fires on the same object
+   */
+  request<T>(source: unknown, operation: () => T, request = new FakeIDBRequest<T>()): FakeIDBRequest<T> {
+    if (this.finished) {
+      throw new DOMException('Transaction has finished', 'TransactionInactiveError');
+    }
+    request.readyState = 'pending';
+    request.source = source;
+    request.transaction = this;
+    this.pending++;
+
+    queueMicrotask(() => {
+      this.pending--;
+      if (this.finished) return;
+      try {
+        request.succeed(operation());
+      } catch (error) {
+        const domError = error instanceof DOMException ? error : new DOMException(String(error), 'UnknownError');
+        request.fail(domError);
+        this.rollback(domError);
+        return;
+      }
+      this.scheduleCommit();
+    });
+    return request;
+  }
+
+  /**
+   * Keep a copy of a store's records before its first write, for rollback
+   */
+  snapshot(name: string, store: StoreSchema): void {
+    if (this.mode === 'readonly') {
+      throw new DOMException('Transaction is read-only', 'ReadOnlyError');
+    }
+    if (!this.snapshots.has(name)) {
+      this.snapshots.set(name, { records: new Map(store.records), nextKey: store.nextKey });
+    }
+  }
+
+  private scheduleCommit(): void {
+    queueMicrotask(() => {
+      if (this.finished || this.pending > 0) return;
+      this.finished = true;
+      this.fire('complete', this.oncomplete);
+    });
+  }
+
+  private rollback(error: DOMException): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.error = error;
+    for (const [name, snapshot] of this.snapshots) {
+      const store = this.db.getStore(name);
+      store.records = snapshot.records;
+      store.nextKey = snapshot.nextKey;
+    }
+    if (error.name !== 'AbortError') {
+      this.fire('error', this.onerror);
+    }
+    this.fire('abort', this.onabort);
+  }
+
+  private fire(type: string, handler: ((event: Event) => void) | null): void {
+    const event = new Event(type);
+    Object.defineProperty(event, 'target', { value: this });
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * IDBObjectStore stand-in
+ */
+export class FakeIDBObjectStore {
+  constructor(readonly transaction: FakeIDBTransaction, readonly name: string, private schema: StoreSchema) {}
+
+  get keyPath(): KeyPath | null {
+    return this.schema.keyPath;
+  }
+
+  get autoIncrement(): boolean {
+    return this.schema.autoIncrement;
+  }
+
+  get indexNames(): FakeDOMStringList {
+    return new FakeDOMStringList([...this.schema.indexes.keys()]);
+  }
+
+  createIndex(name: string, keyPath: KeyPath, options: { unique?: boolean; multiEntry?: boolean } = {}): FakeIDBIndex {
+    if (this.transaction.mode !== 'versionchange') {
+      throw new DOMException('createIndex() is only allowed during onupgradeneeded', 'InvalidStateError');
+    }
+    if (this.schema.indexes.has(name)) {
+      throw new DOMException(`Index '${name}' already exists`, 'ConstraintError');
+    }
+    this.schema.indexes.set(name, { keyPath, unique: options.unique ?? false, multiEntry: options.multiEntry ?? false });
+    return this.index(name);
+  }
+
+  deleteIndex(name: string): void {
+    if (this.transaction.mode !== 'versionchange') {
+      throw new DOMException('deleteIndex() is only allowed during onupgradeneeded', 'InvalidStateError');
+    }
+    this.schema.indexes.delete(name);
+  }
+
+  index(name: string): FakeIDBIndex {
+    const index = this.schema.indexes.get(name);
+    if (!index) {
+      throw new DOMException(`No index named '${name}'`, 'NotFoundError');
+    }
+    return new FakeIDBIndex(this, name, index.keyPath, index.multiEntry, () => this.schema.records.values());
+  }
+
+  put(value: unknown, key?: Key): FakeIDBRequest<Key> {
+    return this.write(value, key, true);
+  }
+
+  add(value: unknown, key?: Key): FakeIDBRequest<Key> {
+    return this.write(value, key, false);
+  }
+
+  get(query: Key | FakeIDBKeyRange): FakeIDBRequest<unknown> {
+    return this.transaction.request(this, () => {
+      const record = this.sortedRecords().find(entry => matches(query, entry.key));
+      return record ? structuredClone(record.value) : undefined;
+    });
+  }
+
+  getKey(query: Key | FakeIDBKeyRange): FakeIDBRequest<Key | undefined> {
+    return this.transaction.request(this, () => this.sortedRecords().find(entry => matches(query, entry.key))?.key);
+  }
+
+  getAll(query?: Key | FakeIDBKeyRange | null, count?: number): FakeIDBRequest<unknown[]> {
+    return this.transaction.request(this, () => limit(
+      this.sortedRecords().filter(entry => query === undefined || query === null || matches(query, entry.key)), count
+    ).map(entry => structuredClone(entry.value)));
+  }
+
+  getAllKeys(query?: Key | FakeIDBKeyRange | null, count?: number): FakeIDBRequest<Key[]> {
+    return this.transaction.request(this, () => limit(
+      this.sortedRecords().filter(entry => query === undefined || query === null || matches(query, entry.key)), count
+    ).map(entry => entry.key));
+  }
+
+  count(query?: Key | FakeIDBKeyRange | null): FakeIDBRequest<number> {
+    return this.transaction.request(this, () =>
+      this.sortedRecords().filter(entry => query === undefined || query === null || matches(query, entry.key)).length
+    );
+  }
+
+  delete(query: Key | FakeIDBKeyRange): FakeIDBRequest<undefined> {
+    this.transaction.snapshot(this.name, this.schema);
+    return this.transaction.request(this, () => {
+      for (const [serialized, entry] of [...this.schema.records]) {
+        if (matches(query, entry.key)) {
+          this.schema.records.delete(serialized);
+        }
+      }
+      return undefined;
+    });
+  }
+
+  clear(): FakeIDBRequest<undefined> {
+    this.transaction.snapshot(this.name, this.schema);
+    return this.transaction.request(this, () => {
+      this.schema.records.clear();
+      return undefined;
+    });
+  }
+
+  openCursor(query?: Key | FakeIDBKeyRange | null, direction: IDBCursorDirection = 'next'): FakeIDBRequest<FakeIDBCursor | null> {
+    return openCursor(this, this.transaction, () =>
+      this.sortedRecords().map(entry => ({ key: entry.key, primaryKey: entry.key, value: entry.value })), query, direction, true);
+  }
+
+  openKeyCursor(query?: Key | FakeIDBKeyRange | null, direction: IDBCursorDirection = 'next'): FakeIDBRequest<FakeIDBCursor | null> {
+    return openCursor(this, this.transaction, () =>
+      this.sortedRecords().map(entry => ({ key: entry.key, primaryKey: entry.key, value: entry.value })), query, direction, false);
+  }
+
+  private write(value: unknown, explicitKey: Key | undefined, overwrite: boolean): FakeIDBRequest<Key> {
+    this.transaction.snapshot(this.name, this.schema);
+    const stored = structuredClone(value);
+    const { keyPath, autoIncrement } = this.schema;
+
+    let key: Key | undefined = explicitKey;
+    if (keyPath !== null) {
+      if (explicitKey !== undefined) {
+        throw new DOMException('A key was given for a store with a key path', 'DataError');
+      }
+      key = extractKey(stored, keyPath);
+    }
+    if (key === undefined && !autoIncrement) {
+      throw new DOMException('No key could be derived for the value', 'DataError');
+    }
+    if (key !== undefined) {
+      validateKey(key);
+    }
+
+    return this.transaction.request(this, () => {
+      if (key === undefined) {
+        key = this.schema.nextKey++;
+        if (typeof keyPath === 'string') {
+          injectKey(stored, keyPath, key);
+        }
+      } else if (typeof key === 'number' && autoIncrement) {
+        this.schema.nextKey = Math.max(this.schema.nextKey, Math.floor(key) + 1);
+      }
+
+      const serialized = serializeKey(key);
+      if (!overwrite && this.schema.records.has(serialized)) {
+        throw new DOMException('A record with this key already exists', 'ConstraintError');
+      }
+      this.checkUniqueIndexes(stored, serialized);
+      this.schema.records.set(serialized, { key, value: stored });
+      return key;
+    });
+  }
+
+  private checkUniqueIndexes(value: unknown, serialized: string): void {
+    for (const [name, index] of this.schema.indexes) {
+      if (!index.unique) continue;
+      const indexKey = extractKey(value, index.keyPath);
+      if (indexKey === undefined) continue;
+      for (const [otherSerialized, entry] of this.schema.records) {
+        if (otherSerialized !== serialized && compareKeys(extractKey(entry.value, index.keyPath) ?? [], indexKey) === 0) {
+          throw new DOMException(`Unique index '${name}' already has this key`, 'ConstraintError');
+        }
+      }
+    }
+  }
+
+  private sortedRecords(): Array<{ key: Key; value: unknown }> {
+    return [...this.schema.records.values()].sort((a, b) => compareKeys(a.key, b.key));
+  }
+}
+
+/**
+ * IDBIndex stand-in - entries are ordered by index key, then primary key
+ */
+export class FakeIDBIndex {
+  constructor(
+    readonly objectStore: FakeIDBObjectStore,
+    readonly name: string,
+    readonly keyPath: KeyPath,
+    readonly multiEntry: boolean,
+    private records: () => Iterable<{ key: Key; value: unknown }>
+  ) {}
+
+  get(query: Key | FakeIDBKeyRange): FakeIDBRequest<unknown> {
+    return this.objectStore.transaction.request(this, () => {
+      const entry = this.entries().find(item => matches(query, item.key));
+      return entry ? structuredClone(entry.value) : undefined;
+    });
+  }
+
+  getKey(query: Key | FakeIDBKeyRange): FakeIDBRequest<Key | undefined> {
+    return this.objectStore.transaction.request(this, () => this.entries().find(item => matches(query, item.key))?.primaryKey);
+  }
+
+  getAll(query?: Key | FakeIDBKeyRange | null, count?: number): FakeIDBRequest<unknown[]> {
+    return this.objectStore.transaction.request(this, () => limit(
+      this.entries().filter(item => query === undefined || query === null || matches(query, item.key)), count
+    ).map(item => structuredClone(item.value)));
+  }
+
+  getAllKeys(query?: Key | FakeIDBKeyRange | null, count?: number): FakeIDBRequest<Key[]> {
+    return this.objectStore.transaction.request(this, () => limit(
+      this.entries().filter(item => query === undefined || query === null || matches(query, item.key)), count
+    ).map(item => item.primaryKey));
+  }
+
+  count(query?: Key | FakeIDBKeyRange | null): FakeIDBRequest<number> {
+    return this.objectStore.transaction.request(this, () =>
+      this.entries().filter(item => query === undefined || query === null || matches(query, item.key)).length
+    );
+  }
+
+  openCursor(query?: Key | FakeIDBKeyRange | null, direction: IDBCursorDirection = 'next'): FakeIDBRequest<FakeIDBCursor | null> {
+    return openCursor(this, this.objectStore.transaction, () => this.entries(), query, direction, true);
+  }
+
+  openKeyCursor(query?: Key | FakeIDBKeyRange | null, direction: IDBCursorDirection = 'next'): FakeIDBRequest<FakeIDBCursor | null> {
+    return openCursor(this, this.objectStore.transaction, () => this.entries(), query, direction, false);
+  }
+
+  private entries(): Array<{ key: Key; primaryKey: Key; value: unknown }> {
+    const entries: Array<{ key: Key; primaryKey: Key; value: unknown }> = [];
+    for (const record of this.records()) {
+      const indexKey = extractKey(record.value, this.keyPath);
+      if (indexKey === undefined || !isValidKey(indexKey)) continue;
+
+      const keys = this.multiEntry && Array.isArray(indexKey) ? indexKey : [indexKey];
+      for (const key of keys) {
+        entries.push({ key, primaryKey: record.key, value: record.value });
+      }
+    }
+    return entries.sort((a, b) => compareKeys(a.key, b.key) || compareKeys(a.primaryKey, b.primaryKey));
+  }
+}
+
+/**
+ * IDBCursor stand-in - walks a snapshot of matching entries taken when it opened
+ */
+export class FakeIDBCursor {
+  private position = 0;
+
+  constructor(
+    readonly source: unknown,
+    readonly direction: IDBCursorDirection,
+    private request: FakeIDBRequest<FakeIDBCursor | null>,
+    private transaction: FakeIDBTransaction,
+    private entries: Array<{ key: Key; primaryKey: Key; value: unknown }>,
+    private withValues: boolean
+  ) {}
+
+  get key(): Key {
+    return this.entries[this.position].key;
+  }
+
+  get primaryKey(): Key {
+    return this.entries[this.position].primaryKey;
+  }
+
+  get value(): unknown {
+    return this.withValues ? structuredClone(this.entries[this.position].value) : undefined;
+  }
+
+  continue(key?: Key): void {
+    this.step(() => {
+      do {
+        this.position++;
+      } while (key !== undefined && this.position < this.entries.length && compareKeys(this.key, key) < 0);
+    });
+  }
+
+  advance(count: number): void {
+    this.step(() => {
+      this.position += count;
+    });
+  }
+
+  delete(): FakeIDBRequest<undefined> {
+    const store = this.source instanceof FakeIDBIndex ? this.source.objectStore : this.source as FakeIDBObjectStore;
+    return store.delete(this.primaryKey);
+  }
+
+  update(value: unknown): FakeIDBRequest<Key> {
+    const store = this.source instanceof FakeIDBIndex ? this.source.objectStore : this.source as FakeIDBObjectStore;
+    return store.keyPath === null ? store.put(value, this.primaryKey) : store.put(value);
+  }
+
+  private step(move: () => void): void {
+    this.transaction.request(this.source, () => {
+      move();
+      return this.position < this.entries.length ? this : null;
+    }, this.request);
+  }
+}
+
+class FakeDOMStringList {
+  constructor(private items: string[]) {}
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  contains(name: string): boolean {
+    return this.items.includes(name);
+  }
+
+  item(index: number): string | null {
+    return this.items[index] ?? null;
+  }
+
+  [Symbol.iterator](): Iterator<string> {
+    return this.items[Symbol.iterator]();
+  }
+}
+
+function openCursor(
+  source: unknown,
+  transaction: FakeIDBTransaction,
+  entries: () => Array<{ key: Key; primaryKey: Key; value: unknown }>,
+  query: Key | FakeIDBKeyRange | null | undefined,
+  direction: IDBCursorDirection,
+  withValues: boolean
+): FakeIDBRequest<FakeIDBCursor | null> {
+  let cursorRequest: FakeIDBRequest<FakeIDBCursor | null>;
+  cursorRequest = transaction.request(source, () => {
+    let selected = entries().filter(entry => query === undefined || query === null || matches(query, entry.key));
+    if (direction === 'prev' || direction === 'prevunique') {
+      selected = selected.reverse();
+    }
+    if (direction === 'nextunique' || direction === 'prevunique') {
+      selected = selected.filter((entry, index) => index === 0 || compareKeys(entry.key, selected[index - 1].key) !== 0);
+    }
+    return selected.length > 0 ? new FakeIDBCursor(source, direction, cursorRequest, transaction, selected, withValues) : null;
+  });
+  return cursorRequest;
+}
+
+function matches(query: Key | FakeIDBKeyRange, key: Key): boolean {
+  return query instanceof FakeIDBKeyRange ? query.includes(key) : compareKeys(validateKey(query), key) === 0;
+}
+
+function limit<T>(items: T[], count?: number): T[] {
+  return count !== undefined && count > 0 ? items.slice(0, count) : items;
+}
+
+function extractKey(value: unknown, keyPath: KeyPath): Key | undefined {
+  if (Array.isArray(keyPath)) {
+    const keys = keyPath.map(path => extractKey(value, path));
+    return keys.some(key => key === undefined) ? undefined : keys as Key[];
+  }
+  if (keyPath === '') {
+    return value as Key;
+  }
+
+  let current: unknown = value;
+  for (const part of keyPath.split('.')) {
+    if (current === null || typeof current !== 'object' || !(part in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current as Key;
+}
+
+function injectKey(value: unknown, keyPath: string, key: Key): void {
+  const parts = keyPath.split('.');
+  let current = value as Record<string, unknown>;
+  for (const part of parts.slice(0, -1)) {
+    current[part] ??= {};
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = key;
+}
+
+function isValidKey(key: unknown): key is Key {
+  if (typeof key === 'number') return !Number.isNaN(key);
+  if (typeof key === 'string' || key instanceof ArrayBuffer) return true;
+  if (key instanceof Date) return !Number.isNaN(key.getTime());
+  if (ArrayBuffer.isView(key)) return true;
+  return Array.isArray(key) && key.every(isValidKey);
+}
+
+function validateKey(key: unknown): Key {
+  if (!isValidKey(key)) {
+    throw new DOMException(`Invalid key: ${String(key)}`, 'DataError');
+  }
+  return key;
+}
+
+// Keys order by type first (number < date < string < binary < array), then by value
+function compareKeys(a: Key, b: Key): number {
+  const rank = (key: Key) => typeof key === 'number' ? 0 : key instanceof Date ? 1 : typeof key === 'string' ? 2 : Array.isArray(key) ? 4 : 3;
+  const rankA = rank(a);
+  const rankB = rank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  switch (rankA) {
+    case 0:
+      return (a as number) - (b as number);
+    case 1:
+      return (a as Date).getTime() - (b as Date).getTime();
+    case 2:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 3: {
+      const bytesA = toBytes(a);
+      const bytesB = toBytes(b);
+      for (let i = 0; i < Math.min(bytesA.length, bytesB.length); i++) {
+        if (bytesA[i] !== bytesB[i]) return bytesA[i] - bytesB[i];
+      }
+      return bytesA.length - bytesB.length;
+    }
+    default: {
+      const arrayA = a as Key[];
+      const arrayB = b as Key[];
+      for (let i = 0; i < Math.min(arrayA.length, arrayB.length); i++) {
+        const order = compareKeys(arrayA[i], arrayB[i]);
+        if (order !== 0) return order;
+      }
+      return arrayA.length - arrayB.length;
+    }
+  }
+}
+
+function toBytes(key: Key): Uint8Array {
+  return ArrayBuffer.isView(key) ? new Uint8Array(key.buffer, key.byteOffset, key.byteLength) : new Uint8Array(key as ArrayBuffer);
+}
+
+function serializeKey(key: Key): string {
+  if (typeof key === 'number') return `n:${key}`;
+  if (typeof key === 'string') return `s:${key}`;
+  if (key instanceof Date) return `d:${key.getTime()}`;
+  if (Array.isArray(key)) return `a:[${key.map(serializeKey).join(',')}]`;
+  return `b:${Array.from(toBytes(key)).join(',')}`;
+}
@@ -0,0 +1,90 @@
+// FakeMediaDevices.ts
+// navigator.mediaDevices and localStorage stand-ins for output device selection
+// Devices are plugged in and removed by the test, firing devicechange like the browser does
+
+export interface FakeOutputDevice {
+  deviceId: string;
+  label?: string;    // (default: '')
+  groupId?: string;  // (default: the deviceId)
+}
+
+/**
+ * MediaDevices stand-in listing audio outputs only
+ * Starts with the 'default' output, as Chrome lists it
+ */
+export class FakeMediaDevices extends EventTarget {
+  ondevicechange: ((event: Event) => void) | null = null;
+  private outputs: FakeOutputDevice[] = [{ deviceId: 'default', label: 'Default', groupId: 'default' }];
+
+  async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+    return this.outputs.map(({ deviceId, label = '', groupId = deviceId }) => ({
+      deviceId,
+      label,
+      groupId,
+      kind: 'audiooutput' as const,
+      toJSON() {
+        return { deviceId, label, groupId, kind: 'audiooutput' };
+      }
+    }));
+  }
+
+  /**
+   * Plug in an output, replacing one with the same id
+   */
+  addOutputDevice(device: FakeOutputDevice): void {
+    this.outputs = [...this.outputs.filter(output => output.deviceId !== device.deviceId), device];
+    this.fireDeviceChange();
+  }
+
+  /**
+   * Unplug an output - contexts routed to it keep their sinkId, as in a browser
+   */
+  removeOutputDevice(deviceId: string): void {
+    this.outputs = this.outputs.filter(output => output.deviceId !== deviceId);
+    this.fireDeviceChange();
+  }
+
+  hasOutputDevice(deviceId: string): boolean {
+    return deviceId === '' || this.outputs.some(output => output.deviceId === deviceId);
+  }
+
+  // Browsers fire devicechange as a task, after the change is visible to enumerateDevices()
+  private fireDeviceChange(): void {
+    queueMicrotask(() => {
+      const event = new Event('devicechange');
+      this.ondevicechange?.(event);
+      this.dispatchEvent(event);
+    });
+  }
+}
+
+/**
+ * localStorage stand-in - one per installFakeBrowser(), so persisted choices can be carried into a second install
+ */
+export class FakeStorage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(String(key)) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(String(key), String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(String(key));
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
@@ -0,0 +1,180 @@
+// z-web-audio-stream/testing - headless browser stand-ins for running the library in Node
+// Playback runs through the real audio-playback-processor on a virtual clock, with IndexedDB and fetch in memory
+
+import { AudioExporter, type ExportFormat } from '../AudioExporter.js';
+import {
+  FakeAudioBuffer,
+  FakeAudioContext,
+  FakeAudioWorkletNode,
+  FakeOfflineAudioContext,
+  type FakeAudioContextOptions
+} from './FakeAudioContext.js';
+import { FakeFetch } from './FakeFetch.js';
+import { FakeIDBFactory, FakeIDBKeyRange } from './FakeIndexedDB.js';
+import { FakeMediaDevices, FakeStorage } from './FakeMediaDevices.js';
+
+export {
+  FakeAudioContext,
+  FakeOfflineAudioContext,
+  FakeBaseAudioContext,
+  FakeAudioBuffer,
+  FakeAudioParam,
+  FakeAudioNode,
+  FakeGainNode,
+  FakeChannelSplitterNode,
+  FakeChannelMergerNode,
+  FakeBiquadFilterNode,
+  FakeDynamicsCompressorNode,
+  FakeAnalyserNode,
+  FakeAudioBufferSourceNode,
+  FakeAudioWorkletNode,
+  FakeAudioWorkletProcessor,
+  FakeAudioWorklet,
+  FakeAudioDestinationNode,
+  FakeMessagePort,
+  decodeWav
+} from './FakeAudioContext.js';
+export type { FakeAudioContextOptions, FakeAudioDecoder } from './FakeAudioContext.js';
+
+export {
+  FakeIDBFactory,
+  FakeIDBDatabase,
+  FakeIDBTransaction,
+  FakeIDBObjectStore,
+  FakeIDBIndex,
+  FakeIDBCursor,
+  FakeIDBRequest,
+  FakeIDBOpenDBRequest,
+  FakeIDBKeyRange
+} from './FakeIndexedDB.js';
+
+export { FakeFetch } from './FakeFetch.js';
+export type { FakeFetchRoute, FakeFetchRequest } from './FakeFetch.js';
+
+export { FakeMediaDevices, FakeStorage } from './FakeMediaDevices.js';
+export type { FakeOutputDevice } from './FakeMediaDevices.js';
+
+export interface FakeBrowserOptions {
+  audioContext?: FakeAudioContextOptions; // Defaults for every `new AudioContext()` (constructor options still win)
+  userAgent?: string;                     // navigator.userAgent, e.g. an iOS Safari string to exercise the iOS paths
+  crossOriginIsolated?: boolean;          // Enables SharedArrayBuffer position reads (default: false, the message fallback)
+  localStorage?: FakeStorage;             // Storage from an earlier install, to test what persists across sessions
+}
+
+export interface FakeBrowser {
+  fetch: FakeFetch;
+  indexedDB: FakeIDBFactory;
+  mediaDevices: FakeMediaDevices;           // navigator.mediaDevices - plug output devices in and out
+  localStorage: FakeStorage;
+  audioContexts: FakeAudioContext[];        // Every context constructed through the installed AudioContext, in order
+  advance(seconds: number): Promise<void>;  // Advance every context created since install
+  uninstall(): void;                        // Put back the globals that were there before
+}
+
+export interface ToneWavOptions {
+  frequency?: number;   // Hz (default: 440)
+  duration?: number;    // Seconds (default: 1)
+  sampleRate?: number;  // (default: 44100)
+  channels?: number;    // (default: 2)
+  amplitude?: number;   // Peak level, 0 to 1 (default: 0.5)
+  format?: ExportFormat; // (default: 'wav16')
+}
+
+const INSTALLED_GLOBALS = [
+  'window',
+  'navigator',
+  'crossOriginIsolated',
+  'AudioContext',
+  'OfflineAudioContext',
+  'AudioWorkletNode',
+  'AudioBuffer',
+  'indexedDB',
+  'IDBKeyRange',
+  'fetch',
+  'localStorage'
+] as const;
+
+/**
+ * Install the fakes as globals, so WebAudioManager, AudioChunkStore and DownloadManager run unchanged in Node
+ * `window` is globalThis; `document` stays undefined, so nothing waits for a user gesture - call initialize() instead
+ */
+export function installFakeBrowser(options: FakeBrowserOptions = {}): FakeBrowser {
+  const scope = globalThis as Record<string, unknown>;
+  const previous = new Map(INSTALLED_GLOBALS.map(name => [name, Object.getOwnPropertyDescriptor(globalThis, name)]));
+  const fetchMock = new FakeFetch();
+  const indexedDB = new FakeIDBFactory();
+  const mediaDevices = new FakeMediaDevices();
+  const localStorage = options.localStorage ?? new FakeStorage();
+  const audioContexts: FakeAudioContext[] = [];
+
+  class InstalledAudioContext extends FakeAudioContext {
+    constructor(contextOptions: FakeAudioContextOptions = {}) {
+      super({ ...options.audioContext, ...contextOptions });
+      audioContexts.push(this);
+    }
+  }
+
+  const values: Record<(typeof INSTALLED_GLOBALS)[number], unknown> = {
+    window: globalThis,
+    navigator: { userAgent: options.userAgent ?? 'Mozilla/5.0 (Node.js) z-web-audio-stream/testing', mediaDevices },
+    crossOriginIsolated: options.crossOriginIsolated ?? false,
+    AudioContext: InstalledAudioContext,
+    OfflineAudioContext: FakeOfflineAudioContext,
+    AudioWorkletNode: FakeAudioWorkletNode,
+    AudioBuffer: FakeAudioBuffer,
+    indexedDB,
+    IDBKeyRange: FakeIDBKeyRange,
+    fetch: fetchMock.fetch,
+    localStorage
+  };
+  for (const name of INSTALLED_GLOBALS) {
+    Object.defineProperty(scope, name, { value: values[name], configurable: true, writable: true, enumerable: false });
+  }
+
+  return {
+    fetch: fetchMock,
+    indexedDB,
+    mediaDevices,
+    localStorage,
+    audioContexts,
+    advance: async (seconds: number) => {
+      for (const context of audioContexts) {
+        await context.advance(seconds);
+      }
+    },
+    uninstall: () => {
+      for (const [name, descriptor] of previous) {
+        if (descriptor) {
+          Object.defineProperty(scope, name, descriptor);
+        } else {
+          delete scope[name];
+        }
+      }
+    }
+  };
+}
+
+/**
+ * A sine tone as a WAV file - something to serve through FakeFetch or decode directly
+ */
+export function createToneWav(options: ToneWavOptions = {}): Uint8Array {
+  const frequency = options.frequency ?? 440;
+  const sampleRate = options.sampleRate ?? 44100;
+  const channels = options.channels ?? 2;
+  const amplitude = options.amplitude ?? 0.5;
+  const format = options.format ?? 'wav16';
+  const frames = Math.round((options.duration ?? 1) * sampleRate);
+
+  const tone = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    tone[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  }
+  const channelData = Array.from({ length: channels }, () => tone);
+
+  const header = AudioExporter.encodeWavHeader(format, sampleRate, channels, frames);
+  const data = AudioExporter.encodeFrames(channelData, format, 0, frames);
+  const wav = new Uint8Array(header.byteLength + data.byteLength);
+  wav.set(header);
+  wav.set(data, header.byteLength);
+  return wav;
+}